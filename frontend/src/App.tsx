@@ -7,9 +7,12 @@ import DashboardPage from '@/pages/DashboardPage'
 import IntegrationsPage from '@/pages/IntegrationsPage'
 import AccountsPage from '@/pages/AccountsPage'
 import ActivityPage from '@/pages/ActivityPage'
+import CampaignsPage from '@/pages/CampaignsPage'
 import SettingsPage from '@/pages/SettingsPage'
 import IntegrationWizardPage from '@/pages/IntegrationWizardPage'
 import TestPage from '@/pages/TestPage'
+import InvitationPage from '@/pages/InvitationPage'
+import SsoCallbackPage from '@/pages/SsoCallbackPage'
 import { useEffect } from 'react'
 
 function App() {
@@ -32,6 +35,7 @@ function App() {
       <Routes>
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
+        <Route path="/sso/callback" element={<SsoCallbackPage />} />
         <Route path="*" element={<Navigate to="/login" replace />} />
       </Routes>
     )
@@ -46,9 +50,11 @@ function App() {
         <Route path="/integrations/:id/continue" element={<IntegrationWizardPage />} />
         <Route path="/integrations/:id/edit" element={<IntegrationWizardPage />} />
         <Route path="/accounts" element={<AccountsPage />} />
+        <Route path="/campaigns" element={<CampaignsPage />} />
         <Route path="/activity" element={<ActivityPage />} />
         <Route path="/settings" element={<SettingsPage />} />
         <Route path="/test" element={<TestPage />} />
+        <Route path="/invitations/:token" element={<InvitationPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </Layout>
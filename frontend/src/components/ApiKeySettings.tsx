@@ -0,0 +1,249 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/utils/api'
+import toast from 'react-hot-toast'
+import { CommandLineIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline'
+
+interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  expiresAt?: string
+  lastUsedAt?: string
+  lastUsedIp?: string
+  revokedAt?: string
+  createdAt: string
+  organization: { id: string; name: string }
+}
+
+type Access = 'none' | 'read' | 'write'
+
+const resources: { key: string; label: string }[] = [
+  { key: 'integrations', label: 'Integrations' },
+  { key: 'accounts', label: 'Connected accounts' },
+  { key: 'sync', label: 'Sync events' },
+  { key: 'campaigns', label: 'Campaigns' },
+  { key: 'do_not_call', label: 'Do-not-call list' },
+  { key: 'crm', label: 'CRM schema' },
+  { key: 'organizations', label: 'Organization' },
+  { key: 'user', label: 'Profile' },
+]
+
+const expiryOptions = [
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: 0, label: 'Never' },
+]
+
+const emptyForm = {
+  name: '',
+  access: Object.fromEntries(resources.map(resource => [resource.key, 'none'])) as Record<string, Access>,
+  expiresInDays: 90,
+}
+
+export default function ApiKeySettings({ subscriptionTier }: { subscriptionTier?: string }) {
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState(emptyForm)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+
+  const { data: keys } = useQuery({
+    queryKey: ['api-keys'],
+    queryFn: async () => {
+      const response = await api.get('/api-keys')
+      return response.data.data as ApiKey[]
+    },
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; scopes: string[]; expiresInDays?: number }) => {
+      const response = await api.post('/api-keys', data)
+      return response.data
+    },
+    onSuccess: (result) => {
+      setCreatedKey(result.data.key)
+      setForm(emptyForm)
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+      toast.success('API key created')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create API key')
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: string) => {
+      const response = await api.delete(`/api-keys/${keyId}`)
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+      toast.success('API key revoked')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke API key')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const scopes = Object.entries(form.access)
+      .filter(([, access]) => access !== 'none')
+      .map(([resource, access]) => `${resource}:${access}`)
+
+    if (scopes.length === 0) {
+      toast.error('Give the key access to at least one resource')
+      return
+    }
+
+    createMutation.mutate({
+      name: form.name,
+      scopes,
+      expiresInDays: form.expiresInDays || undefined,
+    })
+  }
+
+  const copyKey = async () => {
+    if (createdKey) {
+      await navigator.clipboard.writeText(createdKey)
+      toast.success('Copied to clipboard')
+    }
+  }
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <CommandLineIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-lg font-medium text-gray-900">API Keys</h2>
+      </div>
+
+      {createdKey && (
+        <div className="mb-6 rounded-md bg-green-50 border border-green-200 p-4">
+          <p className="text-sm font-medium text-green-800 mb-2">
+            Copy your new key now. It won't be shown again.
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 text-sm bg-white border border-green-200 rounded px-2 py-1 break-all">{createdKey}</code>
+            <button onClick={copyKey} className="p-1 text-green-700 hover:text-green-900" title="Copy">
+              <ClipboardDocumentIcon className="h-5 w-5" />
+            </button>
+          </div>
+          <button onClick={() => setCreatedKey(null)} className="mt-2 text-sm text-green-700 hover:text-green-900">
+            Done
+          </button>
+        </div>
+      )}
+
+      {keys && keys.length > 0 && (
+        <ul className="divide-y divide-gray-200 mb-6">
+          {keys.map(key => {
+            const expired = key.expiresAt && new Date(key.expiresAt) < new Date()
+
+            return (
+              <li key={key.id} className="py-3 flex items-start justify-between">
+                <div className={key.revokedAt || expired ? 'opacity-50' : ''}>
+                  <p className="text-sm font-medium text-gray-900">
+                    {key.name} <code className="ml-1 text-gray-500">{key.prefix}…</code>
+                  </p>
+                  <p className="text-xs text-gray-500">{key.scopes.join(', ')} · {key.organization.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {key.lastUsedAt
+                      ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}${key.lastUsedIp ? ` from ${key.lastUsedIp}` : ''}`
+                      : 'Never used'}
+                    {' · '}
+                    {key.revokedAt
+                      ? `Revoked ${new Date(key.revokedAt).toLocaleDateString()}`
+                      : key.expiresAt
+                        ? `${expired ? 'Expired' : 'Expires'} ${new Date(key.expiresAt).toLocaleDateString()}`
+                        : 'Never expires'}
+                  </p>
+                </div>
+                {!key.revokedAt && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Revoke "${key.name}"? Anything using it will stop working.`)) {
+                        revokeMutation.mutate(key.id)
+                      }
+                    }}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {subscriptionTier !== 'enterprise' ? (
+        <p className="text-sm text-gray-500">API access is available on the Enterprise plan.</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Key Name
+              </label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="e.g. Reporting script"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Expires
+              </label>
+              <select
+                value={form.expiresInDays}
+                onChange={(e) => setForm({ ...form, expiresInDays: Number(e.target.value) })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {expiryOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Access
+            </label>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {resources.map(resource => (
+                <div key={resource.key} className="flex items-center justify-between">
+                  <span className="text-sm text-gray-700">{resource.label}</span>
+                  <select
+                    value={form.access[resource.key]}
+                    onChange={(e) => setForm({
+                      ...form,
+                      access: { ...form.access, [resource.key]: e.target.value as Access },
+                    })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="none">No access</option>
+                    <option value="read">Read</option>
+                    <option value="write">Read & write</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button type="submit" disabled={createMutation.isPending} className="btn-primary">
+              {createMutation.isPending ? 'Creating...' : 'Create API Key'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
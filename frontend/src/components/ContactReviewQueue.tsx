@@ -0,0 +1,226 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/utils/api'
+import toast from 'react-hot-toast'
+import { UserPlusIcon, CheckCircleIcon, UsersIcon } from '@heroicons/react/24/outline'
+
+interface Candidate {
+  id: string
+  name?: string
+  score: number
+  signals: { phone: number; email: number; name: number; company: number }
+  updatedAt?: string
+}
+
+interface ContactReview {
+  id: string
+  integrationName: string
+  createdAt: string
+  call: {
+    callId: string
+    direction?: string
+    fromNumber?: string
+    toNumber?: string
+    startedAt?: string
+    durationSeconds?: number
+    callerName?: string
+    summary?: string
+  }
+  candidates: Candidate[]
+  otherCandidates: Candidate[]
+}
+
+type Resolution =
+  | { action: 'select'; contactId: string }
+  | { action: 'create' }
+  | { action: 'merge'; contactId: string; mergeContactIds: string[] }
+
+const signalLabels: { key: keyof Candidate['signals']; label: string }[] = [
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'name', label: 'Name' },
+  { key: 'company', label: 'Company' },
+]
+
+export default function ContactReviewQueue() {
+  const queryClient = useQueryClient()
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: ['contact-reviews'],
+    queryFn: async () => {
+      const response = await api.get('/sync/reviews')
+      return response.data.data as ContactReview[]
+    },
+  })
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ reviewId, resolution }: { reviewId: string; resolution: Resolution }) => {
+      const response = await api.post(`/sync/events/${reviewId}/review`, resolution)
+      return response.data
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['contact-reviews'] })
+      queryClient.invalidateQueries({ queryKey: ['activity-feed'] })
+      toast.success(result.message || 'Contact review resolved')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to resolve review')
+    },
+  })
+
+  if (isLoading) {
+    return (
+      <div className="card p-6">
+        <div className="animate-pulse h-4 bg-gray-200 rounded w-1/2"></div>
+      </div>
+    )
+  }
+
+  if (!reviews || reviews.length === 0) {
+    return (
+      <div className="card p-8 text-center">
+        <CheckCircleIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to review</h3>
+        <p className="text-gray-600">
+          Calls that match several CRM contacts equally well will wait here until you pick the right one.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 overflow-y-auto pr-2 -mr-2" style={{ maxHeight: 'calc(100vh - 280px)' }}>
+      {reviews.map((review) => (
+        <ReviewCard
+          key={review.id}
+          review={review}
+          isResolving={resolveMutation.isPending && resolveMutation.variables?.reviewId === review.id}
+          onResolve={(resolution) => resolveMutation.mutate({ reviewId: review.id, resolution })}
+        />
+      ))}
+    </div>
+  )
+}
+
+function ReviewCard({
+  review,
+  isResolving,
+  onResolve,
+}: {
+  review: ContactReview
+  isResolving: boolean
+  onResolve: (resolution: Resolution) => void
+}) {
+  const [mergeIds, setMergeIds] = useState<string[]>([])
+  const [keepId, setKeepId] = useState<string>(review.candidates[0]?.id || '')
+  const phone = review.call.direction === 'outbound' ? review.call.toNumber : review.call.fromNumber
+
+  const toggleMerge = (id: string) => {
+    setMergeIds((current) => (current.includes(id) ? current.filter((x) => x !== id) : [...current, id]))
+  }
+
+  // The kept contact has to be one of those being merged
+  const keep = mergeIds.includes(keepId) ? keepId : mergeIds[0]
+  const duplicates = mergeIds.filter((id) => id !== keep)
+
+  return (
+    <div className="card p-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Call summary */}
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            {review.call.callerName || phone || 'Unknown caller'}
+          </p>
+          <p className="mt-1 text-sm text-gray-500">
+            {[
+              phone,
+              review.integrationName,
+              review.call.startedAt && new Date(review.call.startedAt).toLocaleString(),
+            ].filter(Boolean).join(' • ')}
+          </p>
+          <p className="mt-3 text-sm text-gray-700 whitespace-pre-line">
+            {review.call.summary || 'No call summary available.'}
+          </p>
+        </div>
+
+        {/* Candidate contacts */}
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-2">Possible contacts</p>
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {review.candidates.map((candidate) => (
+              <div key={candidate.id} className="p-3 flex items-center justify-between">
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={mergeIds.includes(candidate.id)}
+                    onChange={() => toggleMerge(candidate.id)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300"
+                    title="Include in merge"
+                  />
+                  <div>
+                    <p className="text-sm text-gray-900">
+                      {candidate.name || `Contact ${candidate.id}`}
+                      <span className="ml-2 text-xs text-gray-500">{Math.round(candidate.score * 100)}%</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {signalLabels
+                        .filter(({ key }) => candidate.signals[key] > 0)
+                        .map(({ key, label }) => (candidate.signals[key] === 1 ? label : `${label} ~${Math.round(candidate.signals[key] * 100)}%`))
+                        .join(', ') || 'No matching fields'}
+                      {candidate.updatedAt && ` • updated ${new Date(candidate.updatedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onResolve({ action: 'select', contactId: candidate.id })}
+                  disabled={isResolving}
+                  className="btn-outline text-xs"
+                >
+                  Use contact
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {mergeIds.length > 1 && (
+            <div className="mt-3 flex items-center space-x-2">
+              <span className="text-sm text-gray-700">Keep</span>
+              <select
+                value={keep}
+                onChange={(e) => setKeepId(e.target.value)}
+                className="block rounded-md border-gray-300 shadow-sm sm:text-sm"
+              >
+                {review.candidates
+                  .filter((candidate) => mergeIds.includes(candidate.id))
+                  .map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.name || candidate.id}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+
+          <div className="mt-4 flex items-center space-x-3">
+            <button
+              onClick={() => onResolve({ action: 'merge', contactId: keep, mergeContactIds: duplicates })}
+              disabled={isResolving || !keep || duplicates.length === 0}
+              className="btn-outline flex items-center"
+            >
+              <UsersIcon className="h-4 w-4 mr-1" />
+              Merge selected
+            </button>
+            <button
+              onClick={() => onResolve({ action: 'create' })}
+              disabled={isResolving}
+              className="btn-primary flex items-center"
+            >
+              <UserPlusIcon className="h-4 w-4 mr-1" />
+              Create new contact
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
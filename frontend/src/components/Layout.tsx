@@ -12,6 +12,7 @@ import {
   XMarkIcon,
   BellIcon,
   LinkIcon,
+  MegaphoneIcon,
 } from '@heroicons/react/24/outline'
 
 interface LayoutProps {
@@ -22,6 +23,7 @@ const navigation = [
   { name: 'Dashboard', href: '/', icon: HomeIcon },
   { name: 'Integrations', href: '/integrations', icon: DocumentDuplicateIcon },
   { name: 'Accounts', href: '/accounts', icon: LinkIcon },
+  { name: 'Campaigns', href: '/campaigns', icon: MegaphoneIcon },
   { name: 'Activity', href: '/activity', icon: ChartBarIcon },
   { name: 'Settings', href: '/settings', icon: CogIcon },
 ]
@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/utils/api'
+import { useAuthStore } from '@/store/authStore'
+import toast from 'react-hot-toast'
+import { ComputerDesktopIcon, DevicePhoneMobileIcon, ShieldCheckIcon } from '@heroicons/react/24/outline'
+
+interface Session {
+  id: string
+  userAgent?: string
+  ipAddress?: string
+  lastUsedAt: string
+  createdAt: string
+  current: boolean
+}
+
+// Enough to tell devices apart without a user-agent parsing library
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return { label: 'Unknown device', mobile: false }
+
+  const browser = ['Edg', 'Chrome', 'Firefox', 'Safari'].find(name => userAgent.includes(`${name}/`))
+  const os = ['iPhone', 'iPad', 'Android', 'Windows', 'Mac OS X', 'Linux'].find(name => userAgent.includes(name))
+  const label = [browser === 'Edg' ? 'Edge' : browser, os === 'Mac OS X' ? 'macOS' : os].filter(Boolean).join(' on ')
+
+  return {
+    label: label || userAgent.substring(0, 60),
+    mobile: ['iPhone', 'Android'].includes(os || ''),
+  }
+}
+
+export default function SessionSettings() {
+  const queryClient = useQueryClient()
+  const { logout } = useAuthStore()
+
+  const { data: sessions } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await api.get('/user/sessions')
+      return response.data.data as Session[]
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await api.delete(`/user/sessions/${sessionId}`)
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      toast.success('Session signed out')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out session')
+    },
+  })
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.delete('/user/sessions')
+      return response.data
+    },
+    onSuccess: () => {
+      toast.success('Signed out everywhere')
+      logout()
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out everywhere')
+    },
+  })
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <ShieldCheckIcon className="h-6 w-6 text-blue-600" />
+          <h2 className="text-lg font-medium text-gray-900">Sessions</h2>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm('Sign out of every device, including this one?')) {
+              signOutEverywhereMutation.mutate()
+            }
+          }}
+          disabled={signOutEverywhereMutation.isPending}
+          className="btn-danger"
+        >
+          Sign Out Everywhere
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {sessions?.map(session => {
+          const device = describeDevice(session.userAgent)
+          const Icon = device.mobile ? DevicePhoneMobileIcon : ComputerDesktopIcon
+
+          return (
+            <li key={session.id} className="py-3 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Icon className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {device.label} {session.current && <span className="text-green-600">(this device)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ipAddress || 'Unknown location'} · Last active {new Date(session.lastUsedAt).toLocaleString()} ·
+                    Signed in {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Sign out
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,422 @@
+import { useState, useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/utils/api'
+import toast from 'react-hot-toast'
+import { FingerPrintIcon, CheckCircleIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+type Role = 'owner' | 'admin' | 'editor' | 'viewer'
+
+interface Organization {
+  id: string
+  role: Role
+  current: boolean
+}
+
+type Protocol = 'oidc' | 'saml'
+
+interface SsoConnection {
+  id: string
+  protocol: Protocol
+  issuer: string
+  clientId?: string
+  ssoUrl?: string
+  certificate?: string
+  defaultRole: Exclude<Role, 'owner'>
+  enforced: boolean
+  redirectUri: string
+  samlEntityId: string
+  samlAcsUrl: string
+}
+
+interface SsoDomain {
+  id: string
+  domain: string
+  verifiedAt?: string
+  verificationRecord: string
+}
+
+const emptyForm = {
+  protocol: 'oidc' as Protocol,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  ssoUrl: '',
+  certificate: '',
+  defaultRole: 'viewer' as SsoConnection['defaultRole'],
+  enforced: false,
+}
+
+export default function SsoSettings({ subscriptionTier }: { subscriptionTier?: string }) {
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState(emptyForm)
+  const [newDomain, setNewDomain] = useState('')
+
+  const { data: organizations } = useQuery({
+    queryKey: ['organizations'],
+    queryFn: async () => {
+      const response = await api.get('/organizations')
+      return response.data.data as Organization[]
+    },
+  })
+
+  const current = organizations?.find(organization => organization.current)
+  const canView = current?.role === 'owner' || current?.role === 'admin'
+  const isOwner = current?.role === 'owner'
+
+  const { data: sso } = useQuery({
+    queryKey: ['organization-sso', current?.id],
+    queryFn: async () => {
+      const response = await api.get('/organizations/sso')
+      return response.data.data as { connection: SsoConnection | null; domains: SsoDomain[] }
+    },
+    enabled: canView,
+  })
+
+  useEffect(() => {
+    if (sso?.connection) {
+      const { protocol, issuer, clientId, ssoUrl, certificate, defaultRole, enforced } = sso.connection
+      setForm({
+        protocol,
+        issuer,
+        clientId: clientId || '',
+        clientSecret: '',
+        ssoUrl: ssoUrl || '',
+        certificate: certificate || '',
+        defaultRole,
+        enforced,
+      })
+    }
+  }, [sso?.connection])
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['organization-sso'] })
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error || fallback)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof emptyForm) => {
+      const { protocol, issuer, defaultRole, enforced } = data
+      const protocolFields = protocol === 'saml'
+        ? { ssoUrl: data.ssoUrl, certificate: data.certificate }
+        : { clientId: data.clientId, clientSecret: data.clientSecret || undefined }
+
+      const response = await api.put('/organizations/sso', { protocol, issuer, defaultRole, enforced, ...protocolFields })
+      return response.data
+    },
+    onSuccess: () => {
+      invalidate()
+      toast.success('Single sign-on saved')
+    },
+    onError: onError('Failed to save single sign-on'),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.delete('/organizations/sso')
+      return response.data
+    },
+    onSuccess: () => {
+      setForm(emptyForm)
+      invalidate()
+      toast.success('Single sign-on removed')
+    },
+    onError: onError('Failed to remove single sign-on'),
+  })
+
+  const addDomainMutation = useMutation({
+    mutationFn: async (domain: string) => {
+      const response = await api.post('/organizations/sso/domains', { domain })
+      return response.data
+    },
+    onSuccess: () => {
+      setNewDomain('')
+      invalidate()
+    },
+    onError: onError('Failed to add domain'),
+  })
+
+  const verifyDomainMutation = useMutation({
+    mutationFn: async (domainId: string) => {
+      const response = await api.post(`/organizations/sso/domains/${domainId}/verify`)
+      return response.data
+    },
+    onSuccess: (result) => {
+      invalidate()
+      toast.success(result.message || 'Domain verified')
+    },
+    onError: onError('Failed to verify domain'),
+  })
+
+  const removeDomainMutation = useMutation({
+    mutationFn: async (domainId: string) => {
+      const response = await api.delete(`/organizations/sso/domains/${domainId}`)
+      return response.data
+    },
+    onSuccess: () => invalidate(),
+    onError: onError('Failed to remove domain'),
+  })
+
+  if (!canView) return null
+
+  const connection = sso?.connection
+  const domains = sso?.domains || []
+  const hasVerifiedDomain = domains.some(domain => domain.verifiedAt)
+  const isSaml = form.protocol === 'saml'
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <FingerPrintIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-lg font-medium text-gray-900">Single Sign-On</h2>
+      </div>
+
+      {subscriptionTier !== 'enterprise' && !connection ? (
+        <p className="text-sm text-gray-500">Single sign-on is available on the Enterprise plan.</p>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-1">Domains</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              People signing in with an email on a verified domain are sent to your identity provider.
+              Verify a domain by adding the TXT record shown to its DNS.
+            </p>
+
+            {domains.length > 0 && (
+              <ul className="divide-y divide-gray-200 mb-3">
+                {domains.map(domain => (
+                  <li key={domain.id} className="py-2 flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 flex items-center">
+                        {domain.domain}
+                        {domain.verifiedAt && <CheckCircleIcon className="h-4 w-4 ml-1 text-green-600" />}
+                      </p>
+                      {!domain.verifiedAt && (
+                        <p className="text-xs text-gray-500">
+                          TXT record: <code className="bg-gray-50 px-1">{domain.verificationRecord}</code>
+                        </p>
+                      )}
+                    </div>
+                    {isOwner && (
+                      <div className="flex items-center space-x-3">
+                        {!domain.verifiedAt && (
+                          <button
+                            onClick={() => verifyDomainMutation.mutate(domain.id)}
+                            disabled={verifyDomainMutation.isPending}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            Verify
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            if (window.confirm(`Remove ${domain.domain}?`)) {
+                              removeDomainMutation.mutate(domain.id)
+                            }
+                          }}
+                          className="text-red-600 hover:text-red-800"
+                          title="Remove"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {isOwner && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  addDomainMutation.mutate(newDomain)
+                }}
+                className="flex space-x-2"
+              >
+                <input
+                  type="text"
+                  required
+                  value={newDomain}
+                  onChange={(e) => setNewDomain(e.target.value)}
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="example.com"
+                />
+                <button type="submit" disabled={addDomainMutation.isPending} className="btn-secondary">
+                  Add Domain
+                </button>
+              </form>
+            )}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              saveMutation.mutate(form)
+            }}
+            className="space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900">Identity Provider</h3>
+              <select
+                disabled={!isOwner}
+                value={form.protocol}
+                onChange={(e) => setForm({ ...form, protocol: e.target.value as Protocol })}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="oidc">OpenID Connect</option>
+                <option value="saml">SAML 2.0</option>
+              </select>
+            </div>
+            {connection && !isSaml && (
+              <p className="text-sm text-gray-500">
+                Redirect URI to register with your identity provider:{' '}
+                <code className="bg-gray-50 px-1 break-all">{connection.redirectUri}</code>
+              </p>
+            )}
+            {connection && isSaml && (
+              <p className="text-sm text-gray-500">
+                Set up your identity provider with our metadata at{' '}
+                <code className="bg-gray-50 px-1 break-all">{connection.samlEntityId}</code>, or enter the
+                entity ID above and the ACS URL{' '}
+                <code className="bg-gray-50 px-1 break-all">{connection.samlAcsUrl}</code>. Send a persistent or
+                email NameID and an <code className="bg-gray-50 px-1">email</code> attribute.
+              </p>
+            )}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {isSaml ? 'Identity Provider Entity ID' : 'Issuer URL'}
+                </label>
+                <input
+                  type={isSaml ? 'text' : 'url'}
+                  required
+                  disabled={!isOwner}
+                  value={form.issuer}
+                  onChange={(e) => setForm({ ...form, issuer: e.target.value })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder={isSaml ? 'https://idp.example.com/metadata' : 'https://login.example.com'}
+                />
+              </div>
+              {isSaml ? (
+                <>
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Sign-On URL
+                    </label>
+                    <input
+                      type="url"
+                      required
+                      disabled={!isOwner}
+                      value={form.ssoUrl}
+                      onChange={(e) => setForm({ ...form, ssoUrl: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      placeholder="https://idp.example.com/sso/saml"
+                    />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Signing Certificate
+                    </label>
+                    <textarea
+                      required
+                      rows={5}
+                      disabled={!isOwner}
+                      value={form.certificate}
+                      onChange={(e) => setForm({ ...form, certificate: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm font-mono text-xs focus:border-blue-500 focus:ring-blue-500"
+                      placeholder="-----BEGIN CERTIFICATE-----"
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Client ID
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      disabled={!isOwner}
+                      value={form.clientId}
+                      onChange={(e) => setForm({ ...form, clientId: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Client Secret
+                    </label>
+                    <input
+                      type="password"
+                      required={connection?.protocol !== 'oidc'}
+                      disabled={!isOwner}
+                      value={form.clientSecret}
+                      onChange={(e) => setForm({ ...form, clientSecret: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      placeholder={connection?.protocol === 'oidc' ? 'Unchanged' : ''}
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Role for New Members
+                </label>
+                <select
+                  disabled={!isOwner}
+                  value={form.defaultRole}
+                  onChange={(e) => setForm({ ...form, defaultRole: e.target.value as SsoConnection['defaultRole'] })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="viewer">Viewer</option>
+                  <option value="editor">Editor</option>
+                  <option value="admin">Admin</option>
+                </select>
+              </div>
+            </div>
+
+            <label className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                disabled={!isOwner || !hasVerifiedDomain}
+                checked={form.enforced}
+                onChange={(e) => setForm({ ...form, enforced: e.target.checked })}
+                className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">
+                Require single sign-on
+                <span className="block text-xs text-gray-500">
+                  Turns off password sign-in and sign-up for everyone on your verified domains.
+                  Check that single sign-on works first.
+                </span>
+              </span>
+            </label>
+
+            {isOwner && (
+              <div className="flex justify-end space-x-3">
+                {connection && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm('Remove single sign-on? Members will need passwords to sign in.')) {
+                        removeMutation.mutate()
+                      }
+                    }}
+                    disabled={removeMutation.isPending}
+                    className="btn-danger"
+                  >
+                    Remove
+                  </button>
+                )}
+                <button type="submit" disabled={saveMutation.isPending} className="btn-primary">
+                  {saveMutation.isPending ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
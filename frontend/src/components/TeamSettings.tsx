@@ -0,0 +1,321 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api, setActiveOrganizationId } from '@/utils/api'
+import { useAuthStore } from '@/store/authStore'
+import toast from 'react-hot-toast'
+import { UserGroupIcon, TrashIcon, EnvelopeIcon } from '@heroicons/react/24/outline'
+
+type Role = 'owner' | 'admin' | 'editor' | 'viewer'
+
+interface Organization {
+  id: string
+  name: string
+  personal: boolean
+  role: Role
+  memberCount: number
+  current: boolean
+}
+
+interface Member {
+  id: string
+  role: Role
+  joinedAt: string
+  user: { id: string; email: string; firstName?: string; lastName?: string }
+}
+
+interface Invitation {
+  id: string
+  email: string
+  role: Role
+  expiresAt: string
+}
+
+const roles: { value: Role; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Sees integrations and sync activity' },
+  { value: 'editor', label: 'Editor', description: 'Edits integrations, campaigns and reviews' },
+  { value: 'admin', label: 'Admin', description: 'Connects accounts and manages members' },
+  { value: 'owner', label: 'Owner', description: 'Full control of the organization' },
+]
+
+const rank: Record<Role, number> = { viewer: 0, editor: 1, admin: 2, owner: 3 }
+
+export default function TeamSettings() {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: Role }>({ email: '', role: 'viewer' })
+  const [newOrganizationName, setNewOrganizationName] = useState('')
+
+  const { data: organizations } = useQuery({
+    queryKey: ['organizations'],
+    queryFn: async () => {
+      const response = await api.get('/organizations')
+      return response.data.data as Organization[]
+    },
+  })
+
+  const current = organizations?.find(organization => organization.current)
+  const isAdmin = current ? rank[current.role] >= rank.admin : false
+
+  const { data: members } = useQuery({
+    queryKey: ['organization-members', current?.id],
+    queryFn: async () => {
+      const response = await api.get('/organizations/members')
+      return response.data.data as Member[]
+    },
+    enabled: !!current,
+  })
+
+  const { data: invitations } = useQuery({
+    queryKey: ['organization-invitations', current?.id],
+    queryFn: async () => {
+      const response = await api.get('/organizations/invitations')
+      return response.data.data as Invitation[]
+    },
+    enabled: isAdmin,
+  })
+
+  // Everything on screen belongs to the previous organization
+  const switchOrganization = (organizationId: string | null) => {
+    setActiveOrganizationId(organizationId)
+    queryClient.invalidateQueries()
+  }
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error || fallback)
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await api.post('/organizations', { name })
+      return response.data
+    },
+    onSuccess: (result) => {
+      setNewOrganizationName('')
+      switchOrganization(result.data.id)
+      toast.success(result.message || 'Organization created')
+    },
+    onError: onError('Failed to create organization'),
+  })
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: { email: string; role: Role }) => {
+      const response = await api.post('/organizations/invitations', data)
+      return response.data
+    },
+    onSuccess: (result) => {
+      setInviteForm({ email: '', role: 'viewer' })
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations'] })
+      toast.success(result.message || 'Invitation sent')
+    },
+    onError: onError('Failed to send invitation'),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await api.delete(`/organizations/invitations/${invitationId}`)
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations'] })
+      toast.success('Invitation revoked')
+    },
+    onError: onError('Failed to revoke invitation'),
+  })
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: Role }) => {
+      const response = await api.patch(`/organizations/members/${memberId}`, { role })
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members'] })
+      toast.success('Role updated')
+    },
+    onError: onError('Failed to update role'),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (member: Member) => {
+      const response = await api.delete(`/organizations/members/${member.id}`)
+      return response.data
+    },
+    onSuccess: (_result, member) => {
+      if (member.user.id === user?.id) {
+        switchOrganization(null)
+        toast.success(`You left ${current?.name}`)
+        return
+      }
+      queryClient.invalidateQueries({ queryKey: ['organization-members'] })
+      toast.success('Member removed')
+    },
+    onError: onError('Failed to remove member'),
+  })
+
+  const handleInviteSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    inviteMutation.mutate(inviteForm)
+  }
+
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (newOrganizationName.trim()) {
+      createMutation.mutate(newOrganizationName.trim())
+    }
+  }
+
+  if (!current) {
+    return (
+      <div className="card p-6">
+        <div className="animate-pulse h-4 bg-gray-200 rounded w-1/2"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <UserGroupIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-lg font-medium text-gray-900">Team</h2>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Organization
+          </label>
+          <select
+            value={current.id}
+            onChange={(e) => switchOrganization(e.target.value)}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {organizations?.map(organization => (
+              <option key={organization.id} value={organization.id}>
+                {organization.name} ({organization.role})
+              </option>
+            ))}
+          </select>
+        </div>
+        <form onSubmit={handleCreateSubmit}>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            New Organization
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newOrganizationName}
+              onChange={(e) => setNewOrganizationName(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder="Organization name"
+            />
+            <button type="submit" disabled={createMutation.isPending} className="btn-secondary">
+              Create
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <h3 className="text-sm font-medium text-gray-900 mb-3">Members</h3>
+      <ul className="divide-y divide-gray-200 mb-6">
+        {members?.map(member => {
+          const isSelf = member.user.id === user?.id
+          const name = [member.user.firstName, member.user.lastName].filter(Boolean).join(' ')
+
+          return (
+            <li key={member.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {name || member.user.email} {isSelf && <span className="text-gray-500">(you)</span>}
+                </p>
+                {name && <p className="text-sm text-gray-500">{member.user.email}</p>}
+              </div>
+              <div className="flex items-center space-x-2">
+                {isAdmin && !isSelf ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => roleMutation.mutate({ memberId: member.id, role: e.target.value as Role })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {roles.map(role => (
+                      <option key={role.value} value={role.value}>{role.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-gray-600 capitalize">{member.role}</span>
+                )}
+                {(isAdmin || isSelf) && !(isSelf && current.personal) && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(isSelf ? `Leave ${current.name}?` : `Remove ${member.user.email}?`)) {
+                        removeMutation.mutate(member)
+                      }
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title={isSelf ? 'Leave organization' : 'Remove member'}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      {isAdmin && (
+        <>
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Invite Someone</h3>
+          <form onSubmit={handleInviteSubmit} className="flex flex-col gap-2 sm:flex-row mb-2">
+            <input
+              type="email"
+              required
+              value={inviteForm.email}
+              onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder="colleague@company.com"
+            />
+            <select
+              value={inviteForm.role}
+              onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as Role })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {roles
+                .filter(role => role.value !== 'owner' || current.role === 'owner')
+                .map(role => (
+                  <option key={role.value} value={role.value}>{role.label}</option>
+                ))}
+            </select>
+            <button type="submit" disabled={inviteMutation.isPending} className="btn-primary whitespace-nowrap">
+              {inviteMutation.isPending ? 'Sending...' : 'Send Invite'}
+            </button>
+          </form>
+          <p className="text-sm text-gray-500 mb-4">
+            {roles.find(role => role.value === inviteForm.role)?.description}
+          </p>
+
+          {invitations && invitations.length > 0 && (
+            <ul className="divide-y divide-gray-200">
+              {invitations.map(invitation => (
+                <li key={invitation.id} className="py-2 flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-sm text-gray-700">
+                    <EnvelopeIcon className="h-4 w-4 text-gray-400" />
+                    <span>{invitation.email}</span>
+                    <span className="text-gray-500 capitalize">({invitation.role})</span>
+                    <span className="text-gray-400">
+                      expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/utils/api'
+import toast from 'react-hot-toast'
+import { LockClosedIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt?: string
+  recoveryCodesRemaining: number
+}
+
+interface Setup {
+  secret: string
+  otpauthUrl: string
+}
+
+type Action = 'regenerate' | 'disable' | null
+
+// Groups of four are easier to type into an authenticator app
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') || secret
+
+export default function TwoFactorSettings() {
+  const queryClient = useQueryClient()
+  const [setup, setSetup] = useState<Setup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [action, setAction] = useState<Action>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+
+  const { data: status } = useQuery({
+    queryKey: ['two-factor'],
+    queryFn: async () => {
+      const response = await api.get('/user/two-factor')
+      return response.data.data as TwoFactorStatus
+    },
+  })
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error || fallback)
+    setCode('')
+  }
+
+  const finish = () => {
+    setAction(null)
+    setCode('')
+    setPassword('')
+    queryClient.invalidateQueries({ queryKey: ['two-factor'] })
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/user/two-factor/setup')
+      return response.data.data as Setup
+    },
+    onSuccess: (data) => setSetup(data),
+    onError: onError('Failed to start setup'),
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.post('/user/two-factor/enable', { code })
+      return response.data.data as { recoveryCodes: string[] }
+    },
+    onSuccess: (data) => {
+      setSetup(null)
+      setRecoveryCodes(data.recoveryCodes)
+      finish()
+      toast.success('Two-factor authentication enabled')
+    },
+    onError: onError('Failed to enable two-factor authentication'),
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.post('/user/two-factor/recovery-codes', { code })
+      return response.data.data as { recoveryCodes: string[] }
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes)
+      finish()
+      toast.success('New recovery codes generated')
+    },
+    onError: onError('Failed to regenerate recovery codes'),
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { password: string; code?: string; recoveryCode?: string }) => {
+      const response = await api.delete('/user/two-factor', { data })
+      return response.data
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null)
+      finish()
+      toast.success('Two-factor authentication disabled')
+    },
+    onError: onError('Failed to disable two-factor authentication'),
+  })
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (setup) {
+      enableMutation.mutate(code)
+    } else if (action === 'regenerate') {
+      regenerateMutation.mutate(code)
+    } else if (action === 'disable') {
+      // Six digits is an app code; anything else is taken as a recovery code
+      disableMutation.mutate(/^\d{6}$/.test(code) ? { password, code } : { password, recoveryCode: code })
+    }
+  }
+
+  const copyCodes = async () => {
+    if (recoveryCodes) {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      toast.success('Copied to clipboard')
+    }
+  }
+
+  const isPending = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <LockClosedIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-lg font-medium text-gray-900">Two-Factor Authentication</h2>
+      </div>
+
+      {recoveryCodes && (
+        <div className="mb-6 rounded-md bg-green-50 border border-green-200 p-4">
+          <p className="text-sm font-medium text-green-800 mb-2">
+            Save these recovery codes somewhere safe. Each works once if you lose your authenticator, and they won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 bg-white border border-green-200 rounded px-3 py-2 mb-2">
+            {recoveryCodes.map(recoveryCode => (
+              <code key={recoveryCode} className="text-sm">{recoveryCode}</code>
+            ))}
+          </div>
+          <div className="flex items-center space-x-4">
+            <button onClick={copyCodes} className="flex items-center text-sm text-green-700 hover:text-green-900">
+              <ClipboardDocumentIcon className="h-4 w-4 mr-1" /> Copy
+            </button>
+            <button onClick={() => setRecoveryCodes(null)} className="text-sm text-green-700 hover:text-green-900">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status?.enabled ? (
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-green-700">Enabled</p>
+            <p className="text-xs text-gray-500">
+              Since {new Date(status.enabledAt!).toLocaleDateString()} · {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+            </p>
+          </div>
+          {!action && (
+            <div className="flex space-x-3">
+              <button onClick={() => setAction('regenerate')} className="btn-secondary">
+                New Recovery Codes
+              </button>
+              <button onClick={() => setAction('disable')} className="btn-danger">
+                Disable
+              </button>
+            </div>
+          )}
+        </div>
+      ) : setup ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Add this key to your authenticator app, or open the setup link on the device that has the app.
+            Then enter the 6-digit code it shows.
+          </p>
+          <code className="block text-sm bg-gray-50 border border-gray-200 rounded px-3 py-2 tracking-wider">
+            {formatSecret(setup.secret)}
+          </code>
+          <a href={setup.otpauthUrl} className="text-sm text-blue-600 hover:text-blue-800">
+            Open setup link
+          </a>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Require a code from an authenticator app as well as your password when signing in.
+          </p>
+          <button
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            className="btn-primary"
+          >
+            Set Up
+          </button>
+        </div>
+      )}
+
+      {(setup || action) && (
+        <form onSubmit={handleConfirm} className="mt-4 space-y-4">
+          {action === 'disable' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                type="password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {action === 'disable' ? 'Authentication or recovery code' : 'Authentication code'}
+            </label>
+            <input
+              type="text"
+              required
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder="123456"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setSetup(null)
+                setAction(null)
+                setCode('')
+                setPassword('')
+              }}
+              className="btn-secondary"
+            >
+              Cancel
+            </button>
+            <button type="submit" disabled={isPending} className={action === 'disable' ? 'btn-danger' : 'btn-primary'}>
+              {setup ? 'Enable' : action === 'disable' ? 'Disable' : 'Generate Codes'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,623 @@
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+export interface WorkflowTrigger {
+  event: string // 'call_analyzed'
+}
+
+export interface WorkflowCondition {
+  field: string // e.g., 'call.call_analysis.custom_analysis_data.consultation_booking_status'
+  operator: string // 'equals', 'contains', 'not_equals', 'exists', etc.
+  value?: any
+  logicalOperator?: 'AND' | 'OR' // how a top-level condition joins the one before it
+}
+
+export interface WorkflowConditionGroup {
+  operator: 'AND' | 'OR' | 'NOT'
+  conditions: WorkflowConditionNode[]
+}
+
+export type WorkflowConditionNode = WorkflowCondition | WorkflowConditionGroup
+
+export interface WorkflowAction {
+  type: string // 'create_deal', 'update_person', 'create_activity', etc.
+  crmObject: string // 'person', 'deal', 'activity'
+  fields: { [key: string]: string | number | boolean } // field mappings for this action
+  conditions?: WorkflowConditionNode[] // optional conditions for this specific action
+  outputName?: string // later actions reference the result as {{actions.<outputName>.id}}
+}
+
+export interface BusinessWorkflow {
+  id: string
+  name: string
+  description?: string
+  trigger: WorkflowTrigger
+  conditions: WorkflowConditionNode[]
+  actions: WorkflowAction[]
+  enabled: boolean
+}
+
+interface FieldOption {
+  id: string
+  name: string
+}
+
+interface WorkflowBuilderProps {
+  workflows: BusinessWorkflow[]
+  onChange: (workflows: BusinessWorkflow[]) => void
+  fieldOptions?: FieldOption[]
+}
+
+// Keep these in sync with businessWorkflowSchema in the API
+const TRIGGER_EVENTS = [
+  { value: 'call_analyzed', label: 'Call analyzed' },
+]
+
+const CONDITION_OPERATORS = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'not_equals', label: 'does not equal', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not_contains', label: 'does not contain', needsValue: true },
+  { value: 'greater_than', label: 'is greater than', needsValue: true },
+  { value: 'less_than', label: 'is less than', needsValue: true },
+  { value: 'exists', label: 'has a value', needsValue: false },
+  { value: 'not_exists', label: 'is empty', needsValue: false },
+  { value: 'indicates_success', label: 'looks successful', needsValue: false },
+  { value: 'indicates_booking', label: 'looks like a booking', needsValue: false },
+  { value: 'indicates_failure', label: 'looks like a failure', needsValue: false },
+]
+
+const ACTION_TYPES = [
+  { value: 'create_person', label: 'Create contact', crmObject: 'person', fields: ['name', 'phone', 'email'] },
+  { value: 'update_person', label: 'Update contact', crmObject: 'person', fields: ['person_id', 'name', 'phone', 'email'] },
+  { value: 'create_deal', label: 'Create deal', crmObject: 'deal', fields: ['title', 'person_id', 'value', 'currency'] },
+  { value: 'update_deal', label: 'Update deal', crmObject: 'deal', fields: ['deal_id', 'stage_id', 'title', 'value'] },
+  { value: 'create_activity', label: 'Log activity', crmObject: 'activity', fields: ['subject', 'type', 'note', 'person_id', 'deal_id'] },
+]
+
+const MAX_GROUP_DEPTH = 3
+
+const OUTPUT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+export function isConditionGroup(node: WorkflowConditionNode): node is WorkflowConditionGroup {
+  return Array.isArray((node as WorkflowConditionGroup).conditions)
+}
+
+function operatorNeedsValue(operator: string): boolean {
+  return CONDITION_OPERATORS.find(op => op.value === operator)?.needsValue ?? false
+}
+
+function validateConditions(nodes: WorkflowConditionNode[], path: string, errors: string[]) {
+  nodes.forEach((node, index) => {
+    const label = `${path} ${index + 1}`
+    if (isConditionGroup(node)) {
+      if (node.conditions.length === 0) {
+        errors.push(`${label}: ${node.operator} group needs at least one condition`)
+      }
+      validateConditions(node.conditions, `${label} →`, errors)
+      return
+    }
+
+    if (!node.field?.trim()) {
+      errors.push(`${label}: choose a field`)
+    }
+    if (!CONDITION_OPERATORS.some(op => op.value === node.operator)) {
+      errors.push(`${label}: choose a comparison`)
+    } else if (operatorNeedsValue(node.operator) && (node.value === undefined || node.value === '')) {
+      errors.push(`${label}: enter a value to compare against`)
+    }
+  })
+}
+
+/**
+ * Client-side mirror of the API's workflow schema, so problems show up
+ * while editing instead of when the integration is saved.
+ */
+export function validateWorkflow(workflow: BusinessWorkflow): string[] {
+  const errors: string[] = []
+
+  if (!workflow.name?.trim()) {
+    errors.push('Give the workflow a name')
+  }
+  if (!TRIGGER_EVENTS.some(event => event.value === workflow.trigger?.event)) {
+    errors.push('Choose a trigger event')
+  }
+
+  validateConditions(workflow.conditions || [], 'Condition', errors)
+
+  if (!workflow.actions?.length) {
+    errors.push('Add at least one action')
+  }
+  const earlierOutputs = new Set<string>()
+  workflow.actions?.forEach((action, index) => {
+    if (!ACTION_TYPES.some(type => type.value === action.type)) {
+      errors.push(`Action ${index + 1}: choose an action type`)
+    }
+    if (Object.keys(action.fields || {}).some(key => !key.trim())) {
+      errors.push(`Action ${index + 1}: every field needs a name`)
+    }
+    validateConditions(action.conditions || [], `Action ${index + 1} condition`, errors)
+
+    // {{actions.<name>.*}} only resolves for outputs of earlier actions
+    Object.values(action.fields || {}).forEach(value => {
+      for (const match of String(value).matchAll(/\{\{\s*actions\.([A-Za-z0-9_]+)/g)) {
+        if (!earlierOutputs.has(match[1])) {
+          errors.push(`Action ${index + 1}: no earlier action saves its result as "${match[1]}"`)
+        }
+      }
+    })
+
+    if (action.outputName !== undefined) {
+      if (!OUTPUT_NAME_PATTERN.test(action.outputName)) {
+        errors.push(`Action ${index + 1}: result names use letters, digits and underscores`)
+      } else if (earlierOutputs.has(action.outputName)) {
+        errors.push(`Action ${index + 1}: result name "${action.outputName}" is already used`)
+      }
+      earlierOutputs.add(action.outputName)
+    }
+  })
+
+  return errors
+}
+
+function parseConditionValue(raw: string): any {
+  // The engine compares strictly, so booleans from call analysis need real booleans
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  return raw
+}
+
+interface ConditionListProps {
+  nodes: WorkflowConditionNode[]
+  onChange: (nodes: WorkflowConditionNode[]) => void
+  depth: number
+  showJoins: boolean
+  fieldListId: string
+}
+
+function ConditionList({ nodes, onChange, depth, showJoins, fieldListId }: ConditionListProps) {
+  const updateNode = (index: number, node: WorkflowConditionNode) => {
+    onChange(nodes.map((existing, i) => (i === index ? node : existing)))
+  }
+
+  const removeNode = (index: number) => {
+    onChange(nodes.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      {nodes.map((node, index) => (
+        <div key={index}>
+          {showJoins && index > 0 && !isConditionGroup(node) && (
+            <select
+              className="input w-20 text-xs mb-1"
+              value={node.logicalOperator || 'AND'}
+              onChange={(e) => updateNode(index, { ...node, logicalOperator: e.target.value as 'AND' | 'OR' })}
+            >
+              <option value="AND">AND</option>
+              <option value="OR">OR</option>
+            </select>
+          )}
+          {isConditionGroup(node) ? (
+            <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2 text-sm text-gray-700">
+                  <select
+                    className="input w-28 text-sm"
+                    value={node.operator}
+                    onChange={(e) => updateNode(index, { ...node, operator: e.target.value as WorkflowConditionGroup['operator'] })}
+                  >
+                    <option value="AND">All of</option>
+                    <option value="OR">Any of</option>
+                    <option value="NOT">None of</option>
+                  </select>
+                  <span>these conditions</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeNode(index)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove group"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+              <ConditionList
+                nodes={node.conditions}
+                onChange={(conditions) => updateNode(index, { ...node, conditions })}
+                depth={depth + 1}
+                showJoins={false}
+                fieldListId={fieldListId}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                className="input flex-1 text-sm"
+                list={fieldListId}
+                placeholder="call.call_analysis.call_successful"
+                value={node.field}
+                onChange={(e) => updateNode(index, { ...node, field: e.target.value })}
+              />
+              <select
+                className="input w-44 text-sm"
+                value={node.operator}
+                onChange={(e) => {
+                  const operator = e.target.value
+                  updateNode(index, operatorNeedsValue(operator)
+                    ? { ...node, operator }
+                    : { ...node, operator, value: undefined })
+                }}
+              >
+                <option value="">Comparison...</option>
+                {CONDITION_OPERATORS.map(op => (
+                  <option key={op.value} value={op.value}>{op.label}</option>
+                ))}
+              </select>
+              {operatorNeedsValue(node.operator) && (
+                <input
+                  type="text"
+                  className="input w-36 text-sm"
+                  placeholder="Value"
+                  value={node.value === undefined ? '' : String(node.value)}
+                  onChange={(e) => updateNode(index, { ...node, value: parseConditionValue(e.target.value) })}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => removeNode(index)}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove condition"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          className="text-xs text-primary-600 hover:text-primary-800 flex items-center"
+          onClick={() => onChange([...nodes, { field: '', operator: 'equals', value: '' }])}
+        >
+          <PlusIcon className="h-3 w-3 mr-1" /> Condition
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            className="text-xs text-primary-600 hover:text-primary-800 flex items-center"
+            onClick={() => onChange([...nodes, { operator: 'OR', conditions: [{ field: '', operator: 'equals', value: '' }] }])}
+          >
+            <PlusIcon className="h-3 w-3 mr-1" /> Group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ActionEditorProps {
+  action: WorkflowAction
+  index: number
+  count: number
+  onChange: (action: WorkflowAction) => void
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+  fieldListId: string
+}
+
+function ActionEditor({ action, index, count, onChange, onMove, onRemove, fieldListId }: ActionEditorProps) {
+  const fieldEntries = Object.entries(action.fields || {})
+
+  const setFields = (entries: [string, string | number | boolean][]) => {
+    onChange({ ...action, fields: Object.fromEntries(entries) })
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <span className="w-6 h-6 bg-primary-100 text-primary-800 rounded-full flex items-center justify-center text-xs font-medium">
+            {index + 1}
+          </span>
+          <select
+            className="input w-44 text-sm"
+            value={action.type}
+            onChange={(e) => {
+              const type = ACTION_TYPES.find(t => t.value === e.target.value)
+              onChange({
+                ...action,
+                type: e.target.value,
+                crmObject: type?.crmObject || action.crmObject,
+              })
+            }}
+          >
+            <option value="">Action...</option>
+            {ACTION_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button type="button" disabled={index === 0} onClick={() => onMove(-1)} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up">
+            <ArrowUpIcon className="h-4 w-4" />
+          </button>
+          <button type="button" disabled={index === count - 1} onClick={() => onMove(1)} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down">
+            <ArrowDownIcon className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={onRemove} className="p-1 text-gray-400 hover:text-red-600" title="Remove action">
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {fieldEntries.map(([key, value], fieldIndex) => (
+          <div key={fieldIndex} className="flex items-center space-x-2">
+            <input
+              type="text"
+              className="input w-40 text-sm"
+              placeholder="Field"
+              value={key}
+              onChange={(e) => setFields(fieldEntries.map((entry, i) => (i === fieldIndex ? [e.target.value, entry[1]] : entry)))}
+            />
+            <input
+              type="text"
+              className="input flex-1 text-sm"
+              placeholder="{{call.call_analysis.call_summary}}"
+              value={String(value)}
+              onChange={(e) => setFields(fieldEntries.map((entry, i) => (i === fieldIndex ? [entry[0], e.target.value] : entry)))}
+            />
+            <button
+              type="button"
+              onClick={() => setFields(fieldEntries.filter((_, i) => i !== fieldIndex))}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove field"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            className="text-xs text-primary-600 hover:text-primary-800 flex items-center"
+            onClick={() => {
+              // Suggest the next field this action type usually needs
+              const suggested = ACTION_TYPES.find(t => t.value === action.type)?.fields.find(f => !(f in (action.fields || {})))
+              setFields([...fieldEntries, [suggested || '', '']])
+            }}
+          >
+            <PlusIcon className="h-3 w-3 mr-1" /> Field
+          </button>
+          {action.outputName === undefined && (
+            <button
+              type="button"
+              className="text-xs text-primary-600 hover:text-primary-800 flex items-center"
+              onClick={() => onChange({ ...action, outputName: `${action.crmObject || 'action'}${index + 1}` })}
+            >
+              <PlusIcon className="h-3 w-3 mr-1" /> Save result
+            </button>
+          )}
+          {!action.conditions && (
+            <button
+              type="button"
+              className="text-xs text-primary-600 hover:text-primary-800 flex items-center"
+              onClick={() => onChange({ ...action, conditions: [{ field: '', operator: 'equals', value: '' }] })}
+            >
+              <PlusIcon className="h-3 w-3 mr-1" /> Only run when...
+            </button>
+          )}
+        </div>
+      </div>
+
+      {action.outputName !== undefined && (
+        <div className="mt-3 flex items-center space-x-2 text-xs text-gray-600">
+          <span>Save result as</span>
+          <input
+            type="text"
+            className="input w-36 text-xs"
+            value={action.outputName}
+            onChange={(e) => onChange({ ...action, outputName: e.target.value })}
+          />
+          <span className="text-gray-400">use <code>{`{{actions.${action.outputName || 'name'}.id}}`}</code> in later actions</span>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-red-600"
+            onClick={() => {
+              const { outputName: _removed, ...rest } = action
+              onChange(rest)
+            }}
+            title="Don't save result"
+          >
+            <TrashIcon className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {action.conditions && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-medium text-gray-600">Only run this action when all of these match</p>
+            <button
+              type="button"
+              className="text-xs text-gray-500 hover:text-red-600"
+              onClick={() => {
+                const { conditions: _removed, ...rest } = action
+                onChange(rest)
+              }}
+            >
+              Always run
+            </button>
+          </div>
+          <ConditionList
+            nodes={action.conditions}
+            onChange={(conditions) => onChange({ ...action, conditions })}
+            depth={1}
+            showJoins={true}
+            fieldListId={fieldListId}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function WorkflowBuilder({ workflows, onChange, fieldOptions = [] }: WorkflowBuilderProps) {
+  const fieldListId = 'workflow-builder-fields'
+
+  const updateWorkflow = (index: number, workflow: BusinessWorkflow) => {
+    onChange(workflows.map((existing, i) => (i === index ? workflow : existing)))
+  }
+
+  const addWorkflow = () => {
+    onChange([
+      ...workflows,
+      {
+        id: `workflow_${Date.now()}`,
+        name: '',
+        description: '',
+        trigger: { event: 'call_analyzed' },
+        conditions: [],
+        actions: [{ type: 'create_activity', crmObject: 'activity', fields: { subject: 'Call', note: '{{call.call_analysis.call_summary}}' } }],
+        enabled: true,
+      },
+    ])
+  }
+
+  return (
+    <div className="space-y-6">
+      <datalist id={fieldListId}>
+        {fieldOptions.map(field => (
+          <option key={field.id} value={`call.${field.id}`}>{field.name}</option>
+        ))}
+      </datalist>
+
+      {workflows.length === 0 && (
+        <div className="text-center py-6 border-2 border-dashed border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-500">No workflows yet. Calls will still be logged to your CRM.</p>
+        </div>
+      )}
+
+      {workflows.map((workflow, index) => {
+        const errors = validateWorkflow(workflow)
+
+        const moveAction = (actionIndex: number, direction: -1 | 1) => {
+          const actions = [...workflow.actions]
+          const [moved] = actions.splice(actionIndex, 1)
+          actions.splice(actionIndex + direction, 0, moved)
+          updateWorkflow(index, { ...workflow, actions })
+        }
+
+        return (
+          <div key={workflow.id} className={`border rounded-lg p-4 ${errors.length ? 'border-red-300' : 'border-gray-200'}`}>
+            <div className="flex items-center justify-between mb-4">
+              <input
+                type="text"
+                className="input flex-1 mr-4"
+                placeholder="Workflow name"
+                value={workflow.name}
+                onChange={(e) => updateWorkflow(index, { ...workflow, name: e.target.value })}
+              />
+              <label className="flex items-center text-sm text-gray-700 mr-4">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={workflow.enabled}
+                  onChange={(e) => updateWorkflow(index, { ...workflow, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(workflows.filter((_, i) => i !== index))}
+                className="text-sm text-red-500 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">When</h5>
+                <select
+                  className="input w-60 text-sm"
+                  value={workflow.trigger?.event || ''}
+                  onChange={(e) => updateWorkflow(index, { ...workflow, trigger: { event: e.target.value } })}
+                >
+                  {TRIGGER_EVENTS.map(event => (
+                    <option key={event.value} value={event.value}>{event.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">And</h5>
+                {workflow.conditions.length === 0 && (
+                  <p className="text-xs text-gray-500 mb-2">No conditions: runs for every call.</p>
+                )}
+                <ConditionList
+                  nodes={workflow.conditions}
+                  onChange={(conditions) => updateWorkflow(index, { ...workflow, conditions })}
+                  depth={1}
+                  showJoins={true}
+                  fieldListId={fieldListId}
+                />
+              </div>
+
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">Then, in order</h5>
+                <div className="space-y-3">
+                  {workflow.actions.map((action, actionIndex) => (
+                    <ActionEditor
+                      key={actionIndex}
+                      action={action}
+                      index={actionIndex}
+                      count={workflow.actions.length}
+                      onChange={(updated) => updateWorkflow(index, {
+                        ...workflow,
+                        actions: workflow.actions.map((existing, i) => (i === actionIndex ? updated : existing)),
+                      })}
+                      onMove={(direction) => moveAction(actionIndex, direction)}
+                      onRemove={() => updateWorkflow(index, {
+                        ...workflow,
+                        actions: workflow.actions.filter((_, i) => i !== actionIndex),
+                      })}
+                      fieldListId={fieldListId}
+                    />
+                  ))}
+                  <button
+                    type="button"
+                    className="text-sm text-primary-600 hover:text-primary-800 flex items-center"
+                    onClick={() => updateWorkflow(index, {
+                      ...workflow,
+                      actions: [...workflow.actions, { type: '', crmObject: '', fields: {} }],
+                    })}
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" /> Add action
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+                <ul className="text-xs text-red-700 space-y-1">
+                  {errors.map((error, i) => (
+                    <li key={i}>• {error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      <button type="button" onClick={addWorkflow} className="btn-outline flex items-center">
+        <PlusIcon className="h-4 w-4 mr-2" /> Add workflow
+      </button>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { api } from '@/utils/api'
+import ContactReviewQueue from '@/components/ContactReviewQueue'
 import {
   PhoneIcon,
   CheckCircleIcon,
@@ -35,6 +36,7 @@ export default function ActivityPage() {
       const response = await api.get(`/user/activity-feed?filter=${activeFilter}&date=${selectedDate}`)
       return response.data.data
     },
+    enabled: activeFilter !== 'review',
   })
 
   const getStatusIcon = (status: string) => {
@@ -149,6 +151,7 @@ export default function ActivityPage() {
             { id: 'all', label: 'All Activity' },
             { id: 'calls', label: 'My Calls' },
             { id: 'settings', label: 'Settings' },
+            { id: 'review', label: 'Needs Review' },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -167,7 +170,9 @@ export default function ActivityPage() {
 
       {/* Activity Feed - Scrollable */}
       <div className="flex-1 min-h-0">
-        {activities && activities.length > 0 ? (
+        {activeFilter === 'review' ? (
+          <ContactReviewQueue />
+        ) : activities && activities.length > 0 ? (
           <div className="card h-full">
             <div className="h-full overflow-y-auto pr-2 -mr-2" style={{ maxHeight: 'calc(100vh - 280px)' }}>
               <div className="divide-y divide-gray-200">
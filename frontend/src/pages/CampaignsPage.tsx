@@ -0,0 +1,488 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/utils/api'
+import toast from 'react-hot-toast'
+import {
+  PlusIcon,
+  PlayIcon,
+  PauseIcon,
+  XCircleIcon,
+  ArrowLeftIcon,
+  MegaphoneIcon,
+} from '@heroicons/react/24/outline'
+
+interface Campaign {
+  id: string
+  name: string
+  status: 'draft' | 'running' | 'paused' | 'completed' | 'cancelled'
+  callsPerMinute: number
+  maxConcurrent: number
+  totalTargets: number
+  startedAt?: string
+  completedAt?: string
+  createdAt: string
+  integration: { name: string }
+  stats: Record<string, number>
+  outcomes?: { outcome: string; count: number }[]
+}
+
+interface CampaignTarget {
+  id: string
+  crmRecordId: string
+  name?: string
+  phone?: string
+  status: string
+  outcome?: string
+  retellCallId?: string
+  errorMessage?: string
+  dialedAt?: string
+  completedAt?: string
+}
+
+// Which CRM view each provider's campaigns are built from
+const SOURCE_TYPES: Record<string, { type: string; label: string }> = {
+  pipedrive: { type: 'pipedrive_filter', label: 'Pipedrive filter ID' },
+  hubspot: { type: 'hubspot_list', label: 'HubSpot list ID' },
+  salesforce: { type: 'salesforce_list_view', label: 'Salesforce list view ID' },
+  zoho: { type: 'zoho_custom_view', label: 'Zoho custom view ID' },
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  running: 'bg-green-100 text-green-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-blue-100 text-blue-700',
+  cancelled: 'bg-red-100 text-red-700',
+  pending: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-purple-100 text-purple-700',
+  dialing: 'bg-yellow-100 text-yellow-700',
+  in_progress: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-gray-100 text-gray-500',
+  blocked: 'bg-red-100 text-red-700',
+}
+
+const TARGET_STATUSES = ['pending', 'scheduled', 'dialing', 'in_progress', 'completed', 'failed', 'skipped', 'blocked', 'cancelled']
+
+const emptyForm = {
+  integrationId: '',
+  name: '',
+  sourceId: '',
+  objectType: 'leads',
+  callsPerMinute: 5,
+  maxConcurrent: 2,
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status] || 'bg-gray-100 text-gray-700'}`}>
+      {status.replace('_', ' ')}
+    </span>
+  )
+}
+
+export default function CampaignsPage() {
+  const queryClient = useQueryClient()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [targetStatus, setTargetStatus] = useState('')
+  const [page, setPage] = useState(1)
+
+  const { data: campaigns, isLoading } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: async () => {
+      const response = await api.get('/campaigns')
+      return response.data.data as Campaign[]
+    },
+    refetchInterval: 10000,
+  })
+
+  const { data: integrations } = useQuery({
+    queryKey: ['integrations'],
+    queryFn: async () => {
+      const response = await api.get('/integrations')
+      return response.data.data
+    },
+  })
+
+  const { data: campaign } = useQuery({
+    queryKey: ['campaign', selectedId],
+    queryFn: async () => {
+      const response = await api.get(`/campaigns/${selectedId}`)
+      return response.data.data as Campaign
+    },
+    enabled: !!selectedId,
+    refetchInterval: 5000,
+  })
+
+  const { data: targets } = useQuery({
+    queryKey: ['campaign-targets', selectedId, targetStatus, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: '25' })
+      if (targetStatus) params.set('status', targetStatus)
+      const response = await api.get(`/campaigns/${selectedId}/targets?${params}`)
+      return response.data as { data: CampaignTarget[]; pagination: { page: number; totalPages: number; total: number } }
+    },
+    enabled: !!selectedId,
+    refetchInterval: 5000,
+  })
+
+  const selectedIntegration = integrations?.find((integration: any) => integration.id === form.integrationId)
+  const provider: string | undefined = selectedIntegration?.crmAccount?.provider
+  const source = provider ? SOURCE_TYPES[provider] : undefined
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/campaigns', {
+        integrationId: form.integrationId,
+        name: form.name,
+        source: {
+          type: source?.type,
+          id: form.sourceId,
+          ...(provider === 'zoho' ? { objectType: form.objectType } : {}),
+        },
+        callsPerMinute: Number(form.callsPerMinute),
+        maxConcurrent: Number(form.maxConcurrent),
+      })
+      return response.data
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] })
+      toast.success(result.message || 'Campaign created')
+      setShowForm(false)
+      setForm(emptyForm)
+      setSelectedId(result.data.id)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create campaign')
+    },
+  })
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ campaignId, action }: { campaignId: string; action: 'start' | 'pause' | 'resume' | 'cancel' }) => {
+      const response = await api.post(`/campaigns/${campaignId}/${action}`)
+      return response.data
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] })
+      queryClient.invalidateQueries({ queryKey: ['campaign'] })
+      queryClient.invalidateQueries({ queryKey: ['campaign-targets'] })
+      toast.success(result.message)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Campaign action failed')
+    },
+  })
+
+  const handleCancel = (target: Campaign) => {
+    if (confirm(`Cancel "${target.name}"? Targets that have not been dialled yet will not be called.`)) {
+      actionMutation.mutate({ campaignId: target.id, action: 'cancel' })
+    }
+  }
+
+  const renderActions = (target: Campaign) => (
+    <div className="flex items-center space-x-2">
+      {target.status === 'draft' && (
+        <button
+          onClick={() => actionMutation.mutate({ campaignId: target.id, action: 'start' })}
+          disabled={actionMutation.isPending}
+          className="btn-primary inline-flex items-center text-sm"
+        >
+          <PlayIcon className="h-4 w-4 mr-1" />
+          Start
+        </button>
+      )}
+      {target.status === 'running' && (
+        <button
+          onClick={() => actionMutation.mutate({ campaignId: target.id, action: 'pause' })}
+          disabled={actionMutation.isPending}
+          className="btn-outline inline-flex items-center text-sm"
+        >
+          <PauseIcon className="h-4 w-4 mr-1" />
+          Pause
+        </button>
+      )}
+      {target.status === 'paused' && (
+        <button
+          onClick={() => actionMutation.mutate({ campaignId: target.id, action: 'resume' })}
+          disabled={actionMutation.isPending}
+          className="btn-primary inline-flex items-center text-sm"
+        >
+          <PlayIcon className="h-4 w-4 mr-1" />
+          Resume
+        </button>
+      )}
+      {['draft', 'running', 'paused'].includes(target.status) && (
+        <button
+          onClick={() => handleCancel(target)}
+          disabled={actionMutation.isPending}
+          className="btn-outline inline-flex items-center text-sm text-red-600"
+        >
+          <XCircleIcon className="h-4 w-4 mr-1" />
+          Cancel
+        </button>
+      )}
+    </div>
+  )
+
+  const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '—')
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+        <div className="card p-6">
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-4 bg-gray-200 rounded w-3/4"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  // Results view for a single campaign
+  if (selectedId && campaign) {
+    const done = (campaign.stats.completed || 0) + (campaign.stats.failed || 0) + (campaign.stats.skipped || 0)
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <button
+              onClick={() => { setSelectedId(null); setTargetStatus(''); setPage(1) }}
+              className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center mb-2"
+            >
+              <ArrowLeftIcon className="h-4 w-4 mr-1" />
+              All campaigns
+            </button>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-gray-900">{campaign.name}</h1>
+              <StatusBadge status={campaign.status} />
+            </div>
+            <p className="text-gray-600">
+              {campaign.integration.name} · {campaign.callsPerMinute} calls/min · up to {campaign.maxConcurrent} at once
+            </p>
+          </div>
+          {renderActions(campaign)}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {[
+            { label: 'Targets', value: campaign.totalTargets },
+            { label: 'Processed', value: done },
+            { label: 'In progress', value: (campaign.stats.dialing || 0) + (campaign.stats.in_progress || 0) },
+            { label: 'Failed', value: campaign.stats.failed || 0 },
+          ].map((stat) => (
+            <div key={stat.label} className="card p-4">
+              <p className="text-sm text-gray-500">{stat.label}</p>
+              <p className="text-2xl font-semibold text-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {campaign.outcomes && campaign.outcomes.length > 0 && (
+          <div className="card p-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Call outcomes</h3>
+            <div className="flex flex-wrap gap-2">
+              {campaign.outcomes.map((row) => (
+                <span key={row.outcome} className="px-2 py-1 rounded bg-gray-100 text-xs text-gray-700">
+                  {row.outcome.replace(/_/g, ' ')}: {row.count}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="card">
+          <div className="flex items-center justify-between p-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Targets</h3>
+            <select
+              value={targetStatus}
+              onChange={(e) => { setTargetStatus(e.target.value); setPage(1) }}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="">All statuses</option>
+              {TARGET_STATUSES.map((status) => (
+                <option key={status} value={status}>{status.replace('_', ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Name', 'Phone', 'Status', 'Outcome', 'Dialled', 'Finished'].map((heading) => (
+                    <th key={heading} className="px-4 py-2 text-left font-medium text-gray-500">{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {targets?.data.map((target) => (
+                  <tr key={target.id}>
+                    <td className="px-4 py-2 text-gray-900">{target.name || target.crmRecordId}</td>
+                    <td className="px-4 py-2 text-gray-600">{target.phone || '—'}</td>
+                    <td className="px-4 py-2"><StatusBadge status={target.status} /></td>
+                    <td className="px-4 py-2 text-gray-600" title={target.errorMessage}>
+                      {target.outcome?.replace(/_/g, ' ') || target.errorMessage || '—'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{formatDate(target.dialedAt)}</td>
+                    <td className="px-4 py-2 text-gray-600">{formatDate(target.completedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {targets && targets.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between p-4 border-t border-gray-200 text-sm text-gray-600">
+              <span>Page {targets.pagination.page} of {targets.pagination.totalPages}</span>
+              <div className="space-x-2">
+                <button className="btn-outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>Previous</button>
+                <button className="btn-outline" disabled={page >= targets.pagination.totalPages} onClick={() => setPage(page + 1)}>Next</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+          <p className="text-gray-600">Call everyone in a CRM filter or list through your Retell agent</p>
+        </div>
+        <button onClick={() => setShowForm(!showForm)} className="btn-primary inline-flex items-center">
+          <PlusIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          New Campaign
+        </button>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); createMutation.mutate() }}
+          className="card p-6 space-y-4"
+        >
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="e.g. March renewals"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Integration</label>
+              <select
+                required
+                value={form.integrationId}
+                onChange={(e) => setForm({ ...form, integrationId: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">Select an integration</option>
+                {integrations?.filter((integration: any) => !integration.isDraft).map((integration: any) => (
+                  <option key={integration.id} value={integration.id}>{integration.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {source?.label || 'CRM filter or list ID'}
+              </label>
+              <input
+                type="text"
+                required
+                disabled={!source}
+                value={form.sourceId}
+                onChange={(e) => setForm({ ...form, sourceId: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              {provider && !source && (
+                <p className="text-xs text-red-600 mt-1">Campaigns are not supported for this CRM</p>
+              )}
+            </div>
+            {provider === 'zoho' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Zoho module</label>
+                <select
+                  value={form.objectType}
+                  onChange={(e) => setForm({ ...form, objectType: e.target.value })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="leads">Leads</option>
+                  <option value="contacts">Contacts</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Calls per minute</label>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={form.callsPerMinute}
+                onChange={(e) => setForm({ ...form, callsPerMinute: Number(e.target.value) })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Max concurrent calls</label>
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={form.maxConcurrent}
+                onChange={(e) => setForm({ ...form, maxConcurrent: Number(e.target.value) })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => setShowForm(false)} className="btn-outline">Cancel</button>
+            <button type="submit" disabled={createMutation.isPending || !source} className="btn-primary">
+              {createMutation.isPending ? 'Loading records...' : 'Create Campaign'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {campaigns && campaigns.length > 0 ? (
+        <div className="card divide-y divide-gray-200">
+          {campaigns.map((item) => (
+            <div key={item.id} className="p-4 flex items-center justify-between">
+              <button onClick={() => setSelectedId(item.id)} className="text-left flex-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{item.name}</span>
+                  <StatusBadge status={item.status} />
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {item.integration.name} · {item.totalTargets} targets · {item.stats.completed || 0} completed
+                  {item.stats.failed ? ` · ${item.stats.failed} failed` : ''}
+                  {item.stats.pending ? ` · ${item.stats.pending} pending` : ''}
+                  {item.stats.scheduled ? ` · ${item.stats.scheduled} waiting for calling hours` : ''}
+                </p>
+              </button>
+              {renderActions(item)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        !showForm && (
+          <div className="card p-12 text-center">
+            <MegaphoneIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900">No campaigns yet</h3>
+            <p className="text-gray-600 mt-1">Create a campaign to call the records in a CRM filter or list.</p>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
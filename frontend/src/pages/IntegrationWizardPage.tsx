@@ -11,8 +11,9 @@ import {
   DocumentCheckIcon,
   PlayIcon,
 } from '@heroicons/react/24/outline'
-import { api } from '@/utils/api'
+import { api, getActiveOrganizationId } from '@/utils/api'
 import { useAuthStore } from '@/store/authStore'
+import WorkflowBuilder, { BusinessWorkflow, WorkflowAction, validateWorkflow } from '@/components/WorkflowBuilder'
 
 interface StepProps {
   title: string
@@ -56,34 +57,6 @@ interface IntegrationConfig {
   integrationSaved?: boolean
 }
 
-interface BusinessWorkflow {
-  id: string
-  name: string
-  description: string
-  trigger: WorkflowTrigger
-  conditions: WorkflowCondition[]
-  actions: WorkflowAction[]
-  enabled: boolean
-}
-
-interface WorkflowTrigger {
-  event: string // 'call_analyzed', 'call_started', etc.
-}
-
-interface WorkflowCondition {
-  field: string // e.g., 'call_analysis.custom_analysis_data.consultation_booking_status'
-  operator: string // 'equals', 'contains', 'not_equals', 'exists', etc.
-  value: any
-  logicalOperator?: 'AND' | 'OR' // for chaining conditions
-}
-
-interface WorkflowAction {
-  type: string // 'create_deal', 'update_person', 'create_activity', 'update_deal_stage', etc.
-  crmObject: string // 'person', 'deal', 'activity', 'organization'
-  fields: { [key: string]: string | number | boolean } // field mappings for this action
-  conditions?: string // optional condition for this specific action
-}
-
 interface RetellAgent {
   agent_id: string
   name: string
@@ -125,6 +98,7 @@ const STEPS = [
   { id: 'accounts', title: 'Connect Accounts', description: 'Link your Retell AI and CRM accounts' },
   { id: 'flow', title: 'What This Does', description: 'See how your calls will be processed' },
   { id: 'pipeline', title: 'Deal Destination', description: 'Choose pipeline and stage for successful calls' },
+  { id: 'workflows', title: 'Workflows', description: 'Decide what happens in your CRM after each call' },
   { id: 'review', title: 'Complete Setup', description: 'Finish and get your webhook URL' },
 ]
 
@@ -276,6 +250,7 @@ function getMVPActionsForType(integrationType: string): WorkflowAction[] {
       {
         type: 'create_person',
         crmObject: 'person',
+        outputName: 'person',
         fields: {
           name: '{{call.call_analysis.retell_llm_dynamic_variables.customer_full_name}}',
           phone: '{{call.call_analysis.retell_llm_dynamic_variables.customer_phone}}',
@@ -283,12 +258,13 @@ function getMVPActionsForType(integrationType: string): WorkflowAction[] {
         }
       },
       {
-        type: 'conditional_action',
+        type: 'create_deal',
         crmObject: 'deal',
-        conditions: 'call_successful === true',
+        outputName: 'deal',
+        conditions: [{ field: 'call.call_analysis.call_successful', operator: 'equals', value: true }],
         fields: {
           title: 'Inbound Call - {{call.call_analysis.retell_llm_dynamic_variables.customer_full_name}}',
-          person_id: '{{previous_action_result.id}}',
+          person_id: '{{actions.person.id}}',
           value: '{{call.call_analysis.custom_analysis_data.deal_value}}',
           status: 'open'
         }
@@ -297,10 +273,10 @@ function getMVPActionsForType(integrationType: string): WorkflowAction[] {
         type: 'create_activity',
         crmObject: 'activity',
         fields: {
-          subject: '{{call.call_analysis.in_voicemail}} === true ? "Voicemail - Call Not Answered" : "Inbound Call"',
+          subject: '{{call.call_analysis.in_voicemail | if:"Voicemail - Call Not Answered","Inbound Call"}}',
           type: 'call',
-          person_id: '{{action_0_result.id}}',
-          deal_id: '{{action_1_result.id}}',
+          person_id: '{{actions.person.id}}',
+          deal_id: '{{actions.deal.id}}',
           note: 'Call Summary: {{call.call_analysis.call_summary}}\n\nCall Analysis: {{call.call_analysis.custom_analysis_data}}',
           done: true
         }
@@ -314,6 +290,7 @@ function getMVPActionsForType(integrationType: string): WorkflowAction[] {
       {
         type: 'create_person',
         crmObject: 'person',
+        outputName: 'person',
         fields: {
           name: '{{call.call_analysis.retell_llm_dynamic_variables.customer_full_name}}',
           phone: '{{call.call_analysis.retell_llm_dynamic_variables.customer_phone}}',
@@ -321,12 +298,13 @@ function getMVPActionsForType(integrationType: string): WorkflowAction[] {
         }
       },
       {
-        type: 'conditional_action',
+        type: 'create_deal',
         crmObject: 'deal',
-        conditions: 'call_successful === true',
+        outputName: 'deal',
+        conditions: [{ field: 'call.call_analysis.call_successful', operator: 'equals', value: true }],
         fields: {
           title: 'Outbound Call - {{call.call_analysis.retell_llm_dynamic_variables.customer_full_name}}',
-          person_id: '{{previous_action_result.id}}',
+          person_id: '{{actions.person.id}}',
           value: '{{call.call_analysis.custom_analysis_data.deal_value}}',
           status: 'open'
         }
@@ -335,10 +313,10 @@ function getMVPActionsForType(integrationType: string): WorkflowAction[] {
         type: 'create_activity',
         crmObject: 'activity',
         fields: {
-          subject: '{{call.call_analysis.in_voicemail}} === true ? "Voicemail - Follow-up Required" : "Outbound Call"',
+          subject: '{{call.call_analysis.in_voicemail | if:"Voicemail - Follow-up Required","Outbound Call"}}',
           type: 'call',
-          person_id: '{{action_0_result.id}}',
-          deal_id: '{{action_1_result.id}}',
+          person_id: '{{actions.person.id}}',
+          deal_id: '{{actions.deal.id}}',
           note: 'Call Summary: {{call.call_analysis.call_summary}}\n\nCall Analysis: {{call.call_analysis.custom_analysis_data}}',
           done: true
         }
@@ -616,9 +594,9 @@ export default function IntegrationWizardPage() {
               }
             }
             
-            // For published integrations, always go to final step (4)
+            // For published integrations, always go to final step
             // For drafts, use saved currentStep or determine from data
-            let startStep = 4 // Default to final step for published integrations
+            let startStep = STEPS.length - 1 // Default to final step for published integrations
             
             if (integrationData.isDraft) {
               startStep = integrationData.currentStep !== undefined ? integrationData.currentStep : 0
@@ -2228,6 +2206,8 @@ export default function IntegrationWizardPage() {
   }
 
   const { register, handleSubmit, formState: { errors }, watch } = useForm()
+
+  const hasWorkflowErrors = config.businessWorkflows.some(workflow => validateWorkflow(workflow).length > 0)
   
   const nextStep = () => {
     const newStep = Math.min(currentStep + 1, STEPS.length - 1)
@@ -2608,7 +2588,9 @@ export default function IntegrationWizardPage() {
       }
       
       // Get the OAuth URL from the backend (using accounts endpoint for CRM connections)
-      const response = await api.get(`/accounts/oauth/${provider}/auth-url?userId=${user.id}`)
+      const response = await api.get(`/accounts/oauth/${provider}/auth-url`, {
+        params: { userId: user.id, organizationId: getActiveOrganizationId() || undefined },
+      })
       const data = response.data
       
       if (data.success && data.data.authUrl) {
@@ -3278,7 +3260,25 @@ export default function IntegrationWizardPage() {
           </div>
         )
 
-      case 4: // Review & Complete Setup
+      case 4: // Workflow Builder
+        return (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Build Your Workflows</h3>
+              <p className="text-sm text-gray-600">
+                Each workflow runs after a call is analyzed. Group conditions with all/any/none, then list the CRM actions to run in order.
+              </p>
+            </div>
+
+            <WorkflowBuilder
+              workflows={config.businessWorkflows}
+              onChange={(businessWorkflows) => setConfig(prev => ({ ...prev, businessWorkflows }))}
+              fieldOptions={config.discoveredFields}
+            />
+          </div>
+        )
+
+      case 5: // Review & Complete Setup
         return (
           <div className="space-y-6">
             <div>
@@ -3626,7 +3626,7 @@ export default function IntegrationWizardPage() {
               <button
                 onClick={nextStep}
                 className="btn-primary"
-                disabled={currentStep === 0 && !config.name}
+                disabled={(currentStep === 0 && !config.name) || (STEPS[currentStep].id === 'workflows' && hasWorkflowErrors)}
               >
                 Next Step
               </button>
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { api, setActiveOrganizationId } from '@/utils/api'
+import toast from 'react-hot-toast'
+
+export default function InvitationPage() {
+  const { token } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const submitted = useRef(false)
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/organizations/invitations/accept', { token })
+      return response.data
+    },
+    onSuccess: (result) => {
+      setActiveOrganizationId(result.data.organizationId)
+      queryClient.invalidateQueries()
+      toast.success(result.message || 'Invitation accepted')
+      navigate('/settings', { replace: true })
+    },
+  })
+
+  // Tokens are single use, so only ever submit once
+  useEffect(() => {
+    if (token && !submitted.current) {
+      submitted.current = true
+      acceptMutation.mutate()
+    }
+  }, [token, acceptMutation])
+
+  return (
+    <div className="max-w-md mx-auto card p-6 text-center">
+      {acceptMutation.isError ? (
+        <>
+          <h1 className="text-lg font-medium text-gray-900 mb-2">Invitation not accepted</h1>
+          <p className="text-gray-600 mb-4">
+            {(acceptMutation.error as any)?.response?.data?.error || 'Something went wrong accepting this invitation.'}
+          </p>
+          <button onClick={() => navigate('/')} className="btn-primary">
+            Go to Dashboard
+          </button>
+        </>
+      ) : (
+        <p className="text-gray-600">Joining organization...</p>
+      )}
+    </div>
+  )
+}
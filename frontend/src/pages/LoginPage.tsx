@@ -1,7 +1,8 @@
-import { useState } from 'react'
-import { Link } from 'react-router-dom'
+import { useState, useEffect } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { useAuthStore } from '@/store/authStore'
+import { api } from '@/utils/api'
 import toast from 'react-hot-toast'
 
 interface LoginForm {
@@ -9,15 +10,61 @@ interface LoginForm {
   password: string
 }
 
+const EMAIL_PATTERN = /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i
+
+interface SsoDiscovery {
+  ssoAvailable: boolean
+  ssoRequired: boolean
+}
+
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false)
-  const { login } = useAuthStore()
-  const { register, handleSubmit, formState: { errors } } = useForm<LoginForm>()
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [code, setCode] = useState('')
+  const [sso, setSso] = useState<SsoDiscovery | null>(null)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { login, verifyTwoFactor } = useAuthStore()
+  const { register, handleSubmit, getValues, formState: { errors } } = useForm<LoginForm>()
+
+  // Failed single sign-on attempts come back here with the reason
+  useEffect(() => {
+    const ssoError = searchParams.get('sso_error')
+    if (ssoError) {
+      toast.error(ssoError)
+      setSearchParams({}, { replace: true })
+    }
+  }, [searchParams, setSearchParams])
+
+  const checkSso = async (email: string) => {
+    if (!EMAIL_PATTERN.test(email)) {
+      setSso(null)
+      return
+    }
+
+    try {
+      const response = await api.post('/auth/sso/discover', { email })
+      setSso(response.data.data)
+    } catch {
+      setSso(null)
+    }
+  }
+
+  // A full navigation, so the API can set the cookie that ties the callback to this browser
+  const startSso = () => {
+    setIsLoading(true)
+    const params = new URLSearchParams({ email: getValues('email') })
+    window.location.href = `${api.defaults.baseURL}/auth/sso/start?${params}`
+  }
 
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true)
     try {
-      await login(data.email, data.password)
+      const challenge = await login(data.email, data.password)
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken)
+        return
+      }
       toast.success('Welcome back!')
     } catch (error: any) {
       toast.error(error.message)
@@ -26,6 +73,106 @@ export default function LoginPage() {
     }
   }
 
+  const onVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challengeToken) return
+
+    setIsLoading(true)
+    try {
+      await verifyTwoFactor(challengeToken, useRecoveryCode ? { recoveryCode: code } : { code })
+      toast.success('Welcome back!')
+    } catch (error: any) {
+      toast.error(error.message)
+      setCode('')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startOver = () => {
+    setChallengeToken(null)
+    setUseRecoveryCode(false)
+    setCode('')
+  }
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold text-center text-primary-600 mb-2">
+              Retell Sync
+            </h1>
+            <h2 className="text-center text-2xl font-bold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={onVerify}>
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+              </label>
+              <input
+                id="code"
+                type="text"
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                pattern={useRecoveryCode ? undefined : '[0-9]{6}'}
+                maxLength={useRecoveryCode ? 20 : 6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.trim())}
+                className="input mt-1"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              />
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-primary w-full flex justify-center items-center"
+              >
+                {isLoading ? (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
+                ) : (
+                  'Verify'
+                )}
+              </button>
+            </div>
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode)
+                  setCode('')
+                }}
+                className="text-primary-600 hover:text-primary-500"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                onClick={startOver}
+                className="text-gray-600 hover:text-gray-500"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -47,7 +194,15 @@ export default function LoginPage() {
           </p>
         </div>
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        <form
+          className="mt-8 space-y-6"
+          onSubmit={sso?.ssoRequired
+            ? (e) => {
+                e.preventDefault()
+                startSso()
+              }
+            : handleSubmit(onSubmit)}
+        >
           <div className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700">
@@ -57,9 +212,10 @@ export default function LoginPage() {
                 {...register('email', {
                   required: 'Email is required',
                   pattern: {
-                    value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                    value: EMAIL_PATTERN,
                     message: 'Invalid email address',
                   },
+                  onBlur: (e) => checkSso(e.target.value),
                 })}
                 type="email"
                 className="input mt-1"
@@ -70,26 +226,32 @@ export default function LoginPage() {
               )}
             </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <input
-                {...register('password', {
-                  required: 'Password is required',
-                  minLength: {
-                    value: 8,
-                    message: 'Password must be at least 8 characters',
-                  },
-                })}
-                type="password"
-                className="input mt-1"
-                placeholder="Enter your password"
-              />
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
-              )}
-            </div>
+            {sso?.ssoRequired ? (
+              <p className="text-sm text-gray-600">
+                Your organization signs in with single sign-on.
+              </p>
+            ) : (
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <input
+                  {...register('password', {
+                    required: 'Password is required',
+                    minLength: {
+                      value: 8,
+                      message: 'Password must be at least 8 characters',
+                    },
+                  })}
+                  type="password"
+                  className="input mt-1"
+                  placeholder="Enter your password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+            )}
           </div>
 
           <div>
@@ -100,10 +262,22 @@ export default function LoginPage() {
             >
               {isLoading ? (
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
+              ) : sso?.ssoRequired ? (
+                'Continue with SSO'
               ) : (
                 'Sign in'
               )}
             </button>
+            {sso?.ssoAvailable && !sso.ssoRequired && (
+              <button
+                type="button"
+                onClick={startSso}
+                disabled={isLoading}
+                className="btn-secondary w-full mt-3"
+              >
+                Sign in with SSO
+              </button>
+            )}
           </div>
 
           <div className="text-center">
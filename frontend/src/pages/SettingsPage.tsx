@@ -2,6 +2,11 @@ import { useState, useEffect } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '@/utils/api'
 import toast from 'react-hot-toast'
+import TeamSettings from '@/components/TeamSettings'
+import ApiKeySettings from '@/components/ApiKeySettings'
+import SsoSettings from '@/components/SsoSettings'
+import SessionSettings from '@/components/SessionSettings'
+import TwoFactorSettings from '@/components/TwoFactorSettings'
 import {
   UserIcon,
   BellIcon,
@@ -82,6 +87,8 @@ export default function SettingsPage() {
     },
     onSuccess: () => {
       toast.success('Password updated successfully!')
+      // Other devices were signed out
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
       setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' })
     },
     onError: (error: any) => {
@@ -200,6 +207,12 @@ export default function SettingsPage() {
         </form>
       </div>
 
+      <TeamSettings />
+
+      <SsoSettings subscriptionTier={user?.subscriptionTier} />
+
+      <ApiKeySettings subscriptionTier={user?.subscriptionTier} />
+
       {/* Change Password */}
       <div className="card p-6">
         <div className="flex items-center space-x-3 mb-6">
@@ -286,6 +299,10 @@ export default function SettingsPage() {
         </form>
       </div>
 
+      <TwoFactorSettings />
+
+      <SessionSettings />
+
       {/* Notification Settings */}
       <div className="card p-6">
         <div className="flex items-center space-x-3 mb-6">
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { setActiveOrganizationId } from '@/utils/api'
+import { useAuthStore } from '@/store/authStore'
+import toast from 'react-hot-toast'
+
+export default function SsoCallbackPage() {
+  const navigate = useNavigate()
+  const { completeSso } = useAuthStore()
+  const handled = useRef(false)
+
+  // The refresh token arrives in the fragment and is single use, so read it once
+  useEffect(() => {
+    if (handled.current) return
+    handled.current = true
+
+    const params = new URLSearchParams(window.location.hash.substring(1))
+    const refreshToken = params.get('refreshToken')
+    const organizationId = params.get('organizationId')
+    window.history.replaceState({}, '', window.location.pathname)
+
+    if (!refreshToken) {
+      toast.error('Single sign-on failed')
+      navigate('/login', { replace: true })
+      return
+    }
+
+    if (organizationId) {
+      setActiveOrganizationId(organizationId)
+    }
+
+    completeSso(refreshToken)
+      .then(() => {
+        toast.success('Welcome back!')
+        navigate('/', { replace: true })
+      })
+      .catch(() => {
+        toast.error('Single sign-on failed')
+        navigate('/login', { replace: true })
+      })
+  }, [completeSso, navigate])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <p className="text-gray-600">Signing you in...</p>
+    </div>
+  )
+}
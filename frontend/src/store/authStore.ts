@@ -1,6 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { api } from '@/utils/api'
+import { api, setActiveOrganizationId } from '@/utils/api'
 import { QueryClient } from '@tanstack/react-query'
 
 // Create a singleton QueryClient reference for cache clearing
@@ -10,6 +10,9 @@ export const setQueryClient = (client: QueryClient) => {
   queryClientRef = client
 }
 
+// Refresh tokens are single use, so concurrent 401s must share one refresh
+let refreshInFlight: Promise<void> | null = null
+
 interface User {
   id: string
   email: string
@@ -19,13 +22,20 @@ interface User {
   subscriptionStatus: string
 }
 
+// Returned by login when the account needs a second factor before signing in
+export interface TwoFactorChallenge {
+  challengeToken: string
+}
+
 interface AuthState {
   user: User | null
   accessToken: string | null
   refreshToken: string | null
   isAuthenticated: boolean
   isLoading: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | void>
+  verifyTwoFactor: (challengeToken: string, proof: { code?: string; recoveryCode?: string }) => Promise<void>
+  completeSso: (refreshToken: string) => Promise<void>
   register: (data: RegisterData) => Promise<void>
   logout: () => void
   refreshAuth: () => Promise<void>
@@ -51,6 +61,11 @@ export const useAuthStore = create<AuthState>()(
       login: async (email: string, password: string) => {
         try {
           const response = await api.post('/auth/login', { email, password })
+
+          if (response.data.data.twoFactorRequired) {
+            return { challengeToken: response.data.data.challengeToken }
+          }
+
           const { user, accessToken, refreshToken } = response.data.data
 
           set({
@@ -73,6 +88,38 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
+      verifyTwoFactor: async (challengeToken, proof) => {
+        try {
+          const response = await api.post('/auth/login/two-factor', { challengeToken, ...proof })
+          const { user, accessToken, refreshToken } = response.data.data
+
+          set({
+            user,
+            accessToken,
+            refreshToken,
+            isAuthenticated: true,
+          })
+
+          api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`
+
+          if (queryClientRef) {
+            queryClientRef.clear()
+          }
+        } catch (error: any) {
+          throw new Error(error.response?.data?.error || 'Verification failed')
+        }
+      },
+
+      // Single sign-on returns only a refresh token; trade it like any other
+      completeSso: async (refreshToken: string) => {
+        set({ refreshToken })
+        await get().refreshAuth()
+
+        if (queryClientRef) {
+          queryClientRef.clear()
+        }
+      },
+
       register: async (data: RegisterData) => {
         try {
           const response = await api.post('/auth/register', data)
@@ -98,6 +145,12 @@ export const useAuthStore = create<AuthState>()(
       },
 
       logout: () => {
+        // End the session server-side too; nothing to do if that fails
+        const { refreshToken } = get()
+        if (refreshToken) {
+          api.post('/auth/logout', { refreshToken }).catch(() => {})
+        }
+
         set({
           user: null,
           accessToken: null,
@@ -106,6 +159,7 @@ export const useAuthStore = create<AuthState>()(
         })
 
         delete api.defaults.headers.common['Authorization']
+        setActiveOrganizationId(null)
         
         // Clear all cached data when user logs out
         if (queryClientRef) {
@@ -115,29 +169,37 @@ export const useAuthStore = create<AuthState>()(
       },
 
       refreshAuth: async () => {
+        if (refreshInFlight) return refreshInFlight
+
         const { refreshToken } = get()
         if (!refreshToken) throw new Error('No refresh token')
 
-        try {
-          const response = await api.post('/auth/refresh', { refreshToken })
-          const { user, accessToken, refreshToken: newRefreshToken } = response.data.data
-
-          set({
-            user,
-            accessToken,
-            refreshToken: newRefreshToken,
-            isAuthenticated: true,
-          })
+        refreshInFlight = (async () => {
+          try {
+            const response = await api.post('/auth/refresh', { refreshToken })
+            const { user, accessToken, refreshToken: newRefreshToken } = response.data.data
+
+            set({
+              user,
+              accessToken,
+              refreshToken: newRefreshToken,
+              isAuthenticated: true,
+            })
+
+            api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`
+          } catch (error) {
+            get().logout()
+            throw error
+          } finally {
+            refreshInFlight = null
+          }
+        })()
 
-          api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`
-        } catch (error) {
-          get().logout()
-          throw error
-        }
+        return refreshInFlight
       },
 
       initialize: () => {
-        const { accessToken, refreshToken } = get()
+        const { accessToken } = get()
         
         if (accessToken) {
           api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`
@@ -150,7 +212,8 @@ export const useAuthStore = create<AuthState>()(
         api.interceptors.response.use(
           (response) => response,
           async (error) => {
-            if (error.response?.status === 401 && refreshToken) {
+            // A rejected refresh is final; retrying it would wait on itself
+            if (error.response?.status === 401 && get().refreshToken && error.config?.url !== '/auth/refresh') {
               try {
                 await get().refreshAuth()
                 // Retry the original request
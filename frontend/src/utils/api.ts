@@ -1,5 +1,17 @@
 import axios from 'axios'
 
+const ORGANIZATION_KEY = 'active-organization'
+
+export const getActiveOrganizationId = () => localStorage.getItem(ORGANIZATION_KEY)
+
+export const setActiveOrganizationId = (organizationId: string | null) => {
+  if (organizationId) {
+    localStorage.setItem(ORGANIZATION_KEY, organizationId)
+  } else {
+    localStorage.removeItem(ORGANIZATION_KEY)
+  }
+}
+
 export const api = axios.create({
   baseURL: 'http://localhost:3002/api',
   timeout: 10000,
@@ -23,6 +35,12 @@ api.interceptors.request.use(
         console.warn('Failed to parse auth storage:', error)
       }
     }
+
+    // Act in the organization picked in Settings; the API defaults to the personal one
+    const organizationId = getActiveOrganizationId()
+    if (organizationId) {
+      config.headers['X-Organization-Id'] = organizationId
+    }
     return config
   },
   (error) => {
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "call_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "integrationId" TEXT NOT NULL,
+    "callId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "crmObjects" JSONB,
+    "webhookEventId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "call_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "call_ledger_entries_integrationId_callId_idx" ON "call_ledger_entries"("integrationId", "callId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "call_ledger_entries_integrationId_callId_event_key" ON "call_ledger_entries"("integrationId", "callId", "event");
+
+-- AddForeignKey
+ALTER TABLE "call_ledger_entries" ADD CONSTRAINT "call_ledger_entries_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "integrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "call_ledger_entries" ADD CONSTRAINT "call_ledger_entries_webhookEventId_fkey" FOREIGN KEY ("webhookEventId") REFERENCES "webhook_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "integrations" ADD COLUMN     "requireSignature" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "webhook_events" ADD COLUMN     "rejectionReason" TEXT;
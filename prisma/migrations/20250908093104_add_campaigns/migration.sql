@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "campaigns" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "integrationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "source" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "callsPerMinute" INTEGER NOT NULL DEFAULT 5,
+    "maxConcurrent" INTEGER NOT NULL DEFAULT 2,
+    "totalTargets" INTEGER NOT NULL DEFAULT 0,
+    "dispatchToken" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "campaign_targets" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "crmRecordId" TEXT NOT NULL,
+    "name" TEXT,
+    "phone" TEXT,
+    "recordData" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "syncEventId" TEXT,
+    "retellCallId" TEXT,
+    "outcome" TEXT,
+    "errorMessage" TEXT,
+    "dialedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaign_targets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "campaigns_userId_createdAt_idx" ON "campaigns"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "campaign_targets_campaignId_status_idx" ON "campaign_targets"("campaignId", "status");
+
+-- CreateIndex
+CREATE INDEX "campaign_targets_retellCallId_idx" ON "campaign_targets"("retellCallId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_targets_campaignId_crmRecordId_key" ON "campaign_targets"("campaignId", "crmRecordId");
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "integrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_targets" ADD CONSTRAINT "campaign_targets_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "do_not_call_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "originalNumber" TEXT,
+    "reason" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "do_not_call_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "do_not_call_entries_userId_phoneNumber_key" ON "do_not_call_entries"("userId", "phoneNumber");
+
+-- AddForeignKey
+ALTER TABLE "do_not_call_entries" ADD CONSTRAINT "do_not_call_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
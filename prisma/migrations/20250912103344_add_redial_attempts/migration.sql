@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "integrations" ADD COLUMN     "redialPolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "sync_events" ADD COLUMN     "attemptNumber" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "parentSyncEventId" TEXT,
+ADD COLUMN     "toNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sync_events_parentSyncEventId_idx" ON "sync_events"("parentSyncEventId");
+
+-- AddForeignKey
+ALTER TABLE "sync_events" ADD CONSTRAINT "sync_events_parentSyncEventId_fkey" FOREIGN KEY ("parentSyncEventId") REFERENCES "sync_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
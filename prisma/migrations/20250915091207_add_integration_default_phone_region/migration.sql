@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "integrations" ADD COLUMN     "defaultPhoneRegion" TEXT NOT NULL DEFAULT 'GB';
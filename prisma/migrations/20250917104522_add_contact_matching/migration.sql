@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "integrations" ADD COLUMN     "contactMatching" JSONB;
+
+-- AlterTable
+ALTER TABLE "sync_events" ADD COLUMN     "matchDecision" JSONB;
@@ -0,0 +1,104 @@
+-- The old column held the CRM's own company/portal/org ID, not ours
+ALTER TABLE "accounts" RENAME COLUMN "organizationId" TO "providerOrganizationId";
+
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "personal" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_invitations" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- Every existing user becomes the owner of a personal organization
+INSERT INTO "organizations" ("id", "name", "personal", "createdAt", "updatedAt")
+SELECT 'org_' || "id",
+       COALESCE(NULLIF(TRIM(CONCAT_WS(' ', "firstName", "lastName")), ''), "email") || '''s workspace',
+       true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "users";
+
+INSERT INTO "organization_members" ("id", "organizationId", "userId", "role", "createdAt", "updatedAt")
+SELECT 'mem_' || "id", 'org_' || "id", "id", 'owner', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "users";
+
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN     "organizationId" TEXT;
+ALTER TABLE "integrations" ADD COLUMN     "organizationId" TEXT;
+ALTER TABLE "sync_events" ADD COLUMN     "organizationId" TEXT;
+
+-- Existing records move into their owner's personal organization
+UPDATE "accounts" SET "organizationId" = 'org_' || "userId";
+UPDATE "integrations" SET "organizationId" = 'org_' || "userId";
+UPDATE "sync_events" SET "organizationId" = 'org_' || "userId";
+
+ALTER TABLE "accounts" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "integrations" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "sync_events" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "organization_members_userId_idx" ON "organization_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "organization_members"("organizationId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_invitations_tokenHash_key" ON "organization_invitations"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "organization_invitations_organizationId_email_idx" ON "organization_invitations"("organizationId", "email");
+
+-- CreateIndex
+CREATE INDEX "accounts_organizationId_idx" ON "accounts"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "integrations_organizationId_idx" ON "integrations"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "sync_events_organizationId_createdAt_idx" ON "sync_events"("organizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_invitations" ADD CONSTRAINT "organization_invitations_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "integrations" ADD CONSTRAINT "integrations_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sync_events" ADD CONSTRAINT "sync_events_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
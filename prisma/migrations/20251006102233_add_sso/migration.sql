@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "sso_connections" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL DEFAULT 'oidc',
+    "issuer" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT NOT NULL,
+    "defaultRole" TEXT NOT NULL DEFAULT 'viewer',
+    "enforced" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sso_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sso_domains" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "verificationToken" TEXT NOT NULL,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sso_domains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sso_identities" (
+    "id" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "lastLoginAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sso_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sso_connections_organizationId_key" ON "sso_connections"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "sso_domains_domain_idx" ON "sso_domains"("domain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sso_domains_organizationId_domain_key" ON "sso_domains"("organizationId", "domain");
+
+-- CreateIndex
+CREATE INDEX "sso_identities_userId_idx" ON "sso_identities"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sso_identities_connectionId_subject_key" ON "sso_identities"("connectionId", "subject");
+
+-- AddForeignKey
+ALTER TABLE "sso_connections" ADD CONSTRAINT "sso_connections_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sso_domains" ADD CONSTRAINT "sso_domains_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sso_identities" ADD CONSTRAINT "sso_identities_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "sso_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sso_identities" ADD CONSTRAINT "sso_identities_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- Carry legacy callConfiguration.dealTitleTemplate values over to dealTitlePolicy.
+-- The template is tried first, then the default rules it used to fall back to.
+UPDATE "integrations"
+SET "dealTitlePolicy" = jsonb_build_object(
+      'variables', '{"name":[{"type":"summary","key":"name"},{"type":"dynamic_variable","key":"name"},{"type":"dynamic_variable","key":"customer_name"},{"type":"dynamic_variable","key":"full_name"},{"type":"dynamic_variable","key":"client_name"},{"type":"dynamic_variable","key":"user_name"},{"type":"dynamic_variable","key":"first_name"},{"type":"dynamic_variable","key":"caller_name"},{"type":"dynamic_variable","key":"contact_name"},{"type":"dynamic_variable","key":"lead_name"}],"topic":[{"type":"summary","key":"topic"}]}'::jsonb,
+      'templates', jsonb_build_array("callConfiguration"->>'dealTitleTemplate') || '["{{name}} - {{topic}}","{{name}} - Consultation","{{phone}} - {{topic}}"]'::jsonb,
+      'fallback', '{{phone | default:"Unknown Caller"}} - Service Inquiry'
+    ),
+    "callConfiguration" = "callConfiguration" - 'dealTitleTemplate'
+WHERE "dealTitlePolicy" IS NULL
+  AND jsonb_typeof("callConfiguration"->'dealTitleTemplate') = 'string'
+  AND btrim("callConfiguration"->>'dealTitleTemplate') <> '';
+
+-- Drop empty leftovers so they are not mistaken for a template
+UPDATE "integrations"
+SET "callConfiguration" = "callConfiguration" - 'dealTitleTemplate'
+WHERE "callConfiguration" ? 'dealTitleTemplate';
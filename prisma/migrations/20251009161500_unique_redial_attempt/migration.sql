@@ -0,0 +1,13 @@
+-- Remove redials that were scheduled twice for the same attempt, keeping the first
+DELETE FROM "sync_events" AS duplicate
+USING "sync_events" AS original
+WHERE duplicate."parentSyncEventId" IS NOT NULL
+  AND duplicate."parentSyncEventId" = original."parentSyncEventId"
+  AND duplicate."attemptNumber" = original."attemptNumber"
+  AND (duplicate."createdAt", duplicate."id") > (original."createdAt", original."id");
+
+-- DropIndex
+DROP INDEX "sync_events_parentSyncEventId_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_events_parentSyncEventId_attemptNumber_key" ON "sync_events"("parentSyncEventId", "attemptNumber");
@@ -0,0 +1,57 @@
+-- DropIndex
+DROP INDEX "campaigns_userId_createdAt_idx";
+
+-- DropIndex
+DROP INDEX "do_not_call_entries_userId_phoneNumber_key";
+
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "organizationId" TEXT;
+ALTER TABLE "do_not_call_entries" ADD COLUMN     "organizationId" TEXT;
+
+-- Campaigns belong to the organization of the integration they dial through
+UPDATE "campaigns" c
+SET "organizationId" = i."organizationId"
+FROM "integrations" i
+WHERE i."id" = c."integrationId";
+
+-- Registry entries applied to everything their user could dial, so each
+-- organization the user belongs to keeps blocking the number
+UPDATE "do_not_call_entries" e
+SET "organizationId" = (
+  SELECT m."organizationId"
+  FROM "organization_members" m
+  JOIN "organizations" o ON o."id" = m."organizationId"
+  WHERE m."userId" = e."userId"
+  ORDER BY o."personal" DESC, m."createdAt" ASC
+  LIMIT 1
+);
+
+DELETE FROM "do_not_call_entries" WHERE "organizationId" IS NULL;
+
+ALTER TABLE "campaigns" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "do_not_call_entries" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "campaigns_organizationId_createdAt_idx" ON "campaigns"("organizationId", "createdAt");
+
+-- Entries from several users of one organization collapse to the earliest
+DELETE FROM "do_not_call_entries" AS duplicate
+USING "do_not_call_entries" AS original
+WHERE duplicate."organizationId" = original."organizationId"
+  AND duplicate."phoneNumber" = original."phoneNumber"
+  AND (duplicate."createdAt", duplicate."id") > (original."createdAt", original."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "do_not_call_entries_organizationId_phoneNumber_key" ON "do_not_call_entries"("organizationId", "phoneNumber");
+
+INSERT INTO "do_not_call_entries" ("id", "userId", "organizationId", "phoneNumber", "originalNumber", "reason", "source", "createdAt")
+SELECT 'dnc_' || md5(e."id" || m."organizationId"), e."userId", m."organizationId", e."phoneNumber", e."originalNumber", e."reason", e."source", e."createdAt"
+FROM "do_not_call_entries" e
+JOIN "organization_members" m ON m."userId" = e."userId" AND m."organizationId" <> e."organizationId"
+ON CONFLICT ("organizationId", "phoneNumber") DO NOTHING;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "do_not_call_entries" ADD CONSTRAINT "do_not_call_entries_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "defaultPhoneRegion" TEXT NOT NULL DEFAULT 'GB';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "totpFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "totpLockedUntil" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sso_connections" ALTER COLUMN "clientId" DROP NOT NULL,
+ALTER COLUMN "clientSecret" DROP NOT NULL,
+ADD COLUMN     "ssoUrl" TEXT,
+ADD COLUMN     "certificate" TEXT;
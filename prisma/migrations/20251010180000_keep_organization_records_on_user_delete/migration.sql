@@ -0,0 +1,23 @@
+-- DropForeignKey
+ALTER TABLE "accounts" DROP CONSTRAINT "accounts_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "integrations" DROP CONSTRAINT "integrations_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "campaigns" DROP CONSTRAINT "campaigns_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "do_not_call_entries" DROP CONSTRAINT "do_not_call_entries_userId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "integrations" ADD CONSTRAINT "integrations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "do_not_call_entries" ADD CONSTRAINT "do_not_call_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
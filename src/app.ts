@@ -2,11 +2,13 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
+import cookieParser from 'cookie-parser';
 import rateLimit from 'express-rate-limit';
 import { config } from './config';
 import { logger } from './config/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { authMiddleware } from './middleware/auth';
+import { webhookBodyParser } from './middleware/rawBody';
 
 import authRoutes from './routes/auth';
 import userRoutes from './routes/user';
@@ -18,6 +20,10 @@ import syncRoutes from './routes/sync';
 import billingRoutes from './routes/billing';
 import crmSchemaRoutes from './routes/crmSchema';
 import adminRoutes from './routes/admin';
+import campaignRoutes from './routes/campaigns';
+import doNotCallRoutes from './routes/doNotCall';
+import organizationRoutes from './routes/organizations';
+import apiKeyRoutes from './routes/apiKeys';
 
 const app = express();
 
@@ -50,12 +56,14 @@ app.use(cors({
   origin: [config.frontendUrl, 'http://localhost:3001'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Organization-Id'],
 }));
 
-// Body parsing
+// Body parsing (webhooks first, so the raw payload is kept for signature checks)
+app.use('/api/webhooks', webhookBodyParser);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(cookieParser());
 
 // Compression
 app.use(compression());
@@ -82,6 +90,10 @@ app.use('/api/test', webhookTestRoutes); // Test endpoints
 app.use('/api/sync', authMiddleware, syncRoutes);
 app.use('/api/billing', authMiddleware, billingRoutes);
 app.use('/api/crm', authMiddleware, crmSchemaRoutes);
+app.use('/api/campaigns', authMiddleware, campaignRoutes);
+app.use('/api/do-not-call', authMiddleware, doNotCallRoutes);
+app.use('/api/organizations', authMiddleware, organizationRoutes);
+app.use('/api/api-keys', authMiddleware, apiKeyRoutes);
 app.use('/api/admin', adminRoutes); // Admin routes for webhook management
 
 // 404 handler
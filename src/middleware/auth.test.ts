@@ -0,0 +1,148 @@
+jest.mock('../config/database', () => ({
+  prisma: { user: { findUnique: jest.fn() }, auditLog: { create: jest.fn() } },
+}));
+jest.mock('../config/redis', () => ({ redis: { isReady: false } }));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../services/apiKeyService', () => ({
+  ...jest.requireActual('../services/apiKeyService'),
+  apiKeyService: { authenticate: jest.fn() },
+}));
+jest.mock('../services/organizationService', () => ({
+  ...jest.requireActual('../services/organizationService'),
+  organizationService: { resolveMembership: jest.fn(), deleteAccount: jest.fn() },
+}));
+jest.mock('../services/sessionService', () => ({
+  sessionService: { isActive: jest.fn(), revokeAll: jest.fn(), revokeSession: jest.fn() },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { apiKeyService } from '../services/apiKeyService';
+import { organizationService } from '../services/organizationService';
+import { sessionService } from '../services/sessionService';
+import { errorHandler } from './errorHandler';
+import { authMiddleware } from './auth';
+import userRoutes from '../routes/user';
+
+const API_KEY = 'rsk_8c1e5b2f7a9d4e6c0b3a1f2e';
+const ORGANIZATION_ID = 'org_acme';
+
+const app = express();
+app.use(express.json());
+// Scopes are looked up by the path authMiddleware is mounted on
+const echo = express.Router().all('/', (req, res) => res.json({ user: req.user }));
+app.use('/api/integrations', authMiddleware, echo);
+app.use('/api/billing', authMiddleware, echo);
+app.use('/api/user', authMiddleware, userRoutes);
+app.use(errorHandler);
+
+const authenticate = apiKeyService.authenticate as jest.Mock;
+
+const keyWith = (scopes: string[], user: Record<string, any> = {}) => authenticate.mockResolvedValue({
+  id: 'key_1',
+  organizationId: ORGANIZATION_ID,
+  scopes,
+  user: {
+    id: 'usr_ada',
+    email: 'ada@example.com',
+    firstName: 'Ada',
+    lastName: null,
+    subscriptionTier: 'enterprise',
+    subscriptionStatus: 'active',
+    ...user,
+  },
+});
+
+const withKey = (test: request.Test) => test.set('Authorization', `Bearer ${API_KEY}`);
+
+describe('authMiddleware with an API key', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (organizationService.resolveMembership as jest.Mock).mockResolvedValue({ organizationId: ORGANIZATION_ID, role: 'admin' });
+  });
+
+  it('acts as the key\'s user in the key\'s organization', async () => {
+    keyWith(['integrations:read']);
+
+    const response = await withKey(request(app).get('/api/integrations'));
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toEqual({
+      id: 'usr_ada',
+      email: 'ada@example.com',
+      firstName: 'Ada',
+      subscriptionTier: 'enterprise',
+      subscriptionStatus: 'active',
+      organizationId: ORGANIZATION_ID,
+      role: 'admin',
+      apiKeyId: 'key_1',
+    });
+    expect(organizationService.resolveMembership).toHaveBeenCalledWith(expect.objectContaining({ id: 'usr_ada' }), ORGANIZATION_ID);
+  });
+
+  it('lets a read scope read but not write', async () => {
+    keyWith(['integrations:read']);
+
+    expect((await withKey(request(app).get('/api/integrations'))).status).toBe(200);
+
+    const response = await withKey(request(app).post('/api/integrations'));
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('This API key lacks the integrations:write scope');
+  });
+
+  it('lets a write scope read as well', async () => {
+    keyWith(['integrations:write']);
+
+    expect((await withKey(request(app).get('/api/integrations'))).status).toBe(200);
+    expect((await withKey(request(app).post('/api/integrations'))).status).toBe(200);
+  });
+
+  it('does not let one resource\'s scope reach another', async () => {
+    keyWith(['campaigns:write']);
+
+    const response = await withKey(request(app).get('/api/integrations'));
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('This API key lacks the integrations:read scope');
+  });
+
+  it('refuses endpoints no scope covers', async () => {
+    keyWith(['integrations:write', 'user:write']);
+
+    const response = await withKey(request(app).get('/api/billing'));
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('API keys cannot be used for this endpoint');
+  });
+
+  it('refuses another organization', async () => {
+    keyWith(['integrations:read']);
+
+    const response = await withKey(request(app).get('/api/integrations').set('X-Organization-Id', 'org_other'));
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('This API key belongs to a different organization');
+  });
+
+  it('stops working once the subscription is downgraded', async () => {
+    keyWith(['integrations:read'], { subscriptionTier: 'pro' });
+
+    const response = await withKey(request(app).get('/api/integrations'));
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('API access requires an active Enterprise subscription');
+  });
+
+  it.each([
+    ['change the password', 'put', '/api/user/password'],
+    ['sign out every session', 'delete', '/api/user/sessions'],
+    ['sign out a session', 'delete', '/api/user/sessions/ses_1'],
+    ['delete the account', 'delete', '/api/user/account'],
+  ] as const)('cannot %s even with user:write', async (_name, method, path) => {
+    keyWith(['user:write']);
+
+    const response = await withKey(request(app)[method](path).send({ currentPassword: 'old', newPassword: 'new-password' }));
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('This action requires a signed-in session');
+    expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    expect(sessionService.revokeSession).not.toHaveBeenCalled();
+    expect(organizationService.deleteAccount).not.toHaveBeenCalled();
+  });
+});
@@ -3,10 +3,15 @@ import jwt from 'jsonwebtoken';
 import { config } from '../config';
 import { prisma } from '../config/database';
 import { AppError } from './errorHandler';
+import { organizationService, OrganizationService } from '../services/organizationService';
+import { apiKeyService, ApiKeyService } from '../services/apiKeyService';
+import { sessionService } from '../services/sessionService';
+import { ApiKeyResource, OrganizationRole } from '../types';
 
 interface JwtPayload {
   userId: string;
   email: string;
+  sid?: string; // Session the token was issued for
   iat: number;
   exp: number;
 }
@@ -21,6 +26,10 @@ declare global {
         lastName?: string;
         subscriptionTier: string;
         subscriptionStatus: string;
+        organizationId: string; // Active organization, from the X-Organization-Id header
+        role: OrganizationRole;
+        apiKeyId?: string; // Set when the request was made with an API key
+        sessionId?: string;
       };
     }
   }
@@ -40,8 +49,16 @@ export const authMiddleware = async (
 
     const token = authHeader.substring(7);
 
+    if (ApiKeyService.isApiKey(token)) {
+      return await authenticateApiKey(req, token, next);
+    }
+
     const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
 
+    if (decoded.sid && !(await sessionService.isActive(decoded.sid))) {
+      throw new AppError('Session has ended', 401);
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
       select: {
@@ -58,10 +75,14 @@ export const authMiddleware = async (
       throw new AppError('User not found', 401);
     }
 
+    const membership = await organizationService.resolveMembership(user, req.header('x-organization-id'));
+
     req.user = {
       ...user,
       firstName: user.firstName || undefined,
       lastName: user.lastName || undefined,
+      ...membership,
+      sessionId: decoded.sid,
     };
     next();
   } catch (error) {
@@ -75,6 +96,60 @@ export const authMiddleware = async (
   }
 };
 
+// The resource API key scopes grant, by the path authMiddleware is mounted on.
+// Anything else (billing, API key management) needs a signed-in session.
+const API_KEY_RESOURCES_BY_PATH: Record<string, ApiKeyResource> = {
+  '/api/integrations': 'integrations',
+  '/api/accounts': 'accounts',
+  '/api/sync': 'sync',
+  '/api/campaigns': 'campaigns',
+  '/api/do-not-call': 'do_not_call',
+  '/api/crm': 'crm',
+  '/api/organizations': 'organizations',
+  '/api/user': 'user',
+};
+
+/**
+ * Authenticate with a personal API key. The key acts as its user in the
+ * organization it was created in, limited to its scopes; reads need
+ * `<resource>:read` and anything else `<resource>:write`.
+ */
+const authenticateApiKey = async (req: Request, key: string, next: NextFunction) => {
+  const apiKey = await apiKeyService.authenticate(key, req.ip);
+
+  // Keys outlive a downgrade, but stop working with it
+  if (apiKey.user.subscriptionTier !== 'enterprise' || apiKey.user.subscriptionStatus !== 'active') {
+    throw new AppError('API access requires an active Enterprise subscription', 403);
+  }
+
+  const resource = API_KEY_RESOURCES_BY_PATH[req.baseUrl];
+  const access = ['GET', 'HEAD', 'OPTIONS'].includes(req.method) ? 'read' : 'write';
+
+  if (!resource) {
+    throw new AppError('API keys cannot be used for this endpoint', 403);
+  }
+
+  if (!ApiKeyService.allows(apiKey.scopes, resource, access)) {
+    throw new AppError(`This API key lacks the ${resource}:${access} scope`, 403);
+  }
+
+  const requested = req.header('x-organization-id');
+  if (requested && requested !== apiKey.organizationId) {
+    throw new AppError('This API key belongs to a different organization', 403);
+  }
+
+  const membership = await organizationService.resolveMembership(apiKey.user, apiKey.organizationId);
+
+  req.user = {
+    ...apiKey.user,
+    firstName: apiKey.user.firstName || undefined,
+    lastName: apiKey.user.lastName || undefined,
+    ...membership,
+    apiKeyId: apiKey.id,
+  };
+  next();
+};
+
 export const optionalAuth = async (
   req: Request,
   res: Response,
@@ -100,10 +175,12 @@ export const optionalAuth = async (
       });
 
       if (user) {
+        const membership = await organizationService.resolveMembership(user, req.header('x-organization-id'));
         req.user = {
           ...user,
           firstName: user.firstName || undefined,
           lastName: user.lastName || undefined,
+          ...membership,
         };
       }
     }
@@ -133,4 +210,33 @@ export const requireSubscription = (
 
     next();
   };
-};
\ No newline at end of file
+};
+
+// Viewers can read, editors change integrations and sync data, admins
+// manage connected accounts and members, owners manage the organization
+export const requireRole = (minimum: OrganizationRole) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!OrganizationService.hasRole(req.user.role, minimum)) {
+      return next(new AppError('Insufficient role for this action', 403));
+    }
+
+    next();
+  };
+};
+
+// For account security settings, which an API key must not be able to change
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  if (req.user.apiKeyId) {
+    return next(new AppError('This action requires a signed-in session', 403));
+  }
+
+  next();
+};
@@ -0,0 +1,24 @@
+import express, { Request, Router } from 'express';
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const keepRawBody = (req: Request, _res: any, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+/**
+ * Body parsing for webhook routes that keeps the exact bytes received.
+ * Provider signatures are computed over the raw payload, so re-serialising
+ * req.body would not reproduce them reliably. XML is accepted as text for
+ * Salesforce outbound messages.
+ */
+export const webhookBodyParser = Router();
+
+webhookBodyParser.use(express.json({ limit: '10mb', verify: keepRawBody }));
+webhookBodyParser.use(express.text({ type: ['text/xml', 'application/xml'], limit: '10mb', verify: keepRawBody }));
@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { prisma } from '../config/database';
 import { oauthService } from '../services/oauthService';
 import { catchAsync, AppError } from '../middleware/errorHandler';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -10,7 +10,7 @@ router.get(
   '/',
   catchAsync(async (req, res) => {
     const accounts = await prisma.account.findMany({
-      where: { userId: req.user!.id },
+      where: { organizationId: req.user!.organizationId },
       select: {
         id: true,
         provider: true,
@@ -40,7 +40,7 @@ oauthRouter.get(
   '/:provider/auth-url',
   catchAsync(async (req, res) => {
     const { provider } = req.params;
-    const { userId } = req.query;
+    const { userId, organizationId } = req.query;
     
     if (!userId) {
       return res.status(400).json({
@@ -56,7 +56,8 @@ oauthRouter.get(
     const authUrl = oauthService.generateAuthUrl(
       provider,
       userId as string,
-      redirectUri
+      redirectUri,
+      organizationId as string | undefined
     );
 
     res.json({
@@ -85,7 +86,7 @@ oauthRouter.get(
     const oauthBaseUrl = process.env.OAUTH_REDIRECT_BASE_URL || `${req.protocol}://${req.get('host')}`;
     const redirectUri = `${oauthBaseUrl}/api/accounts/oauth/${provider}/callback`;
 
-      const { userId, tokens, accountInfo } = await oauthService.exchangeCodeForTokens(
+      const { userId, organizationId, tokens, accountInfo } = await oauthService.exchangeCodeForTokens(
         provider,
         code as string,
         redirectUri,
@@ -94,6 +95,7 @@ oauthRouter.get(
 
       const accountId = await oauthService.saveAccount(
         userId,
+        organizationId,
         provider,
         tokens,
         accountInfo
@@ -109,12 +111,13 @@ oauthRouter.get(
 
 router.post(
   '/:accountId/refresh',
+  requireRole('admin'),
   catchAsync(async (req, res) => {
     const { accountId } = req.params;
 
-    // Verify account belongs to user
+    // Verify account belongs to the organization
     const account = await prisma.account.findFirst({
-      where: { id: accountId, userId: req.user!.id },
+      where: { id: accountId, organizationId: req.user!.organizationId },
     });
 
     if (!account) {
@@ -132,10 +135,11 @@ router.post(
 
 router.delete(
   '/:accountId',
+  requireRole('admin'),
   catchAsync(async (req, res) => {
     const { accountId } = req.params;
 
-    await oauthService.disconnectAccount(req.user!.id, accountId);
+    await oauthService.disconnectAccount(req.user!, accountId);
 
     res.json({
       success: true,
@@ -149,9 +153,9 @@ router.get(
   catchAsync(async (req, res) => {
     const { accountId } = req.params;
 
-    // Verify account belongs to user
+    // Verify account belongs to the organization
     const account = await prisma.account.findFirst({
-      where: { id: accountId, userId: req.user!.id },
+      where: { id: accountId, organizationId: req.user!.organizationId },
     });
 
     if (!account) {
@@ -237,6 +241,7 @@ router.get(
 // Simple account creation for API key-based providers
 router.post(
   '/simple',
+  requireRole('admin'),
   catchAsync(async (req, res) => {
     const { provider, providerType, accountName, apiKey } = req.body;
     const userId = req.user!.id;
@@ -246,10 +251,10 @@ router.post(
     }
 
     try {
-      // Check if account already exists for this user and provider
+      // Check if account already exists for this organization and provider
       const existingAccount = await prisma.account.findFirst({
         where: {
-          userId,
+          organizationId: req.user!.organizationId,
           provider,
           providerType
         }
@@ -279,6 +284,7 @@ router.post(
       const account = await prisma.account.create({
         data: {
           userId,
+          organizationId: req.user!.organizationId,
           provider,
           providerType,
           accountName: accountName || `${provider} Account`,
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { apiKeyService } from '../services/apiKeyService';
+import { catchAsync } from '../middleware/errorHandler';
+import { requireSubscription } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import { apiKeySchema } from '../utils/validation';
+
+const router = Router();
+
+router.get(
+  '/',
+  catchAsync(async (req, res) => {
+    const keys = await apiKeyService.getKeys(req.user!.id);
+
+    res.json({
+      success: true,
+      data: keys,
+    });
+  })
+);
+
+// API access is an Enterprise feature; existing keys stay listable and revocable
+router.post(
+  '/',
+  requireSubscription(['enterprise']),
+  validateRequest(apiKeySchema),
+  catchAsync(async (req, res) => {
+    const apiKey = await apiKeyService.createKey(req.user!, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: apiKey,
+      message: 'API key created. Copy it now, it will not be shown again.',
+    });
+  })
+);
+
+router.delete(
+  '/:keyId',
+  catchAsync(async (req, res) => {
+    await apiKeyService.revokeKey(req.user!.id, req.params.keyId);
+
+    res.json({
+      success: true,
+      message: 'API key revoked',
+    });
+  })
+);
+
+export default router;
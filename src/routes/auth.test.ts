@@ -0,0 +1,140 @@
+jest.mock('../config/database', () => ({ prisma: {} }));
+jest.mock('../config/redis', () => ({ redis: { isReady: false } }));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../services/ssoService', () => ({
+  SSO_STATE_TTL_SECONDS: 600,
+  ssoService: { startLogin: jest.fn(), samlMetadata: jest.fn(() => '<md:EntityDescriptor/>') },
+}));
+jest.mock('../services/authService', () => ({
+  authService: { completeSsoLogin: jest.fn() },
+}));
+
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { authService } from '../services/authService';
+import { ssoService } from '../services/ssoService';
+import authRoutes from './auth';
+
+const app = express();
+app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
+app.use('/api/auth', authRoutes);
+
+const startLogin = ssoService.startLogin as jest.Mock;
+const completeSsoLogin = authService.completeSsoLogin as jest.Mock;
+
+describe('single sign-on routes', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('GET /sso/start', () => {
+    it('pins the state to the browser and redirects to the identity provider', async () => {
+      startLogin.mockResolvedValue({ authUrl: 'https://idp.test/authorize?state=st_123', state: 'st_123', protocol: 'oidc' });
+
+      const response = await request(app).get('/api/auth/sso/start').query({ email: 'ada@example.com' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('https://idp.test/authorize?state=st_123');
+      expect(response.headers['set-cookie']).toHaveLength(1);
+
+      const cookie = response.headers['set-cookie'][0];
+      expect(cookie).toMatch(/^sso_state=st_123;/);
+      expect(cookie).toMatch(/; Max-Age=600;/);
+      expect(cookie).toMatch(/; Path=\/api\/auth\/sso;/);
+      expect(cookie).toMatch(/; HttpOnly/);
+      expect(cookie).toMatch(/; SameSite=Lax/);
+    });
+
+    it('lets the state cookie ride along on a SAML response post', async () => {
+      startLogin.mockResolvedValue({ authUrl: 'https://idp.test/saml?RelayState=st_456', state: 'st_456', protocol: 'saml' });
+
+      const response = await request(app).get('/api/auth/sso/start').query({ email: 'ada@example.com' });
+
+      expect(response.headers['set-cookie'][0]).toMatch(/^sso_state=st_456;.*; Secure; SameSite=None$/);
+    });
+
+    it('sends the browser back to the login page when sign-in cannot start', async () => {
+      startLogin.mockRejectedValue(new AppError('Single sign-on is not set up for this email domain', 404));
+
+      const response = await request(app).get('/api/auth/sso/start').query({ email: 'ada@example.org' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location)
+        .toBe(`${config.frontendUrl}/login?sso_error=${encodeURIComponent('Single sign-on is not set up for this email domain')}`);
+      expect(response.headers['set-cookie']).toBeUndefined();
+    });
+  });
+
+  describe('GET /sso/callback', () => {
+    it('passes the browser state through and clears the cookie', async () => {
+      completeSsoLogin.mockResolvedValue({ refreshToken: 'rt_abc', organizationId: 'org_1' });
+
+      const response = await request(app)
+        .get('/api/auth/sso/callback')
+        .query({ code: 'code_1', state: 'st_123' })
+        .set('Cookie', 'sso_state=st_123');
+
+      expect(completeSsoLogin).toHaveBeenCalledWith({ code: 'code_1', state: 'st_123' }, 'st_123', expect.any(Object));
+      expect(response.headers.location).toBe(`${config.frontendUrl}/sso/callback#refreshToken=rt_abc&organizationId=org_1`);
+      expect(response.headers['set-cookie'][0]).toMatch(/^sso_state=; Path=\/api\/auth\/sso; Expires=Thu, 01 Jan 1970/);
+    });
+
+    it('hands a missing cookie to the service to refuse', async () => {
+      completeSsoLogin.mockRejectedValue(new AppError('Sign-in was started in another browser, please try again', 400));
+
+      const response = await request(app).get('/api/auth/sso/callback').query({ code: 'code_1', state: 'st_123' });
+
+      expect(completeSsoLogin).toHaveBeenCalledWith({ code: 'code_1', state: 'st_123' }, undefined, expect.any(Object));
+      expect(response.headers.location)
+        .toBe(`${config.frontendUrl}/login?sso_error=${encodeURIComponent('Sign-in was started in another browser, please try again')}`);
+    });
+
+    it('reports an error from the identity provider', async () => {
+      const response = await request(app)
+        .get('/api/auth/sso/callback')
+        .query({ error: 'access_denied', error_description: 'User cancelled' })
+        .set('Cookie', 'sso_state=st_123');
+
+      expect(completeSsoLogin).not.toHaveBeenCalled();
+      expect(response.headers.location).toBe(`${config.frontendUrl}/login?sso_error=User%20cancelled`);
+      expect(response.headers['set-cookie'][0]).toMatch(/^sso_state=;/);
+    });
+  });
+
+  describe('POST /sso/saml/acs', () => {
+    it('passes the posted response and RelayState through with the browser state', async () => {
+      completeSsoLogin.mockResolvedValue({ refreshToken: 'rt_def', organizationId: 'org_1' });
+
+      const response = await request(app)
+        .post('/api/auth/sso/saml/acs')
+        .type('form')
+        .send({ SAMLResponse: 'PHNhbWxwOlJlc3BvbnNlLz4=', RelayState: 'st_456' })
+        .set('Cookie', 'sso_state=st_456');
+
+      expect(completeSsoLogin).toHaveBeenCalledWith({ samlResponse: 'PHNhbWxwOlJlc3BvbnNlLz4=', state: 'st_456' }, 'st_456', expect.any(Object));
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe(`${config.frontendUrl}/sso/callback#refreshToken=rt_def&organizationId=org_1`);
+      expect(response.headers['set-cookie'][0]).toMatch(/^sso_state=;/);
+    });
+
+    it('refuses an unsolicited response without a RelayState', async () => {
+      const response = await request(app)
+        .post('/api/auth/sso/saml/acs')
+        .type('form')
+        .send({ SAMLResponse: 'PHNhbWxwOlJlc3BvbnNlLz4=' });
+
+      expect(completeSsoLogin).not.toHaveBeenCalled();
+      expect(response.headers.location).toBe(`${config.frontendUrl}/login?sso_error=${encodeURIComponent('SAML response and RelayState are required')}`);
+    });
+  });
+
+  it('serves the SAML service provider metadata', async () => {
+    const response = await request(app).get('/api/auth/sso/saml/metadata');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^application\/samlmetadata\+xml/);
+    expect(response.text).toBe('<md:EntityDescriptor/>');
+  });
+});
@@ -1,20 +1,32 @@
-import { Router } from 'express';
+import { Router, Request, Response, CookieOptions } from 'express';
 import { authService } from '../services/authService';
 import { oauthService } from '../services/oauthService';
+import { SessionClient } from '../services/sessionService';
+import { ssoService, SsoCallback, SSO_STATE_TTL_SECONDS } from '../services/ssoService';
+import { config } from '../config';
+import { logger } from '../config/logger';
 import { catchAsync } from '../middleware/errorHandler';
-import { validateRequest } from '../utils/validation';
+import { validateRequest, validateQuery } from '../utils/validation';
 import {
   userRegistrationSchema,
   userLoginSchema,
+  twoFactorLoginSchema,
+  ssoEmailSchema,
 } from '../utils/validation';
 
 const router = Router();
 
+// The device a session is started or refreshed from, shown in the session list
+const sessionClient = (req: Request): SessionClient => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 router.post(
   '/register',
   validateRequest(userRegistrationSchema),
   catchAsync(async (req, res) => {
-    const result = await authService.register(req.body);
+    const result = await authService.register(req.body, sessionClient(req));
 
     res.status(201).json({
       success: true,
@@ -29,7 +41,26 @@ router.post(
   validateRequest(userLoginSchema),
   catchAsync(async (req, res) => {
     const { email, password } = req.body;
-    const result = await authService.login(email, password);
+    const result = await authService.login(email, password, sessionClient(req));
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'twoFactorRequired' in result ? 'Two-factor code required' : 'Login successful',
+    });
+  })
+);
+
+router.post(
+  '/login/two-factor',
+  validateRequest(twoFactorLoginSchema),
+  catchAsync(async (req, res) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+    const result = await authService.completeTwoFactorLogin(
+      challengeToken,
+      { code, recoveryCode },
+      sessionClient(req)
+    );
 
     res.json({
       success: true,
@@ -39,6 +70,105 @@ router.post(
   })
 );
 
+// Lets the login page route addresses on SSO domains to their identity provider
+router.post(
+  '/sso/discover',
+  validateRequest(ssoEmailSchema),
+  catchAsync(async (req, res) => {
+    const connection = await ssoService.findConnectionForEmail(req.body.email);
+
+    res.json({
+      success: true,
+      data: { ssoAvailable: Boolean(connection), ssoRequired: Boolean(connection?.enforced) },
+    });
+  })
+);
+
+// The state lives in a cookie on this origin as well as in the callback,
+// so a callback can only finish sign-in in the browser that started it
+const SSO_STATE_COOKIE = 'sso_state';
+const ssoStateCookie: CookieOptions = {
+  httpOnly: true,
+  secure: config.nodeEnv === 'production',
+  sameSite: 'lax', // Sent on the identity provider's redirect back
+  path: '/api/auth/sso',
+};
+
+// SAML responses arrive as a cross-site POST, which only carries SameSite=None cookies
+const samlStateCookie: CookieOptions = { ...ssoStateCookie, secure: true, sameSite: 'none' };
+
+const ssoFailure = (message: string) => `${config.frontendUrl}/login?sso_error=${encodeURIComponent(message)}`;
+
+// The login page navigates here (rather than fetching it) so the cookie is
+// set by this origin, which is where the identity provider sends the browser back
+router.get(
+  '/sso/start',
+  validateQuery(ssoEmailSchema),
+  catchAsync(async (req, res) => {
+    try {
+      const { authUrl, state, protocol } = await ssoService.startLogin(req.query.email as string);
+      const cookie = protocol === 'saml' ? samlStateCookie : ssoStateCookie;
+
+      res.cookie(SSO_STATE_COOKIE, state, { ...cookie, maxAge: SSO_STATE_TTL_SECONDS * 1000 });
+      res.redirect(authUrl);
+    } catch (err: any) {
+      logger.warn(`SSO sign-in could not start: ${err.message}`);
+      res.redirect(ssoFailure(err.isOperational ? err.message : 'Could not start single sign-on'));
+    }
+  })
+);
+
+// Back to the app with a refresh token in the fragment, or to the login page with an error
+const finishSsoLogin = async (req: Request, res: Response, callback: SsoCallback) => {
+  const browserState = req.cookies?.[SSO_STATE_COOKIE];
+  res.clearCookie(SSO_STATE_COOKIE, ssoStateCookie);
+
+  try {
+    const result = await authService.completeSsoLogin(callback, browserState, sessionClient(req));
+    const fragment = new URLSearchParams(result).toString();
+
+    res.redirect(`${config.frontendUrl}/sso/callback#${fragment}`);
+  } catch (err: any) {
+    logger.warn(`SSO sign-in failed: ${err.message}`);
+    res.redirect(ssoFailure(err.isOperational ? err.message : 'Single sign-on failed'));
+  }
+};
+
+// OpenID Connect providers send the browser here
+router.get(
+  '/sso/callback',
+  catchAsync(async (req, res) => {
+    const { code, state, error, error_description } = req.query;
+
+    if (error || !code || !state) {
+      res.clearCookie(SSO_STATE_COOKIE, ssoStateCookie);
+      return res.redirect(ssoFailure((error_description || error || 'Authorization code and state are required') as string));
+    }
+
+    await finishSsoLogin(req, res, { code: code as string, state: state as string });
+  })
+);
+
+// SAML providers post the signed response here, with the state as RelayState
+router.post(
+  '/sso/saml/acs',
+  catchAsync(async (req, res) => {
+    const { SAMLResponse, RelayState } = req.body;
+
+    if (!SAMLResponse || !RelayState) {
+      res.clearCookie(SSO_STATE_COOKIE, ssoStateCookie);
+      return res.redirect(ssoFailure('SAML response and RelayState are required'));
+    }
+
+    await finishSsoLogin(req, res, { samlResponse: SAMLResponse, state: RelayState });
+  })
+);
+
+// Service provider metadata to load into the SAML identity provider
+router.get('/sso/saml/metadata', (req, res) => {
+  res.type('application/samlmetadata+xml').send(ssoService.samlMetadata());
+});
+
 router.post(
   '/refresh',
   catchAsync(async (req, res) => {
@@ -51,7 +181,7 @@ router.post(
       });
     }
 
-    const result = await authService.refreshToken(refreshToken);
+    const result = await authService.refreshToken(refreshToken, sessionClient(req));
 
     res.json({
       success: true,
@@ -64,10 +194,10 @@ router.post(
 router.post(
   '/logout',
   catchAsync(async (req, res) => {
-    const { userId } = req.body;
+    const { refreshToken } = req.body;
 
-    if (userId) {
-      await authService.logout(userId);
+    if (refreshToken) {
+      await authService.logout(refreshToken);
     }
 
     res.json({
@@ -186,6 +316,7 @@ router.get(
 
     const accountId = await oauthService.saveAccount(
       result.userId,
+      result.organizationId,
       provider,
       result.tokens,
       result.accountInfo
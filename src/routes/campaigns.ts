@@ -0,0 +1,123 @@
+import { Router } from 'express';
+import { campaignService } from '../services/campaignService';
+import { catchAsync } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, validateQuery } from '../utils/validation';
+import { campaignSchema, campaignTargetFilterSchema } from '../utils/validation';
+
+const router = Router();
+
+router.get(
+  '/',
+  catchAsync(async (req, res) => {
+    const campaigns = await campaignService.getCampaigns(req.user!);
+
+    res.json({
+      success: true,
+      data: campaigns,
+    });
+  })
+);
+
+router.post(
+  '/',
+  requireRole('editor'),
+  validateRequest(campaignSchema),
+  catchAsync(async (req, res) => {
+    const campaign = await campaignService.createCampaign(req.user!, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: campaign,
+      message: `Campaign created with ${campaign.totalTargets} targets`,
+    });
+  })
+);
+
+router.get(
+  '/:campaignId',
+  catchAsync(async (req, res) => {
+    const campaign = await campaignService.getCampaign(req.user!, req.params.campaignId);
+
+    res.json({
+      success: true,
+      data: campaign,
+    });
+  })
+);
+
+router.get(
+  '/:campaignId/targets',
+  validateQuery(campaignTargetFilterSchema),
+  catchAsync(async (req, res) => {
+    const result = await campaignService.getCampaignTargets(req.user!, req.params.campaignId, {
+      status: req.query.status as string,
+      page: req.query.page as unknown as number,
+      limit: req.query.limit as unknown as number,
+    });
+
+    res.json({
+      success: true,
+      data: result.targets,
+      pagination: result.pagination,
+    });
+  })
+);
+
+router.post(
+  '/:campaignId/start',
+  requireRole('editor'),
+  catchAsync(async (req, res) => {
+    const campaign = await campaignService.startCampaign(req.user!, req.params.campaignId);
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign started',
+    });
+  })
+);
+
+router.post(
+  '/:campaignId/pause',
+  requireRole('editor'),
+  catchAsync(async (req, res) => {
+    const campaign = await campaignService.pauseCampaign(req.user!, req.params.campaignId);
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign paused',
+    });
+  })
+);
+
+router.post(
+  '/:campaignId/resume',
+  requireRole('editor'),
+  catchAsync(async (req, res) => {
+    const campaign = await campaignService.resumeCampaign(req.user!, req.params.campaignId);
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign resumed',
+    });
+  })
+);
+
+router.post(
+  '/:campaignId/cancel',
+  requireRole('editor'),
+  catchAsync(async (req, res) => {
+    const campaign = await campaignService.cancelCampaign(req.user!, req.params.campaignId);
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign cancelled',
+    });
+  })
+);
+
+export default router;
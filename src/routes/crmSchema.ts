@@ -15,11 +15,11 @@ router.get('/:accountId/schema', authMiddleware, async (req, res) => {
       throw new AppError('User not authenticated', 401);
     }
 
-    // Verify the account belongs to the user
+    // Verify the account belongs to the organization
     const account = await prisma.account.findFirst({
       where: {
         id: accountId,
-        userId: userId,
+        organizationId: req.user!.organizationId,
         providerType: 'crm' // Only CRM accounts have schemas
       },
       select: {
@@ -84,11 +84,11 @@ router.post('/:accountId/schema/refresh', authMiddleware, async (req, res) => {
       throw new AppError('User not authenticated', 401);
     }
 
-    // Verify the account belongs to the user and get access token
+    // Verify the account belongs to the organization and get access token
     const account = await prisma.account.findFirst({
       where: {
         id: accountId,
-        userId: userId,
+        organizationId: req.user!.organizationId,
         providerType: 'crm'
       },
       select: {
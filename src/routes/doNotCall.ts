@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { doNotCallService } from '../services/doNotCallService';
+import { catchAsync, AppError } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, validateQuery } from '../utils/validation';
+import { doNotCallEntrySchema, doNotCallFilterSchema } from '../utils/validation';
+
+const router = Router();
+
+// CSV imports are parsed in memory, so keep uploads small
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+});
+
+router.get(
+  '/',
+  validateQuery(doNotCallFilterSchema),
+  catchAsync(async (req, res) => {
+    const result = await doNotCallService.getEntries(req.user!, {
+      search: req.query.search as string,
+      page: req.query.page as unknown as number,
+      limit: req.query.limit as unknown as number,
+    });
+
+    res.json({
+      success: true,
+      data: result.entries,
+      pagination: result.pagination,
+    });
+  })
+);
+
+router.post(
+  '/',
+  requireRole('editor'),
+  validateRequest(doNotCallEntrySchema),
+  catchAsync(async (req, res) => {
+    const entry = await doNotCallService.addEntry(req.user!, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: 'Number added to the do-not-call list',
+    });
+  })
+);
+
+router.post(
+  '/import',
+  requireRole('editor'),
+  upload.single('file'),
+  catchAsync(async (req, res) => {
+    if (!req.file) {
+      throw new AppError('A CSV file is required', 400);
+    }
+
+    const result = await doNotCallService.importCsv(req.user!, req.file.buffer);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Imported ${result.added} numbers`,
+    });
+  })
+);
+
+router.delete(
+  '/:entryId',
+  requireRole('editor'),
+  catchAsync(async (req, res) => {
+    await doNotCallService.removeEntry(req.user!, req.params.entryId);
+
+    res.json({
+      success: true,
+      message: 'Number removed from the do-not-call list',
+    });
+  })
+);
+
+export default router;
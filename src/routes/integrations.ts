@@ -2,8 +2,15 @@ import { Router } from 'express';
 import { integrationService } from '../services/integrationService';
 import { businessLogicEngine } from '../services/businessLogicEngine';
 import { catchAsync } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/auth';
 import { validateRequest, validateQuery } from '../utils/validation';
-import { integrationSchema, paginationSchema } from '../utils/validation';
+import {
+  integrationSchema,
+  integrationUpdateSchema,
+  paginationSchema,
+  workflowSimulationSchema,
+  dealTitlePreviewSchema,
+} from '../utils/validation';
 
 const router = Router();
 
@@ -39,7 +46,7 @@ router.get(
       provider: req.query.provider as string,
     };
 
-    const integrations = await integrationService.getIntegrations(req.user!.id, filters);
+    const integrations = await integrationService.getIntegrations(req.user!, filters);
 
     res.json({
       success: true,
@@ -50,9 +57,10 @@ router.get(
 
 router.post(
   '/',
+  requireRole('editor'),
   validateRequest(integrationSchema),
   catchAsync(async (req, res) => {
-    const integration = await integrationService.createIntegration(req.user!.id, req.body);
+    const integration = await integrationService.createIntegration(req.user!, req.body);
 
     res.status(201).json({
       success: true,
@@ -66,7 +74,7 @@ router.get(
   '/:integrationId',
   catchAsync(async (req, res) => {
     const integration = await integrationService.getIntegration(
-      req.user!.id,
+      req.user!,
       req.params.integrationId
     );
 
@@ -79,9 +87,11 @@ router.get(
 
 router.put(
   '/:integrationId',
+  requireRole('editor'),
+  validateRequest(integrationUpdateSchema),
   catchAsync(async (req, res) => {
     const integration = await integrationService.updateIntegration(
-      req.user!.id,
+      req.user!,
       req.params.integrationId,
       req.body
     );
@@ -96,9 +106,10 @@ router.put(
 
 router.post(
   '/:integrationId/publish',
+  requireRole('editor'),
   catchAsync(async (req, res) => {
     const integration = await integrationService.publishDraftIntegration(
-      req.user!.id,
+      req.user!,
       req.params.integrationId
     );
 
@@ -112,8 +123,9 @@ router.post(
 
 router.delete(
   '/:integrationId',
+  requireRole('admin'),
   catchAsync(async (req, res) => {
-    await integrationService.deleteIntegration(req.user!.id, req.params.integrationId);
+    await integrationService.deleteIntegration(req.user!, req.params.integrationId);
 
     res.json({
       success: true,
@@ -126,7 +138,7 @@ router.post(
   '/:integrationId/test',
   catchAsync(async (req, res) => {
     const testResults = await integrationService.testIntegration(
-      req.user!.id,
+      req.user!,
       req.params.integrationId
     );
 
@@ -143,7 +155,7 @@ router.get(
     const period = req.query.period as string || '7d';
     
     const stats = await integrationService.getIntegrationStats(
-      req.user!.id,
+      req.user!,
       req.params.integrationId,
       period
     );
@@ -160,7 +172,7 @@ router.get(
   '/wizard/agents/:accountId',
   catchAsync(async (req, res) => {
     const agents = await integrationService.getRetellAgents(
-      req.user!.id,
+      req.user!,
       req.params.accountId
     );
 
@@ -175,7 +187,7 @@ router.get(
   '/wizard/agents-with-purposes/:accountId',
   catchAsync(async (req, res) => {
     const agents = await integrationService.getRetellAgentsWithPurposes(
-      req.user!.id,
+      req.user!,
       req.params.accountId
     );
 
@@ -192,7 +204,7 @@ router.get(
     const objectType = req.query.objectType as string || 'leads';
     
     const fields = await integrationService.getAvailableFields(
-      req.user!.id,
+      req.user!,
       req.params.accountId,
       objectType
     );
@@ -206,11 +218,12 @@ router.get(
 
 router.post(
   '/:integrationId/toggle',
+  requireRole('editor'),
   catchAsync(async (req, res) => {
     const { isActive } = req.body;
 
     const integration = await integrationService.updateIntegration(
-      req.user!.id,
+      req.user!,
       req.params.integrationId,
       { isActive }
     );
@@ -225,9 +238,10 @@ router.post(
 
 router.post(
   '/:integrationId/duplicate',
+  requireRole('editor'),
   catchAsync(async (req, res) => {
     const originalIntegration = await integrationService.getIntegration(
-      req.user!.id,
+      req.user!,
       req.params.integrationId
     );
 
@@ -241,10 +255,20 @@ router.post(
       fieldMappings: originalIntegration.fieldMappings as any,
       triggerFilters: originalIntegration.triggerFilters as any,
       callConfiguration: originalIntegration.callConfiguration as any,
+      dealTitlePolicy: originalIntegration.dealTitlePolicy as any,
+      dealRouting: originalIntegration.dealRouting as any,
+      callingWindow: originalIntegration.callingWindow as any,
+      redialPolicy: originalIntegration.redialPolicy as any,
+      defaultPhoneRegion: originalIntegration.defaultPhoneRegion,
+      contactMatching: originalIntegration.contactMatching as any,
+      callerContext: originalIntegration.callerContext as any,
+      callFunctions: originalIntegration.callFunctions as any,
+      appointmentBooking: originalIntegration.appointmentBooking as any,
+      requireSignature: originalIntegration.requireSignature,
     };
 
     const newIntegration = await integrationService.createIntegration(
-      req.user!.id,
+      req.user!,
       duplicateData
     );
 
@@ -259,8 +283,9 @@ router.post(
 // Template and smart mapping endpoints
 router.post(
   '/:integrationId/templates/consultation-booking',
+  requireRole('editor'),
   catchAsync(async (req, res) => {
-    await businessLogicEngine.applyConsultationBookingTemplate(req.params.integrationId);
+    await businessLogicEngine.applyConsultationBookingTemplate(req.user!.organizationId, req.params.integrationId);
 
     res.json({
       success: true,
@@ -269,6 +294,42 @@ router.post(
   })
 );
 
+// Dry-run workflows against a sample call without touching the CRM
+router.post(
+  '/:integrationId/simulate',
+  validateRequest(workflowSimulationSchema),
+  catchAsync(async (req, res) => {
+    const simulation = await businessLogicEngine.simulateWorkflows(
+      req.user!.organizationId,
+      req.params.integrationId,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: simulation,
+    });
+  })
+);
+
+// Titles recent calls would get under the saved (or a draft) deal title policy
+router.post(
+  '/:integrationId/deal-title/preview',
+  validateRequest(dealTitlePreviewSchema),
+  catchAsync(async (req, res) => {
+    const previews = await integrationService.previewDealTitles(
+      req.user!,
+      req.params.integrationId,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: previews,
+    });
+  })
+);
+
 router.post(
   '/analyze-webhook-fields',
   catchAsync(async (req, res) => {
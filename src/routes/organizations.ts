@@ -0,0 +1,252 @@
+import { Router } from 'express';
+import { organizationService } from '../services/organizationService';
+import { ssoService } from '../services/ssoService';
+import { catchAsync } from '../middleware/errorHandler';
+import { requireRole, requireSession, requireSubscription } from '../middleware/auth';
+import { validateRequest } from '../utils/validation';
+import {
+  organizationSchema,
+  organizationUpdateSchema,
+  organizationMemberSchema,
+  organizationInvitationSchema,
+  invitationAcceptSchema,
+  ssoConnectionSchema,
+  ssoDomainSchema,
+} from '../utils/validation';
+
+const router = Router();
+
+router.get(
+  '/',
+  catchAsync(async (req, res) => {
+    const organizations = await organizationService.getOrganizations(req.user!.id);
+
+    res.json({
+      success: true,
+      data: organizations.map(organization => ({
+        ...organization,
+        current: organization.id === req.user!.organizationId,
+      })),
+    });
+  })
+);
+
+router.post(
+  '/',
+  validateRequest(organizationSchema),
+  catchAsync(async (req, res) => {
+    const organization = await organizationService.createOrganization(req.user!.id, req.body.name);
+
+    res.status(201).json({
+      success: true,
+      data: organization,
+      message: 'Organization created successfully',
+    });
+  })
+);
+
+router.put(
+  '/current',
+  requireRole('owner'),
+  validateRequest(organizationUpdateSchema),
+  catchAsync(async (req, res) => {
+    const organization = await organizationService.updateOrganization(req.user!, req.body);
+
+    res.json({
+      success: true,
+      data: organization,
+      message: 'Organization updated successfully',
+    });
+  })
+);
+
+router.get(
+  '/members',
+  catchAsync(async (req, res) => {
+    const members = await organizationService.getMembers(req.user!.organizationId);
+
+    res.json({
+      success: true,
+      data: members,
+    });
+  })
+);
+
+router.patch(
+  '/members/:memberId',
+  requireRole('admin'),
+  validateRequest(organizationMemberSchema),
+  catchAsync(async (req, res) => {
+    const member = await organizationService.updateMemberRole(req.user!, req.params.memberId, req.body.role);
+
+    res.json({
+      success: true,
+      data: member,
+      message: 'Member role updated',
+    });
+  })
+);
+
+// Admins remove members; anyone may remove themselves to leave
+router.delete(
+  '/members/:memberId',
+  catchAsync(async (req, res) => {
+    await organizationService.removeMember(req.user!, req.params.memberId);
+
+    res.json({
+      success: true,
+      message: 'Member removed from the organization',
+    });
+  })
+);
+
+router.get(
+  '/invitations',
+  requireRole('admin'),
+  catchAsync(async (req, res) => {
+    const invitations = await organizationService.getInvitations(req.user!.organizationId);
+
+    res.json({
+      success: true,
+      data: invitations,
+    });
+  })
+);
+
+router.post(
+  '/invitations',
+  requireRole('admin'),
+  validateRequest(organizationInvitationSchema),
+  catchAsync(async (req, res) => {
+    const invitation = await organizationService.inviteMember(req.user!, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: invitation,
+      message: `Invitation sent to ${invitation.email}`,
+    });
+  })
+);
+
+router.post(
+  '/invitations/accept',
+  validateRequest(invitationAcceptSchema),
+  catchAsync(async (req, res) => {
+    const organization = await organizationService.acceptInvitation(req.user!, req.body.token);
+
+    res.json({
+      success: true,
+      data: organization,
+      message: `You joined ${organization.name}`,
+    });
+  })
+);
+
+router.delete(
+  '/invitations/:invitationId',
+  requireRole('admin'),
+  catchAsync(async (req, res) => {
+    await organizationService.revokeInvitation(req.user!, req.params.invitationId);
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked',
+    });
+  })
+);
+
+// Single sign-on is configured by owners, from a signed-in session only
+router.get(
+  '/sso',
+  requireRole('admin'),
+  catchAsync(async (req, res) => {
+    const [connection, domains] = await Promise.all([
+      ssoService.getConnection(req.user!.organizationId),
+      ssoService.getDomains(req.user!.organizationId),
+    ]);
+
+    res.json({
+      success: true,
+      data: { connection, domains },
+    });
+  })
+);
+
+router.put(
+  '/sso',
+  requireRole('owner'),
+  requireSession,
+  requireSubscription(['enterprise']),
+  validateRequest(ssoConnectionSchema),
+  catchAsync(async (req, res) => {
+    const connection = await ssoService.saveConnection(req.user!, req.body);
+
+    res.json({
+      success: true,
+      data: connection,
+      message: 'Single sign-on saved',
+    });
+  })
+);
+
+router.delete(
+  '/sso',
+  requireRole('owner'),
+  requireSession,
+  catchAsync(async (req, res) => {
+    await ssoService.deleteConnection(req.user!);
+
+    res.json({
+      success: true,
+      message: 'Single sign-on removed',
+    });
+  })
+);
+
+router.post(
+  '/sso/domains',
+  requireRole('owner'),
+  requireSession,
+  requireSubscription(['enterprise']),
+  validateRequest(ssoDomainSchema),
+  catchAsync(async (req, res) => {
+    const domain = await ssoService.addDomain(req.user!, req.body.domain);
+
+    res.status(201).json({
+      success: true,
+      data: domain,
+      message: `Add the TXT record to ${domain.domain} to verify it`,
+    });
+  })
+);
+
+router.post(
+  '/sso/domains/:domainId/verify',
+  requireRole('owner'),
+  requireSession,
+  catchAsync(async (req, res) => {
+    const domain = await ssoService.verifyDomain(req.user!, req.params.domainId);
+
+    res.json({
+      success: true,
+      data: domain,
+      message: `${domain.domain} verified`,
+    });
+  })
+);
+
+router.delete(
+  '/sso/domains/:domainId',
+  requireRole('owner'),
+  requireSession,
+  catchAsync(async (req, res) => {
+    await ssoService.removeDomain(req.user!, req.params.domainId);
+
+    res.json({
+      success: true,
+      message: 'Domain removed',
+    });
+  })
+);
+
+export default router;
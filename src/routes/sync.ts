@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { syncService } from '../services/syncService';
+import { contactReviewService } from '../services/contactReviewService';
 import { catchAsync } from '../middleware/errorHandler';
-import { validateQuery } from '../utils/validation';
-import { syncEventFilterSchema } from '../utils/validation';
+import { requireRole } from '../middleware/auth';
+import { validateQuery, validateRequest } from '../utils/validation';
+import { syncEventFilterSchema, contactReviewFilterSchema, contactReviewSchema } from '../utils/validation';
 
 const router = Router();
 
@@ -20,7 +22,7 @@ router.get(
       limit: req.query.limit as number,
     };
 
-    const result = await syncService.getSyncEvents(req.user!.id, filters);
+    const result = await syncService.getSyncEvents(req.user!.organizationId, filters);
 
     res.json({
       success: true,
@@ -34,7 +36,7 @@ router.get(
   '/events/:syncEventId',
   catchAsync(async (req, res) => {
     const syncEvent = await syncService.getSyncEventDetails(
-      req.user!.id,
+      req.user!.organizationId,
       req.params.syncEventId
     );
 
@@ -47,9 +49,10 @@ router.get(
 
 router.post(
   '/events/:syncEventId/retry',
+  requireRole('editor'),
   catchAsync(async (req, res) => {
     const result = await syncService.retrySyncEvent(
-      req.user!.id,
+      req.user!.organizationId,
       req.params.syncEventId
     );
 
@@ -61,6 +64,43 @@ router.post(
   })
 );
 
+router.get(
+  '/reviews',
+  validateQuery(contactReviewFilterSchema),
+  catchAsync(async (req, res) => {
+    const result = await contactReviewService.getReviews(req.user!.organizationId, {
+      integrationId: req.query.integrationId as string,
+      page: req.query.page as number,
+      limit: req.query.limit as number,
+    });
+
+    res.json({
+      success: true,
+      data: result.reviews,
+      pagination: result.pagination,
+    });
+  })
+);
+
+router.post(
+  '/events/:syncEventId/review',
+  requireRole('editor'),
+  validateRequest(contactReviewSchema),
+  catchAsync(async (req, res) => {
+    const result = await contactReviewService.resolveReview(
+      req.user!,
+      req.params.syncEventId,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Contact review resolved',
+    });
+  })
+);
+
 router.get(
   '/export',
   catchAsync(async (req, res) => {
@@ -72,7 +112,7 @@ router.get(
       format: (req.query.format as 'csv' | 'pdf') || 'csv',
     };
 
-    const exportResult = await syncService.exportSyncEvents(req.user!.id, filters);
+    const exportResult = await syncService.exportSyncEvents(req.user!.organizationId, filters);
 
     res.set({
       'Content-Type': exportResult.contentType,
@@ -87,7 +127,7 @@ router.get(
   '/health/:integrationId',
   catchAsync(async (req, res) => {
     const health = await syncService.getIntegrationHealth(
-      req.user!.id,
+      req.user!.organizationId,
       req.params.integrationId
     );
 
@@ -119,7 +159,7 @@ router.get(
         startDate.setDate(startDate.getDate() - 7);
     }
 
-    const userId = req.user!.id;
+    const organizationId = req.user!.organizationId;
 
     const [
       totalEvents,
@@ -131,20 +171,20 @@ router.get(
       eventsByType,
     ] = await Promise.all([
       require('../config/database').prisma.syncEvent.count({
-        where: { userId, createdAt: { gte: startDate, lte: endDate } },
+        where: { organizationId, createdAt: { gte: startDate, lte: endDate } },
       }),
       require('../config/database').prisma.syncEvent.count({
-        where: { userId, status: 'completed', createdAt: { gte: startDate, lte: endDate } },
+        where: { organizationId, status: 'completed', createdAt: { gte: startDate, lte: endDate } },
       }),
       require('../config/database').prisma.syncEvent.count({
-        where: { userId, status: 'failed', createdAt: { gte: startDate, lte: endDate } },
+        where: { organizationId, status: 'failed', createdAt: { gte: startDate, lte: endDate } },
       }),
       require('../config/database').prisma.syncEvent.count({
-        where: { userId, retryCount: { gt: 0 }, createdAt: { gte: startDate, lte: endDate } },
+        where: { organizationId, retryCount: { gt: 0 }, createdAt: { gte: startDate, lte: endDate } },
       }),
       require('../config/database').prisma.syncEvent.findMany({
         where: {
-          userId,
+          organizationId,
           status: 'completed',
           processedAt: { not: null },
           createdAt: { gte: startDate, lte: endDate },
@@ -159,7 +199,7 @@ router.get(
       }),
       require('../config/database').prisma.syncEvent.groupBy({
         by: ['integrationId'],
-        where: { userId, createdAt: { gte: startDate, lte: endDate } },
+        where: { organizationId, createdAt: { gte: startDate, lte: endDate } },
         _count: { id: true },
         orderBy: { _count: { id: 'desc' } },
         take: 5,
@@ -177,7 +217,7 @@ router.get(
       }),
       require('../config/database').prisma.syncEvent.groupBy({
         by: ['eventType'],
-        where: { userId, createdAt: { gte: startDate, lte: endDate } },
+        where: { organizationId, createdAt: { gte: startDate, lte: endDate } },
         _count: { id: true },
       }).then((results: any[]) => {
         return results.map(result => ({
@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import { prisma } from '../config/database';
 import { catchAsync } from '../middleware/errorHandler';
+import { requireSession } from '../middleware/auth';
 import { validateRequest } from '../utils/validation';
-import { updateUserProfileSchema } from '../utils/validation';
+import { updateUserProfileSchema, twoFactorCodeSchema, twoFactorResetSchema } from '../utils/validation';
 import { comparePassword, hashPassword } from '../utils/encryption';
+import { sessionService } from '../services/sessionService';
+import { twoFactorService } from '../services/twoFactorService';
+import { organizationService } from '../services/organizationService';
 
 const router = Router();
 
@@ -78,11 +82,11 @@ router.put(
 router.get(
   '/statistics',
   catchAsync(async (req, res) => {
-    const userId = req.user!.id;
+    const organizationId = req.user!.organizationId;
 
-    // Get user integrations to filter webhook events
+    // Get organization integrations to filter webhook events
     const userIntegrations = await prisma.integration.findMany({
-      where: { userId },
+      where: { organizationId },
       select: { id: true }
     });
     const integrationIds = userIntegrations.map(i => i.id);
@@ -92,9 +96,9 @@ router.get(
       activeIntegrations,
       connectedAccounts,
     ] = await Promise.all([
-      prisma.integration.count({ where: { userId } }),
-      prisma.integration.count({ where: { userId, isActive: true } }),
-      prisma.account.count({ where: { userId, isActive: true } }),
+      prisma.integration.count({ where: { organizationId } }),
+      prisma.integration.count({ where: { organizationId, isActive: true } }),
+      prisma.account.count({ where: { organizationId, isActive: true } }),
     ]);
 
     // Get webhook events instead of sync events for real data
@@ -238,9 +242,9 @@ router.get(
     const endOfDay = new Date(selectedDate);
     endOfDay.setHours(23, 59, 59, 999);
 
-    // Get user integrations for filtering
+    // Get organization integrations for filtering
     const userIntegrations = await prisma.integration.findMany({
-      where: { userId },
+      where: { organizationId: req.user!.organizationId },
       select: { id: true, name: true }
     });
     const integrationIds = userIntegrations.map(i => i.id);
@@ -270,7 +274,7 @@ router.get(
       const syncEvents = await prisma.syncEvent.findMany({
         where: {
           retellCallId: { in: callIds },
-          userId
+          organizationId: req.user!.organizationId,
         },
       });
 
@@ -320,6 +324,11 @@ router.get(
           status = 'success';
           statusText = 'Analysis completed';
           activityText = 'Call analysis completed';
+
+          if (syncEvent?.status === 'needs_review') {
+            status = 'processing';
+            statusText = 'Waiting for contact review';
+          }
         }
 
         activities.push({
@@ -418,6 +427,7 @@ router.get(
 
 router.put(
   '/password',
+  requireSession,
   catchAsync(async (req, res) => {
     const { currentPassword, newPassword } = req.body;
     const userId = req.user!.id;
@@ -467,6 +477,9 @@ router.put(
       data: { password: hashedNewPassword },
     });
 
+    // Everyone else signed in as this user has to sign in again
+    await sessionService.revokeAll(userId, 'password_changed', req.user!.sessionId);
+
     // Log the password change
     await prisma.auditLog.create({
       data: {
@@ -483,27 +496,130 @@ router.put(
   })
 );
 
+router.get(
+  '/sessions',
+  catchAsync(async (req, res) => {
+    const sessions = await sessionService.getSessions(req.user!.id, req.user!.sessionId);
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  })
+);
+
+// Sign out everywhere except the device making the request
 router.delete(
-  '/account',
+  '/sessions',
+  requireSession,
   catchAsync(async (req, res) => {
-    const userId = req.user!.id;
+    const count = await sessionService.revokeAll(req.user!.id, 'revoked', req.user!.sessionId);
 
-    // Check for active integrations
-    const activeIntegrations = await prisma.integration.count({
-      where: { userId, isActive: true },
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'sessions_revoked',
+        details: { count },
+      },
     });
 
-    if (activeIntegrations > 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Cannot delete account with active integrations. Please disable all integrations first.',
-      });
-    }
+    res.json({
+      success: true,
+      data: { revoked: count },
+      message: `Signed out of ${count} other session${count === 1 ? '' : 's'}`,
+    });
+  })
+);
 
-    // Delete user and all related data (cascading deletes via Prisma schema)
-    await prisma.user.delete({
-      where: { id: userId },
+router.delete(
+  '/sessions/:sessionId',
+  requireSession,
+  catchAsync(async (req, res) => {
+    await sessionService.revokeSession(req.user!.id, req.params.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Session signed out',
     });
+  })
+);
+
+router.get(
+  '/two-factor',
+  catchAsync(async (req, res) => {
+    const status = await twoFactorService.getStatus(req.user!.id);
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  })
+);
+
+// Returns the secret to add to an authenticator app; confirmed via /enable
+router.post(
+  '/two-factor/setup',
+  requireSession,
+  catchAsync(async (req, res) => {
+    const setup = await twoFactorService.beginEnrolment(req.user!);
+
+    res.json({
+      success: true,
+      data: setup,
+    });
+  })
+);
+
+router.post(
+  '/two-factor/enable',
+  requireSession,
+  validateRequest(twoFactorCodeSchema),
+  catchAsync(async (req, res) => {
+    const result = await twoFactorService.enable(req.user!.id, req.body.code);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Two-factor authentication enabled',
+    });
+  })
+);
+
+router.post(
+  '/two-factor/recovery-codes',
+  requireSession,
+  validateRequest(twoFactorCodeSchema),
+  catchAsync(async (req, res) => {
+    const result = await twoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Recovery codes regenerated',
+    });
+  })
+);
+
+router.delete(
+  '/two-factor',
+  requireSession,
+  validateRequest(twoFactorResetSchema),
+  catchAsync(async (req, res) => {
+    const { password, code, recoveryCode } = req.body;
+    await twoFactorService.reset(req.user!.id, password, { code, recoveryCode });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  })
+);
+
+router.delete(
+  '/account',
+  requireSession,
+  catchAsync(async (req, res) => {
+    await organizationService.deleteAccount(req.user!.id);
 
     res.json({
       success: true,
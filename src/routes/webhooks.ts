@@ -1,59 +1,56 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { webhookProcessor } from '../services/webhookProcessor';
+import { callerContextService } from '../services/callerContextService';
+import { callFunctionService } from '../services/callFunctionService';
+import { webhookVerificationService, InboundCrmProvider } from '../services/webhookVerificationService';
+import { WebhookManager } from '../services/webhookManager';
 import { addWebhookJob } from '../services/jobQueue';
 import { catchAsync, AppError } from '../middleware/errorHandler';
+import { config } from '../config';
 import { logger } from '../config/logger';
 
 const router = Router();
 
-// Generic webhook receiver for CRM providers
-router.post(
-  '/:webhookId',
-  catchAsync(async (req, res) => {
-    const { webhookId } = req.params;
-    const signature = req.headers['x-signature'] as string || 
-                     req.headers['x-hub-signature-256'] as string ||
-                     req.headers['x-pipedrive-signature'] as string;
-
-    // Extract provider from webhook or headers
-    const provider = req.headers['x-provider'] as string || 
-                    req.body.source || 
-                    'unknown';
-
-    const eventType = req.headers['x-event-type'] as string || 
-                     req.body.event_type || 
-                     req.body.event || 
-                     'data_update';
+// Rejects CRM webhooks that fail the provider's own verification scheme
+const verifyCrmWebhook = (provider: InboundCrmProvider) => catchAsync(async (req: Request, res, next) => {
+  // Providers sign the public URL they called, not the one we see behind the tunnel
+  const baseUrl = WebhookManager.getCurrentBaseUrl() || config.apiBaseUrl;
+
+  const verification = await webhookVerificationService.verifyInboundRequest(provider, req.params.webhookId, {
+    method: req.method,
+    url: `${baseUrl}${req.originalUrl}`,
+    headers: req.headers,
+    query: req.query,
+    rawBody: req.rawBody ? req.rawBody.toString('utf8') : '',
+    body: req.body,
+  });
+
+  if (!verification.valid) {
+    throw new AppError(`Invalid ${provider} webhook: ${verification.reason}`, 401);
+  }
 
-    // Queue webhook for processing
-    await addWebhookJob({
-      integrationId: webhookId,
-      provider,
-      eventType,
-      payload: req.body,
-      signature,
-    }, 1); // High priority for webhooks
+  // Queue jobs against the integration we verified, not the id from the URL
+  res.locals.integrationId = verification.integrationId;
+  next();
+});
 
-    res.status(200).json({
-      success: true,
-      message: 'Webhook received and queued for processing',
-    });
-  })
-);
+// Acknowledgement Salesforce expects in reply to an outbound message
+const SALESFORCE_ACK = '<?xml version="1.0" encoding="UTF-8"?>'
+  + '<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/">'
+  + '<soapenv:Body><notificationsResponse xmlns="http://soap.sforce.com/2005/09/outbound">'
+  + '<Ack>true</Ack></notificationsResponse></soapenv:Body></soapenv:Envelope>';
 
 // Pipedrive webhook receiver
 router.post(
   '/pipedrive/:webhookId',
+  verifyCrmWebhook('pipedrive'),
   catchAsync(async (req, res) => {
-    const { webhookId } = req.params;
-    const signature = req.headers['x-pipedrive-signature'] as string;
-
     await addWebhookJob({
-      integrationId: webhookId,
+      integrationId: res.locals.integrationId,
       provider: 'pipedrive',
-      eventType: req.body.event || 'data_update',
+      eventType: req.body.event || req.body.meta?.action || 'data_update',
       payload: req.body,
-      signature,
+      verified: true,
     }, 1);
 
     res.status(200).json({ success: true });
@@ -63,16 +60,19 @@ router.post(
 // HubSpot webhook receiver
 router.post(
   '/hubspot/:webhookId',
+  verifyCrmWebhook('hubspot'),
   catchAsync(async (req, res) => {
-    const { webhookId } = req.params;
-    const signature = req.headers['x-hubspot-signature'] as string;
+    const signature = req.headers['x-hubspot-signature-v3'] as string;
+    // HubSpot batches events into an array
+    const firstEvent = Array.isArray(req.body) ? req.body[0] : req.body;
 
     await addWebhookJob({
-      integrationId: webhookId,
+      integrationId: res.locals.integrationId,
       provider: 'hubspot',
-      eventType: req.body.subscriptionType || 'contact.creation',
+      eventType: firstEvent?.subscriptionType || 'contact.creation',
       payload: req.body,
       signature,
+      verified: true,
     }, 1);
 
     res.status(200).json({ success: true });
@@ -82,18 +82,23 @@ router.post(
 // Salesforce webhook receiver
 router.post(
   '/salesforce/:webhookId',
+  verifyCrmWebhook('salesforce'),
   catchAsync(async (req, res) => {
-    const { webhookId } = req.params;
-    const signature = req.headers['x-salesforce-signature'] as string;
+    const isOutboundMessage = typeof req.body === 'string';
 
     await addWebhookJob({
-      integrationId: webhookId,
+      integrationId: res.locals.integrationId,
       provider: 'salesforce',
-      eventType: req.body.eventType || 'record_update',
-      payload: req.body,
-      signature,
+      eventType: isOutboundMessage ? 'outbound_message' : req.body.eventType || 'record_update',
+      payload: isOutboundMessage ? { outboundMessage: req.body } : req.body,
+      verified: true,
     }, 1);
 
+    if (isOutboundMessage) {
+      res.status(200).type('text/xml').send(SALESFORCE_ACK);
+      return;
+    }
+
     res.status(200).json({ success: true });
   })
 );
@@ -101,16 +106,14 @@ router.post(
 // Zoho webhook receiver
 router.post(
   '/zoho/:webhookId',
+  verifyCrmWebhook('zoho'),
   catchAsync(async (req, res) => {
-    const { webhookId } = req.params;
-    const signature = req.headers['x-zoho-signature'] as string;
-
     await addWebhookJob({
-      integrationId: webhookId,
+      integrationId: res.locals.integrationId,
       provider: 'zoho',
-      eventType: req.body.event_type || 'module_data_updated',
+      eventType: req.body.event_type || req.body.operation || 'module_data_updated',
       payload: req.body,
-      signature,
+      verified: true,
     }, 1);
 
     res.status(200).json({ success: true });
@@ -124,13 +127,15 @@ router.post(
     const { integrationId } = req.params;
     const signature = req.headers['x-retell-signature'] as string;
 
-    // Debug: Log the raw request details
+    const verification = await webhookProcessor.verifyRetellRequest(integrationId, req.rawBody, signature, req.body);
+    if (!verification.valid) {
+      throw new AppError(`Invalid Retell webhook signature: ${verification.reason}`, 401);
+    }
+
     logger.info('Retell webhook received:', {
       integrationId,
-      headers: req.headers,
-      bodyType: typeof req.body,
-      bodyLength: JSON.stringify(req.body).length,
-      rawBody: req.body
+      event: req.body.event,
+      callId: req.body.call?.call_id,
     });
 
     // Process Retell webhook directly (no queuing needed for status updates)
@@ -140,6 +145,67 @@ router.post(
   })
 );
 
+// Retell inbound call webhook: brief the agent on the caller before it answers
+router.post(
+  '/retell/:integrationId/inbound',
+  catchAsync(async (req, res) => {
+    // The caller lookup's latency budget starts now, not after verification
+    const receivedAt = Date.now();
+    const { integrationId } = req.params;
+    const signature = req.headers['x-retell-signature'] as string;
+
+    // The response carries CRM data, so unsigned requests are never accepted
+    const verification = await webhookProcessor.verifyRetellRequest(integrationId, req.rawBody, signature, req.body, true);
+    if (!verification.valid) {
+      throw new AppError(`Invalid Retell webhook signature: ${verification.reason}`, 401);
+    }
+
+    const fromNumber = req.body.call_inbound?.from_number || req.body.from_number;
+    const variables = fromNumber
+      ? await callerContextService.getDynamicVariables(integrationId, fromNumber, receivedAt)
+      : {};
+
+    logger.info('Retell inbound caller lookup:', {
+      integrationId,
+      known: variables.known_customer,
+      fields: Object.keys(variables).length,
+    });
+
+    // call_inbound is the shape Retell's inbound webhook reads the variables from
+    res.status(200).json({
+      call_inbound: { dynamic_variables: variables },
+      retell_llm_dynamic_variables: variables,
+    });
+  })
+);
+
+// Retell custom function: the agent reads or updates the CRM mid-call
+router.post(
+  '/retell/:integrationId/functions/:name',
+  catchAsync(async (req, res) => {
+    const { integrationId, name } = req.params;
+    const signature = req.headers['x-retell-signature'] as string;
+
+    // Functions read and write CRM data, so unsigned calls are never accepted
+    const verification = await webhookProcessor.verifyRetellRequest(integrationId, req.rawBody, signature, req.body, true);
+    if (!verification.valid) {
+      throw new AppError(`Invalid Retell webhook signature: ${verification.reason}`, 401);
+    }
+
+    const result = await callFunctionService.invoke(integrationId, name, req.body);
+
+    logger.info('Retell custom function called:', {
+      integrationId,
+      name,
+      callId: req.body.call?.call_id,
+      success: result.success,
+    });
+
+    // Failures stay 200 so the agent reads the error instead of retrying
+    res.status(200).json(result);
+  })
+);
+
 // Webhook validation endpoint for CRM providers
 router.get(
   '/:webhookId/validate',
@@ -161,31 +227,6 @@ router.get(
   })
 );
 
-// Manual webhook trigger for testing
-router.post(
-  '/:webhookId/test',
-  catchAsync(async (req, res) => {
-    const { webhookId } = req.params;
-    const { provider = 'test', eventType = 'test_event', payload = {} } = req.body;
-
-    await addWebhookJob({
-      integrationId: webhookId,
-      provider,
-      eventType,
-      payload: {
-        ...payload,
-        test: true,
-        timestamp: new Date().toISOString(),
-      },
-    }, 1);
-
-    res.status(200).json({
-      success: true,
-      message: 'Test webhook queued for processing',
-    });
-  })
-);
-
 // Get webhook logs for debugging
 router.get(
   '/:webhookId/logs',
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { generateSecureToken } from '../utils/encryption';
+import { ApiKeyResource, ApiKeyScope, OrganizationActor } from '../types';
+
+// Keys start with this so they're recognisable in configs and secret scanners
+export const API_KEY_PREFIX = 'rsk_';
+
+const MAX_KEYS_PER_USER = 25;
+const DISPLAY_PREFIX_LENGTH = 12;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+  organization: { select: { id: true, name: true } },
+};
+
+export class ApiKeyService {
+  static isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  static allows(scopes: string[], resource: ApiKeyResource, access: 'read' | 'write'): boolean {
+    return scopes.includes(`${resource}:write`) || (access === 'read' && scopes.includes(`${resource}:read`));
+  }
+
+  /**
+   * Create a key acting as the user in their current organization. The
+   * full key is returned only here; afterwards it is known by its prefix.
+   */
+  async createKey(actor: OrganizationActor, data: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }) {
+    const existing = await prisma.apiKey.count({ where: { userId: actor.id, revokedAt: null } });
+    if (existing >= MAX_KEYS_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_KEYS_PER_USER} active API keys`, 400);
+    }
+
+    const key = `${API_KEY_PREFIX}${generateSecureToken(24)}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId: actor.id,
+        organizationId: actor.organizationId,
+        name: data.name,
+        prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: [...new Set(data.scopes)],
+        expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+      select: KEY_SELECT,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: 'api_key_created',
+        resource: apiKey.id,
+        details: { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes },
+      },
+    });
+
+    return { ...apiKey, key };
+  }
+
+  async getKeys(userId: string) {
+    return prisma.apiKey.findMany({
+      where: { userId },
+      select: KEY_SELECT,
+      orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+    });
+  }
+
+  async revokeKey(userId: string, keyId: string) {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new AppError('API key not found', 404);
+    }
+
+    await prisma.auditLog.create({
+      data: { userId, action: 'api_key_revoked', resource: keyId, details: {} },
+    });
+  }
+
+  /**
+   * Look up the key a request was made with. Revoked, expired and unknown
+   * keys are all rejected the same way so they can't be told apart.
+   */
+  async authenticate(key: string, ipAddress?: string) {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            subscriptionTier: true,
+            subscriptionStatus: true,
+          },
+        },
+      },
+    });
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      throw new AppError('Invalid API key', 401);
+    }
+
+    // Busy integrations call constantly; a minute's precision is plenty
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date(), lastUsedIp: ipAddress || null },
+      });
+    }
+
+    return apiKey;
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
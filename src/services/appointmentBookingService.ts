@@ -0,0 +1,107 @@
+import { logger } from '../config/logger';
+import { AppointmentParser, ParsedAppointment } from '../utils/appointmentParser';
+import { AppointmentBookingPolicy, CrmAdapter, CrmScheduledActivity } from '../types';
+
+export type AppointmentBookingStatus = 'booked' | 'conflict' | 'not_requested';
+
+export interface AppointmentBookingResult {
+  status: AppointmentBookingStatus;
+  meetingId?: string;
+  appointment?: ParsedAppointment;
+  conflicts: CrmScheduledActivity[];
+}
+
+export interface AppointmentAttendees {
+  contactId: string;
+  contactName?: string;
+  contactPhone?: string;
+  dealId?: string;
+  ownerId?: string;
+}
+
+export class AppointmentBookingService {
+  /**
+   * Book the appointment agreed on a call into the CRM calendar, linked to
+   * the call's contact and deal. Times that clash with existing calendar
+   * entries are booked or skipped per the integration's policy; a skipped
+   * booking leaves a note so someone can offer another time.
+   */
+  async bookFromCall(
+    crm: CrmAdapter,
+    accessToken: string,
+    policy: AppointmentBookingPolicy,
+    callData: any,
+    attendees: AppointmentAttendees,
+    meetingId?: string
+  ): Promise<AppointmentBookingResult> {
+    const appointment = AppointmentParser.parse(
+      callData.call_analysis?.custom_analysis_data || {},
+      policy,
+      attendees.contactPhone,
+      callData.start_timestamp ? new Date(callData.start_timestamp) : new Date()
+    );
+
+    if (!appointment) {
+      return { status: 'not_requested', conflicts: [] };
+    }
+
+    // A replayed call finds its own meeting, which is not a conflict
+    const conflicts = (await crm.findActivitiesBetween(accessToken, appointment.start, appointment.end, attendees.ownerId))
+      .filter(activity => activity.id !== meetingId);
+
+    if (conflicts.length > 0 && policy.onConflict === 'skip' && !meetingId) {
+      await crm.addNote(accessToken, {
+        dealId: attendees.dealId,
+        contactId: attendees.contactId,
+        content: this.formatConflictNote(appointment, conflicts),
+      });
+      logger.warn(`Appointment at ${appointment.localTime} (${appointment.timezone}) not booked: ${conflicts.length} conflict(s)`);
+      return { status: 'conflict', appointment, conflicts };
+    }
+
+    const meeting = await crm.upsertMeeting(accessToken, {
+      contactId: attendees.contactId,
+      dealId: attendees.dealId,
+      ownerId: attendees.ownerId,
+      subject: attendees.contactName ? `${policy.subject} with ${attendees.contactName}` : policy.subject,
+      description: this.formatDescription(callData, appointment, conflicts),
+      start: appointment.start,
+      end: appointment.end,
+      timezone: appointment.timezone,
+    }, meetingId);
+
+    logger.info(`📅 Booked appointment ${meeting.id} at ${appointment.localTime} (${appointment.timezone})`);
+    return { status: 'booked', meetingId: meeting.id, appointment, conflicts };
+  }
+
+  private formatDescription(callData: any, appointment: ParsedAppointment, conflicts: CrmScheduledActivity[]): string {
+    const lines = [
+      `Booked by phone for ${appointment.localTime} (${appointment.timezone}).`,
+    ];
+
+    if (callData.call_analysis?.call_summary) {
+      lines.push('', callData.call_analysis.call_summary);
+    }
+
+    if (conflicts.length > 0) {
+      lines.push('', `Overlaps with: ${conflicts.map(conflict => conflict.subject || conflict.id).join(', ')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatConflictNote(appointment: ParsedAppointment, conflicts: CrmScheduledActivity[]): string {
+    const clashes = conflicts
+      .map(conflict => `<li>${conflict.subject || 'Untitled'} (${conflict.start} to ${conflict.end})</li>`)
+      .join('');
+
+    return `
+      <h4>📅 Appointment not booked</h4>
+      <p>The caller asked for <strong>${appointment.localTime}</strong> (${appointment.timezone}), which clashes with:</p>
+      <ul>${clashes}</ul>
+      <p>Please contact them to arrange another time.</p>
+    `.trim();
+  }
+}
+
+export const appointmentBookingService = new AppointmentBookingService();
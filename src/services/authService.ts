@@ -3,6 +3,10 @@ import { prisma } from '../config/database';
 import { config } from '../config';
 import { hashPassword, comparePassword } from '../utils/encryption';
 import { AppError } from '../middleware/errorHandler';
+import { organizationService } from './organizationService';
+import { sessionService, SessionClient } from './sessionService';
+import { twoFactorService, TwoFactorProof } from './twoFactorService';
+import { ssoService, SsoCallback } from './ssoService';
 import { User } from '../types';
 
 export class AuthService {
@@ -11,7 +15,9 @@ export class AuthService {
     password: string;
     firstName?: string;
     lastName?: string;
-  }) {
+  }, client: SessionClient = {}) {
+    await this.assertPasswordLoginAllowed(userData.email);
+
     const existingUser = await prisma.user.findUnique({
       where: { email: userData.email },
     });
@@ -22,26 +28,32 @@ export class AuthService {
 
     const hashedPassword = await hashPassword(userData.password);
 
-    const user = await prisma.user.create({
-      data: {
-        email: userData.email,
-        password: hashedPassword,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days trial
-      },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        subscriptionTier: true,
-        subscriptionStatus: true,
-        createdAt: true,
-      },
+    // Every user starts with a personal organization they own
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email: userData.email,
+          password: hashedPassword,
+          firstName: userData.firstName,
+          lastName: userData.lastName,
+          trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days trial
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          subscriptionTier: true,
+          subscriptionStatus: true,
+          createdAt: true,
+        },
+      });
+
+      await organizationService.createPersonalOrganization(tx, created);
+      return created;
     });
 
-    const tokens = this.generateTokens(user.id, user.email);
+    const tokens = await this.startSession(user.id, user.email, client);
 
     await this.createAuditLog(user.id, 'user_registered', undefined, {
       email: user.email,
@@ -50,7 +62,9 @@ export class AuthService {
     return { user, ...tokens };
   }
 
-  async login(email: string, password: string) {
+  async login(email: string, password: string, client: SessionClient = {}) {
+    await this.assertPasswordLoginAllowed(email);
+
     const user = await prisma.user.findUnique({
       where: { email },
       select: {
@@ -61,6 +75,7 @@ export class AuthService {
         lastName: true,
         subscriptionTier: true,
         subscriptionStatus: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -74,56 +89,115 @@ export class AuthService {
       throw new AppError('Invalid email or password', 401);
     }
 
-    const tokens = this.generateTokens(user.id, user.email);
+    // No session until the second step succeeds
+    if (user.totpEnabledAt) {
+      return { twoFactorRequired: true, challengeToken: this.generateChallengeToken(user.id) };
+    }
+
+    const tokens = await this.startSession(user.id, user.email, client);
 
     await this.createAuditLog(user.id, 'user_login');
 
-    const { password: _, ...userWithoutPassword } = user;
+    const { password: _, totpEnabledAt: __, ...userWithoutPassword } = user;
 
     return { user: userWithoutPassword, ...tokens };
   }
 
-  async refreshToken(refreshToken: string) {
+  /**
+   * Second login step for accounts with two-factor enabled: trade the
+   * challenge token from `login` and a code for a session.
+   */
+  async completeTwoFactorLogin(challengeToken: string, proof: TwoFactorProof, client: SessionClient = {}) {
+    let decoded: { userId: string };
     try {
-      const decoded = jwt.verify(refreshToken, config.jwt.refreshSecret) as {
-        userId: string;
-        email: string;
-      };
+      decoded = jwt.verify(challengeToken, this.challengeSecret()) as { userId: string };
+    } catch (error) {
+      throw new AppError('Sign-in attempt expired, please log in again', 401);
+    }
 
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          subscriptionTier: true,
-          subscriptionStatus: true,
-        },
-      });
+    await twoFactorService.verifyLogin(decoded.userId, proof);
 
-      if (!user) {
-        throw new AppError('User not found', 401);
-      }
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        subscriptionTier: true,
+        subscriptionStatus: true,
+      },
+    });
 
-      const tokens = this.generateTokens(user.id, user.email);
+    if (!user) {
+      throw new AppError('Invalid email or password', 401);
+    }
 
-      return { user, ...tokens };
-    } catch (error) {
+    const tokens = await this.startSession(user.id, user.email, client);
+
+    await this.createAuditLog(user.id, 'user_login', undefined, { twoFactor: true });
+
+    return { user, ...tokens };
+  }
+
+  /**
+   * Sign in someone their organization's identity provider vouched for.
+   * Two-factor is left to the identity provider. Only the refresh token is
+   * handed back; the browser trades it for an access token as usual.
+   */
+  async completeSsoLogin(callback: SsoCallback, browserState: string | undefined, client: SessionClient = {}) {
+    const { userId, email, organizationId } = await ssoService.completeLogin(callback, browserState);
+    const { refreshToken } = await this.startSession(userId, email, client);
+
+    await this.createAuditLog(userId, 'user_login', undefined, { sso: true, organizationId });
+
+    return { refreshToken, organizationId };
+  }
+
+  async refreshToken(refreshToken: string, client: SessionClient = {}) {
+    const session = await sessionService.rotate(refreshToken, client);
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        subscriptionTier: true,
+        subscriptionStatus: true,
+      },
+    });
+
+    if (!user) {
       throw new AppError('Invalid refresh token', 401);
     }
+
+    return {
+      user,
+      accessToken: this.generateAccessToken(user.id, user.email, session.sessionId),
+      refreshToken: session.refreshToken,
+    };
   }
 
-  async logout(userId: string) {
-    await this.createAuditLog(userId, 'user_logout');
-    // In a production app, you might want to blacklist the token
+  async logout(refreshToken: string) {
+    const userId = await sessionService.endSession(refreshToken);
+
+    if (userId) {
+      await this.createAuditLog(userId, 'user_logout');
+    }
     return { success: true };
   }
 
+  /**
+   * Change the password and sign out every other session, keeping the one
+   * that made the change when it is known.
+   */
   async changePassword(
     userId: string,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    currentSessionId?: string
   ) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -150,6 +224,7 @@ export class AuthService {
       data: { password: hashedNewPassword },
     });
 
+    await sessionService.revokeAll(userId, 'password_changed', currentSessionId);
     await this.createAuditLog(userId, 'password_changed');
 
     return { success: true };
@@ -179,41 +254,61 @@ export class AuthService {
   }
 
   async resetPassword(resetToken: string, newPassword: string) {
+    let decoded: { userId: string; email: string };
     try {
-      const decoded = jwt.verify(resetToken, config.jwt.secret) as {
+      decoded = jwt.verify(resetToken, config.jwt.secret) as {
         userId: string;
         email: string;
       };
+    } catch (error) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
 
-      const hashedPassword = await hashPassword(newPassword);
+    const hashedPassword = await hashPassword(newPassword);
 
-      await prisma.user.update({
-        where: { id: decoded.userId },
-        data: { password: hashedPassword },
-      });
+    await prisma.user.update({
+      where: { id: decoded.userId },
+      data: { password: hashedPassword },
+    });
 
-      await this.createAuditLog(decoded.userId, 'password_reset_completed');
+    // Whoever needed the reset may not be the only one holding a session
+    await sessionService.revokeAll(decoded.userId, 'password_reset');
+    await this.createAuditLog(decoded.userId, 'password_reset_completed');
 
-      return { success: true };
-    } catch (error) {
-      throw new AppError('Invalid or expired reset token', 400);
+    return { success: true };
+  }
+
+  // Domains whose organization requires single sign-on can't use passwords
+  private async assertPasswordLoginAllowed(email: string) {
+    const connection = await ssoService.findConnectionForEmail(email);
+
+    if (connection?.enforced) {
+      throw new AppError('Your organization requires signing in with single sign-on', 403);
     }
   }
 
-  private generateTokens(userId: string, email: string) {
-    const accessToken = (jwt as any).sign(
-      { userId, email },
+  private async startSession(userId: string, email: string, client: SessionClient) {
+    const { sessionId, refreshToken } = await sessionService.createSession(userId, client);
+
+    return { accessToken: this.generateAccessToken(userId, email, sessionId), refreshToken };
+  }
+
+  // Access tokens name their session so revoking it takes effect immediately
+  private generateAccessToken(userId: string, email: string, sessionId: string) {
+    return (jwt as any).sign(
+      { userId, email, sid: sessionId },
       config.jwt.secret,
       { expiresIn: config.jwt.expiresIn }
     );
+  }
 
-    const refreshToken = (jwt as any).sign(
-      { userId, email },
-      config.jwt.refreshSecret,
-      { expiresIn: config.jwt.refreshExpiresIn }
-    );
+  private generateChallengeToken(userId: string) {
+    return jwt.sign({ userId }, this.challengeSecret(), { expiresIn: '5m' });
+  }
 
-    return { accessToken, refreshToken };
+  // A separate key so a challenge token can never pass as an access token
+  private challengeSecret() {
+    return `${config.jwt.secret}:two-factor`;
   }
 
   private async createAuditLog(
@@ -1,34 +1,46 @@
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
 import { pipedriveService } from './pipedriveService';
 import { hubspotService } from './hubspotService';
 import { salesforceService } from './salesforceService';
 import { zohoService } from './zohoService';
-
-interface BusinessWorkflow {
-  id: string;
-  name: string;
-  trigger: WorkflowTrigger;
-  conditions: WorkflowCondition[];
-  actions: WorkflowAction[];
-  enabled: boolean;
+import {
+  BusinessWorkflow,
+  WorkflowAction,
+  WorkflowConditionGroup,
+  WorkflowConditionNode,
+} from '../types';
+import { TemplateEngine } from '../utils/templateEngine';
+
+export interface ConditionTrace {
+  passed: boolean;
+  reason: string;
+  field?: string;
+  operator: string;
+  expected?: any;
+  actual?: any;
+  joinedWith?: 'AND' | 'OR';
+  conditions?: ConditionTrace[];
 }
 
-interface WorkflowTrigger {
-  event: string; // 'call_analyzed'
+export interface WorkflowSimulationInput {
+  payload?: any;
+  webhookEventId?: string;
+  workflows?: BusinessWorkflow[];
 }
 
-interface WorkflowCondition {
-  field: string;
-  operator: string;
-  value: any;
-  logicalOperator?: 'AND' | 'OR';
+interface WorkflowExecutionContext {
+  webhook: any;
+  crmConfig: Record<string, any>;
+  actionOutputs: Record<string, any>;
+  indexedOutputs: any[];
 }
 
-interface WorkflowAction {
-  type: string; // 'create_deal', 'update_person', 'create_activity'
-  crmObject: string; // 'person', 'deal', 'activity'
-  fields: { [key: string]: string | number | boolean };
+export interface CrmActionRequest {
+  operation: 'createPerson' | 'updatePerson' | 'createDeal' | 'updateDeal' | 'createActivity';
+  recordId?: string;
+  payload: any;
 }
 
 export class BusinessLogicEngine {
@@ -49,6 +61,7 @@ export class BusinessLogicEngine {
         {
           type: 'create_person',
           crmObject: 'person',
+          outputName: 'person',
           fields: {
             name: '{{call.call_analysis.custom_analysis_data.customer_name}}',
             phone: '{{call.call_analysis.custom_analysis_data.customer_phone}}',
@@ -58,9 +71,10 @@ export class BusinessLogicEngine {
         {
           type: 'create_deal',
           crmObject: 'deal',
+          outputName: 'deal',
           fields: {
             title: 'Consultation Call',
-            person_id: '{{previous_action_result.id}}',
+            person_id: '{{actions.person.id}}',
             value: '{{call.call_analysis.custom_analysis_data.deal_value}}',
             status: 'open'
           }
@@ -71,8 +85,8 @@ export class BusinessLogicEngine {
           fields: {
             subject: 'Consultation Call',
             type: 'call',
-            deal_id: '{{previous_action_result.id}}',
-            person_id: '{{action_0_result.id}}',
+            deal_id: '{{actions.deal.id}}',
+            person_id: '{{actions.person.id}}',
             note: '{{call.call_analysis.call_summary}}',
             done: true
           }
@@ -81,7 +95,7 @@ export class BusinessLogicEngine {
           type: 'update_deal',
           crmObject: 'deal',
           fields: {
-            deal_id: '{{action_1_result.id}}',
+            deal_id: '{{actions.deal.id}}',
             stage_id: '{{crm_config.meeting_scheduled_stage_id}}'
           }
         }
@@ -90,11 +104,20 @@ export class BusinessLogicEngine {
     };
   }
 
-  async applyConsultationBookingTemplate(integrationId: string): Promise<void> {
+  async applyConsultationBookingTemplate(organizationId: string, integrationId: string): Promise<void> {
+    const integration = await prisma.integration.findFirst({
+      where: { id: integrationId, organizationId },
+      select: { id: true },
+    });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
     const template = this.getConsultationBookingTemplate();
     
     await prisma.integration.update({
-      where: { id: integrationId },
+      where: { id: integration.id },
       data: {
         businessWorkflows: [template] as any
       }
@@ -227,38 +250,120 @@ export class BusinessLogicEngine {
     }
   }
 
-  private parseBusinessWorkflows(workflowsData: any): BusinessWorkflow[] {
+  private parseBusinessWorkflows(workflowsData: any, includeDisabled: boolean = false): BusinessWorkflow[] {
     if (!workflowsData || typeof workflowsData !== 'object') {
       return [];
     }
 
     // Handle both array and object formats
     const workflows = Array.isArray(workflowsData) ? workflowsData : [workflowsData];
-    return workflows.filter(w => w && w.enabled);
+    return workflows.filter(w => w && (includeDisabled || w.enabled));
   }
 
   private shouldTriggerWorkflow(workflow: BusinessWorkflow, webhook: any): boolean {
-    // Check trigger event
-    if (workflow.trigger.event !== 'call_analyzed' || webhook.event !== 'call_analyzed') {
-      return false;
+    return this.traceTrigger(workflow, webhook).passed;
+  }
+
+  private traceTrigger(workflow: BusinessWorkflow, webhook: any): { passed: boolean; reason: string; conditions: ConditionTrace[] } {
+    // Check trigger event, named the same way the webhook processor reads it
+    const event = webhook.event || webhook.event_type;
+    if (workflow.trigger.event !== 'call_analyzed' || event !== 'call_analyzed') {
+      return {
+        passed: false,
+        reason: `Trigger is "${workflow.trigger.event}" but the event was "${event}"`,
+        conditions: [],
+      };
     }
 
     // Check conditions
     if (!workflow.conditions || workflow.conditions.length === 0) {
-      return true; // No conditions means always trigger
+      return { passed: true, reason: 'No conditions configured', conditions: [] }; // No conditions means always trigger
     }
 
-    return this.evaluateConditions(workflow.conditions, webhook);
+    const trace = this.traceConditions(workflow.conditions, webhook);
+    return {
+      passed: trace.passed,
+      reason: trace.passed ? 'Conditions matched' : 'Conditions did not match',
+      conditions: trace.conditions,
+    };
   }
 
-  private evaluateConditions(conditions: WorkflowCondition[], webhook: any): boolean {
-    if (conditions.length === 0) return true;
+  /**
+   * Whether a condition list matches a Retell webhook. Also used outside
+   * workflows, e.g. by deal routing rules.
+   */
+  evaluateConditions(conditions: WorkflowConditionNode[], webhook: any): boolean {
+    return this.traceConditions(conditions, webhook).passed;
+  }
 
-    // For now, implement simple AND logic
-    return conditions.every(condition => {
-      const fieldValue = this.getNestedValue(webhook, condition.field);
-      return this.evaluateCondition(fieldValue, condition.operator, condition.value, webhook);
-    });
+  /**
+   * Evaluate a condition list, keeping the outcome of every node so a
+   * simulation can show which conditions passed or failed and why.
+   */
+  private traceConditions(conditions: WorkflowConditionNode[], webhook: any): { passed: boolean; conditions: ConditionTrace[] } {
+    if (conditions.length === 0) return { passed: true, conditions: [] };
+
+    // Flat lists are read left to right, joining each condition to the
+    // result so far with its logicalOperator (AND when omitted)
+    const traces: ConditionTrace[] = [];
+    const passed = conditions.reduce((result, node, index) => {
+      const trace = this.traceConditionNode(node, webhook);
+      traces.push(trace);
+      if (index === 0) return trace.passed;
+
+      const joinWith = this.isConditionGroup(node) ? 'AND' : node.logicalOperator || 'AND';
+      trace.joinedWith = joinWith;
+      return joinWith === 'OR' ? result || trace.passed : result && trace.passed;
+    }, true);
+
+    return { passed, conditions: traces };
+  }
+
+  private traceConditionNode(node: WorkflowConditionNode, webhook: any): ConditionTrace {
+    if (!this.isConditionGroup(node)) {
+      const actual = this.getNestedValue(webhook, node.field);
+      const passed = this.evaluateCondition(actual, node.operator, node.value, webhook);
+      const expected = node.value === undefined ? '' : ` ${JSON.stringify(node.value)}`;
+
+      return {
+        passed,
+        field: node.field,
+        operator: node.operator,
+        expected: node.value,
+        actual,
+        reason: `${node.field} is ${actual === undefined ? 'missing' : JSON.stringify(actual)}; ${node.operator}${expected} ${passed ? 'passed' : 'failed'}`,
+      };
+    }
+
+    const children = (node.conditions || []).map(child => this.traceConditionNode(child, webhook));
+    const matched = children.filter(child => child.passed).length;
+    let passed: boolean;
+
+    switch (node.operator) {
+      case 'AND':
+        passed = matched === children.length;
+        break;
+      case 'OR':
+        passed = matched > 0;
+        break;
+      case 'NOT':
+        passed = matched === 0;
+        break;
+      default:
+        logger.warn(`Unknown condition group operator: ${(node as any).operator}`);
+        passed = false;
+    }
+
+    return {
+      passed,
+      operator: node.operator,
+      reason: `${matched} of ${children.length} conditions matched (${node.operator})`,
+      conditions: children,
+    };
+  }
+
+  private isConditionGroup(node: WorkflowConditionNode): node is WorkflowConditionGroup {
+    return Array.isArray((node as WorkflowConditionGroup).conditions);
   }
 
   private evaluateCondition(fieldValue: any, operator: string, expectedValue: any, webhook?: any): boolean {
@@ -361,23 +466,21 @@ export class BusinessLogicEngine {
 
   private async executeWorkflow(workflow: BusinessWorkflow, integration: any, webhook: any) {
     const results = [];
-    const actionResults = {}; // Store results for template replacement
+    const context = this.createExecutionContext(integration, webhook);
 
     for (let i = 0; i < workflow.actions.length; i++) {
       const action = workflow.actions[i];
-      try {
-        // Process templates with previous action results
-        const contextData = {
-          ...webhook,
-          previous_action_result: results[i - 1]?.data || {},
-          action_0_result: results[0]?.data || {},
-          action_1_result: results[1]?.data || {},
-          action_2_result: results[2]?.data || {},
-        };
 
-        const actionResult = await this.executeAction(action, integration, contextData);
+      if (action.conditions?.length && !this.evaluateConditions(action.conditions, webhook)) {
+        results.push({ action: action.type, success: true, skipped: true });
+        this.recordActionOutput(context, action, i, null);
+        continue;
+      }
+
+      try {
+        const actionResult = await this.executeAction(action, integration, context);
         results.push({ action: action.type, ...actionResult });
-        actionResults[`action_${i}_result`] = actionResult.data || {};
+        this.recordActionOutput(context, action, i, { ...actionResult.data, id: actionResult.id });
       } catch (error) {
         logger.error(`Failed to execute action ${action.type}:`, error);
         results.push({ action: action.type, success: false, error: (error as any).message });
@@ -388,90 +491,301 @@ export class BusinessLogicEngine {
     return { success: true, actions: results };
   }
 
-  private async executeAction(action: WorkflowAction, integration: any, webhook: any) {
-    const crmService = this.getCrmService(integration.crmAccount.provider);
+  /**
+   * Everything templates can reference while a workflow runs: the webhook,
+   * integration settings under crm_config, and earlier action outputs.
+   */
+  private createExecutionContext(integration: any, webhook: any): WorkflowExecutionContext {
+    const callConfiguration = integration.callConfiguration || {};
+
+    return {
+      webhook,
+      crmConfig: {
+        provider: integration.crmAccount?.provider,
+        pipeline_id: callConfiguration.selectedPipelineId,
+        stage_id: callConfiguration.selectedStageId,
+        ...(callConfiguration.crmConfig || {}),
+      },
+      actionOutputs: {},
+      indexedOutputs: [],
+    };
+  }
+
+  /**
+   * Store an action's output under its declared name (and its position, for
+   * the older action_N_result templates). Skipped actions store null.
+   */
+  private recordActionOutput(context: WorkflowExecutionContext, action: WorkflowAction, index: number, output: any) {
+    context.indexedOutputs[index] = output;
+    if (action.outputName) {
+      context.actionOutputs[action.outputName] = output;
+    }
+  }
+
+  private async executeAction(action: WorkflowAction, integration: any, context: WorkflowExecutionContext) {
+    const crmService: any = this.getCrmService(integration.crmAccount);
     const accessToken = integration.crmAccount.accessToken;
 
     // Replace template variables in field values
-    const processedFields = this.processFieldTemplates(action.fields, webhook);
+    const { fields, unresolved } = this.processFieldTemplates(action.fields, context);
+    if (unresolved.length > 0) {
+      throw new Error(`Unresolved template variables in ${action.type}: ${unresolved.join(', ')}`);
+    }
 
-    switch (action.type) {
-      case 'create_person':
-        return await this.createPersonAction(crmService, accessToken, processedFields);
-      
-      case 'create_deal':
-        return await this.createDealAction(crmService, accessToken, processedFields, integration);
-      
-      case 'update_person':
-        return await this.updatePersonAction(crmService, accessToken, processedFields);
-      
-      case 'create_activity':
-        return await this.createActivityAction(crmService, accessToken, processedFields);
-      
-      case 'update_deal':
-        return await this.updateDealAction(crmService, accessToken, processedFields);
-      
-      default:
-        throw new Error(`Unknown action type: ${action.type}`);
+    const request = this.buildCrmRequest(action, fields, integration);
+
+    const result = request.recordId
+      ? await crmService[request.operation](accessToken, request.recordId, request.payload)
+      : await crmService[request.operation](accessToken, request.payload);
+
+    const id = request.recordId || result.id;
+    logger.info(`${request.operation} succeeded: ${id}`);
+
+    return { success: true, id, data: result };
+  }
+
+  /**
+   * Dry-run the integration's workflows (or unsaved ones supplied by the
+   * builder) against a call payload or a previously received webhook.
+   * Nothing is sent to the CRM: each action reports the request it would
+   * make, and later actions see placeholder IDs.
+   */
+  async simulateWorkflows(organizationId: string, integrationId: string, input: WorkflowSimulationInput) {
+    const integration = await prisma.integration.findFirst({
+      where: { id: integrationId, organizationId },
+      include: {
+        crmAccount: { select: { provider: true } },
+      },
+    });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    let payload = input.payload;
+
+    if (input.webhookEventId) {
+      const webhookEvent = await prisma.webhookEvent.findFirst({
+        where: { id: input.webhookEventId, integrationId },
+      });
+
+      if (!webhookEvent) {
+        throw new AppError('Webhook event not found', 404);
+      }
+      payload = webhookEvent.payload;
+    }
+
+    // Accept a bare Retell call object as well as the full webhook body
+    if (payload && !payload.event && !payload.event_type && payload.call_id) {
+      payload = { event: 'call_analyzed', call: payload };
     }
+
+    const workflows = input.workflows || this.parseBusinessWorkflows(integration.businessWorkflows, true);
+
+    return {
+      event: payload.event || payload.event_type,
+      callId: payload.call?.call_id,
+      workflows: this.simulate(workflows, integration, payload),
+    };
+  }
+
+  private simulate(workflows: BusinessWorkflow[], integration: any, retellWebhook: any) {
+    return workflows.map(workflow => {
+      const trigger = this.traceTrigger(workflow, retellWebhook);
+      const context = this.createExecutionContext(integration, retellWebhook);
+      const actions = [];
+
+      if (trigger.passed) {
+        for (let i = 0; i < workflow.actions.length; i++) {
+          const action = workflow.actions[i];
+          const actionTrace = action.conditions?.length ? this.traceConditions(action.conditions, retellWebhook) : null;
+
+          if (actionTrace && !actionTrace.passed) {
+            this.recordActionOutput(context, action, i, null);
+            actions.push({ index: i, type: action.type, outputName: action.outputName, skipped: true, conditions: actionTrace.conditions });
+            continue;
+          }
+
+          const simulated: any = {
+            index: i,
+            type: action.type,
+            outputName: action.outputName,
+            skipped: false,
+            conditions: actionTrace?.conditions || [],
+          };
+
+          try {
+            const { fields, unresolved } = this.processFieldTemplates(action.fields, context);
+            simulated.resolvedFields = fields;
+            simulated.unresolvedVariables = unresolved;
+
+            if (unresolved.length > 0) {
+              throw new Error(`Unresolved template variables in ${action.type}: ${unresolved.join(', ')}`);
+            }
+
+            simulated.request = this.buildCrmRequest(action, fields, integration);
+            actions.push(simulated);
+            this.recordActionOutput(context, action, i, { id: simulated.request.recordId || `simulated_action_${i}` });
+          } catch (error) {
+            // Mirrors executeWorkflow, which stops at the first failing action
+            simulated.error = (error as Error).message;
+            actions.push(simulated);
+            break;
+          }
+        }
+      }
+
+      return {
+        workflowId: workflow.id,
+        workflow: workflow.name,
+        enabled: workflow.enabled,
+        triggered: trigger.passed,
+        reason: trigger.reason,
+        conditions: trigger.conditions,
+        actions,
+      };
+    });
   }
 
-  private getCrmService(provider: string) {
-    switch (provider) {
+  private getCrmService(crmAccount: { provider: string; instanceUrl?: string | null }) {
+    switch (crmAccount.provider) {
       case 'pipedrive':
         return pipedriveService;
       case 'hubspot':
         return hubspotService;
       case 'salesforce':
-        return salesforceService;
+        return salesforceService.forInstance(crmAccount.instanceUrl);
       case 'zoho':
         return zohoService;
       default:
-        throw new Error(`Unsupported CRM provider: ${provider}`);
+        throw new Error(`Unsupported CRM provider: ${crmAccount.provider}`);
     }
   }
 
-  private processFieldTemplates(fields: any, webhook: any): any {
+  /**
+   * Resolve {{...}} templates in an action's fields, including filters such
+   * as {{call.duration_ms | minutes}}. A field that is only a reference to a
+   * skipped action's output is dropped; any variable that cannot be resolved
+   * is reported so the action fails instead of sending literal braces to the CRM.
+   */
+  private processFieldTemplates(fields: any, context: WorkflowExecutionContext): { fields: any; unresolved: string[] } {
     const processed = {};
+    const unresolved: string[] = [];
+    const resolve = (path: string) => this.resolveVariable(path, context);
     
     for (const [key, value] of Object.entries(fields)) {
-      if (typeof value === 'string' && value.includes('{{')) {
-        // Replace template variables like {{retell_llm_dynamic_variables.name}}
-        processed[key] = this.replaceTemplateVariables(value as string, webhook);
-      } else {
+      if (typeof value !== 'string' || !value.includes('{{')) {
         processed[key] = value;
+        continue;
       }
+
+      const single = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(value.trim());
+      if (single && this.resolveVariable(single[1], context).skipped) {
+        continue;
+      }
+
+      // Replace template variables like {{retell_llm_dynamic_variables.name | default:"there"}}
+      const rendered = TemplateEngine.render(value, resolve);
+      unresolved.push(...rendered.unresolved);
+      processed[key] = rendered.text;
     }
     
-    return processed;
+    return { fields: processed, unresolved };
   }
 
-  private replaceTemplateVariables(template: string, webhook: any): string {
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-      const value = this.getNestedValue(webhook.call || webhook, path.trim());
-      return value !== undefined ? String(value) : match;
-    });
+  private resolveVariable(path: string, context: WorkflowExecutionContext): { found: boolean; value?: any; skipped?: boolean } {
+    const [root, ...rest] = path.split('.');
+
+    // Named action outputs: {{actions.createPerson.id}}
+    if (root === 'actions') {
+      const [name, ...outputPath] = rest;
+      if (!(name in context.actionOutputs)) return { found: false };
+      return this.resolveOutput(context.actionOutputs[name], outputPath.join('.'));
+    }
+
+    if (root === 'crm_config') {
+      const value = this.getNestedValue(context.crmConfig, rest.join('.'));
+      return { found: value !== undefined, value };
+    }
+
+    // Older positional templates: {{previous_action_result.id}}, {{action_0_result.id}}
+    const positional = /^action_(\d+)_result$/.exec(root);
+    if (positional || root === 'previous_action_result') {
+      const outputs = context.indexedOutputs;
+      const index = positional ? Number(positional[1]) : outputs.length - 1;
+      if (index < 0 || index >= outputs.length) return { found: false };
+      return this.resolveOutput(outputs[index], rest.join('.'));
+    }
+
+    // Paths are relative to the call, but may also name the payload root (call.*)
+    const webhook = context.webhook;
+    let value = this.getNestedValue(webhook.call || webhook, path);
+    if (value === undefined && webhook.call) {
+      value = this.getNestedValue(webhook, path);
+    }
+    return { found: value !== undefined, value };
   }
 
-  private async createPersonAction(crmService: any, accessToken: string, fields: any) {
-    const personData = {
+  private resolveOutput(output: any, path: string): { found: boolean; value?: any; skipped?: boolean } {
+    if (output === null) return { found: true, skipped: true };
+
+    const value = path ? this.getNestedValue(output, path) : output;
+    return { found: value !== undefined, value };
+  }
+
+  /**
+   * Translate an action and its resolved fields into the CRM service call
+   * it maps to. Shared by real execution and simulation.
+   */
+  private buildCrmRequest(action: WorkflowAction, fields: any, integration?: any): CrmActionRequest {
+    switch (action.type) {
+      case 'create_person':
+        return { operation: 'createPerson', payload: this.buildPersonData(fields) };
+
+      case 'create_deal':
+        return { operation: 'createDeal', payload: this.buildDealData(fields, integration) };
+
+      case 'update_person':
+        if (!fields.person_id) {
+          throw new Error('Person ID not provided');
+        }
+        return {
+          operation: 'updatePerson',
+          recordId: fields.person_id,
+          payload: this.removeUndefined({ name: fields.name, phone: fields.phone, email: fields.email }),
+        };
+
+      case 'create_activity':
+        return { operation: 'createActivity', payload: this.buildActivityData(fields) };
+
+      case 'update_deal': {
+        const dealId = fields.deal_id || fields.id;
+        if (!dealId) {
+          throw new Error('Deal ID not provided');
+        }
+
+        const dealData = {};
+        if (fields.stage_id) dealData['stage_id'] = fields.stage_id;
+        if (fields.title) dealData['title'] = fields.title;
+        if (fields.value) dealData['value'] = fields.value;
+
+        return { operation: 'updateDeal', recordId: dealId, payload: dealData };
+      }
+
+      default:
+        throw new Error(`Unknown action type: ${action.type}`);
+    }
+  }
+
+  private buildPersonData(fields: any) {
+    return this.removeUndefined({
       name: fields.name,
       phone: fields.phone ? [{ value: fields.phone, primary: true }] : undefined,
       email: fields.email ? [{ value: fields.email, primary: true }] : undefined,
-    };
-
-    // Remove undefined fields
-    Object.keys(personData).forEach(key => {
-      if (personData[key] === undefined) delete personData[key];
     });
-
-    const result = await crmService.createPerson(accessToken, personData);
-    logger.info(`Created person: ${result.id}`);
-    
-    return { success: true, id: result.id, data: result };
   }
 
-  private async createDealAction(crmService: any, accessToken: string, fields: any, integration?: any) {
+  private buildDealData(fields: any, integration?: any) {
     const dealData: any = {
       title: fields.title || 'Call Follow-up Deal',
       person_id: fields.person_id,
@@ -480,64 +794,30 @@ export class BusinessLogicEngine {
       status: fields.status || 'open',
     };
 
-    // Add pipeline and stage from integration configuration if available
-    if (integration?.config) {
-      try {
-        const config = typeof integration.config === 'string' 
-          ? JSON.parse(integration.config) 
-          : integration.config;
-        
-        if (config.selectedPipelineId) {
-          dealData.pipeline_id = parseInt(config.selectedPipelineId);
-          logger.info(`Using configured pipeline: ${config.selectedPipelineId}`);
-        }
-        
-        if (config.selectedStageId) {
-          dealData.stage_id = parseInt(config.selectedStageId);
-          logger.info(`Using configured stage: ${config.selectedStageId}`);
-        }
-      } catch (error) {
-        logger.warn('Failed to parse integration config for pipeline/stage selection:', error);
-      }
-    }
-
-    // Remove undefined fields
-    Object.keys(dealData).forEach(key => {
-      if (dealData[key] === undefined) delete dealData[key];
-    });
-
-    const result = await crmService.createDeal(accessToken, dealData);
-    logger.info(`Created deal: ${result.id}`);
-    
-    return { success: true, id: result.id, data: result };
-  }
+    // Pipeline and stage from the action, else from the integration's call configuration
+    const callConfig = integration?.callConfiguration || {};
+    const pipelineId = fields.pipeline_id || callConfig.selectedPipelineId;
+    const stageId = fields.stage_id || callConfig.selectedStageId;
 
-  private async updatePersonAction(crmService: any, accessToken: string, fields: any) {
-    const personId = fields.person_id;
-    
-    if (!personId) {
-      throw new Error('Person ID not provided');
+    if (pipelineId) {
+      dealData.pipeline_id = parseInt(pipelineId);
+      logger.info(`Using configured pipeline: ${pipelineId}`);
     }
 
-    const personData = {
-      name: fields.name,
-      phone: fields.phone,
-      email: fields.email,
-    };
+    if (stageId) {
+      dealData.stage_id = parseInt(stageId);
+      logger.info(`Using configured stage: ${stageId}`);
+    }
 
-    // Remove undefined fields
-    Object.keys(personData).forEach(key => {
-      if (personData[key] === undefined) delete personData[key];
-    });
+    if (fields.user_id) {
+      dealData.user_id = parseInt(fields.user_id);
+    }
 
-    const result = await crmService.updatePerson(accessToken, personId, personData);
-    logger.info(`Updated person: ${personId}`);
-    
-    return { success: true, id: personId, data: result };
+    return this.removeUndefined(dealData);
   }
 
-  private async createActivityAction(crmService: any, accessToken: string, fields: any) {
-    const activityData = {
+  private buildActivityData(fields: any) {
+    return this.removeUndefined({
       subject: fields.subject || 'Call Activity',
       type: fields.type || 'call',
       note: fields.note,
@@ -546,35 +826,14 @@ export class BusinessLogicEngine {
       due_date: fields.due_date,
       due_time: fields.due_time,
       done: fields.done !== undefined ? fields.done : true,
-    };
-
-    // Remove undefined fields
-    Object.keys(activityData).forEach(key => {
-      if (activityData[key] === undefined) delete activityData[key];
     });
-
-    const result = await crmService.createActivity(accessToken, activityData);
-    logger.info(`Created activity: ${result.id}`);
-    
-    return { success: true, id: result.id, data: result };
   }
 
-  private async updateDealAction(crmService: any, accessToken: string, fields: any) {
-    const dealId = fields.deal_id || fields.id;
-    
-    if (!dealId) {
-      throw new Error('Deal ID not provided');
-    }
-
-    const dealData = {};
-    if (fields.stage_id) dealData['stage_id'] = fields.stage_id;
-    if (fields.title) dealData['title'] = fields.title;
-    if (fields.value) dealData['value'] = fields.value;
-
-    const result = await crmService.updateDeal(accessToken, dealId, dealData);
-    logger.info(`Updated deal: ${dealId}`);
-    
-    return { success: true, id: dealId, data: result };
+  private removeUndefined<T extends Record<string, any>>(data: T): T {
+    Object.keys(data).forEach(key => {
+      if (data[key] === undefined) delete data[key];
+    });
+    return data;
   }
 
   private getNestedValue(obj: any, path: string): any {
@@ -0,0 +1,81 @@
+jest.mock('../config/database', () => ({
+  prisma: {
+    integration: { findUnique: jest.fn() },
+    webhookEvent: { create: jest.fn() },
+  },
+}));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('./crmService', () => ({ crmService: { getAdapter: jest.fn() } }));
+jest.mock('./oauthService', () => ({ oauthService: { getDecryptedAccessToken: jest.fn(async () => 'access-token') } }));
+jest.mock('./contactMatchingService', () => ({ contactMatchingService: { findBestMatch: jest.fn() } }));
+
+import { prisma } from '../config/database';
+import { crmService } from './crmService';
+import { contactMatchingService } from './contactMatchingService';
+import { CallFunctionService } from './callFunctionService';
+
+const INTEGRATION_ID = 'int_4c81d2';
+const CALLER = '+442079460958';
+
+describe('CallFunctionService update_deal_stage', () => {
+  const service = new CallFunctionService();
+  const db = prisma as any;
+  const crm = { getContactContext: jest.fn(), updateDealStage: jest.fn() };
+  const findBestMatch = contactMatchingService.findBestMatch as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.integration.findUnique.mockResolvedValue({
+      id: INTEGRATION_ID,
+      defaultPhoneRegion: 'GB',
+      contactMatching: null,
+      crmAccount: { id: 'acc_1', provider: 'pipedrive' },
+      callFunctions: [{
+        name: 'move_deal',
+        operation: 'update_deal_stage',
+        parameters: {
+          type: 'object',
+          properties: { stage: { type: 'string' }, dealId: { type: 'string' } },
+          required: ['stage'],
+        },
+        options: { stages: { won: 'stage_won' } },
+      }],
+    });
+    (crmService.getAdapter as jest.Mock).mockReturnValue(crm);
+    findBestMatch.mockResolvedValue({ contactId: 'person_ada' });
+    crm.getContactContext.mockResolvedValue({
+      contact: { id: 'person_ada', name: 'Ada Lovelace' },
+      openDeals: [{ id: 'deal_1', title: 'Renewal' }, { id: 'deal_2', title: 'Upsell' }],
+      lastActivity: null,
+    });
+  });
+
+  const invoke = (args: Record<string, any>) => service.invoke(INTEGRATION_ID, 'move_deal', {
+    call: { call_id: 'call_1', direction: 'inbound', from_number: CALLER },
+    args,
+  });
+
+  it('moves one of the caller\'s open deals', async () => {
+    await expect(invoke({ stage: 'won', dealId: 'deal_2' }))
+      .resolves.toEqual({ success: true, result: { dealId: 'deal_2', stage: 'won' } });
+    expect(crm.updateDealStage).toHaveBeenCalledWith('access-token', 'deal_2', 'stage_won', undefined);
+  });
+
+  it('will not move a deal the caller does not own', async () => {
+    await expect(invoke({ stage: 'won', dealId: 'deal_someone_else' }))
+      .resolves.toEqual({ success: false, error: 'That deal is not one of the caller\'s open deals' });
+    expect(crm.updateDealStage).not.toHaveBeenCalled();
+  });
+
+  it('will not move any deal for an unknown caller', async () => {
+    findBestMatch.mockResolvedValue({ contactId: null });
+
+    await expect(invoke({ stage: 'won', dealId: 'deal_1' })).resolves.toMatchObject({ success: false });
+    expect(crm.updateDealStage).not.toHaveBeenCalled();
+  });
+
+  it('asks which deal when the caller has several and none is named', async () => {
+    await expect(invoke({ stage: 'won' }))
+      .resolves.toEqual({ success: false, error: 'The caller has 2 open deals; ask which one' });
+  });
+});
@@ -0,0 +1,235 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { crmService } from './crmService';
+import { oauthService } from './oauthService';
+import { contactMatchingService } from './contactMatchingService';
+import { JsonSchemaValidator } from '../utils/jsonSchemaValidator';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { CallFunctionDefinition, ContactMatchingPolicy, CrmAdapter } from '../types';
+
+const DEFAULT_DURATION_MINUTES = 30;
+
+/**
+ * Everything a CRM operation needs to act on behalf of the call
+ */
+interface FunctionContext {
+  integration: any;
+  definition: CallFunctionDefinition;
+  crm: CrmAdapter;
+  accessToken: string;
+  call: any;
+  args: Record<string, any>;
+}
+
+// Results are read by the LLM, so failures are answers too
+export interface CallFunctionResult {
+  success: boolean;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+export class CallFunctionService {
+  /**
+   * Run a Retell custom function against the integration's CRM. Argument
+   * and CRM errors come back as results the agent can relay or correct.
+   */
+  async invoke(integrationId: string, name: string, body: any): Promise<CallFunctionResult> {
+    const integration = await prisma.integration.findUnique({
+      where: { id: integrationId },
+      include: { crmAccount: { select: { id: true, provider: true, instanceUrl: true } } },
+    });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    const definition = ((integration.callFunctions as unknown as CallFunctionDefinition[]) || [])
+      .find(fn => fn.name === name);
+
+    if (!definition) {
+      throw new AppError(`Function "${name}" is not defined for this integration`, 404);
+    }
+
+    // Retell sends { name, call, args }, or just the args when "args only" is set
+    const call = body?.call || {};
+    const rawArgs = body?.args !== undefined ? body.args : body;
+    const validation = JsonSchemaValidator.validate(definition.parameters, rawArgs ?? {});
+
+    let response: CallFunctionResult;
+    if (!validation.valid) {
+      response = { success: false, error: `Invalid arguments: ${validation.errors.join('; ')}` };
+    } else {
+      try {
+        const crm = crmService.getAdapter(integration.crmAccount);
+        const accessToken = await oauthService.getDecryptedAccessToken(integration.crmAccount.id);
+        const result = await this.runOperation({ integration, definition, crm, accessToken, call, args: validation.value });
+        response = { success: true, result };
+      } catch (error: any) {
+        logger.error(`Call function ${name} failed for integration ${integrationId}:`, error.message);
+        response = { success: false, error: error instanceof AppError ? error.message : 'The CRM request failed' };
+      }
+    }
+
+    await prisma.webhookEvent.create({
+      data: {
+        integrationId,
+        provider: 'retell',
+        eventType: 'function_call',
+        payload: { name, callId: call.call_id, args: rawArgs ?? null, response } as any,
+        processed: true,
+      },
+    });
+
+    return response;
+  }
+
+  private runOperation(context: FunctionContext): Promise<Record<string, any>> {
+    switch (context.definition.operation) {
+      case 'find_contact':
+        return this.findContact(context);
+      case 'check_availability':
+        return this.checkAvailability(context);
+      case 'create_lead':
+        return this.createLead(context);
+      case 'update_deal_stage':
+        return this.updateDealStage(context);
+      case 'add_note':
+        return this.addNote(context);
+      default:
+        throw new AppError(`Unknown operation ${context.definition.operation}`, 400);
+    }
+  }
+
+  private async findContact(context: FunctionContext) {
+    const contactId = await this.matchCaller(context);
+    if (!contactId) {
+      return { found: false };
+    }
+
+    const { contact, openDeals, lastActivity } = await context.crm.getContactContext(context.accessToken, contactId);
+    return {
+      found: true,
+      contact: { name: contact.name, email: contact.email, company: contact.company, owner: contact.ownerName },
+      openDeals: openDeals.map(deal => ({ id: deal.id, title: deal.title, value: deal.value, currency: deal.currency, stage: deal.stage })),
+      lastActivity,
+    };
+  }
+
+  private async checkAvailability({ definition, crm, accessToken, args }: FunctionContext) {
+    const start = new Date(args.start);
+    if (isNaN(start.getTime())) {
+      throw new AppError('start must be a date and time', 400);
+    }
+
+    const minutes = args.durationMinutes || definition.options?.durationMinutes || DEFAULT_DURATION_MINUTES;
+    const end = new Date(start.getTime() + minutes * 60000);
+    const conflicts = await crm.findActivitiesBetween(accessToken, start, end, definition.options?.ownerId);
+
+    return {
+      available: conflicts.length === 0,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      conflicts: conflicts.map(conflict => ({ subject: conflict.subject, start: conflict.start, end: conflict.end })),
+    };
+  }
+
+  private async createLead(context: FunctionContext) {
+    const { definition, crm, accessToken, args } = context;
+    let contactId = await this.matchCaller(context);
+    const existingContact = Boolean(contactId);
+
+    if (!contactId) {
+      const contact = await crm.upsertContact(accessToken, {
+        name: args.name || 'Unknown Caller',
+        phone: this.callerNumber(context) || undefined,
+        email: args.email,
+      });
+      contactId = contact.id;
+    }
+
+    const deal = await crm.upsertDeal(accessToken, {
+      contactId,
+      title: args.title || `${args.name || 'New'} lead`,
+      value: args.value,
+      pipelineId: definition.options?.pipelineId,
+      stageId: definition.options?.stageId,
+    });
+
+    if (args.note) {
+      await crm.addNote(accessToken, { dealId: deal.id, content: args.note });
+    }
+
+    return { contactId, dealId: deal.id, existingContact };
+  }
+
+  private async updateDealStage(context: FunctionContext) {
+    const { definition, crm, accessToken, args } = context;
+    const stages = definition.options?.stages || {};
+    const stageId = stages[args.stage] ?? (Object.keys(stages).length === 0 ? args.stage : undefined);
+
+    if (!stageId) {
+      throw new AppError(`Unknown stage "${args.stage}". Use one of: ${Object.keys(stages).join(', ')}`, 400);
+    }
+
+    // Only the caller's own open deals can move, whatever id the agent passes
+    const contactId = await this.matchCaller(context);
+    const openDeals = contactId ? (await crm.getContactContext(accessToken, contactId)).openDeals : [];
+
+    let dealId: string;
+    if (args.dealId) {
+      if (!openDeals.some(deal => deal.id === args.dealId)) {
+        throw new AppError('That deal is not one of the caller\'s open deals', 400);
+      }
+      dealId = args.dealId;
+    } else {
+      if (openDeals.length !== 1) {
+        throw new AppError(openDeals.length === 0
+          ? 'The caller has no open deal to update'
+          : `The caller has ${openDeals.length} open deals; ask which one`, 400);
+      }
+      dealId = openDeals[0].id;
+    }
+
+    await crm.updateDealStage(accessToken, dealId, stageId, definition.options?.pipelineId);
+    return { dealId, stage: args.stage };
+  }
+
+  private async addNote(context: FunctionContext) {
+    const contactId = await this.matchCaller(context);
+    if (!contactId) {
+      throw new AppError('The caller is not a contact in the CRM yet', 400);
+    }
+
+    const note = await context.crm.addNote(context.accessToken, { contactId, content: context.args.content });
+    return { noteId: note.id };
+  }
+
+  /**
+   * The caller's CRM contact, using the same matching rules as call sync.
+   * Only the call's own number is used: anything the agent passes comes from
+   * the person on the line, who must not be able to look up someone else.
+   */
+  private async matchCaller(context: FunctionContext): Promise<string | null> {
+    const { integration, crm, accessToken } = context;
+    const phone = this.callerNumber(context);
+    if (!phone) {
+      return null;
+    }
+
+    const decision = await contactMatchingService.findBestMatch(crm, accessToken, {
+      phone,
+    }, integration.contactMatching as ContactMatchingPolicy | null, {
+      defaultRegion: integration.defaultPhoneRegion,
+    });
+
+    return decision.contactId;
+  }
+
+  private callerNumber({ integration, call }: FunctionContext): string | null {
+    const number = call.direction === 'outbound' ? call.to_number : call.from_number;
+    return number ? PhoneNormalizer.toE164(number, integration.defaultPhoneRegion) : null;
+  }
+}
+
+export const callFunctionService = new CallFunctionService();
@@ -0,0 +1,151 @@
+jest.mock('../config/database', () => ({
+  prisma: {
+    callLedgerEntry: {
+      create: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { CallLedgerService } from './callLedgerService';
+
+const INTEGRATION_ID = 'int_91b3e0';
+const CALL_ID = 'call_5a0c27d1';
+
+interface Entry {
+  id: string;
+  integrationId: string;
+  callId: string;
+  event: string;
+  status: string;
+  crmObjects: any;
+  webhookEventId?: string;
+  attempts: number;
+  lastError?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+describe('CallLedgerService', () => {
+  const service = new CallLedgerService();
+  const db = (prisma as any).callLedgerEntry;
+  let entries: Entry[];
+  let clock: number;
+
+  // An in-memory ledger with the (integration, call, event) unique constraint
+  beforeEach(() => {
+    jest.clearAllMocks();
+    entries = [];
+    clock = 1760000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+
+    const find = (where: any) => entries.find(entry => Object.entries(where).every(([key, value]) =>
+      value instanceof Date ? entry[key].getTime() === value.getTime() : entry[key] === value));
+    const apply = (entry: Entry, data: any) => {
+      const { attempts, ...rest } = data;
+      Object.assign(entry, rest, { updatedAt: new Date(clock) });
+      if (attempts?.increment) entry.attempts += attempts.increment;
+    };
+
+    db.create.mockImplementation(async ({ data }) => {
+      if (entries.some(entry => entry.integrationId === data.integrationId && entry.callId === data.callId && entry.event === data.event)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.22.0' });
+      }
+      const entry = { id: `led_${entries.length + 1}`, status: 'processing', crmObjects: null, attempts: 1, createdAt: new Date(clock), updatedAt: new Date(clock), ...data };
+      entries.push(entry);
+      return { ...entry };
+    });
+    db.findUniqueOrThrow.mockImplementation(async ({ where }) => ({ ...find(where.integrationId_callId_event) }));
+    db.findMany.mockImplementation(async ({ where }) => entries.filter(entry => entry.integrationId === where.integrationId && entry.callId === where.callId));
+    db.update.mockImplementation(async ({ where, data }) => {
+      const entry = find(where);
+      apply(entry, data);
+      return { ...entry };
+    });
+    db.updateMany.mockImplementation(async ({ where, data }) => {
+      const entry = find(where);
+      if (entry) apply(entry, data);
+      return { count: entry ? 1 : 0 };
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const later = (ms: number) => { clock += ms; };
+
+  it('claims the first delivery of an event', async () => {
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed', 'whe_1'))
+      .resolves.toEqual({ entryId: 'led_1', status: 'new', crmObjects: {} });
+  });
+
+  it('reports a duplicate delivery while the first is still processing', async () => {
+    await service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed');
+    later(30 * 1000);
+
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed'))
+      .resolves.toMatchObject({ status: 'in_progress', crmObjects: {} });
+    expect(entries[0].attempts).toBe(1);
+  });
+
+  it('replays a completed event with the CRM objects it created', async () => {
+    const { entryId } = await service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed');
+    await service.complete(entryId, { contactId: 'person_7', dealId: 'deal_3' });
+    later(60 * 1000);
+
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed', 'whe_2'))
+      .resolves.toEqual({ entryId, status: 'replay', crmObjects: { contactId: 'person_7', dealId: 'deal_3' } });
+    expect(entries[0]).toMatchObject({ status: 'processing', attempts: 2, webhookEventId: 'whe_2' });
+  });
+
+  it('retries a failed event from its partial results', async () => {
+    const { entryId } = await service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed');
+    await service.fail(entryId, { contactId: 'person_7' }, new Error('Pipedrive timed out'));
+
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed'))
+      .resolves.toEqual({ entryId, status: 'retry', crmObjects: { contactId: 'person_7' } });
+  });
+
+  it('re-claims processing that stalled past the stale limit', async () => {
+    await service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed');
+    later(5 * 60 * 1000 + 1);
+
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed')).resolves.toMatchObject({ status: 'retry' });
+    expect(entries[0].attempts).toBe(2);
+  });
+
+  it('lets only one of two concurrent retries re-claim the entry', async () => {
+    const { entryId } = await service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed');
+    await service.fail(entryId, {}, new Error('CRM unavailable'));
+    later(1000);
+
+    const claims = await Promise.all([
+      service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed'),
+      service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed'),
+    ]);
+
+    expect(claims.map(claim => claim.status).sort()).toEqual(['in_progress', 'retry']);
+    expect(entries[0].attempts).toBe(2);
+  });
+
+  it('leaves a call held for review alone', async () => {
+    const { entryId } = await service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed');
+    await service.holdForReview(entryId, { contactId: undefined });
+
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed')).resolves.toMatchObject({ status: 'in_review' });
+    expect(entries[0].status).toBe('needs_review');
+  });
+
+  it('shares the CRM objects of earlier events of the same call', async () => {
+    const ended = await service.claim(INTEGRATION_ID, CALL_ID, 'call_ended');
+    await service.complete(ended.entryId, { contactId: 'person_7' });
+
+    await expect(service.claim(INTEGRATION_ID, CALL_ID, 'call_analyzed'))
+      .resolves.toMatchObject({ status: 'new', crmObjects: { contactId: 'person_7' } });
+  });
+});
@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { CallCrmObjects } from '../types';
+
+// A "processing" entry older than this is assumed to belong to a crashed run
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// new: first delivery; replay: already completed once; retry: an earlier attempt
+// failed or stalled; in_progress: another delivery is being processed right now;
+// in_review: processing is paused until a user picks the contact
+export type LedgerClaimStatus = 'new' | 'replay' | 'retry' | 'in_progress' | 'in_review';
+
+export interface LedgerClaim {
+  entryId: string;
+  status: LedgerClaimStatus;
+  crmObjects: CallCrmObjects;
+}
+
+export class CallLedgerService {
+  /**
+   * Claim a (integration, call, event) slot before processing a Retell webhook.
+   * Returns the CRM objects already created for the call so a replay can
+   * update them rather than creating new ones.
+   */
+  async claim(
+    integrationId: string,
+    callId: string,
+    event: string,
+    webhookEventId?: string
+  ): Promise<LedgerClaim> {
+    try {
+      const entry = await prisma.callLedgerEntry.create({
+        data: { integrationId, callId, event, webhookEventId },
+      });
+
+      return {
+        entryId: entry.id,
+        status: 'new',
+        crmObjects: await this.getCrmObjects(integrationId, callId),
+      };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    // Unique constraint hit: this event was already received for the call
+    const existing = await prisma.callLedgerEntry.findUniqueOrThrow({
+      where: { integrationId_callId_event: { integrationId, callId, event } },
+    });
+
+    const isStale = Date.now() - existing.updatedAt.getTime() > STALE_PROCESSING_MS;
+    if (existing.status === 'processing' && !isStale) {
+      logger.info(`Retell ${event} for call ${callId} is already being processed`);
+      return { entryId: existing.id, status: 'in_progress', crmObjects: {} };
+    }
+
+    if (existing.status === 'needs_review') {
+      logger.info(`Retell ${event} for call ${callId} is waiting for contact review`);
+      return { entryId: existing.id, status: 'in_review', crmObjects: {} };
+    }
+
+    // Re-claim only if nobody else has touched the entry since it was read,
+    // so two retried deliveries can't both win
+    const { count } = await prisma.callLedgerEntry.updateMany({
+      where: { id: existing.id, status: existing.status, updatedAt: existing.updatedAt },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 },
+        webhookEventId: webhookEventId ?? existing.webhookEventId,
+      },
+    });
+
+    if (count === 0) {
+      logger.info(`Retell ${event} for call ${callId} was claimed by another delivery`);
+      return { entryId: existing.id, status: 'in_progress', crmObjects: {} };
+    }
+
+    logger.info(`Replaying Retell ${event} for call ${callId} (previous status: ${existing.status})`);
+    return {
+      entryId: existing.id,
+      status: existing.status === 'completed' ? 'replay' : 'retry',
+      crmObjects: await this.getCrmObjects(integrationId, callId),
+    };
+  }
+
+  async complete(entryId: string, crmObjects: CallCrmObjects) {
+    await prisma.callLedgerEntry.update({
+      where: { id: entryId },
+      data: {
+        status: 'completed',
+        crmObjects: crmObjects as Prisma.InputJsonValue,
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Pause processing until the contact is picked in the review queue.
+   * The entry keeps its webhook so the call can be resumed from it.
+   */
+  async holdForReview(entryId: string, crmObjects: CallCrmObjects) {
+    await prisma.callLedgerEntry.update({
+      where: { id: entryId },
+      data: {
+        status: 'needs_review',
+        crmObjects: crmObjects as Prisma.InputJsonValue,
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * The ledger entry (with its webhook payload) of a call held for review
+   */
+  async findHeldForReview(integrationId: string, callId: string) {
+    return prisma.callLedgerEntry.findFirst({
+      where: { integrationId, callId, status: 'needs_review' },
+      include: { webhookEvent: { select: { payload: true } } },
+    });
+  }
+
+  /**
+   * Take a call held for review back into processing. False when another
+   * reviewer (or a retry) already took it, so only one resume runs.
+   */
+  async claimHeldForReview(entryId: string): Promise<boolean> {
+    const claimed = await prisma.callLedgerEntry.updateMany({
+      where: { id: entryId, status: 'needs_review' },
+      data: { status: 'processing' },
+    });
+    return claimed.count === 1;
+  }
+
+  async fail(entryId: string, crmObjects: CallCrmObjects, error: unknown) {
+    await prisma.callLedgerEntry.update({
+      where: { id: entryId },
+      data: {
+        status: 'failed',
+        // Keep partial results so the retry resumes instead of duplicating
+        crmObjects: crmObjects as Prisma.InputJsonValue,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+
+  /**
+   * Merge the CRM objects recorded by every event of a call
+   * (call_ended and call_analyzed share the same contact, deal, etc.)
+   */
+  async getCrmObjects(integrationId: string, callId: string): Promise<CallCrmObjects> {
+    const entries = await prisma.callLedgerEntry.findMany({
+      where: { integrationId, callId },
+      orderBy: { createdAt: 'asc' },
+      select: { crmObjects: true },
+    });
+
+    return entries.reduce<CallCrmObjects>(
+      (merged, entry) => ({ ...merged, ...((entry.crmObjects as CallCrmObjects) || {}) }),
+      {}
+    );
+  }
+}
+
+export const callLedgerService = new CallLedgerService();
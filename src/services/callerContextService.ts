@@ -0,0 +1,161 @@
+import { prisma } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { crmService } from './crmService';
+import { oauthService } from './oauthService';
+import { contactMatchingService } from './contactMatchingService';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { CallerContextField, CallerContextPolicy, ContactMatchingPolicy, CrmContactContext } from '../types';
+
+const CACHE_PREFIX = 'caller-context';
+
+type CallerVariables = Partial<Record<CallerContextField, string>>;
+
+export class CallerContextService {
+  /**
+   * Dynamic variables for an inbound caller, limited to the integration's
+   * whitelisted fields. Answers empty rather than late: a lookup that misses
+   * the latency budget keeps running and fills the cache for the next call.
+   * The budget runs from `receivedAt`, so time spent before the lookup
+   * (signature check, loading the integration, the cache read) counts too.
+   */
+  async getDynamicVariables(integrationId: string, fromNumber: string, receivedAt: number = Date.now()): Promise<CallerVariables> {
+    const integration = await prisma.integration.findUnique({
+      where: { id: integrationId },
+      select: {
+        id: true,
+        callerContext: true,
+        contactMatching: true,
+        defaultPhoneRegion: true,
+        crmAccount: { select: { id: true, provider: true, instanceUrl: true } },
+      },
+    });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    const policy = integration.callerContext as unknown as CallerContextPolicy | null;
+    const phone = PhoneNormalizer.toE164(fromNumber, integration.defaultPhoneRegion);
+
+    // Withheld and unparseable numbers can't be looked up
+    if (!policy || !phone) {
+      return {};
+    }
+
+    const deadline = receivedAt + policy.timeoutMs;
+    const cacheKey = `${CACHE_PREFIX}:${integration.id}:${phone}`;
+    let variables = await this.withinBudget(this.readCache(cacheKey), deadline);
+
+    if (!variables) {
+      const lookup = this.lookupCaller(integration, phone)
+        .then(async (result) => {
+          await this.writeCache(cacheKey, result, policy.cacheTtlSeconds);
+          return result;
+        })
+        .catch((error) => {
+          logger.error(`Caller lookup failed for integration ${integration.id}:`, error.message);
+          return null;
+        });
+
+      variables = await this.withinBudget(lookup, deadline);
+      if (!variables) {
+        logger.warn(`No caller context for integration ${integration.id} within ${policy.timeoutMs}ms`);
+        return {};
+      }
+    }
+
+    return policy.fields.reduce<CallerVariables>((picked, field) => {
+      if (variables[field] !== undefined) picked[field] = variables[field];
+      return picked;
+    }, {});
+  }
+
+  /**
+   * Look the caller up in the CRM. Numbers shared by several contacts are
+   * treated as unknown unless the integration's tie-breaker picks one.
+   */
+  private async lookupCaller(
+    integration: { contactMatching: any; defaultPhoneRegion: string; crmAccount: { id: string; provider: string; instanceUrl: string | null } },
+    phone: string
+  ): Promise<CallerVariables> {
+    const crm = crmService.getAdapter(integration.crmAccount);
+    const accessToken = await oauthService.getDecryptedAccessToken(integration.crmAccount.id);
+
+    const decision = await contactMatchingService.findBestMatch(
+      crm,
+      accessToken,
+      { phone },
+      integration.contactMatching as ContactMatchingPolicy | null,
+      { defaultRegion: integration.defaultPhoneRegion }
+    );
+
+    if (!decision.contactId) {
+      return { known_customer: 'false' };
+    }
+
+    return this.toVariables(await crm.getContactContext(accessToken, decision.contactId));
+  }
+
+  private toVariables({ contact, openDeals, lastActivity }: CrmContactContext): CallerVariables {
+    const deal = openDeals[0];
+    const variables: CallerVariables = {
+      known_customer: 'true',
+      customer_name: contact.name,
+      customer_first_name: contact.name?.trim().split(/\s+/)[0],
+      customer_email: contact.email,
+      customer_company: contact.company,
+      account_owner: contact.ownerName,
+      open_deal_count: String(openDeals.length),
+      open_deal_name: deal?.title,
+      open_deal_value: deal?.value !== undefined && deal?.value !== null
+        ? [deal.value, deal.currency].filter(Boolean).join(' ')
+        : undefined,
+      open_deal_stage: deal?.stage,
+      last_activity: lastActivity?.subject,
+      last_activity_date: lastActivity?.date ? String(lastActivity.date).substring(0, 10) : undefined,
+    };
+
+    // Retell only accepts string values, so drop the blanks
+    for (const key of Object.keys(variables) as CallerContextField[]) {
+      if (!variables[key]) delete variables[key];
+    }
+
+    return variables;
+  }
+
+  private withinBudget<T>(promise: Promise<T>, deadline: number): Promise<T | null> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now()));
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  // The cache is best-effort: without Redis every call does a live lookup
+  private async readCache(key: string): Promise<CallerVariables | null> {
+    if (!redis.isReady) return null;
+
+    try {
+      const cached = await redis.get(key);
+      return cached ? JSON.parse(cached) : null;
+    } catch (error: any) {
+      logger.warn(`Caller context cache read failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, variables: CallerVariables, ttlSeconds: number) {
+    if (!redis.isReady || ttlSeconds <= 0) return;
+
+    try {
+      await redis.set(key, JSON.stringify(variables), { EX: ttlSeconds });
+    } catch (error: any) {
+      logger.warn(`Caller context cache write failed: ${error.message}`);
+    }
+  }
+}
+
+export const callerContextService = new CallerContextService();
@@ -0,0 +1,469 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { generateSecureToken } from '../utils/encryption';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { crmService } from './crmService';
+import { webhookProcessor } from './webhookProcessor';
+import { addCampaignJob } from './jobQueue';
+import { CampaignSource, OrganizationActor } from '../types';
+
+// Largest CRM filter or list a single campaign will snapshot
+const MAX_CAMPAIGN_TARGETS = 5000;
+
+// A call with no end event after this long no longer holds a concurrency slot
+const STALE_CALL_MS = 30 * 60 * 1000;
+
+// How often to check back when only calls deferred to a calling window remain
+const SCHEDULED_POLL_MS = 5 * 60 * 1000;
+
+const ACTIVE_TARGET_STATUSES = ['dialing', 'in_progress'];
+
+export type CampaignStatus = 'draft' | 'running' | 'paused' | 'completed' | 'cancelled';
+
+type CampaignAction = 'start' | 'resume' | 'pause' | 'cancel';
+
+const AUDIT_ACTIONS: Record<CampaignAction, string> = {
+  start: 'campaign_started',
+  resume: 'campaign_resumed',
+  pause: 'campaign_paused',
+  cancel: 'campaign_cancelled',
+};
+
+export class CampaignService {
+  /**
+   * Create a campaign and snapshot the records behind its CRM filter, so
+   * later changes to the filter don't change who gets called.
+   */
+  async createCampaign(actor: OrganizationActor, data: {
+    integrationId: string;
+    name: string;
+    source: CampaignSource;
+    callsPerMinute?: number;
+    maxConcurrent?: number;
+  }) {
+    const integration = await prisma.integration.findFirst({
+      where: { id: data.integrationId, organizationId: actor.organizationId },
+      include: {
+        crmAccount: { select: { id: true, provider: true } },
+      },
+    });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    const records = await crmService.getCampaignRecords(
+      integration.crmAccount.id,
+      integration.crmAccount.provider,
+      data.source,
+      MAX_CAMPAIGN_TARGETS
+    );
+
+    const campaign = await prisma.campaign.create({
+      data: {
+        userId: actor.id,
+        organizationId: actor.organizationId,
+        integrationId: integration.id,
+        name: data.name,
+        source: data.source as any,
+        callsPerMinute: data.callsPerMinute,
+        maxConcurrent: data.maxConcurrent,
+        totalTargets: records.length,
+      },
+    });
+
+    await prisma.campaignTarget.createMany({
+      data: records.map(record => {
+        const phone = record.phone ? PhoneNormalizer.toE164(record.phone, integration.defaultPhoneRegion) : null;
+
+        return {
+          campaignId: campaign.id,
+          crmRecordId: record.id,
+          name: record.name,
+          phone: phone || record.phone,
+          // Normalised name/phone on top so calls work without field mappings
+          recordData: { ...record.data, name: record.name, phone: phone || record.phone },
+          status: phone ? 'pending' : 'skipped',
+          errorMessage: phone ? undefined : (record.phone ? 'Invalid phone number on CRM record' : 'No phone number on CRM record'),
+        };
+      }),
+      skipDuplicates: true,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: 'campaign_created',
+        resource: campaign.id,
+        details: { name: data.name, integrationId: integration.id, source: data.source as any, targets: records.length },
+      },
+    });
+
+    logger.info(`Campaign ${campaign.id} created with ${records.length} targets`);
+    return this.getCampaign(actor, campaign.id);
+  }
+
+  async getCampaigns(actor: OrganizationActor) {
+    const campaigns = await prisma.campaign.findMany({
+      where: { organizationId: actor.organizationId },
+      include: {
+        integration: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const counts = await this.countTargets(campaigns.map(campaign => campaign.id));
+    return campaigns.map(campaign => ({ ...campaign, stats: counts[campaign.id] || {} }));
+  }
+
+  async getCampaign(actor: OrganizationActor, campaignId: string) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, organizationId: actor.organizationId },
+      include: {
+        integration: { select: { name: true } },
+      },
+    });
+
+    if (!campaign) {
+      throw new AppError('Campaign not found', 404);
+    }
+
+    const [counts, outcomes] = await Promise.all([
+      this.countTargets([campaign.id]),
+      prisma.campaignTarget.groupBy({
+        by: ['outcome'],
+        where: { campaignId, outcome: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      ...campaign,
+      stats: counts[campaign.id] || {},
+      outcomes: outcomes.map(row => ({ outcome: row.outcome, count: row._count._all })),
+    };
+  }
+
+  async getCampaignTargets(actor: OrganizationActor, campaignId: string, filters: {
+    status?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, organizationId: actor.organizationId },
+      select: { id: true },
+    });
+
+    if (!campaign) {
+      throw new AppError('Campaign not found', 404);
+    }
+
+    const page = filters.page || 1;
+    const limit = Math.min(filters.limit || 20, 100);
+    const where: any = { campaignId };
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const [targets, total] = await Promise.all([
+      prisma.campaignTarget.findMany({
+        where,
+        select: {
+          id: true,
+          crmRecordId: true,
+          name: true,
+          phone: true,
+          status: true,
+          outcome: true,
+          retellCallId: true,
+          errorMessage: true,
+          dialedAt: true,
+          completedAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.campaignTarget.count({ where }),
+    ]);
+
+    return {
+      targets,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async startCampaign(actor: OrganizationActor, campaignId: string) {
+    return this.beginDispatch(actor, campaignId, 'draft', 'start', { startedAt: new Date() });
+  }
+
+  async resumeCampaign(actor: OrganizationActor, campaignId: string) {
+    return this.beginDispatch(actor, campaignId, 'paused', 'resume');
+  }
+
+  /**
+   * Stop dialling new targets. Calls already in progress are left to finish.
+   */
+  async pauseCampaign(actor: OrganizationActor, campaignId: string) {
+    await this.transition(actor, campaignId, ['running'], 'paused', 'pause', { dispatchToken: null });
+    return this.getCampaign(actor, campaignId);
+  }
+
+  async cancelCampaign(actor: OrganizationActor, campaignId: string) {
+    await this.transition(actor, campaignId, ['draft', 'running', 'paused'], 'cancelled', 'cancel', {
+      dispatchToken: null,
+      completedAt: new Date(),
+    });
+
+    await prisma.campaignTarget.updateMany({
+      where: { campaignId, status: { in: ['pending', 'scheduled'] } },
+      data: { status: 'cancelled' },
+    });
+
+    return this.getCampaign(actor, campaignId);
+  }
+
+  /**
+   * One pacing tick: dial the next pending target if a concurrency slot is
+   * free, then schedule the next tick. Ticks carrying an old dispatch token
+   * (from before a pause/resume) are dropped, so only one chain runs.
+   */
+  async dispatchNext(campaignId: string, dispatchToken: string) {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: { integration: { select: { organizationId: true } } },
+    });
+
+    if (!campaign || campaign.status !== 'running' || campaign.dispatchToken !== dispatchToken) {
+      return { dispatched: false };
+    }
+
+    const interval = Math.ceil(60000 / Math.max(campaign.callsPerMinute, 1));
+    const active = await prisma.campaignTarget.count({
+      where: {
+        campaignId,
+        status: { in: ACTIVE_TARGET_STATUSES },
+        dialedAt: { gte: new Date(Date.now() - STALE_CALL_MS) },
+      },
+    });
+
+    if (active >= campaign.maxConcurrent) {
+      await addCampaignJob({ campaignId, dispatchToken }, interval);
+      return { dispatched: false };
+    }
+
+    const target = await prisma.campaignTarget.findFirst({
+      where: { campaignId, status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!target) {
+      const scheduled = await prisma.campaignTarget.count({ where: { campaignId, status: 'scheduled' } });
+
+      if (active === 0 && scheduled === 0) {
+        await prisma.campaign.updateMany({
+          where: { id: campaignId, dispatchToken },
+          data: { status: 'completed', completedAt: new Date(), dispatchToken: null },
+        });
+        logger.info(`Campaign ${campaignId} completed`);
+      } else {
+        await addCampaignJob({ campaignId, dispatchToken }, active > 0 ? interval : SCHEDULED_POLL_MS);
+      }
+      return { dispatched: false };
+    }
+
+    const claimed = await prisma.campaignTarget.updateMany({
+      where: { id: target.id, status: 'pending' },
+      data: { status: 'dialing', dialedAt: new Date() },
+    });
+
+    if (claimed.count > 0) {
+      await this.dialTarget(campaign, target);
+    }
+
+    await addCampaignJob({ campaignId, dispatchToken }, interval);
+    return { dispatched: claimed.count > 0 };
+  }
+
+  /**
+   * Track campaign calls from Retell's call events, freeing the
+   * concurrency slot once the call ends.
+   */
+  async recordCallEvent(callId: string, eventType: string, call: any) {
+    if (!callId || !['call_ended', 'call_analyzed'].includes(eventType)) return;
+
+    const updated = await prisma.campaignTarget.updateMany({
+      where: { retellCallId: callId, status: { in: ACTIVE_TARGET_STATUSES } },
+      data: {
+        status: 'completed',
+        outcome: call?.disconnection_reason || (call?.call_analysis?.in_voicemail ? 'voicemail' : undefined),
+        completedAt: new Date(),
+      },
+    });
+
+    if (updated.count > 0) {
+      logger.info(`Campaign call ${callId} finished: ${call?.disconnection_reason || eventType}`);
+    }
+  }
+
+  /**
+   * Place a call that was deferred to the callee's calling window, unless the
+   * campaign was paused or cancelled in the meantime.
+   */
+  async dialScheduledTarget(syncEventId: string) {
+    const target = await prisma.campaignTarget.findFirst({
+      where: { syncEventId },
+      include: { campaign: { select: { status: true } } },
+    });
+
+    if (!target || target.status !== 'scheduled' || target.campaign.status !== 'running') {
+      // Paused campaigns pick the target up again on resume
+      if (target?.status === 'scheduled') {
+        await prisma.campaignTarget.update({
+          where: { id: target.id },
+          data: { status: target.campaign.status === 'paused' ? 'pending' : 'cancelled', syncEventId: null },
+        });
+      }
+
+      await prisma.syncEvent.update({
+        where: { id: syncEventId },
+        data: { status: 'cancelled', processedAt: new Date() },
+      });
+      return { success: false, reason: 'Campaign is no longer running' };
+    }
+
+    return this.placeCall(target.id, syncEventId);
+  }
+
+  private async dialTarget(
+    campaign: { id: string; userId: string; integrationId: string; integration: { organizationId: string } },
+    target: { id: string; recordData: any }) {
+    let syncEventId: string;
+
+    try {
+      const syncEvent = await prisma.syncEvent.create({
+        data: {
+          userId: campaign.userId,
+          organizationId: campaign.integration.organizationId,
+          integrationId: campaign.integrationId,
+          eventType: 'campaign_call',
+          status: 'pending',
+          sourceData: target.recordData,
+          maxRetries: 0, // A failed dial is reported on the target, not retried
+        },
+      });
+
+      await prisma.campaignTarget.update({
+        where: { id: target.id },
+        data: { syncEventId: syncEvent.id },
+      });
+      syncEventId = syncEvent.id;
+    } catch (error) {
+      await this.markTargetFailed(target.id, error);
+      return;
+    }
+
+    // Failures are recorded on the target; the pacing loop carries on
+    await this.placeCall(target.id, syncEventId).catch(() => undefined);
+  }
+
+  private async placeCall(targetId: string, syncEventId: string) {
+    try {
+      const result = await webhookProcessor.triggerOutboundCall(syncEventId);
+
+      let data: any;
+      if ('blocked' in result) {
+        data = { status: 'blocked', errorMessage: result.reason, completedAt: new Date() };
+      } else if ('deferred' in result) {
+        // Deferred calls don't hold a concurrency slot until they're dialled
+        data = { status: 'scheduled', dialedAt: null };
+      } else {
+        data = { status: 'in_progress', retellCallId: result.callId, dialedAt: new Date() };
+      }
+
+      await prisma.campaignTarget.update({ where: { id: targetId }, data });
+
+      return result;
+    } catch (error) {
+      await this.markTargetFailed(targetId, error);
+      throw error;
+    }
+  }
+
+  private async markTargetFailed(targetId: string, error: any) {
+    logger.error(`Campaign target ${targetId} failed to dial:`, error);
+
+    await prisma.campaignTarget.update({
+      where: { id: targetId },
+      data: {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  private async beginDispatch(actor: OrganizationActor, campaignId: string, from: CampaignStatus, action: CampaignAction, data: any = {}) {
+    const dispatchToken = generateSecureToken(16);
+
+    await this.transition(actor, campaignId, [from], 'running', action, { ...data, dispatchToken });
+    await addCampaignJob({ campaignId, dispatchToken });
+
+    return this.getCampaign(actor, campaignId);
+  }
+
+  /**
+   * Move a campaign between states atomically, so two concurrent requests
+   * can't both start (or resume) the same campaign.
+   */
+  private async transition(actor: OrganizationActor, campaignId: string, from: CampaignStatus[], to: CampaignStatus, action: CampaignAction, data: any = {}) {
+    const result = await prisma.campaign.updateMany({
+      where: { id: campaignId, organizationId: actor.organizationId, status: { in: from } },
+      data: { ...data, status: to },
+    });
+
+    if (result.count === 0) {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: campaignId, organizationId: actor.organizationId },
+        select: { status: true },
+      });
+
+      if (!campaign) {
+        throw new AppError('Campaign not found', 404);
+      }
+      throw new AppError(`Cannot ${action} a ${campaign.status} campaign`, 409);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: AUDIT_ACTIONS[action],
+        resource: campaignId,
+      },
+    });
+  }
+
+  private async countTargets(campaignIds: string[]) {
+    const rows = await prisma.campaignTarget.groupBy({
+      by: ['campaignId', 'status'],
+      where: { campaignId: { in: campaignIds } },
+      _count: { _all: true },
+    });
+
+    const counts: Record<string, Record<string, number>> = {};
+    for (const row of rows) {
+      counts[row.campaignId] = counts[row.campaignId] || {};
+      counts[row.campaignId][row.status] = row._count._all;
+    }
+    return counts;
+  }
+}
+
+export const campaignService = new CampaignService();
@@ -0,0 +1,92 @@
+jest.mock('../config/database', () => ({ prisma: {} }));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { ContactMatchingService } from './contactMatchingService';
+import { ContactMatchingPolicy, CrmAdapter, CrmContact } from '../types';
+
+const CALL = { phone: '020 7946 0958', email: 'ada@example.com', name: 'Ada Lovelace', company: 'Analytical Engines Ltd' };
+
+describe('ContactMatchingService', () => {
+  const service = new ContactMatchingService();
+
+  describe('scoreCandidate', () => {
+    const score = (contact: Partial<CrmContact>, input: Partial<typeof CALL> = CALL) =>
+      service.scoreCandidate({ id: 'person_1', ...contact }, input, 'GB');
+
+    it.each([
+      ['every signal', { phone: '+44 20 7946 0958', email: 'ADA@example.com ', name: 'Ada Lovelace', company: 'Analytical Engines' }, 1],
+      ['the phone in another format', { phone: '+442079460958' }, 0.4],
+      ['any of several numbers', { phones: ['+441632960000', '(020) 7946-0958'] }, 0.4],
+      ['the email alone', { email: 'ada@example.com' }, 0.4],
+      ['the name with the words reversed', { name: 'Lovelace, Ada' }, 0.15],
+      ['the name with a title and accents', { name: 'Dr Adá Lovelace' }, 0.15],
+      ['the company without its suffix', { company: 'ANALYTICAL ENGINES' }, 0.05],
+      ['nothing', { phone: '+441632960000', email: 'grace@example.com' }, 0],
+    ])('scores %s', (_name, contact, expected) => {
+      expect(score(contact).score).toBe(expected);
+    });
+
+    it('scores a similar name partially', () => {
+      const { signals } = score({ name: 'Ada Lovelac' });
+      expect(signals.name).toBeGreaterThan(0.8);
+      expect(signals.name).toBeLessThan(1);
+    });
+
+    it('ignores signals the call does not carry', () => {
+      expect(score({ phone: '+442079460958', email: 'ada@example.com' }, { name: 'Ada Lovelace' }).signals)
+        .toEqual({ phone: 0, email: 0, name: 0, company: 0 });
+    });
+  });
+
+  describe('findBestMatch', () => {
+    const ada = { id: 'person_ada', name: 'Ada Lovelace', phone: '+442079460958', ownerId: '11', updatedAt: '2025-09-01T10:00:00Z' };
+    const ada2 = { id: 'person_ada_dup', name: 'Ada Lovelace', phone: '+442079460958', ownerId: '22', updatedAt: '2025-10-01T10:00:00Z' };
+    const grace = { id: 'person_grace', name: 'Grace Hopper', phone: '+441632960000' };
+
+    const crmWith = (contacts: CrmContact[]) => ({ findContactCandidates: jest.fn(async () => contacts) } as unknown as CrmAdapter);
+    const match = (contacts: CrmContact[], policy: Partial<ContactMatchingPolicy> | null = null, ownerId?: string) =>
+      service.findBestMatch(crmWith(contacts), 'token', { phone: CALL.phone, name: CALL.name }, policy as ContactMatchingPolicy, { defaultRegion: 'GB', ownerId });
+
+    it('matches the best candidate at or above the threshold', async () => {
+      const decision = await match([grace, ada]);
+
+      expect(decision).toMatchObject({ outcome: 'matched', contactId: 'person_ada', score: 0.55, threshold: 0.4 });
+      expect(decision.candidates.map(candidate => candidate.id)).toEqual(['person_ada', 'person_grace']);
+    });
+
+    it('creates a contact when nobody reaches the threshold', async () => {
+      await expect(match([ada], { threshold: 0.6 })).resolves.toMatchObject({ outcome: 'created', contactId: null, score: null });
+    });
+
+    it('creates a contact when the CRM has no candidates', async () => {
+      await expect(match([])).resolves.toMatchObject({ outcome: 'created', contactId: null, candidates: [] });
+    });
+
+    it('holds near-equal top candidates for review by default', async () => {
+      await expect(match([ada, ada2])).resolves.toMatchObject({
+        outcome: 'ambiguous',
+        contactId: null,
+        tiedCandidateIds: ['person_ada', 'person_ada_dup'],
+      });
+    });
+
+    it('does not tie candidates further apart than the margin', async () => {
+      const decision = await match([ada, { ...ada2, name: 'Augusta King' }]);
+
+      expect(decision).toMatchObject({ outcome: 'matched', contactId: 'person_ada' });
+      expect(decision.tiedCandidateIds).toBeUndefined();
+    });
+
+    it('breaks a tie on the most recently updated record', async () => {
+      await expect(match([ada, ada2], { ambiguousMatches: 'tie_breaker' }))
+        .resolves.toMatchObject({ outcome: 'matched', contactId: 'person_ada_dup', tiedCandidateIds: ['person_ada', 'person_ada_dup'] });
+    });
+
+    it('breaks a tie on the owner, then on recency', async () => {
+      const policy = { ambiguousMatches: 'tie_breaker' as const, tieBreaker: 'owner_match' as const };
+
+      await expect(match([ada, ada2], policy, '11')).resolves.toMatchObject({ contactId: 'person_ada' });
+      await expect(match([ada, ada2], policy, '99')).resolves.toMatchObject({ contactId: 'person_ada_dup' });
+    });
+  });
+});
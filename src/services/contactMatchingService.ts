@@ -0,0 +1,261 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { ContactMatchingPolicy, ContactMatchTieBreaker, CrmAdapter, CrmContact } from '../types';
+
+export const DEFAULT_CONTACT_MATCHING: ContactMatchingPolicy = {
+  threshold: 0.4,
+  tieBreaker: 'most_recent',
+  ambiguousMatches: 'review',
+};
+
+// Share of the score each signal carries. They add up to 1, so a phone or
+// email match alone reaches the default threshold but a name alone doesn't.
+const WEIGHTS = { phone: 0.4, email: 0.4, name: 0.15, company: 0.05 };
+
+// Candidates within this distance of the best score count as tied
+const TIE_MARGIN = 0.05;
+
+// Words that don't tell two people or companies apart
+const NAME_STOP_WORDS = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'sir', 'jr', 'sr']);
+const COMPANY_STOP_WORDS = new Set(['the', 'ltd', 'limited', 'inc', 'llc', 'llp', 'plc', 'gmbh', 'corp', 'corporation', 'co', 'company', 'group']);
+
+export interface ContactMatchInput {
+  phone?: string;
+  email?: string;
+  name?: string;
+  company?: string;
+}
+
+export interface ContactMatchSignals {
+  phone: number;
+  email: number;
+  name: number;
+  company: number;
+}
+
+export interface ScoredContactCandidate {
+  id: string;
+  name?: string;
+  score: number;
+  signals: ContactMatchSignals;
+  ownerId?: string;
+  updatedAt?: string;
+}
+
+export type ContactReviewAction = 'select' | 'create' | 'merge';
+
+export interface ContactReview {
+  action: ContactReviewAction;
+  mergedContactIds?: string[];
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+/**
+ * Outcome of matching a call to a CRM contact, stored on the sync event so
+ * it's clear afterwards why a call landed on a contact (or created one).
+ * Ambiguous decisions wait for a user to pick the contact.
+ */
+export interface ContactMatchDecision {
+  outcome: 'matched' | 'created' | 'ambiguous';
+  contactId: string | null;
+  score: number | null;
+  threshold: number;
+  tieBreaker: ContactMatchTieBreaker;
+  tiedCandidateIds?: string[]; // Near-equal top candidates
+  candidates: ScoredContactCandidate[];
+  decidedAt: string;
+  review?: ContactReview;
+}
+
+export class ContactMatchingService {
+  /**
+   * Search the CRM for everyone who could be the person on the call and
+   * pick the best-scoring candidate at or above the integration's threshold.
+   * A null contactId means a new contact should be created.
+   */
+  async findBestMatch(
+    crm: CrmAdapter,
+    accessToken: string,
+    input: ContactMatchInput,
+    policy: ContactMatchingPolicy | null,
+    options: { defaultRegion?: string; ownerId?: string } = {}
+  ): Promise<ContactMatchDecision> {
+    const { threshold, tieBreaker, ambiguousMatches } = { ...DEFAULT_CONTACT_MATCHING, ...policy };
+
+    const contacts = await crm.findContactCandidates(accessToken, {
+      phone: input.phone,
+      email: input.email,
+      name: input.name,
+    });
+
+    const candidates = contacts
+      .map(contact => this.scoreCandidate(contact, input, options.defaultRegion))
+      .sort((a, b) => b.score - a.score);
+
+    const decision: ContactMatchDecision = {
+      outcome: 'created',
+      contactId: null,
+      score: null,
+      threshold,
+      tieBreaker,
+      candidates,
+      decidedAt: new Date().toISOString(),
+    };
+
+    const best = candidates[0];
+    if (!best || best.score < threshold) {
+      logger.info(`No contact reached the match threshold ${threshold} (best ${best ? best.score : 'none'})`);
+      return decision;
+    }
+
+    const tied = candidates.filter(candidate => best.score - candidate.score <= TIE_MARGIN && candidate.score >= threshold);
+    if (tied.length > 1) {
+      decision.tiedCandidateIds = tied.map(candidate => candidate.id);
+    }
+
+    if (tied.length > 1 && ambiguousMatches === 'review') {
+      logger.info(`${tied.length} contacts tied on score ${best.score}; holding the call for review`);
+      decision.outcome = 'ambiguous';
+      return decision;
+    }
+
+    const match = tied.length > 1 ? this.breakTie(tied, tieBreaker, options.ownerId) : best;
+    if (tied.length > 1) {
+      logger.info(`${tied.length} contacts tied on score ${best.score}; ${tieBreaker} picked ${match.id}`);
+    }
+
+    decision.outcome = 'matched';
+    decision.contactId = match.id;
+    decision.score = match.score;
+    return decision;
+  }
+
+  /**
+   * Score a CRM contact against the call. Phone and email are exact
+   * matches; name and company are fuzzy, so "Smith, John" still matches
+   * "John Smith" and "Acme Ltd" matches "ACME".
+   */
+  scoreCandidate(contact: CrmContact, input: ContactMatchInput, defaultRegion?: string): ScoredContactCandidate {
+    const signals: ContactMatchSignals = { phone: 0, email: 0, name: 0, company: 0 };
+
+    const phone = input.phone ? PhoneNormalizer.normalize(input.phone, defaultRegion) : '';
+    if (phone) {
+      const numbers = contact.phones?.length ? contact.phones : [contact.phone];
+      signals.phone = numbers.some(number => number && PhoneNormalizer.normalize(String(number), defaultRegion) === phone) ? 1 : 0;
+    }
+
+    if (input.email && contact.email) {
+      signals.email = input.email.trim().toLowerCase() === contact.email.trim().toLowerCase() ? 1 : 0;
+    }
+
+    signals.name = this.similarity(input.name, contact.name, NAME_STOP_WORDS);
+    signals.company = this.similarity(input.company, contact.company, COMPANY_STOP_WORDS);
+
+    const score = (Object.keys(WEIGHTS) as (keyof ContactMatchSignals)[])
+      .reduce((total, signal) => total + WEIGHTS[signal] * signals[signal], 0);
+
+    return {
+      id: contact.id,
+      name: contact.name,
+      score: Math.round(score * 100) / 100,
+      signals,
+      ownerId: contact.ownerId,
+      updatedAt: contact.updatedAt,
+    };
+  }
+
+  /**
+   * Store the decision on the sync event that placed the call. Calls we
+   * didn't place (inbound) get a contact_match event of their own. Ambiguous
+   * decisions put the event in needs_review.
+   */
+  async recordDecision(integration: { id: string; userId: string; organizationId: string }, callId: string, syncEventId: string | null, decision: ContactMatchDecision) {
+    const matchDecision = decision as any;
+    const status = decision.outcome === 'ambiguous' ? 'needs_review' : undefined;
+
+    if (syncEventId) {
+      await prisma.syncEvent.update({ where: { id: syncEventId }, data: { matchDecision, status } });
+      return;
+    }
+
+    const existing = await prisma.syncEvent.findFirst({
+      where: { integrationId: integration.id, retellCallId: callId, eventType: 'contact_match' },
+      select: { id: true },
+    });
+
+    if (existing) {
+      await prisma.syncEvent.update({ where: { id: existing.id }, data: { matchDecision, status } });
+      return;
+    }
+
+    await prisma.syncEvent.create({
+      data: {
+        userId: integration.userId,
+        organizationId: integration.organizationId,
+        integrationId: integration.id,
+        eventType: 'contact_match',
+        status: status || 'completed',
+        retellCallId: callId,
+        maxRetries: 0,
+        matchDecision,
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  private breakTie(tied: ScoredContactCandidate[], tieBreaker: ContactMatchTieBreaker, ownerId?: string): ScoredContactCandidate {
+    // Owner match narrows the field, then the most recent record wins
+    const owned = tieBreaker === 'owner_match' && ownerId
+      ? tied.filter(candidate => candidate.ownerId === String(ownerId))
+      : [];
+    const pool = owned.length > 0 ? owned : tied;
+
+    const updatedAt = (candidate: ScoredContactCandidate) => (candidate.updatedAt ? Date.parse(candidate.updatedAt) || 0 : 0);
+    return pool.reduce((latest, candidate) => (updatedAt(candidate) > updatedAt(latest) ? candidate : latest));
+  }
+
+  /**
+   * Similarity of two names from 0 to 1: accents, punctuation, word order
+   * and filler words are ignored, then character pairs are compared.
+   */
+  private similarity(a: string | undefined, b: string | undefined, stopWords: Set<string>): number {
+    const left = this.normalizeText(a, stopWords);
+    const right = this.normalizeText(b, stopWords);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const pairs = (text: string) => {
+      const result = new Map<string, number>();
+      for (let i = 0; i < text.length - 1; i++) {
+        const pair = text.substring(i, i + 2);
+        result.set(pair, (result.get(pair) || 0) + 1);
+      }
+      return result;
+    };
+
+    const leftPairs = pairs(left);
+    const rightPairs = pairs(right);
+    let shared = 0;
+    for (const [pair, count] of leftPairs) {
+      shared += Math.min(count, rightPairs.get(pair) || 0);
+    }
+
+    const total = left.length - 1 + right.length - 1;
+    return total > 0 ? Math.round((2 * shared / total) * 100) / 100 : 0;
+  }
+
+  private normalizeText(value: string | undefined, stopWords: Set<string>): string {
+    return (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '') // Drop accents
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !stopWords.has(word))
+      .sort()
+      .join(' ');
+  }
+}
+
+export const contactMatchingService = new ContactMatchingService();
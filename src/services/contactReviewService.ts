@@ -0,0 +1,182 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { crmService } from './crmService';
+import { oauthService } from './oauthService';
+import { webhookProcessor } from './webhookProcessor';
+import { ContactMatchDecision, ContactReviewAction } from './contactMatchingService';
+import { CallCrmObjects, OrganizationActor } from '../types';
+
+export interface ContactReviewResolution {
+  action: ContactReviewAction;
+  contactId?: string; // The contact to use, or the one to keep when merging
+  mergeContactIds?: string[]; // Duplicates merged into contactId
+}
+
+export class ContactReviewService {
+  /**
+   * Calls waiting for a user to pick the contact, with the call details
+   * needed to decide between the candidates.
+   */
+  async getReviews(organizationId: string, filters: { integrationId?: string; page?: number; limit?: number }) {
+    const page = filters.page || 1;
+    const limit = Math.min(filters.limit || 20, 100);
+    const where: any = { organizationId, status: 'needs_review' };
+
+    if (filters.integrationId) {
+      where.integrationId = filters.integrationId;
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.syncEvent.findMany({
+        where,
+        include: { integration: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.syncEvent.count({ where }),
+    ]);
+
+    // The held webhook carries the call summary shown next to the candidates
+    const entries = await prisma.callLedgerEntry.findMany({
+      where: { callId: { in: events.map(event => event.retellCallId).filter(Boolean) }, status: 'needs_review' },
+      include: { webhookEvent: { select: { payload: true } } },
+    });
+    const calls = new Map(entries.map(entry => [`${entry.integrationId}:${entry.callId}`, (entry.webhookEvent?.payload as any)?.call]));
+
+    return {
+      reviews: events.map(event => {
+        const call = calls.get(`${event.integrationId}:${event.retellCallId}`) || {};
+        const decision = event.matchDecision as unknown as ContactMatchDecision;
+
+        return {
+          id: event.id,
+          integrationId: event.integrationId,
+          integrationName: event.integration.name,
+          createdAt: event.createdAt,
+          call: {
+            callId: event.retellCallId,
+            direction: call.direction,
+            fromNumber: call.from_number,
+            toNumber: call.to_number,
+            startedAt: call.start_timestamp ? new Date(call.start_timestamp) : undefined,
+            durationSeconds: call.duration_ms ? Math.round(call.duration_ms / 1000) : undefined,
+            callerName: call.retell_llm_dynamic_variables?.name,
+            summary: call.call_analysis?.call_summary,
+          },
+          candidates: (decision?.candidates || []).filter(candidate => decision.tiedCandidateIds?.includes(candidate.id)),
+          otherCandidates: (decision?.candidates || []).filter(candidate => !decision.tiedCandidateIds?.includes(candidate.id)),
+        };
+      }),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Settle an ambiguous match: use one of the candidates, create a new
+   * contact, or merge duplicates into one. The paused CRM sync then resumes.
+   */
+  async resolveReview(actor: OrganizationActor, syncEventId: string, resolution: ContactReviewResolution) {
+    const syncEvent = await prisma.syncEvent.findFirst({
+      where: { id: syncEventId, organizationId: actor.organizationId },
+      include: { integration: { include: { crmAccount: { select: { id: true, provider: true, instanceUrl: true } } } } },
+    });
+
+    if (!syncEvent) {
+      throw new AppError('Sync event not found', 404);
+    }
+
+    if (syncEvent.status !== 'needs_review') {
+      throw new AppError('This call is not waiting for review', 409);
+    }
+
+    const decision = syncEvent.matchDecision as unknown as ContactMatchDecision;
+    const candidateIds = (decision?.candidates || []).map(candidate => candidate.id);
+    const pickedIds = [resolution.contactId, ...(resolution.mergeContactIds || [])].filter(Boolean);
+
+    const unknown = pickedIds.find(id => !candidateIds.includes(id));
+    if (unknown) {
+      throw new AppError(`Contact ${unknown} was not one of the candidates for this call`, 400);
+    }
+
+    // Claim the review so two reviewers can't merge or resume the same call
+    const claimed = await prisma.syncEvent.updateMany({
+      where: { id: syncEvent.id, status: 'needs_review' },
+      data: { status: 'processing' },
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError('This call is not waiting for review', 409);
+    }
+
+    let contactId = resolution.action === 'create' ? null : resolution.contactId;
+    let crmObjects: CallCrmObjects;
+
+    try {
+      if (resolution.action === 'merge') {
+        contactId = await this.mergeCandidates(syncEvent.integration.crmAccount, contactId, resolution.mergeContactIds);
+      }
+
+      crmObjects = await webhookProcessor.resumeReviewedCall(syncEvent, contactId);
+    } catch (error) {
+      // Back into the review queue
+      await prisma.syncEvent.update({ where: { id: syncEvent.id }, data: { status: 'needs_review' } });
+      throw error;
+    }
+
+    await prisma.syncEvent.update({
+      where: { id: syncEvent.id },
+      data: {
+        status: 'completed',
+        processedAt: new Date(),
+        matchDecision: {
+          ...decision,
+          outcome: resolution.action === 'create' ? 'created' : 'matched',
+          contactId: crmObjects.contactId,
+          review: {
+            action: resolution.action,
+            mergedContactIds: resolution.mergeContactIds,
+            reviewedBy: actor.id,
+            reviewedAt: new Date().toISOString(),
+          },
+        } as any,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: 'contact_review_resolved',
+        resource: syncEvent.id,
+        details: { action: resolution.action, contactId: crmObjects.contactId, callId: syncEvent.retellCallId },
+      },
+    });
+
+    logger.info(`Contact review ${syncEvent.id} resolved with ${resolution.action} (contact ${crmObjects.contactId})`);
+    return { contactId: crmObjects.contactId, crmObjects };
+  }
+
+  private async mergeCandidates(crmAccount: { id: string; provider: string; instanceUrl: string | null }, primaryId: string, duplicateIds: string[]): Promise<string> {
+    const crm = crmService.getAdapter(crmAccount);
+    if (!crm.mergeContacts) {
+      throw new AppError(`Merging contacts is not supported for ${crmAccount.provider}`, 400);
+    }
+
+    const accessToken = await oauthService.getDecryptedAccessToken(crmAccount.id);
+    let survivorId = primaryId;
+
+    for (const duplicateId of duplicateIds.filter(id => id !== primaryId)) {
+      survivorId = (await crm.mergeContacts(accessToken, survivorId, duplicateId)).id;
+    }
+
+    return survivorId;
+  }
+}
+
+export const contactReviewService = new ContactReviewService();
@@ -1,8 +1,33 @@
 import axios from 'axios';
+import { prisma } from '../config/database';
 import { oauthService } from './oauthService';
 import { AppError } from '../middleware/errorHandler';
+import { CampaignRecord, CampaignSource, CrmAdapter } from '../types';
+import { pipedriveService } from './pipedriveService';
+import { hubspotService } from './hubspotService';
+import { salesforceService } from './salesforceService';
+import { zohoService } from './zohoService';
 
 export class CRMService {
+  /**
+   * The adapter for a connected CRM account. Salesforce adapters are bound
+   * to the account's instance, since each org is served from its own host.
+   */
+  getAdapter(account: { provider: string; instanceUrl?: string | null }): CrmAdapter {
+    switch (account.provider) {
+      case 'pipedrive':
+        return pipedriveService;
+      case 'hubspot':
+        return hubspotService;
+      case 'salesforce':
+        return salesforceService.forInstance(account.instanceUrl);
+      case 'zoho':
+        return zohoService;
+      default:
+        throw new AppError(`Unsupported CRM provider: ${account.provider}`, 400);
+    }
+  }
+
   async getLeads(accountId: string, provider: string, limit: number = 100) {
     const accessToken = await oauthService.getDecryptedAccessToken(accountId);
     
@@ -12,7 +37,7 @@ export class CRMService {
       case 'hubspot':
         return this.getHubSpotLeads(accessToken, limit);
       case 'salesforce':
-        return this.getSalesforceLeads(accessToken, limit);
+        return this.getSalesforceLeads(accessToken, await this.salesforceApiBase(accountId), limit);
       case 'zoho':
         return this.getZohoLeads(accessToken, limit);
       default:
@@ -29,7 +54,7 @@ export class CRMService {
       case 'hubspot':
         return this.getHubSpotContacts(accessToken, limit);
       case 'salesforce':
-        return this.getSalesforceContacts(accessToken, limit);
+        return this.getSalesforceContacts(accessToken, await this.salesforceApiBase(accountId), limit);
       case 'zoho':
         return this.getZohoContacts(accessToken, limit);
       default:
@@ -46,7 +71,7 @@ export class CRMService {
       case 'hubspot':
         return this.getHubSpotFields(accessToken, objectType);
       case 'salesforce':
-        return this.getSalesforceFields(accessToken, objectType);
+        return this.getSalesforceFields(accessToken, await this.salesforceApiBase(accountId), objectType);
       case 'zoho':
         return this.getZohoFields(accessToken, objectType);
       default:
@@ -54,6 +79,37 @@ export class CRMService {
     }
   }
 
+  /**
+   * Snapshot the records behind a saved CRM filter, list or view, for an
+   * outbound campaign. Stops after `limit` records.
+   */
+  async getCampaignRecords(accountId: string, provider: string, source: CampaignSource, limit: number): Promise<CampaignRecord[]> {
+    const accessToken = await oauthService.getDecryptedAccessToken(accountId);
+    const expected = {
+      pipedrive: 'pipedrive_filter',
+      hubspot: 'hubspot_list',
+      salesforce: 'salesforce_list_view',
+      zoho: 'zoho_custom_view',
+    }[provider];
+
+    if (source.type !== expected) {
+      throw new AppError(`A ${source.type} source cannot be used with a ${provider} account`, 400);
+    }
+
+    switch (provider) {
+      case 'pipedrive':
+        return this.getPipedriveFilterRecords(accessToken, source.id, limit);
+      case 'hubspot':
+        return this.getHubSpotListRecords(accessToken, source.id, limit);
+      case 'salesforce':
+        return this.getSalesforceListViewRecords(accessToken, await this.salesforceApiBase(accountId), source, limit);
+      case 'zoho':
+        return this.getZohoCustomViewRecords(accessToken, source, limit);
+      default:
+        throw new AppError(`Unsupported CRM provider: ${provider}`, 400);
+    }
+  }
+
   // Pipedrive implementations
   private async getPipedriveLeads(accessToken: string, limit: number) {
     const response = await axios.get('https://api.pipedrive.com/v1/leads', {
@@ -79,6 +135,30 @@ export class CRMService {
     return response.data.data || [];
   }
 
+  private async getPipedriveFilterRecords(accessToken: string, filterId: string, limit: number): Promise<CampaignRecord[]> {
+    const records: CampaignRecord[] = [];
+    let start = 0;
+
+    while (records.length < limit) {
+      const response = await axios.get('https://api.pipedrive.com/v1/persons', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        params: { filter_id: filterId, start, limit: Math.min(500, limit - records.length) },
+      });
+
+      for (const person of response.data.data || []) {
+        const phones = Array.isArray(person.phone) ? person.phone : [];
+        const phone = (phones.find((p: any) => p.primary) || phones[0])?.value;
+        records.push({ id: String(person.id), name: person.name, phone: phone || undefined, data: person });
+      }
+
+      const pagination = response.data.additional_data?.pagination;
+      if (!pagination?.more_items_in_collection) break;
+      start = pagination.next_start;
+    }
+
+    return records.slice(0, limit);
+  }
+
   // HubSpot implementations
   private async getHubSpotLeads(accessToken: string, limit: number) {
     const response = await axios.get('https://api.hubapi.com/crm/v3/objects/contacts', {
@@ -99,31 +179,105 @@ export class CRMService {
     return response.data.results || [];
   }
 
+  private async getHubSpotListRecords(accessToken: string, listId: string, limit: number): Promise<CampaignRecord[]> {
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const contactIds: string[] = [];
+    let after: string | undefined;
+
+    do {
+      const response = await axios.get(`https://api.hubapi.com/crm/v3/lists/${listId}/memberships`, {
+        headers,
+        params: { limit: 250, after },
+      });
+      contactIds.push(...(response.data.results || []).map((member: any) => String(member.recordId)));
+      after = response.data.paging?.next?.after;
+    } while (after && contactIds.length < limit);
+
+    const records: CampaignRecord[] = [];
+    const ids = contactIds.slice(0, limit);
+
+    // Batch reads are capped at 100 records
+    for (let i = 0; i < ids.length; i += 100) {
+      const response = await axios.post('https://api.hubapi.com/crm/v3/objects/contacts/batch/read', {
+        properties: ['email', 'firstname', 'lastname', 'phone', 'mobilephone', 'company'],
+        inputs: ids.slice(i, i + 100).map(id => ({ id })),
+      }, { headers });
+
+      for (const contact of response.data.results || []) {
+        const props = contact.properties || {};
+        const name = [props.firstname, props.lastname].filter(Boolean).join(' ');
+        records.push({
+          id: String(contact.id),
+          name: name || undefined,
+          phone: props.phone || props.mobilephone || undefined,
+          data: { id: contact.id, ...props },
+        });
+      }
+    }
+
+    return records;
+  }
+
   // Salesforce implementations
-  private async getSalesforceLeads(accessToken: string, limit: number) {
-    const response = await axios.get('https://[instance].salesforce.com/services/data/v58.0/sobjects/Lead', {
+  private async salesforceApiBase(accountId: string): Promise<string> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { instanceUrl: true },
+    });
+
+    if (!account?.instanceUrl) {
+      throw new AppError('Salesforce instance URL is unknown; reconnect the Salesforce account', 400);
+    }
+    return `${account.instanceUrl.replace(/\/+$/, '')}/services/data/v58.0`;
+  }
+
+  private async getSalesforceLeads(accessToken: string, apiBase: string, limit: number) {
+    const response = await axios.get(`${apiBase}/sobjects/Lead`, {
       headers: { Authorization: `Bearer ${accessToken}` },
       params: { limit },
     });
     return response.data.records || [];
   }
 
-  private async getSalesforceContacts(accessToken: string, limit: number) {
-    const response = await axios.get('https://[instance].salesforce.com/services/data/v58.0/sobjects/Contact', {
+  private async getSalesforceContacts(accessToken: string, apiBase: string, limit: number) {
+    const response = await axios.get(`${apiBase}/sobjects/Contact`, {
       headers: { Authorization: `Bearer ${accessToken}` },
       params: { limit },
     });
     return response.data.records || [];
   }
 
-  private async getSalesforceFields(accessToken: string, objectType: string) {
+  private async getSalesforceFields(accessToken: string, apiBase: string, objectType: string) {
     const sobject = objectType === 'leads' ? 'Lead' : 'Contact';
-    const response = await axios.get(`https://[instance].salesforce.com/services/data/v58.0/sobjects/${sobject}/describe`, {
+    const response = await axios.get(`${apiBase}/sobjects/${sobject}/describe`, {
       headers: { Authorization: `Bearer ${accessToken}` },
     });
     return response.data.fields || [];
   }
 
+  private async getSalesforceListViewRecords(accessToken: string, apiBase: string, source: CampaignSource, limit: number): Promise<CampaignRecord[]> {
+    const sobject = source.objectType === 'leads' ? 'Lead' : 'Contact';
+    const response = await axios.get(`${apiBase}/sobjects/${sobject}/listviews/${source.id}/results`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params: { limit: Math.min(limit, 2000) },
+    });
+
+    // List view results come back as rows of { fieldNameOrPath, value } columns
+    return (response.data.records || []).map((row: any) => {
+      const data: Record<string, any> = {};
+      for (const column of row.columns || []) {
+        data[column.fieldNameOrPath] = column.value;
+      }
+
+      return {
+        id: String(data.Id),
+        name: data.Name || undefined,
+        phone: data.Phone || data.MobilePhone || undefined,
+        data,
+      };
+    });
+  }
+
   // Zoho implementations
   private async getZohoLeads(accessToken: string, limit: number) {
     const response = await axios.get('https://www.zohoapis.com/crm/v2/Leads', {
@@ -141,6 +295,33 @@ export class CRMService {
     return response.data.data || [];
   }
 
+  private async getZohoCustomViewRecords(accessToken: string, source: CampaignSource, limit: number): Promise<CampaignRecord[]> {
+    const module = source.objectType === 'leads' ? 'Leads' : 'Contacts';
+    const records: CampaignRecord[] = [];
+    let page = 1;
+
+    while (records.length < limit) {
+      const response = await axios.get(`https://www.zohoapis.com/crm/v2/${module}`, {
+        headers: { Authorization: `Zoho-oauthtoken ${accessToken}` },
+        params: { cvid: source.id, page, per_page: 200 },
+      });
+
+      for (const record of response.data?.data || []) {
+        records.push({
+          id: String(record.id),
+          name: record.Full_Name || undefined,
+          phone: record.Phone || record.Mobile || undefined,
+          data: record,
+        });
+      }
+
+      if (!response.data?.info?.more_records) break;
+      page++;
+    }
+
+    return records.slice(0, limit);
+  }
+
   private async getZohoFields(accessToken: string, objectType: string) {
     const module = objectType === 'leads' ? 'Leads' : 'Contacts';
     const response = await axios.get(`https://www.zohoapis.com/crm/v2/settings/fields?module=${module}`, {
@@ -0,0 +1,158 @@
+import { logger } from '../config/logger';
+import { businessLogicEngine } from './businessLogicEngine';
+import { TemplateEngine, TemplateResolution } from '../utils/templateEngine';
+import { DealRouteTarget, DealRoutingPolicy } from '../types';
+
+// Deal value used before routing rules existed
+const LEGACY_DEAL_VALUE = 5000;
+const DEFAULT_CURRENCY = 'GBP';
+
+export interface DealRouteDecision {
+  route: string;
+  pipelineId?: string;
+  stageId?: string;
+  ownerId?: string;
+  value?: number;
+  currency: string;
+}
+
+export class DealRoutingService {
+  /**
+   * Decide pipeline, stage, owner and value for a call's deal. Integrations
+   * without routing rules keep the single pipeline/stage from their call
+   * configuration.
+   */
+  resolveDealRoute(integration: { dealRouting?: any; callConfiguration?: any }, webhook: any): DealRouteDecision {
+    const policy = integration.dealRouting as DealRoutingPolicy | null;
+
+    if (!policy) {
+      const callConfig = integration.callConfiguration || {};
+      return {
+        route: 'call_configuration',
+        pipelineId: callConfig.selectedPipelineId,
+        stageId: callConfig.selectedStageId,
+        value: LEGACY_DEAL_VALUE,
+        currency: DEFAULT_CURRENCY,
+      };
+    }
+
+    const route = (policy.routes || []).find(candidate => businessLogicEngine.evaluateConditions(candidate.conditions, webhook));
+    const target = route ? this.mergeWithDefault(route, policy.defaultRoute) : policy.defaultRoute || {};
+
+    let value = this.resolveValue(target.value, webhook);
+    if (value === undefined && route && target.value !== policy.defaultRoute?.value) {
+      // e.g. the route reads a budget the caller never gave
+      value = this.resolveValue(policy.defaultRoute?.value, webhook);
+    }
+
+    const decision: DealRouteDecision = {
+      route: route ? route.name : 'default',
+      pipelineId: this.toId(target.pipelineId),
+      stageId: this.toId(target.stageId),
+      ownerId: this.toId(target.ownerId),
+      value,
+      currency: target.currency || DEFAULT_CURRENCY,
+    };
+
+    logger.info(`Deal routed via "${decision.route}"`, decision);
+    return decision;
+  }
+
+  /**
+   * Check a routing policy against the pipelines, stages and users cached
+   * on the CRM account. Sections missing from the schema are not checked.
+   */
+  validateAgainstSchema(policy: DealRoutingPolicy, crmSchema: any): string[] {
+    const errors: string[] = [];
+    if (!crmSchema) return errors;
+
+    const targets: Array<{ name: string; target: DealRouteTarget }> = [
+      { name: 'Default route', target: policy.defaultRoute || {} },
+      ...(policy.routes || []).map(route => ({
+        name: `Route "${route.name}"`,
+        target: this.mergeWithDefault(route, policy.defaultRoute),
+      })),
+    ];
+
+    const has = (list: any[] | undefined, id: string) => list.some(item => String(item.id) === id);
+
+    for (const { name, target } of targets) {
+      const pipelineId = this.toId(target.pipelineId);
+      const stageId = this.toId(target.stageId);
+      const ownerId = this.toId(target.ownerId);
+
+      if (pipelineId && crmSchema.pipelines?.length && !has(crmSchema.pipelines, pipelineId)) {
+        errors.push(`${name}: pipeline ${pipelineId} does not exist`);
+      }
+
+      if (stageId && crmSchema.stages?.length) {
+        const stage = crmSchema.stages.find((s: any) => String(s.id) === stageId);
+        if (!stage) {
+          errors.push(`${name}: stage ${stageId} does not exist`);
+        } else if (pipelineId && stage.pipeline_id !== undefined && String(stage.pipeline_id) !== pipelineId) {
+          errors.push(`${name}: stage ${stageId} is not in pipeline ${pipelineId}`);
+        }
+      }
+
+      if (ownerId && crmSchema.users?.length && !has(crmSchema.users, ownerId)) {
+        errors.push(`${name}: owner ${ownerId} does not exist`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Fill what a route leaves unset from the default route. A route that
+   * picks its own pipeline does not inherit the default stage, which
+   * belongs to a different pipeline.
+   */
+  private mergeWithDefault(route: DealRouteTarget, defaultRoute: DealRouteTarget = {}): DealRouteTarget {
+    const ownPipeline = route.pipelineId !== undefined;
+
+    return {
+      pipelineId: ownPipeline ? route.pipelineId : defaultRoute.pipelineId,
+      stageId: route.stageId ?? (ownPipeline ? undefined : defaultRoute.stageId),
+      ownerId: route.ownerId ?? defaultRoute.ownerId,
+      value: route.value ?? defaultRoute.value,
+      currency: route.currency ?? defaultRoute.currency,
+    };
+  }
+
+  private resolveValue(value: number | string | undefined, webhook: any): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'number') return value;
+
+    const resolve = (path: string): TemplateResolution => {
+      let resolved = this.getNestedValue(webhook.call || webhook, path);
+      if (resolved === undefined && webhook.call) {
+        resolved = this.getNestedValue(webhook, path);
+      }
+      return { found: resolved !== undefined && resolved !== '', value: resolved };
+    };
+
+    try {
+      const { text, unresolved } = TemplateEngine.render(value, resolve);
+      if (unresolved.length > 0) return undefined;
+
+      // Tolerate "£1,500" style answers from call analysis
+      const amount = Number(text.replace(/[^0-9.-]/g, ''));
+      return text.trim() && Number.isFinite(amount) ? amount : undefined;
+    } catch (error) {
+      logger.warn(`Invalid deal value template: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private toId(id: string | number | undefined): string | undefined {
+    return id === undefined || id === null || id === '' ? undefined : String(id);
+  }
+
+  private getNestedValue(obj: any, path: string): any {
+    return path.split('.').reduce((current, key) => {
+      return current && current[key] !== undefined ? current[key] : undefined;
+    }, obj);
+  }
+}
+
+export const dealRoutingService = new DealRoutingService();
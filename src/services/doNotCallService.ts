@@ -0,0 +1,233 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { PhoneNormalizer, DEFAULT_PHONE_REGION } from '../utils/phoneNormalizer';
+import { TemplateEngine } from '../utils/templateEngine';
+import { OrganizationActor } from '../types';
+
+export type DoNotCallSource = 'manual' | 'csv' | 'crm';
+
+// Column names accepted for the number in an uploaded CSV
+const PHONE_COLUMNS = ['phone', 'phone_number', 'phonenumber', 'number', 'mobile', 'telephone'];
+
+const MAX_IMPORT_ROWS = 50000;
+
+export class DoNotCallService {
+  async getEntries(actor: OrganizationActor, filters: {
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = filters.page || 1;
+    const limit = Math.min(filters.limit || 20, 100);
+    const where: any = { organizationId: actor.organizationId };
+
+    if (filters.search) {
+      where.OR = [
+        { phoneNumber: { contains: filters.search.replace(/[^\d+]/g, '') || filters.search } },
+        { reason: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.doNotCallEntry.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.doNotCallEntry.count({ where }),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Add a number to the organization's registry. National numbers are read
+   * in `defaultRegion`, or the organization's default region when omitted.
+   */
+  async addEntry(
+    actor: OrganizationActor,
+    data: { phoneNumber: string; reason?: string },
+    source: DoNotCallSource = 'manual',
+    defaultRegion?: string
+  ) {
+    const region = defaultRegion || await this.getDefaultRegion(actor.organizationId);
+    const phoneNumber = PhoneNormalizer.normalize(data.phoneNumber, region);
+    if (!/\d{6,}/.test(phoneNumber)) {
+      throw new AppError('Invalid phone number', 400);
+    }
+
+    const entry = await prisma.doNotCallEntry.upsert({
+      where: { organizationId_phoneNumber: { organizationId: actor.organizationId, phoneNumber } },
+      create: {
+        userId: actor.id,
+        organizationId: actor.organizationId,
+        phoneNumber,
+        originalNumber: data.phoneNumber,
+        reason: data.reason,
+        source,
+      },
+      update: data.reason ? { reason: data.reason } : {},
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: 'dnc_entry_added',
+        resource: entry.id,
+        details: { phoneNumber, source },
+      },
+    });
+
+    return entry;
+  }
+
+  async removeEntry(actor: OrganizationActor, entryId: string) {
+    const entry = await prisma.doNotCallEntry.findFirst({
+      where: { id: entryId, organizationId: actor.organizationId },
+    });
+
+    if (!entry) {
+      throw new AppError('Do-not-call entry not found', 404);
+    }
+
+    await prisma.doNotCallEntry.delete({ where: { id: entryId } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: 'dnc_entry_removed',
+        resource: entryId,
+        details: { phoneNumber: entry.phoneNumber, source: entry.source },
+      },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Import numbers from a CSV upload. Uses a phone/number column when the
+   * file has a header row, otherwise the first column; an optional
+   * "reason" column is kept with each entry.
+   */
+  async importCsv(actor: OrganizationActor, content: Buffer) {
+    const rows = await this.parseCsv(content);
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new AppError(`CSV files are limited to ${MAX_IMPORT_ROWS} rows`, 400);
+    }
+
+    const region = await this.getDefaultRegion(actor.organizationId);
+    const entries = new Map<string, { phoneNumber: string; originalNumber: string; reason?: string }>();
+    let invalid = 0;
+
+    for (const row of rows) {
+      const keys = Object.keys(row);
+      const phoneKey = keys.find(key => PHONE_COLUMNS.includes(key.trim().toLowerCase())) || keys[0];
+      const reasonKey = keys.find(key => key.trim().toLowerCase() === 'reason');
+      const original = String(row[phoneKey] || '').trim();
+      const phoneNumber = PhoneNormalizer.normalize(original, region);
+
+      if (!/\d{6,}/.test(phoneNumber)) {
+        invalid++;
+        continue;
+      }
+
+      entries.set(phoneNumber, {
+        phoneNumber,
+        originalNumber: original,
+        reason: reasonKey ? String(row[reasonKey]).trim() || undefined : undefined,
+      });
+    }
+
+    const result = await prisma.doNotCallEntry.createMany({
+      data: [...entries.values()].map(entry => ({ ...entry, userId: actor.id, organizationId: actor.organizationId, source: 'csv' })),
+      skipDuplicates: true,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.id,
+        action: 'dnc_list_imported',
+        details: { added: result.count, duplicates: entries.size - result.count, invalid },
+      },
+    });
+
+    logger.info(`Imported ${result.count} do-not-call entries for organization ${actor.organizationId}`);
+    return { added: result.count, duplicates: entries.size - result.count, invalid };
+  }
+
+  /**
+   * Find the registry entry that blocks a number, if any. Every format the
+   * number might have been stored in is checked, reading national numbers in
+   * the dialling integration's region.
+   */
+  async findEntry(organizationId: string, phone: string, defaultRegion: string) {
+    const candidates = new Set(
+      [phone, ...PhoneNormalizer.generateVariations(phone, defaultRegion).map(variation => variation.format)]
+        .map(variation => PhoneNormalizer.normalize(variation, defaultRegion))
+        .filter(Boolean)
+    );
+
+    return prisma.doNotCallEntry.findFirst({
+      where: { organizationId, phoneNumber: { in: [...candidates] } },
+    });
+  }
+
+  /**
+   * Suppression check before dialling. A contact flagged in the CRM's
+   * do-not-call field is added to the registry, so the block sticks even if
+   * the flag is later lost from the CRM record. The registry checked is the
+   * organization's; `actor.id` is who the CRM-flagged entry is recorded for.
+   */
+  async checkOutboundCall(actor: OrganizationActor, phone: string, defaultRegion: string, record: any, doNotCallField?: string) {
+    if (doNotCallField) {
+      const value = doNotCallField.split('.').reduce(
+        (current, key) => (current && typeof current === 'object' ? current[key] : undefined),
+        record
+      );
+
+      if (TemplateEngine.isTruthy(value)) {
+        return this.addEntry(actor, { phoneNumber: phone, reason: `CRM field "${doNotCallField}"` }, 'crm', defaultRegion);
+      }
+    }
+
+    return this.findEntry(actor.organizationId, phone, defaultRegion);
+  }
+
+  private async getDefaultRegion(organizationId: string): Promise<string> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { defaultPhoneRegion: true },
+    });
+    return organization?.defaultPhoneRegion || DEFAULT_PHONE_REGION;
+  }
+
+  private parseCsv(content: Buffer): Promise<Record<string, string>[]> {
+    const text = content.toString('utf8').replace(/^\uFEFF/, ''); // Strip a byte-order mark
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    // A first row holding a number is data, not a header
+    const hasHeader = !/\d{6,}/.test(firstLine.replace(/[^\d]/g, ''));
+
+    return new Promise((resolve, reject) => {
+      const rows: Record<string, string>[] = [];
+      Readable.from([text])
+        .pipe(csv(hasHeader ? {} : { headers: false }))
+        .on('data', (row) => rows.push(row))
+        .on('end', () => resolve(rows))
+        .on('error', (error) => reject(new AppError(`Invalid CSV: ${error.message}`, 400)));
+    });
+  }
+}
+
+export const doNotCallService = new DoNotCallService();
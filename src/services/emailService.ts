@@ -48,6 +48,8 @@ export class EmailService {
         return this.syncSuccessTemplate(data);
       case 'sync_error':
         return this.syncErrorTemplate(data);
+      case 'organization_invitation':
+        return this.organizationInvitationTemplate(data);
       default:
         return `<p>Template ${template} not found</p>`;
     }
@@ -82,6 +84,16 @@ export class EmailService {
       <p>Best regards,<br>Retell Sync Team</p>
     `;
   }
+
+  private organizationInvitationTemplate(data: any): string {
+    return `
+      <h2>You've been invited to ${data.organizationName}</h2>
+      <p>You have been invited to join "${data.organizationName}" on Retell Sync as ${data.role === 'admin' ? 'an' : 'a'} ${data.role}.</p>
+      <p><a href="${data.acceptUrl}">Accept the invitation</a></p>
+      <p>The link expires in ${data.expiresInDays} days. If you weren't expecting this invitation, you can ignore this email.</p>
+      <p>Best regards,<br>Retell Sync Team</p>
+    `;
+  }
 }
 
 export const emailService = new EmailService();
\ No newline at end of file
@@ -1,5 +1,33 @@
 import axios from 'axios';
 import { logger } from '../config/logger';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { NameParser } from '../utils/nameParser';
+import {
+  CrmAdapter,
+  CrmContact,
+  CrmContactInput,
+  CrmContactContext,
+  CrmContactSearch,
+  CrmCallActivityInput,
+  CrmDealInput,
+  CrmNoteInput,
+  CrmRecordRef,
+  CrmScheduledActivity,
+  CrmMeetingInput,
+} from '../types';
+
+// HubSpot-defined association type IDs used by the CRM adapter
+const ASSOCIATION_TYPES = {
+  callToContact: 194,
+  callToDeal: 206,
+  noteToContact: 202,
+  noteToDeal: 214,
+  meetingToContact: 200,
+  meetingToDeal: 212,
+};
+
+// Results kept per contact search when matching call participants
+const SEARCH_LIMIT = 5;
 
 interface HubSpotCall {
   createDeal(accessToken: string, dealData: any): Promise<any>;
@@ -13,7 +41,7 @@ interface HubSpotCall {
   getActivities(accessToken: string, filters?: any): Promise<any>;
 }
 
-class HubSpotService implements HubSpotCall {
+class HubSpotService implements HubSpotCall, CrmAdapter {
   private baseURL = 'https://api.hubapi.com';
 
   private getAxiosInstance(accessToken: string) {
@@ -37,6 +65,7 @@ class HubSpotService implements HubSpotCall {
           dealstage: dealData.stage_id || dealData.dealstage,
           pipeline: dealData.pipeline_id || dealData.pipeline,
           closedate: dealData.close_date || dealData.closedate,
+          hubspot_owner_id: dealData.owner_id || dealData.hubspot_owner_id,
         }
       };
 
@@ -69,6 +98,7 @@ class HubSpotService implements HubSpotCall {
       if (dealData.value) hubspotDealData.properties['amount'] = dealData.value;
       if (dealData.stage_id) hubspotDealData.properties['dealstage'] = dealData.stage_id;
       if (dealData.pipeline_id) hubspotDealData.properties['pipeline'] = dealData.pipeline_id;
+      if (dealData.owner_id) hubspotDealData.properties['hubspot_owner_id'] = dealData.owner_id;
 
       const response = await api.patch(`/crm/v3/objects/deals/${dealId}`, hubspotDealData);
       
@@ -249,6 +279,316 @@ class HubSpotService implements HubSpotCall {
       throw new Error(`Failed to get HubSpot stages: ${error.response?.data?.message || error.message}`);
     }
   }
+
+  // CrmAdapter implementation
+
+  async findContactCandidates(accessToken: string, search: CrmContactSearch): Promise<CrmContact[]> {
+    const candidates = new Map<string, CrmContact>();
+    const collect = (contacts: CrmContact[]) => contacts.forEach(contact => candidates.set(contact.id, contact));
+
+    if (search.phone) {
+      for (const variation of PhoneNormalizer.generateVariations(search.phone)) {
+        collect(await this.searchContacts(accessToken, {
+          filterGroups: ['phone', 'mobilephone'].map(propertyName => ({
+            filters: [{ propertyName, operator: 'EQ', value: variation.format }],
+          })),
+        }));
+      }
+    }
+    if (search.email) {
+      collect(await this.searchContacts(accessToken, {
+        filterGroups: [{ filters: [{ propertyName: 'email', operator: 'EQ', value: search.email }] }],
+      }));
+    }
+    // Free-text search covers first and last name in either order
+    if (search.name) collect(await this.searchContacts(accessToken, { query: search.name }));
+
+    logger.info(`HubSpot contact search found ${candidates.size} candidate(s)`);
+    return [...candidates.values()];
+  }
+
+  async getContactContext(accessToken: string, contactId: string): Promise<CrmContactContext> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.get(`/crm/v3/objects/contacts/${contactId}`, {
+        params: {
+          properties: 'firstname,lastname,email,phone,company,hubspot_owner_id,lastmodifieddate,notes_last_contacted,hs_last_sales_activity_type',
+          associations: 'deals',
+        },
+      });
+
+      const properties = response.data.properties || {};
+      const dealIds = (response.data.associations?.deals?.results || []).map((deal: any) => ({ id: String(deal.id) }));
+
+      const [dealsResponse, ownerResponse] = await Promise.all([
+        dealIds.length > 0
+          ? api.post('/crm/v3/objects/deals/batch/read', {
+            inputs: dealIds,
+            properties: ['dealname', 'amount', 'deal_currency_code', 'dealstage', 'hs_is_closed'],
+          })
+          : null,
+        properties.hubspot_owner_id ? api.get(`/crm/v3/owners/${properties.hubspot_owner_id}`).catch(() => null) : null,
+      ]);
+
+      const owner = ownerResponse?.data;
+
+      return {
+        contact: {
+          id: String(response.data.id),
+          name: [properties.firstname, properties.lastname].filter(Boolean).join(' ') || undefined,
+          email: properties.email,
+          phone: properties.phone,
+          company: properties.company,
+          ownerId: properties.hubspot_owner_id || undefined,
+          ownerName: owner ? [owner.firstName, owner.lastName].filter(Boolean).join(' ') : undefined,
+          updatedAt: properties.lastmodifieddate,
+        },
+        openDeals: (dealsResponse?.data.results || [])
+          .filter((deal: any) => deal.properties?.hs_is_closed !== 'true')
+          .slice(0, SEARCH_LIMIT)
+          .map((deal: any) => ({
+            id: String(deal.id),
+            title: deal.properties.dealname,
+            value: deal.properties.amount ? Number(deal.properties.amount) : undefined,
+            currency: deal.properties.deal_currency_code,
+            stage: deal.properties.dealstage,
+          })),
+        lastActivity: properties.notes_last_contacted
+          ? { subject: properties.hs_last_sales_activity_type, date: properties.notes_last_contacted }
+          : undefined,
+      };
+    } catch (error: any) {
+      logger.error('HubSpot getContactContext error:', error.response?.data || error.message);
+      throw new Error(`Failed to get HubSpot contact context: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async mergeContacts(accessToken: string, primaryId: string, duplicateId: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.post('/crm/v3/objects/contacts/merge', {
+        primaryObjectId: primaryId,
+        objectIdToMerge: duplicateId,
+      });
+
+      // HubSpot may give the merged record a new ID
+      logger.info(`HubSpot contact ${duplicateId} merged into ${primaryId}`);
+      return { id: String(response.data.id ?? primaryId) };
+    } catch (error: any) {
+      logger.error('HubSpot mergeContacts error:', error.response?.data || error.message);
+      throw new Error(`Failed to merge HubSpot contacts: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async upsertContact(accessToken: string, contact: CrmContactInput, contactId?: string): Promise<CrmContact> {
+    const { firstName, lastName } = NameParser.split(contact.name);
+    const personData = {
+      first_name: firstName,
+      last_name: lastName,
+      email: contact.email,
+      phone: contact.phone,
+    };
+
+    const result = contactId
+      ? await this.updatePerson(accessToken, contactId, personData)
+      : await this.createPerson(accessToken, personData);
+
+    return { id: String(result.id), name: contact.name, phone: contact.phone, email: contact.email };
+  }
+
+  async logCallActivity(accessToken: string, activity: CrmCallActivityInput, activityId?: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+
+      const properties = {
+        hs_timestamp: activity.startedAt.toISOString(),
+        hs_call_title: activity.subject,
+        hs_call_body: activity.note,
+        hs_call_direction: activity.direction === 'inbound' ? 'INBOUND' : 'OUTBOUND',
+        hs_call_duration: activity.durationSeconds ? String(activity.durationSeconds * 1000) : undefined,
+        hs_call_status: 'COMPLETED',
+      };
+
+      if (activityId) {
+        await api.patch(`/crm/v3/objects/calls/${activityId}`, { properties });
+        logger.info('HubSpot call updated:', { callId: activityId });
+        return { id: activityId };
+      }
+
+      const associations = [{
+        to: { id: activity.contactId },
+        types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: ASSOCIATION_TYPES.callToContact }]
+      }];
+
+      if (activity.dealId) {
+        associations.push({
+          to: { id: activity.dealId },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: ASSOCIATION_TYPES.callToDeal }]
+        });
+      }
+
+      const response = await api.post('/crm/v3/objects/calls', { properties, associations });
+
+      logger.info('HubSpot call logged:', { callId: response.data.id });
+      return { id: String(response.data.id) };
+    } catch (error: any) {
+      logger.error('HubSpot logCallActivity error:', error.response?.data || error.message);
+      throw new Error(`Failed to log HubSpot call: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async upsertDeal(accessToken: string, deal: CrmDealInput, dealId?: string): Promise<CrmRecordRef> {
+    const dealData = {
+      title: deal.title,
+      value: deal.value,
+      pipeline_id: deal.pipelineId,
+      stage_id: deal.stageId,
+      owner_id: deal.ownerId,
+      person_id: deal.contactId,
+    };
+
+    const result = dealId
+      ? await this.updateDeal(accessToken, dealId, dealData)
+      : await this.createDeal(accessToken, dealData);
+
+    return { id: String(result.id) };
+  }
+
+  async updateDealStage(accessToken: string, dealId: string, stageId: string, pipelineId?: string): Promise<CrmRecordRef> {
+    const result = await this.updateDeal(accessToken, dealId, { stage_id: stageId, pipeline_id: pipelineId });
+    return { id: String(result.id) };
+  }
+
+  async findActivitiesBetween(accessToken: string, start: Date, end: Date, ownerId?: string): Promise<CrmScheduledActivity[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const filters: any[] = [
+        { propertyName: 'hs_meeting_start_time', operator: 'LT', value: String(end.getTime()) },
+        { propertyName: 'hs_meeting_end_time', operator: 'GT', value: String(start.getTime()) },
+      ];
+      if (ownerId) filters.push({ propertyName: 'hubspot_owner_id', operator: 'EQ', value: ownerId });
+
+      const response = await api.post('/crm/v3/objects/meetings/search', {
+        filterGroups: [{ filters }],
+        properties: ['hs_meeting_title', 'hs_meeting_start_time', 'hs_meeting_end_time'],
+        limit: 100,
+      });
+
+      return (response.data.results || []).map((meeting: any) => ({
+        id: String(meeting.id),
+        subject: meeting.properties.hs_meeting_title,
+        start: new Date(meeting.properties.hs_meeting_start_time).toISOString(),
+        end: new Date(meeting.properties.hs_meeting_end_time).toISOString(),
+      }));
+    } catch (error: any) {
+      logger.error('HubSpot findActivitiesBetween error:', error.response?.data || error.message);
+      throw new Error(`Failed to get HubSpot meetings: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async upsertMeeting(accessToken: string, meeting: CrmMeetingInput, meetingId?: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+
+      const properties: any = {
+        hs_timestamp: meeting.start.toISOString(),
+        hs_meeting_title: meeting.subject,
+        hs_meeting_body: meeting.description,
+        hs_meeting_start_time: meeting.start.toISOString(),
+        hs_meeting_end_time: meeting.end.toISOString(),
+        hs_meeting_outcome: 'SCHEDULED',
+      };
+      if (meeting.ownerId) properties.hubspot_owner_id = meeting.ownerId;
+
+      if (meetingId) {
+        await api.patch(`/crm/v3/objects/meetings/${meetingId}`, { properties });
+        logger.info('HubSpot meeting updated:', { meetingId });
+        return { id: meetingId };
+      }
+
+      const associations = [{
+        to: { id: meeting.contactId },
+        types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: ASSOCIATION_TYPES.meetingToContact }]
+      }];
+
+      if (meeting.dealId) {
+        associations.push({
+          to: { id: meeting.dealId },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: ASSOCIATION_TYPES.meetingToDeal }]
+        });
+      }
+
+      const response = await api.post('/crm/v3/objects/meetings', { properties, associations });
+
+      logger.info('HubSpot meeting booked:', { meetingId: response.data.id });
+      return { id: String(response.data.id) };
+    } catch (error: any) {
+      logger.error('HubSpot upsertMeeting error:', error.response?.data || error.message);
+      throw new Error(`Failed to book HubSpot meeting: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async addNote(accessToken: string, note: CrmNoteInput): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const associations: any[] = [];
+
+      if (note.dealId) {
+        associations.push({
+          to: { id: note.dealId },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: ASSOCIATION_TYPES.noteToDeal }]
+        });
+      }
+      if (note.contactId) {
+        associations.push({
+          to: { id: note.contactId },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: ASSOCIATION_TYPES.noteToContact }]
+        });
+      }
+
+      const response = await api.post('/crm/v3/objects/notes', {
+        properties: {
+          hs_timestamp: new Date().toISOString(),
+          hs_note_body: note.content,
+        },
+        associations,
+      });
+
+      logger.info('HubSpot note created:', { noteId: response.data.id });
+      return { id: String(response.data.id) };
+    } catch (error: any) {
+      logger.error('HubSpot addNote error:', error.response?.data || error.message);
+      throw new Error(`Failed to create HubSpot note: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  private async searchContacts(accessToken: string, criteria: { filterGroups?: any[]; query?: string }): Promise<CrmContact[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.post('/crm/v3/objects/contacts/search', {
+        ...criteria,
+        properties: ['firstname', 'lastname', 'email', 'phone', 'mobilephone', 'company', 'hubspot_owner_id', 'lastmodifieddate'],
+        limit: SEARCH_LIMIT,
+      });
+
+      return (response.data.results || []).map((result: any) => {
+        const { firstname, lastname, email, phone, mobilephone, company, hubspot_owner_id, lastmodifieddate } = result.properties || {};
+        return {
+          id: String(result.id),
+          name: [firstname, lastname].filter(Boolean).join(' ') || undefined,
+          email,
+          phone: phone || mobilephone,
+          phones: [phone, mobilephone].filter(Boolean),
+          company,
+          ownerId: hubspot_owner_id || undefined,
+          updatedAt: lastmodifieddate || result.updatedAt,
+        };
+      });
+    } catch (error: any) {
+      logger.warn('HubSpot contact search failed:', error.response?.data || error.message);
+      return [];
+    }
+  }
 }
 
 export const hubspotService = new HubSpotService();
\ No newline at end of file
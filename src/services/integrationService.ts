@@ -1,13 +1,19 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import { generateSecureToken } from '../utils/encryption';
 import { retellService } from './retellService';
 import { crmService } from './crmService';
+import { oauthService } from './oauthService';
+import { pipedriveService } from './pipedriveService';
 import { config } from '../config';
 import { WebhookManager } from './webhookManager';
+import { dealRoutingService } from './dealRoutingService';
+import { DealTitleGenerator } from '../utils/dealTitleGenerator';
+import { DealTitlePolicy, OrganizationActor } from '../types';
 
 export class IntegrationService {
-  async createIntegration(userId: string, data: {
+  async createIntegration(actor: OrganizationActor, data: {
     name: string;
     description?: string;
     retellAccountId: string;
@@ -19,15 +25,25 @@ export class IntegrationService {
     fieldMappings?: any[];
     triggerFilters?: any[];
     callConfiguration?: any;
+    dealTitlePolicy?: any;
+    dealRouting?: any;
+    callingWindow?: any;
+    redialPolicy?: any;
+    defaultPhoneRegion?: string;
+    contactMatching?: any;
+    callerContext?: any;
+    callFunctions?: any;
+    appointmentBooking?: any;
+    requireSignature?: boolean;
     isDraft?: boolean;
   }) {
-    // Verify accounts belong to user
+    // Verify accounts belong to the organization
     const [retellAccount, crmAccount] = await Promise.all([
       prisma.account.findFirst({
-        where: { id: data.retellAccountId, userId, providerType: 'voice_ai' },
+        where: { id: data.retellAccountId, organizationId: actor.organizationId, providerType: 'voice_ai' },
       }),
       prisma.account.findFirst({
-        where: { id: data.crmAccountId, userId, providerType: 'crm' },
+        where: { id: data.crmAccountId, organizationId: actor.organizationId, providerType: 'crm' },
       }),
     ]);
 
@@ -35,6 +51,10 @@ export class IntegrationService {
       throw new AppError('Invalid account selection', 400);
     }
 
+    if (data.dealRouting) {
+      this.assertValidDealRouting(data.dealRouting, crmAccount.crmSchema);
+    }
+
     // Generate unique webhook URL and secret
     const webhookSecret = generateSecureToken(32);
     const webhookId = generateSecureToken(16);
@@ -45,7 +65,8 @@ export class IntegrationService {
     
     const integration = await prisma.integration.create({
       data: {
-        userId,
+        userId: actor.id,
+        organizationId: actor.organizationId,
         name: data.name,
         description: data.description,
         retellAccountId: data.retellAccountId,
@@ -63,6 +84,16 @@ export class IntegrationService {
         triggerFilters: data.triggerFilters,
         callConfiguration: data.callConfiguration,
         businessWorkflows: (data as any).businessWorkflows || {},
+        dealTitlePolicy: data.dealTitlePolicy || undefined,
+        dealRouting: data.dealRouting || undefined,
+        callingWindow: data.callingWindow || undefined,
+        redialPolicy: data.redialPolicy || undefined,
+        defaultPhoneRegion: data.defaultPhoneRegion,
+        contactMatching: data.contactMatching || undefined,
+        callerContext: data.callerContext || undefined,
+        callFunctions: data.callFunctions || undefined,
+        appointmentBooking: data.appointmentBooking || undefined,
+        requireSignature: data.requireSignature,
       },
       include: {
         retellAccount: {
@@ -83,6 +114,8 @@ export class IntegrationService {
         data: { webhookUrl },
       });
 
+      await this.subscribeCrmWebhook(integration.id);
+
       // Update Retell AI agent webhook URL if agent is specified
       if (data.retellAgentId) {
       try {
@@ -137,7 +170,7 @@ export class IntegrationService {
 
     await prisma.auditLog.create({
       data: {
-        userId,
+        userId: actor.id,
         action: 'integration_created',
         resource: integration.id,
         details: { name: data.name, retellAccount: retellAccount.provider, crmAccount: crmAccount.provider },
@@ -151,10 +184,10 @@ export class IntegrationService {
     };
   }
 
-  async publishDraftIntegration(userId: string, integrationId: string) {
+  async publishDraftIntegration(actor: OrganizationActor, integrationId: string) {
     // Get the draft integration
     const integration = await prisma.integration.findFirst({
-      where: { id: integrationId, userId, isDraft: true }
+      where: { id: integrationId, organizationId: actor.organizationId, isDraft: true }
     });
 
     if (!integration) {
@@ -174,6 +207,8 @@ export class IntegrationService {
       }
     });
 
+    await this.subscribeCrmWebhook(integration.id);
+
     // Update Retell agent webhook if specified
     if (integration.retellAgentId) {
       try {
@@ -194,21 +229,21 @@ export class IntegrationService {
     // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId,
+        userId: actor.id,
         action: 'draft_published',
         resource: integrationId,
         details: { name: integration.name }
       }
     });
 
-    return await this.getIntegration(userId, integrationId);
+    return await this.getIntegration(actor, integrationId);
   }
 
-  async getIntegrations(userId: string, filters?: {
+  async getIntegrations(actor: OrganizationActor, filters?: {
     isActive?: boolean;
     provider?: string;
   }) {
-    const where: any = { userId };
+    const where: any = { organizationId: actor.organizationId };
     
     if (filters?.isActive !== undefined) {
       where.isActive = filters.isActive;
@@ -300,9 +335,9 @@ export class IntegrationService {
     return integrationsWithStatus;
   }
 
-  async getIntegration(userId: string, integrationId: string) {
+  async getIntegration(actor: OrganizationActor, integrationId: string) {
     const integration = await prisma.integration.findFirst({
-      where: { id: integrationId, userId },
+      where: { id: integrationId, organizationId: actor.organizationId },
       include: {
         retellAccount: {
           select: { provider: true, accountName: true, accountEmail: true, accessToken: true },
@@ -321,6 +356,14 @@ export class IntegrationService {
       throw new AppError('Integration not found', 404);
     }
 
+    // Salesforce and Zoho can't authenticate deliveries, so their URL carries the secret
+    const provider = integration.crmAccount.provider;
+    const crmWebhookUrl = WebhookManager.generateCrmWebhookUrl(
+      provider,
+      integration.id,
+      provider === 'salesforce' || provider === 'zoho' ? integration.webhookSecret : undefined
+    );
+
     // Check current agent status if Retell agent is configured
     if (integration.retellAgentId) {
       try {
@@ -341,6 +384,7 @@ export class IntegrationService {
         // Add real-time agent status to integration response
         const integrationWithStatus = {
           ...integration,
+          crmWebhookUrl,
           agentStatus: {
             needsPublishing,
             currentVersion: agentData.version,
@@ -359,14 +403,14 @@ export class IntegrationService {
         return integrationWithStatus;
       } catch (error) {
         console.error('Failed to check agent status:', (error as any).message);
-        return integration;
+        return { ...integration, crmWebhookUrl };
       }
     }
 
-    return integration;
+    return { ...integration, crmWebhookUrl };
   }
 
-  async updateIntegration(userId: string, integrationId: string, data: {
+  async updateIntegration(actor: OrganizationActor, integrationId: string, data: {
     name?: string;
     description?: string;
     retellAgentId?: string;
@@ -376,20 +420,48 @@ export class IntegrationService {
     triggerFilters?: any[];
     callConfiguration?: any;
     businessWorkflows?: any[];
+    dealTitlePolicy?: any;
+    dealRouting?: any;
+    callingWindow?: any;
+    redialPolicy?: any;
+    defaultPhoneRegion?: string;
+    contactMatching?: any;
+    callerContext?: any;
+    callFunctions?: any;
+    appointmentBooking?: any;
+    requireSignature?: boolean;
     isActive?: boolean;
     currentStep?: number;
   }) {
     const integration = await prisma.integration.findFirst({
-      where: { id: integrationId, userId },
+      where: { id: integrationId, organizationId: actor.organizationId },
+      include: {
+        crmAccount: { select: { crmSchema: true } },
+      },
     });
 
     if (!integration) {
       throw new AppError('Integration not found', 404);
     }
 
+    if (data.dealRouting) {
+      this.assertValidDealRouting(data.dealRouting, integration.crmAccount.crmSchema);
+    }
+
     const updatedIntegration = await prisma.integration.update({
       where: { id: integrationId },
-      data,
+      data: {
+        ...data,
+        // null clears the policy and falls back to the default title rules
+        dealTitlePolicy: data.dealTitlePolicy === null ? Prisma.DbNull : data.dealTitlePolicy,
+        dealRouting: data.dealRouting === null ? Prisma.DbNull : data.dealRouting,
+        callingWindow: data.callingWindow === null ? Prisma.DbNull : data.callingWindow,
+        redialPolicy: data.redialPolicy === null ? Prisma.DbNull : data.redialPolicy,
+        contactMatching: data.contactMatching === null ? Prisma.DbNull : data.contactMatching,
+        callerContext: data.callerContext === null ? Prisma.DbNull : data.callerContext,
+        callFunctions: data.callFunctions === null ? Prisma.DbNull : data.callFunctions,
+        appointmentBooking: data.appointmentBooking === null ? Prisma.DbNull : data.appointmentBooking,
+      },
       include: {
         retellAccount: {
           select: { provider: true, accountName: true },
@@ -402,7 +474,7 @@ export class IntegrationService {
 
     await prisma.auditLog.create({
       data: {
-        userId,
+        userId: actor.id,
         action: 'integration_updated',
         resource: integrationId,
         details: data,
@@ -412,9 +484,9 @@ export class IntegrationService {
     return updatedIntegration;
   }
 
-  async deleteIntegration(userId: string, integrationId: string) {
+  async deleteIntegration(actor: OrganizationActor, integrationId: string) {
     const integration = await prisma.integration.findFirst({
-      where: { id: integrationId, userId },
+      where: { id: integrationId, organizationId: actor.organizationId },
       include: {
         retellAccount: true,
       },
@@ -444,13 +516,23 @@ export class IntegrationService {
       }
     }
 
+    if (integration.crmWebhookId) {
+      try {
+        const accessToken = await oauthService.getDecryptedAccessToken(integration.crmAccountId);
+        await pipedriveService.deleteWebhook(accessToken, integration.crmWebhookId);
+      } catch (error) {
+        console.error(`⚠️ Failed to remove CRM webhook:`, (error as any).message);
+        // Don't fail the integration deletion if the subscription outlives it
+      }
+    }
+
     await prisma.integration.delete({
       where: { id: integrationId },
     });
 
     await prisma.auditLog.create({
       data: {
-        userId,
+        userId: actor.id,
         action: 'integration_deleted',
         resource: integrationId,
         details: { name: integration.name },
@@ -458,9 +540,9 @@ export class IntegrationService {
     });
   }
 
-  async getAvailableFields(userId: string, accountId: string, objectType: string) {
+  async getAvailableFields(actor: OrganizationActor, accountId: string, objectType: string) {
     const account = await prisma.account.findFirst({
-      where: { id: accountId, userId },
+      where: { id: accountId, organizationId: actor.organizationId },
     });
 
     if (!account) {
@@ -485,9 +567,9 @@ export class IntegrationService {
     }
   }
 
-  async getRetellAgents(userId: string, accountId: string) {
+  async getRetellAgents(actor: OrganizationActor, accountId: string) {
     const account = await prisma.account.findFirst({
-      where: { id: accountId, userId, providerType: 'voice_ai' },
+      where: { id: accountId, organizationId: actor.organizationId, providerType: 'voice_ai' },
     });
 
     if (!account) {
@@ -497,9 +579,9 @@ export class IntegrationService {
     return await retellService.getAgents(accountId);
   }
 
-  async getRetellAgentsWithPurposes(userId: string, accountId: string) {
+  async getRetellAgentsWithPurposes(actor: OrganizationActor, accountId: string) {
     const account = await prisma.account.findFirst({
-      where: { id: accountId, userId, providerType: 'voice_ai' },
+      where: { id: accountId, organizationId: actor.organizationId, providerType: 'voice_ai' },
     });
 
     if (!account) {
@@ -509,9 +591,9 @@ export class IntegrationService {
     return await retellService.getAgentsWithPurposes(accountId);
   }
 
-  async testIntegration(userId: string, integrationId: string) {
+  async testIntegration(actor: OrganizationActor, integrationId: string) {
     const integration = await prisma.integration.findFirst({
-      where: { id: integrationId, userId },
+      where: { id: integrationId, organizationId: actor.organizationId },
       include: {
         retellAccount: true,
         crmAccount: true,
@@ -552,6 +634,96 @@ export class IntegrationService {
     }
   }
 
+  /**
+   * Show the deal title each recent call would have produced under the
+   * integration's saved policy, or under an unsaved one being edited.
+   */
+  async previewDealTitles(actor: OrganizationActor, integrationId: string, options: {
+    policy?: DealTitlePolicy;
+    limit?: number;
+  }) {
+    const integration = await prisma.integration.findFirst({
+      where: { id: integrationId, organizationId: actor.organizationId },
+      select: { id: true, dealTitlePolicy: true },
+    });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    const policy = options.policy || (integration.dealTitlePolicy as unknown as DealTitlePolicy) || null;
+
+    const events = await prisma.webhookEvent.findMany({
+      where: {
+        integrationId,
+        provider: 'retell',
+        eventType: 'call_analyzed',
+        rejectionReason: null,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit || 10,
+    });
+
+    return events.map(event => {
+      const payload = event.payload as any;
+      const callData = payload?.call || payload || {};
+      const explanation = DealTitleGenerator.explainDealTitle(callData, policy);
+
+      return {
+        webhookEventId: event.id,
+        callId: callData.call_id,
+        receivedAt: event.createdAt,
+        title: explanation.title,
+        template: explanation.template,
+        templateIndex: explanation.templateIndex,
+        variables: explanation.variables,
+      };
+    });
+  }
+
+  /**
+   * Reject routing rules that point at pipelines, stages or owners the
+   * connected CRM account does not have.
+   */
+  private assertValidDealRouting(policy: any, crmSchema: any) {
+    const errors = dealRoutingService.validateAgainstSchema(policy, crmSchema);
+    if (errors.length > 0) {
+      throw new AppError(`Invalid deal routing: ${errors.join('; ')}`, 400);
+    }
+  }
+
+  /**
+   * Register the CRM webhook for providers that let us subscribe by API.
+   * Pipedrive deliveries carry the integration ID and webhook secret as
+   * basic auth credentials, which is what inbound verification checks.
+   */
+  private async subscribeCrmWebhook(integrationId: string) {
+    const integration = await prisma.integration.findUnique({
+      where: { id: integrationId },
+      include: { crmAccount: { select: { provider: true } } },
+    });
+
+    if (!integration || integration.crmAccount.provider !== 'pipedrive' || integration.crmWebhookId) {
+      return;
+    }
+
+    try {
+      const accessToken = await oauthService.getDecryptedAccessToken(integration.crmAccountId);
+      const crmWebhookId = await pipedriveService.createWebhook(accessToken, {
+        subscriptionUrl: WebhookManager.generateCrmWebhookUrl('pipedrive', integration.id),
+        httpAuthUser: integration.id,
+        httpAuthPassword: integration.webhookSecret,
+      });
+
+      await prisma.integration.update({
+        where: { id: integration.id },
+        data: { crmWebhookId },
+      });
+    } catch (error) {
+      console.error(`Failed to subscribe CRM webhook:`, (error as any).message);
+    }
+  }
+
   private validateIntegrationConfiguration(integration: any) {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -589,9 +761,9 @@ export class IntegrationService {
     };
   }
 
-  async getIntegrationStats(userId: string, integrationId: string, period: string = '7d') {
+  async getIntegrationStats(actor: OrganizationActor, integrationId: string, period: string = '7d') {
     const integration = await prisma.integration.findFirst({
-      where: { id: integrationId, userId },
+      where: { id: integrationId, organizationId: actor.organizationId },
     });
 
     if (!integration) {
@@ -12,6 +12,7 @@ const redisConfig = {
 import { webhookProcessor } from './webhookProcessor';
 import { syncService } from './syncService';
 import { emailService } from './emailService';
+import { campaignService } from './campaignService';
 
 export interface WebhookJobData {
   integrationId: string;
@@ -19,6 +20,7 @@ export interface WebhookJobData {
   eventType: string;
   payload: any;
   signature?: string;
+  verified?: boolean; // Already checked by the provider-specific verifier on receipt
 }
 
 export interface SyncJobData {
@@ -27,6 +29,11 @@ export interface SyncJobData {
   sourceData: any;
 }
 
+export interface CampaignJobData {
+  campaignId: string;
+  dispatchToken: string;
+}
+
 export interface EmailJobData {
   to: string;
   subject: string;
@@ -61,6 +68,19 @@ export const syncQueue = new Queue('sync-processing', {
   },
 });
 
+export const campaignQueue = new Queue('campaign-dialing', {
+  connection: redisConfig,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  },
+});
+
 export const emailQueue = new Queue('email-sending', {
   connection: redisConfig,
   defaultJobOptions: {
@@ -93,6 +113,15 @@ const syncWorker = new Worker(
   { connection: redisConfig, concurrency: 3 }
 );
 
+// Each job is one pacing tick for a campaign; ticks schedule their successor
+const campaignWorker = new Worker(
+  'campaign-dialing',
+  async (job: Job<CampaignJobData>) => {
+    return await campaignService.dispatchNext(job.data.campaignId, job.data.dispatchToken);
+  },
+  { connection: redisConfig, concurrency: 1 }
+);
+
 const emailWorker = new Worker(
   'email-sending',
   async (job: Job<EmailJobData>) => {
@@ -119,6 +148,10 @@ syncWorker.on('failed', (job, err) => {
   logger.error(`Sync job ${job?.id} failed:`, err);
 });
 
+campaignWorker.on('failed', (job, err) => {
+  logger.error(`Campaign job ${job?.id} failed:`, err);
+});
+
 emailWorker.on('completed', (job) => {
   logger.info(`Email job ${job.id} completed successfully`);
 });
@@ -139,6 +172,10 @@ export async function addSyncJob(data: SyncJobData, delay: number = 0) {
   return await syncQueue.add('process-sync', data, { delay });
 }
 
+export async function addCampaignJob(data: CampaignJobData, delay: number = 0) {
+  return await campaignQueue.add('dispatch-campaign', data, { delay });
+}
+
 export async function addEmailJob(data: EmailJobData, delay: number = 0) {
   return await emailQueue.add('send-email', data, { delay });
 }
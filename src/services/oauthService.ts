@@ -3,7 +3,8 @@ import { config } from '../config';
 import { prisma } from '../config/database';
 import { encrypt, decrypt } from '../utils/encryption';
 import { AppError } from '../middleware/errorHandler';
-import { OAuthTokens } from '../types';
+import { organizationService, OrganizationService } from './organizationService';
+import { OAuthTokens, OrganizationActor } from '../types';
 
 export class OAuthService {
   private getOAuthConfig(provider: string) {
@@ -48,7 +49,7 @@ export class OAuthService {
     return oauthConfigs[provider as keyof typeof oauthConfigs];
   }
 
-  generateAuthUrl(provider: string, userId: string, redirectUri: string): string {
+  generateAuthUrl(provider: string, userId: string, redirectUri: string, organizationId?: string): string {
     const oauthConfig = this.getOAuthConfig(provider);
     
     if (!oauthConfig) {
@@ -60,7 +61,7 @@ export class OAuthService {
       response_type: 'code',
       scope: oauthConfig.scope,
       redirect_uri: redirectUri,
-      state: Buffer.from(JSON.stringify({ userId, provider })).toString('base64'),
+      state: Buffer.from(JSON.stringify({ userId, organizationId, provider })).toString('base64'),
     });
 
     return `${oauthConfig.authUrl}?${params.toString()}`;
@@ -71,7 +72,7 @@ export class OAuthService {
     code: string,
     redirectUri: string,
     state: string
-  ): Promise<{ userId: string; tokens: OAuthTokens; accountInfo: any }> {
+  ): Promise<{ userId: string; organizationId?: string; tokens: OAuthTokens; accountInfo: any }> {
     const oauthConfig = this.getOAuthConfig(provider);
     
     if (!oauthConfig) {
@@ -114,6 +115,7 @@ export class OAuthService {
       tokenType: tokenResponse.data.token_type || 'Bearer',
       expiresIn: tokenResponse.data.expires_in,
       scope: tokenResponse.data.scope,
+      instanceUrl: tokenResponse.data.instance_url,
     };
 
     // Get account information
@@ -121,6 +123,7 @@ export class OAuthService {
 
     return {
       userId: stateData.userId,
+      organizationId: stateData.organizationId,
       tokens,
       accountInfo,
     };
@@ -161,8 +164,14 @@ export class OAuthService {
     }
   }
 
+  /**
+   * Connect a provider account to an organization. The state round-trips
+   * through the provider, so the user must still be an admin of the
+   * organization they started from.
+   */
   async saveAccount(
     userId: string,
+    organizationId: string | undefined,
     provider: string,
     tokens: OAuthTokens,
     accountInfo: any
@@ -178,6 +187,11 @@ export class OAuthService {
       throw new AppError(`User not found: ${userId}`, 404);
     }
 
+    const membership = await organizationService.resolveMembership(user, organizationId);
+    if (!OrganizationService.hasRole(membership.role, 'admin')) {
+      throw new AppError('Only organization admins can connect accounts', 403);
+    }
+
     // Encrypt sensitive tokens
     const encryptedAccessToken = encrypt(tokens.accessToken);
     const encryptedRefreshToken = tokens.refreshToken ? encrypt(tokens.refreshToken) : null;
@@ -189,16 +203,22 @@ export class OAuthService {
     let providerAccountId: string;
     let accountName: string;
     let accountEmail: string;
+    // Company/org/portal identifier, used to check inbound CRM webhooks come from this account
+    let providerOrganizationId: string | null = null;
 
     if (provider === 'pipedrive') {
       providerAccountId = String(accountInfo.data?.id || accountInfo.id || 'unknown');
       accountName = accountInfo.data?.name || accountInfo.name || 'Unknown User';
       accountEmail = accountInfo.data?.email || accountInfo.email || 'unknown@example.com';
+      providerOrganizationId = accountInfo.data?.company_id ? String(accountInfo.data.company_id) : null;
     } else {
       providerAccountId = String(accountInfo.id || accountInfo.user_id || accountInfo.userId || 'unknown');
       accountName = accountInfo.name || accountInfo.company_name || 
                   `${accountInfo.first_name || ''} ${accountInfo.last_name || ''}`.trim() || 'Unknown User';
       accountEmail = accountInfo.email || 'unknown@example.com';
+      // HubSpot reports a portal, Salesforce an org; Zoho has no equivalent
+      const orgId = accountInfo.portalId || accountInfo.organization_id;
+      providerOrganizationId = orgId ? String(orgId) : null;
     }
 
 
@@ -214,7 +234,7 @@ export class OAuthService {
       }
     }
 
-    // Check if account already exists for a different user (prevent ownership hijacking)
+    // Check if account already exists for a different organization (prevent ownership hijacking)
     const existingAccount = await prisma.account.findUnique({
       where: {
         provider_providerAccountId: {
@@ -222,12 +242,12 @@ export class OAuthService {
           providerAccountId,
         },
       },
-      select: { userId: true, accountName: true, accountEmail: true },
+      select: { organizationId: true, accountName: true, accountEmail: true },
     });
 
-    if (existingAccount && existingAccount.userId !== userId) {
+    if (existingAccount && existingAccount.organizationId !== membership.organizationId) {
       throw new AppError(
-        `This ${provider} account (${existingAccount.accountEmail}) is already connected to a different user. Each provider account can only be connected to one user at a time.`,
+        `This ${provider} account (${existingAccount.accountEmail}) is already connected to a different organization. Each provider account can only be connected to one organization at a time.`,
         409
       );
     }
@@ -240,7 +260,7 @@ export class OAuthService {
         },
       },
       update: {
-        // DO NOT update userId to prevent ownership hijacking
+        // DO NOT update userId or organizationId to prevent ownership hijacking
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
         tokenType: tokens.tokenType,
@@ -250,9 +270,12 @@ export class OAuthService {
         accountEmail,
         lastSyncAt: new Date(),
         crmSchema: crmSchema,
+        providerOrganizationId,
+        instanceUrl: tokens.instanceUrl,
       },
       create: {
         userId,
+        organizationId: membership.organizationId,
         provider,
         providerType,
         accessToken: encryptedAccessToken,
@@ -264,6 +287,8 @@ export class OAuthService {
         accountName,
         accountEmail,
         crmSchema: crmSchema,
+        providerOrganizationId,
+        instanceUrl: tokens.instanceUrl,
       },
     });
 
@@ -321,14 +346,15 @@ export class OAuthService {
         accessToken: newAccessToken,
         refreshToken: newRefreshToken,
         expiresAt,
+        instanceUrl: tokenResponse.data.instance_url || account.instanceUrl,
         lastSyncAt: new Date(),
       },
     });
   }
 
-  async disconnectAccount(userId: string, accountId: string): Promise<void> {
+  async disconnectAccount(actor: OrganizationActor, accountId: string): Promise<void> {
     const account = await prisma.account.findFirst({
-      where: { id: accountId, userId },
+      where: { id: accountId, organizationId: actor.organizationId },
     });
 
     if (!account) {
@@ -356,7 +382,7 @@ export class OAuthService {
 
     await prisma.auditLog.create({
       data: {
-        userId,
+        userId: actor.id,
         action: 'account_disconnected',
         resource: accountId,
         details: { provider: account.provider, accountName: account.accountName },
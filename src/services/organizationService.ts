@@ -0,0 +1,432 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { generateSecureToken } from '../utils/encryption';
+import { emailService } from './emailService';
+import { OrganizationActor, OrganizationRole } from '../types';
+
+// Higher ranks include everything the lower ones may do
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+  owner: 3,
+};
+
+const INVITATION_TTL_DAYS = 7;
+
+export interface OrganizationMembership {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+export class OrganizationService {
+  static hasRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[minimum];
+  }
+
+  /**
+   * The organization a request acts in: the one asked for (when the user
+   * belongs to it) or else their personal organization. Users who have
+   * left every organization get a new personal one.
+   */
+  async resolveMembership(user: { id: string; email: string; firstName?: string | null }, requestedOrganizationId?: string): Promise<OrganizationMembership> {
+    if (requestedOrganizationId) {
+      const membership = await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId: requestedOrganizationId, userId: user.id } },
+      });
+
+      if (!membership) {
+        throw new AppError('You are not a member of this organization', 403);
+      }
+      return { organizationId: membership.organizationId, role: membership.role as OrganizationRole };
+    }
+
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId: user.id },
+      include: { organization: { select: { personal: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const membership = memberships.find(member => member.organization.personal) || memberships[0];
+    if (membership) {
+      return { organizationId: membership.organizationId, role: membership.role as OrganizationRole };
+    }
+
+    const organization = await this.createPersonalOrganization(prisma, user);
+    return { organizationId: organization.id, role: 'owner' };
+  }
+
+  async createPersonalOrganization(
+    client: Prisma.TransactionClient,
+    user: { id: string; email: string; firstName?: string | null }
+  ) {
+    return client.organization.create({
+      data: {
+        name: `${user.firstName || user.email}'s workspace`,
+        personal: true,
+        members: { create: { userId: user.id, role: 'owner' } },
+      },
+    });
+  }
+
+  async getOrganizations(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      include: {
+        organization: {
+          select: { id: true, name: true, personal: true, defaultPhoneRegion: true, createdAt: true, _count: { select: { members: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(({ organization, role }) => ({
+      id: organization.id,
+      name: organization.name,
+      personal: organization.personal,
+      defaultPhoneRegion: organization.defaultPhoneRegion,
+      role,
+      memberCount: organization._count.members,
+      createdAt: organization.createdAt,
+    }));
+  }
+
+  async createOrganization(userId: string, name: string) {
+    const organization = await prisma.organization.create({
+      data: {
+        name,
+        members: { create: { userId, role: 'owner' } },
+      },
+    });
+
+    await this.audit(userId, 'organization_created', organization.id, { name });
+    return organization;
+  }
+
+  /**
+   * Rename the organization or change the region its do-not-call registry
+   * reads numbers written without a country code in.
+   */
+  async updateOrganization(actor: OrganizationActor, data: { name?: string; defaultPhoneRegion?: string }) {
+    const organization = await prisma.organization.update({
+      where: { id: actor.organizationId },
+      data,
+    });
+
+    await this.audit(actor.id, 'organization_updated', organization.id, data);
+    return organization;
+  }
+
+  async getMembers(organizationId: string) {
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId },
+      include: { user: { select: { id: true, email: true, firstName: true, lastName: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return members.map(member => ({
+      id: member.id,
+      role: member.role,
+      joinedAt: member.createdAt,
+      user: member.user,
+    }));
+  }
+
+  /**
+   * Change a member's role. Only owners may hand out or take away the
+   * owner role, and an organization always keeps at least one owner.
+   */
+  async updateMemberRole(actor: OrganizationActor & { role: OrganizationRole }, memberId: string, role: OrganizationRole) {
+    const member = await this.findMember(actor.organizationId, memberId);
+
+    if ((role === 'owner' || member.role === 'owner') && actor.role !== 'owner') {
+      throw new AppError('Only owners can change who owns the organization', 403);
+    }
+
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.assertAnotherOwner(actor.organizationId, member.id);
+    }
+
+    const updated = await prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role },
+    });
+
+    await this.audit(actor.id, 'organization_member_role_changed', actor.organizationId, {
+      memberUserId: member.userId,
+      from: member.role,
+      to: role,
+    });
+    return updated;
+  }
+
+  /**
+   * Remove a member. Anyone may leave; removing someone else takes an
+   * admin, and only owners may remove owners.
+   */
+  async removeMember(actor: OrganizationActor & { role: OrganizationRole }, memberId: string) {
+    const member = await this.findMember(actor.organizationId, memberId);
+    const leaving = member.userId === actor.id;
+
+    if (!leaving && !OrganizationService.hasRole(actor.role, 'admin')) {
+      throw new AppError('Insufficient role for this action', 403);
+    }
+
+    if (!leaving && member.role === 'owner' && actor.role !== 'owner') {
+      throw new AppError('Only owners can remove an owner', 403);
+    }
+
+    if (member.role === 'owner') {
+      await this.assertAnotherOwner(actor.organizationId, member.id);
+    }
+
+    await prisma.organizationMember.delete({ where: { id: member.id } });
+
+    await this.audit(actor.id, leaving ? 'organization_left' : 'organization_member_removed', actor.organizationId, {
+      memberUserId: member.userId,
+    });
+  }
+
+  async getInvitations(organizationId: string) {
+    return prisma.organizationInvitation.findMany({
+      where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Invite someone by email. The link carries a single-use token; only its
+   * hash is stored. Inviting the same address again replaces the old link.
+   */
+  async inviteMember(actor: OrganizationActor & { role: OrganizationRole }, data: { email: string; role: OrganizationRole }) {
+    const email = data.email.trim().toLowerCase();
+
+    if (data.role === 'owner' && actor.role !== 'owner') {
+      throw new AppError('Only owners can invite owners', 403);
+    }
+
+    const existingMember = await prisma.organizationMember.findFirst({
+      where: { organizationId: actor.organizationId, user: { email: { equals: email, mode: 'insensitive' } } },
+    });
+
+    if (existingMember) {
+      throw new AppError('This person is already a member of the organization', 409);
+    }
+
+    const token = generateSecureToken(32);
+
+    const [, invitation, organization] = await prisma.$transaction([
+      prisma.organizationInvitation.deleteMany({
+        where: { organizationId: actor.organizationId, email, acceptedAt: null },
+      }),
+      prisma.organizationInvitation.create({
+        data: {
+          organizationId: actor.organizationId,
+          email,
+          role: data.role,
+          tokenHash: this.hashToken(token),
+          invitedById: actor.id,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+        },
+        select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+      }),
+      prisma.organization.findUnique({ where: { id: actor.organizationId }, select: { name: true } }),
+    ]);
+
+    try {
+      await emailService.sendEmail({
+        to: email,
+        subject: `You've been invited to ${organization.name}`,
+        template: 'organization_invitation',
+        data: {
+          organizationName: organization.name,
+          role: data.role,
+          acceptUrl: `${config.frontendUrl}/invitations/${token}`,
+          expiresInDays: INVITATION_TTL_DAYS,
+        },
+      });
+    } catch (error: any) {
+      // The invitation stands; it can be resent from the team settings
+      logger.error(`Failed to send invitation email to ${email}:`, error.message);
+    }
+
+    await this.audit(actor.id, 'organization_member_invited', actor.organizationId, { email, role: data.role });
+    return invitation;
+  }
+
+  async revokeInvitation(actor: OrganizationActor, invitationId: string) {
+    const { count } = await prisma.organizationInvitation.deleteMany({
+      where: { id: invitationId, organizationId: actor.organizationId, acceptedAt: null },
+    });
+
+    if (count === 0) {
+      throw new AppError('Invitation not found', 404);
+    }
+
+    await this.audit(actor.id, 'organization_invitation_revoked', actor.organizationId, { invitationId });
+  }
+
+  /**
+   * Join the organization an invitation is for. The invitation must be
+   * addressed to the signed-in user's email.
+   */
+  async acceptInvitation(user: { id: string; email: string }, token: string) {
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { organization: { select: { id: true, name: true } } },
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+      throw new AppError('This invitation is invalid or has expired', 400);
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new AppError('This invitation was sent to a different email address', 403);
+    }
+
+    await prisma.$transaction([
+      prisma.organizationMember.upsert({
+        where: { organizationId_userId: { organizationId: invitation.organizationId, userId: user.id } },
+        create: { organizationId: invitation.organizationId, userId: user.id, role: invitation.role },
+        update: {},
+      }),
+      prisma.organizationInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      }),
+    ]);
+
+    await this.audit(user.id, 'organization_joined', invitation.organizationId, { role: invitation.role });
+    return { organizationId: invitation.organization.id, name: invitation.organization.name, role: invitation.role };
+  }
+
+  /**
+   * Delete a user's account. Organizations nobody else belongs to go with
+   * it; in the others, whatever the user created passes to another owner
+   * so the team keeps its connections, integrations and campaigns.
+   */
+  async deleteAccount(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      include: {
+        organization: {
+          select: {
+            name: true,
+            members: { where: { userId: { not: userId } }, select: { role: true } },
+          },
+        },
+      },
+    });
+
+    const lastOwnerOf = memberships.find(member => member.role === 'owner'
+      && member.organization.members.length > 0
+      && !member.organization.members.some(other => other.role === 'owner'));
+
+    if (lastOwnerOf) {
+      throw new AppError(`Make someone else an owner of ${lastOwnerOf.organization.name} before deleting your account`, 400);
+    }
+
+    const soleMemberOf = memberships
+      .filter(member => member.organization.members.length === 0)
+      .map(member => member.organizationId);
+
+    const activeIntegrations = await prisma.integration.count({
+      where: { organizationId: { in: soleMemberOf }, isActive: true },
+    });
+
+    if (activeIntegrations > 0) {
+      throw new AppError('Cannot delete account with active integrations. Please disable all integrations first.', 400);
+    }
+
+    const successors = await this.findSuccessors(userId, soleMemberOf);
+
+    await prisma.$transaction(async (tx) => {
+      for (const [organizationId, ownerId] of successors) {
+        const created = { where: { userId, organizationId }, data: { userId: ownerId } };
+
+        await tx.account.updateMany(created);
+        await tx.integration.updateMany(created);
+        await tx.campaign.updateMany(created);
+        await tx.doNotCallEntry.updateMany(created);
+        await tx.syncEvent.updateMany(created);
+      }
+
+      // Integrations first: they hold on to the CRM and Retell accounts
+      await tx.integration.deleteMany({ where: { organizationId: { in: soleMemberOf } } });
+      await tx.organization.deleteMany({ where: { id: { in: soleMemberOf } } });
+      await tx.user.delete({ where: { id: userId } });
+    });
+
+    logger.info(`Deleted account ${userId}, handing records in ${successors.size} organization(s) to their owners`);
+  }
+
+  private async findMember(organizationId: string, memberId: string) {
+    const member = await prisma.organizationMember.findFirst({
+      where: { id: memberId, organizationId },
+    });
+
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+    return member;
+  }
+
+  private async assertAnotherOwner(organizationId: string, memberId: string) {
+    const owners = await prisma.organizationMember.count({
+      where: { organizationId, role: 'owner', id: { not: memberId } },
+    });
+
+    if (owners === 0) {
+      throw new AppError('An organization needs at least one owner', 400);
+    }
+  }
+
+  // The longest-standing other owner of each organization the user created records in
+  private async findSuccessors(userId: string, excludedOrganizationIds: string[]) {
+    const where = { userId, organizationId: { notIn: excludedOrganizationIds } };
+    const records = await Promise.all([
+      prisma.account.findMany({ where, select: { organizationId: true }, distinct: ['organizationId'] }),
+      prisma.integration.findMany({ where, select: { organizationId: true }, distinct: ['organizationId'] }),
+      prisma.campaign.findMany({ where, select: { organizationId: true }, distinct: ['organizationId'] }),
+      prisma.doNotCallEntry.findMany({ where, select: { organizationId: true }, distinct: ['organizationId'] }),
+      prisma.syncEvent.findMany({ where, select: { organizationId: true }, distinct: ['organizationId'] }),
+    ]);
+    const organizationIds = [...new Set(records.flat().map(record => record.organizationId))];
+
+    const owners = await prisma.organizationMember.findMany({
+      where: { organizationId: { in: organizationIds }, role: 'owner', userId: { not: userId } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const successors = new Map<string, string>();
+    for (const owner of owners) {
+      if (!successors.has(owner.organizationId)) {
+        successors.set(owner.organizationId, owner.userId);
+      }
+    }
+
+    const unowned = organizationIds.find(organizationId => !successors.has(organizationId));
+    if (unowned) {
+      throw new AppError('An organization you created records in has no other owner to take them over', 400);
+    }
+
+    return successors;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private async audit(userId: string, action: string, resource: string, details: any) {
+    await prisma.auditLog.create({
+      data: { userId, action, resource, details },
+    });
+  }
+}
+
+export const organizationService = new OrganizationService();
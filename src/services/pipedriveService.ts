@@ -1,5 +1,22 @@
 import axios from 'axios';
 import { logger } from '../config/logger';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import {
+  CrmAdapter,
+  CrmContact,
+  CrmContactInput,
+  CrmContactContext,
+  CrmContactSearch,
+  CrmCallActivityInput,
+  CrmDealInput,
+  CrmNoteInput,
+  CrmRecordRef,
+  CrmScheduledActivity,
+  CrmMeetingInput,
+} from '../types';
+
+// Results kept per contact search when matching call participants
+const SEARCH_LIMIT = 5;
 
 interface PipedriveConfig {
   apiToken: string;
@@ -18,7 +35,7 @@ interface PipedriveCall {
   getActivities(accessToken: string, filters?: any): Promise<any>;
 }
 
-class PipedriveService implements PipedriveCall {
+class PipedriveService implements PipedriveCall, CrmAdapter {
   private baseURL = 'https://api.pipedrive.com/v1';
 
   private getAxiosInstance(accessToken: string) {
@@ -169,6 +186,275 @@ class PipedriveService implements PipedriveCall {
       throw new Error(`Failed to get Pipedrive pipelines: ${error.response?.data?.error || error.message}`);
     }
   }
+
+  /**
+   * Subscribe a URL to every deal, person and activity change. Pipedrive
+   * sends the basic auth credentials given here with each delivery.
+   */
+  async createWebhook(accessToken: string, subscription: {
+    subscriptionUrl: string;
+    httpAuthUser: string;
+    httpAuthPassword: string;
+  }): Promise<string> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.post('/webhooks', {
+        subscription_url: subscription.subscriptionUrl,
+        event_action: '*',
+        event_object: '*',
+        http_auth_user: subscription.httpAuthUser,
+        http_auth_password: subscription.httpAuthPassword,
+      });
+
+      logger.info('Pipedrive webhook created:', { webhookId: response.data.data.id });
+      return String(response.data.data.id);
+    } catch (error: any) {
+      logger.error('Pipedrive createWebhook error:', error.response?.data || error.message);
+      throw new Error(`Failed to create Pipedrive webhook: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  async deleteWebhook(accessToken: string, webhookId: string): Promise<void> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      await api.delete(`/webhooks/${webhookId}`);
+    } catch (error: any) {
+      logger.error('Pipedrive deleteWebhook error:', error.response?.data || error.message);
+      throw new Error(`Failed to delete Pipedrive webhook: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  // CrmAdapter implementation
+
+  async findContactCandidates(accessToken: string, search: CrmContactSearch): Promise<CrmContact[]> {
+    const candidates = new Map<string, CrmContact>();
+    const collect = (contacts: CrmContact[]) => contacts.forEach(contact => candidates.set(contact.id, contact));
+
+    // Pipedrive stores phone numbers as typed, so search every known format
+    if (search.phone) {
+      for (const variation of PhoneNormalizer.generateVariations(search.phone)) {
+        collect(await this.searchPersons(accessToken, variation.format, 'phone'));
+      }
+    }
+    if (search.email) collect(await this.searchPersons(accessToken, search.email, 'email'));
+    if (search.name) collect(await this.searchPersons(accessToken, search.name, 'name'));
+
+    logger.info(`Pipedrive contact search found ${candidates.size} candidate(s)`);
+    return [...candidates.values()];
+  }
+
+  async getContactContext(accessToken: string, contactId: string): Promise<CrmContactContext> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const [personResponse, dealsResponse] = await Promise.all([
+        api.get(`/persons/${contactId}`),
+        api.get(`/persons/${contactId}/deals`, { params: { status: 'open', limit: SEARCH_LIMIT } }),
+      ]);
+
+      const person = personResponse.data.data;
+      const activity = person.last_activity_id
+        ? (await api.get(`/activities/${person.last_activity_id}`)).data.data
+        : null;
+
+      return {
+        contact: {
+          id: String(person.id),
+          name: person.name,
+          email: person.email?.find((email: any) => email.primary)?.value || person.email?.[0]?.value,
+          phone: person.phone?.[0]?.value,
+          company: person.org_name || person.org_id?.name,
+          ownerId: person.owner_id?.id ? String(person.owner_id.id) : undefined,
+          ownerName: person.owner_name || person.owner_id?.name,
+          updatedAt: person.update_time,
+        },
+        openDeals: (dealsResponse.data.data || []).map((deal: any) => ({
+          id: String(deal.id),
+          title: deal.title,
+          value: deal.value,
+          currency: deal.currency,
+        })),
+        lastActivity: activity || person.last_activity_date
+          ? { subject: activity?.subject, date: activity?.due_date || person.last_activity_date }
+          : undefined,
+      };
+    } catch (error: any) {
+      logger.error('Pipedrive getContactContext error:', error.response?.data || error.message);
+      throw new Error(`Failed to get Pipedrive person context: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  async mergeContacts(accessToken: string, primaryId: string, duplicateId: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      // The person in the path is merged into merge_with_id, which survives
+      const response = await api.put(`/persons/${duplicateId}/merge`, { merge_with_id: Number(primaryId) });
+
+      logger.info(`Pipedrive person ${duplicateId} merged into ${primaryId}`);
+      return { id: String(response.data.data?.id ?? primaryId) };
+    } catch (error: any) {
+      logger.error('Pipedrive mergeContacts error:', error.response?.data || error.message);
+      throw new Error(`Failed to merge Pipedrive persons: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  async upsertContact(accessToken: string, contact: CrmContactInput, contactId?: string): Promise<CrmContact> {
+    const personData: any = { name: contact.name };
+    if (contact.phone) personData.phone = contact.phone;
+    if (contact.email) personData.email = contact.email;
+
+    const person = contactId
+      ? await this.updatePerson(accessToken, contactId, personData)
+      : await this.createPerson(accessToken, personData);
+
+    return { id: String(person.id), name: person.name, phone: contact.phone, email: contact.email };
+  }
+
+  async logCallActivity(accessToken: string, activity: CrmCallActivityInput, activityId?: string): Promise<CrmRecordRef> {
+    const [dueDate, dueTime] = activity.startedAt.toISOString().split('T');
+    const activityData: any = {
+      person_id: Number(activity.contactId),
+      subject: activity.subject,
+      note: activity.note,
+      type: 'call',
+      due_date: dueDate,
+      due_time: dueTime.substring(0, 5),
+      done: true,
+    };
+
+    if (activity.durationSeconds) {
+      const minutes = Math.max(1, Math.round(activity.durationSeconds / 60));
+      activityData.duration = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    }
+    if (activity.dealId) activityData.deal_id = Number(activity.dealId);
+
+    const result = activityId
+      ? await this.updateActivity(accessToken, activityId, activityData)
+      : await this.createActivity(accessToken, activityData);
+    return { id: String(result.id) };
+  }
+
+  async upsertDeal(accessToken: string, deal: CrmDealInput, dealId?: string): Promise<CrmRecordRef> {
+    const dealData: any = {
+      person_id: Number(deal.contactId),
+      title: deal.title,
+    };
+
+    if (deal.value !== undefined) dealData.value = deal.value;
+    if (deal.currency) dealData.currency = deal.currency;
+    if (deal.pipelineId) dealData.pipeline_id = parseInt(deal.pipelineId);
+    if (deal.stageId) dealData.stage_id = parseInt(deal.stageId);
+    if (deal.ownerId) dealData.user_id = parseInt(deal.ownerId);
+
+    const result = dealId
+      ? await this.updateDeal(accessToken, dealId, dealData)
+      : await this.createDeal(accessToken, { ...dealData, status: 'open' });
+
+    return { id: String(result.id) };
+  }
+
+  async updateDealStage(accessToken: string, dealId: string, stageId: string, pipelineId?: string): Promise<CrmRecordRef> {
+    const dealData: any = { stage_id: parseInt(stageId) };
+    if (pipelineId) dealData.pipeline_id = parseInt(pipelineId);
+
+    const result = await this.updateDeal(accessToken, dealId, dealData);
+    return { id: String(result.id) };
+  }
+
+  async findActivitiesBetween(accessToken: string, start: Date, end: Date, ownerId?: string): Promise<CrmScheduledActivity[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.get('/activities', {
+        params: {
+          user_id: ownerId || 0, // 0 = every user in the company
+          start_date: start.toISOString().substring(0, 10),
+          end_date: end.toISOString().substring(0, 10),
+          done: 0,
+        },
+      });
+
+      // Due times are stored in UTC; activities without a time don't block the calendar
+      return (response.data.data || [])
+        .filter((activity: any) => activity.due_time)
+        .map((activity: any) => {
+          const activityStart = new Date(`${activity.due_date}T${activity.due_time}:00Z`);
+          const [hours, minutes] = (activity.duration || '00:00').split(':').map(Number);
+          return {
+            id: String(activity.id),
+            subject: activity.subject,
+            start: activityStart.toISOString(),
+            end: new Date(activityStart.getTime() + ((hours || 0) * 60 + (minutes || 0)) * 60000).toISOString(),
+          };
+        })
+        .filter((activity: CrmScheduledActivity) => new Date(activity.start) < end && new Date(activity.end) > start);
+    } catch (error: any) {
+      logger.error('Pipedrive findActivitiesBetween error:', error.response?.data || error.message);
+      throw new Error(`Failed to get Pipedrive activities: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  async upsertMeeting(accessToken: string, meeting: CrmMeetingInput, meetingId?: string): Promise<CrmRecordRef> {
+    // Pipedrive stores due dates and times in UTC
+    const [dueDate, dueTime] = meeting.start.toISOString().split('T');
+    const minutes = Math.max(1, Math.round((meeting.end.getTime() - meeting.start.getTime()) / 60000));
+    const activityData: any = {
+      subject: meeting.subject,
+      note: meeting.description,
+      type: 'meeting',
+      due_date: dueDate,
+      due_time: dueTime.substring(0, 5),
+      duration: `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`,
+      person_id: Number(meeting.contactId),
+      participants: [{ person_id: Number(meeting.contactId), primary_flag: true }],
+      done: false,
+    };
+
+    if (meeting.dealId) activityData.deal_id = Number(meeting.dealId);
+    if (meeting.ownerId) activityData.user_id = Number(meeting.ownerId);
+
+    const result = meetingId
+      ? await this.updateActivity(accessToken, meetingId, activityData)
+      : await this.createActivity(accessToken, activityData);
+    return { id: String(result.id) };
+  }
+
+  async addNote(accessToken: string, note: CrmNoteInput): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const noteData: any = { content: note.content };
+      if (note.dealId) noteData.deal_id = Number(note.dealId);
+      if (note.contactId) noteData.person_id = Number(note.contactId);
+
+      const response = await api.post('/notes', noteData);
+
+      logger.info('Pipedrive note created:', { noteId: response.data.data.id });
+      return { id: String(response.data.data.id) };
+    } catch (error: any) {
+      logger.error('Pipedrive addNote error:', error.response?.data || error.message);
+      throw new Error(`Failed to create Pipedrive note: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  private async searchPersons(accessToken: string, term: string, field: 'phone' | 'email' | 'name'): Promise<CrmContact[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.get('/persons/search', { params: { term, fields: field, limit: SEARCH_LIMIT } });
+      const items: any[] = response.data?.data?.items || [];
+
+      return items.map(({ item }) => ({
+        id: String(item.id),
+        name: item.name,
+        phone: item.phones?.[0],
+        phones: item.phones || [],
+        email: item.emails?.[0],
+        company: item.organization?.name,
+        ownerId: item.owner?.id ? String(item.owner.id) : undefined,
+        updatedAt: item.update_time,
+      }));
+    } catch (error: any) {
+      logger.warn(`Pipedrive person search by ${field} failed:`, error.response?.data || error.message);
+      return [];
+    }
+  }
 }
 
 export const pipedriveService = new PipedriveService();
\ No newline at end of file
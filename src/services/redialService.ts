@@ -0,0 +1,154 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { addSyncJob } from './jobQueue';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { RedialOutcome, RedialPolicy } from '../types';
+
+// Retell disconnection reasons for calls that never connected
+const NO_ANSWER_REASONS = ['dial_no_answer', 'dial_busy', 'dial_failed'];
+
+export interface RedialDecision {
+  outcome: RedialOutcome | null;
+  scheduled: boolean;
+  reason: string;
+  syncEventId?: string;
+  attemptNumber?: number;
+  scheduledFor?: Date;
+}
+
+export class RedialService {
+  /**
+   * Classify an outbound call result for redialling. call_ended only
+   * settles calls that never connected; everything else waits for
+   * call_analyzed so "not interested" can be checked first.
+   */
+  classifyOutcome(call: any, eventType: string, policy: RedialPolicy): RedialOutcome | null {
+    if (NO_ANSWER_REASONS.includes(call?.disconnection_reason)) return 'no_answer';
+    if (eventType !== 'call_analyzed') return null;
+
+    if (call?.call_analysis?.in_voicemail === true || call?.disconnection_reason === 'voicemail_reached') {
+      return 'voicemail';
+    }
+    if (typeof call?.duration_ms === 'number' && call.duration_ms < policy.shortCallSeconds * 1000) {
+      return 'short_call';
+    }
+    return null;
+  }
+
+  /**
+   * Schedule the next attempt for an outbound call that went unanswered,
+   * if the integration's redial policy allows one. Attempts hang off the
+   * original sync event, and the same attempt is never scheduled twice.
+   */
+  async scheduleRedial(integration: { id: string; redialPolicy: any; defaultPhoneRegion: string }, syncEvent: any, call: any, eventType: string): Promise<RedialDecision> {
+    const policy = integration.redialPolicy as RedialPolicy | null;
+    if (!policy) {
+      return { outcome: null, scheduled: false, reason: 'No redial policy' };
+    }
+
+    const outcome = this.classifyOutcome(call, eventType, policy);
+    if (!outcome || !policy.retryOn.includes(outcome)) {
+      return { outcome, scheduled: false, reason: outcome ? `Redial not enabled for ${outcome}` : 'Call connected' };
+    }
+
+    const stopPhrase = this.findStopPhrase(call, policy.stopPhrases);
+    if (stopPhrase) {
+      logger.info(`Not redialling call ${call?.call_id}: contact said "${stopPhrase}"`);
+      return { outcome, scheduled: false, reason: `Contact said "${stopPhrase}"` };
+    }
+
+    const attemptNumber = syncEvent.attemptNumber + 1;
+    if (attemptNumber > policy.maxAttempts) {
+      return { outcome, scheduled: false, reason: `Reached ${policy.maxAttempts} attempts` };
+    }
+
+    const rootId = syncEvent.parentSyncEventId || syncEvent.id;
+    const existing = await prisma.syncEvent.findFirst({
+      where: { parentSyncEventId: rootId, attemptNumber },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return { outcome, scheduled: false, reason: 'Redial already scheduled', syncEventId: existing.id, attemptNumber };
+    }
+
+    const root = rootId === syncEvent.id ? syncEvent : await prisma.syncEvent.findUnique({ where: { id: rootId } });
+    const toNumber = this.pickNumber(policy, root, call, attemptNumber, integration.defaultPhoneRegion);
+    const spacing = policy.spacingMinutes[Math.min(attemptNumber - 2, policy.spacingMinutes.length - 1)];
+    const delay = spacing * 60 * 1000;
+
+    let redial;
+    try {
+      redial = await prisma.syncEvent.create({
+        data: {
+          userId: root.userId,
+          organizationId: root.organizationId,
+          integrationId: integration.id,
+          eventType: 'redial',
+          status: 'pending',
+          sourceData: root.sourceData,
+          parentSyncEventId: rootId,
+          attemptNumber,
+          toNumber,
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+
+      // A concurrent delivery for the same call scheduled this attempt first
+      const scheduled = await prisma.syncEvent.findUniqueOrThrow({
+        where: { parentSyncEventId_attemptNumber: { parentSyncEventId: rootId, attemptNumber } },
+        select: { id: true },
+      });
+      return { outcome, scheduled: false, reason: 'Redial already scheduled', syncEventId: scheduled.id, attemptNumber };
+    }
+
+    await addSyncJob({
+      syncEventId: redial.id,
+      integrationId: integration.id,
+      sourceData: root.sourceData,
+    }, delay);
+
+    const scheduledFor = new Date(Date.now() + delay);
+    logger.info(`Redial ${attemptNumber}/${policy.maxAttempts} for sync event ${rootId} scheduled for ${scheduledFor.toISOString()} (${outcome})`);
+
+    return { outcome, scheduled: true, reason: outcome, syncEventId: redial.id, attemptNumber, scheduledFor };
+  }
+
+  /**
+   * Rotate through the primary number and any alternate number fields on
+   * the original CRM record, skipping fields that are empty or not dialable.
+   */
+  private pickNumber(policy: RedialPolicy, root: any, call: any, attemptNumber: number, defaultRegion: string): string | undefined {
+    const primary = root.toNumber || call?.to_number;
+    const alternates = (policy.alternateNumberFields || [])
+      .map(field => field.split('.').reduce(
+        (value: any, key) => (value && typeof value === 'object' ? value[key] : undefined),
+        root.sourceData
+      ))
+      .map(value => (value === undefined || value === null ? null : PhoneNormalizer.toE164(String(value), defaultRegion)));
+
+    const numbers = [...new Set([primary, ...alternates].filter(Boolean))];
+    if (numbers.length === 0) return undefined;
+
+    return numbers[(attemptNumber - 1) % numbers.length];
+  }
+
+  private findStopPhrase(call: any, stopPhrases: string[]): string | null {
+    const analysis = call?.call_analysis || {};
+    const text = [
+      analysis.call_summary,
+      ...Object.values(analysis.custom_analysis_data || {}),
+    ]
+      .filter(value => value !== undefined && value !== null)
+      .map(value => String(value).toLowerCase())
+      .join('\n');
+
+    return (stopPhrases || []).find(phrase => text.includes(phrase.toLowerCase())) || null;
+  }
+}
+
+export const redialService = new RedialService();
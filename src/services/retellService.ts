@@ -1,8 +1,17 @@
+import crypto from 'crypto';
 import axios from 'axios';
 import { config } from '../config';
 import { oauthService } from './oauthService';
 import { AppError } from '../middleware/errorHandler';
 
+// Retell rejects replays older than five minutes in its own SDK; mirror that here
+const RETELL_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface RetellSignatureCheck {
+  valid: boolean;
+  reason?: string;
+}
+
 export class RetellService {
   private async getApiClient(accountId: string) {
     const accessToken = await oauthService.getDecryptedAccessToken(accountId);
@@ -234,14 +243,35 @@ export class RetellService {
     }
   }
 
-  async validateWebhookSignature(payload: string, signature: string, secret: string): Promise<boolean> {
-    const crypto = require('crypto');
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(payload)
+  /**
+   * Verify an `x-retell-signature` header (`v=<timestamp>,d=<hex digest>`).
+   * The digest is an HMAC-SHA256 of the raw request body followed by the
+   * timestamp, keyed with the Retell API key of the account that owns the agent.
+   */
+  verifyWebhookSignature(rawBody: string, signature: string, apiKey: string): RetellSignatureCheck {
+    const match = /^v=(\d+),d=([0-9a-f]+)$/i.exec((signature || '').trim());
+    if (!match) {
+      return { valid: false, reason: 'malformed_signature' };
+    }
+
+    const timestamp = Number(match[1]);
+    if (Math.abs(Date.now() - timestamp) > RETELL_SIGNATURE_TOLERANCE_MS) {
+      return { valid: false, reason: 'timestamp_out_of_range' };
+    }
+
+    const expected = crypto
+      .createHmac('sha256', apiKey)
+      .update(rawBody + match[1])
       .digest('hex');
-    
-    return signature === `sha256=${expectedSignature}`;
+
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const receivedBuffer = Buffer.from(match[2].toLowerCase(), 'hex');
+
+    if (expectedBuffer.length !== receivedBuffer.length || !crypto.timingSafeEqual(expectedBuffer, receivedBuffer)) {
+      return { valid: false, reason: 'signature_mismatch' };
+    }
+
+    return { valid: true };
   }
 
   formatPhoneNumber(phoneNumber: string): string {
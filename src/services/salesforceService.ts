@@ -1,5 +1,24 @@
 import axios from 'axios';
 import { logger } from '../config/logger';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { NameParser } from '../utils/nameParser';
+import {
+  CrmAdapter,
+  CrmContact,
+  CrmContactInput,
+  CrmContactContext,
+  CrmContactSearch,
+  CrmCallActivityInput,
+  CrmDealInput,
+  CrmNoteInput,
+  CrmRecordRef,
+  CrmScheduledActivity,
+  CrmMeetingInput,
+} from '../types';
+
+// Results kept per contact search when matching call participants
+const SEARCH_LIMIT = 5;
+const CONTACT_SEARCH_FIELDS = 'Id, Name, Email, Phone, MobilePhone, Account.Name, OwnerId, LastModifiedDate';
 
 interface SalesforceCall {
   createDeal(accessToken: string, dealData: any): Promise<any>;
@@ -13,16 +32,24 @@ interface SalesforceCall {
   getActivities(accessToken: string, filters?: any): Promise<any>;
 }
 
-class SalesforceService implements SalesforceCall {
-  private getInstanceUrl(accessToken: string): string {
-    // In practice, you'd store the instance URL during OAuth
-    // For now, using a placeholder - this would come from the CRM account config
-    return 'https://your-instance.salesforce.com';
+class SalesforceService implements SalesforceCall, CrmAdapter {
+  constructor(private instanceUrl?: string | null) {}
+
+  // Every Salesforce org has its own API host, saved from the OAuth token response
+  forInstance(instanceUrl: string | null | undefined): SalesforceService {
+    return new SalesforceService(instanceUrl);
+  }
+
+  private getInstanceUrl(): string {
+    if (!this.instanceUrl) {
+      throw new Error('Salesforce instance URL is unknown; reconnect the Salesforce account');
+    }
+    return this.instanceUrl.replace(/\/+$/, '');
   }
 
   private getAxiosInstance(accessToken: string) {
     return axios.create({
-      baseURL: `${this.getInstanceUrl(accessToken)}/services/data/v58.0`,
+      baseURL: `${this.getInstanceUrl()}/services/data/v58.0`,
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json',
@@ -41,6 +68,7 @@ class SalesforceService implements SalesforceCall {
         CloseDate: dealData.close_date || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now
         AccountId: dealData.account_id,
         ContactId: dealData.person_id || dealData.contact_id,
+        OwnerId: dealData.owner_id,
       };
 
       const response = await api.post('/sobjects/Opportunity', salesforceOpportunityData);
@@ -62,6 +90,7 @@ class SalesforceService implements SalesforceCall {
       if (dealData.value) salesforceOpportunityData.Amount = dealData.value;
       if (dealData.stage_name) salesforceOpportunityData.StageName = dealData.stage_name;
       if (dealData.close_date) salesforceOpportunityData.CloseDate = dealData.close_date;
+      if (dealData.owner_id) salesforceOpportunityData.OwnerId = dealData.owner_id;
 
       const response = await api.patch(`/sobjects/Opportunity/${dealId}`, salesforceOpportunityData);
       
@@ -213,6 +242,253 @@ class SalesforceService implements SalesforceCall {
       throw new Error(`Failed to get Salesforce tasks: ${error.response?.data?.[0]?.message || error.message}`);
     }
   }
+
+  // CrmAdapter implementation
+
+  async findContactCandidates(accessToken: string, search: CrmContactSearch): Promise<CrmContact[]> {
+    const api = this.getAxiosInstance(accessToken);
+    const candidates = new Map<string, CrmContact>();
+    const collect = (records: any[]) => records.forEach(record => candidates.set(record.Id, this.toCrmContact(record)));
+    const find = async (term: string, scope: 'PHONE' | 'NAME') => {
+      const sosl = `FIND {${this.escapeSosl(term)}} IN ${scope} FIELDS RETURNING Contact(${CONTACT_SEARCH_FIELDS}) LIMIT ${SEARCH_LIMIT}`;
+      const response = await api.get(`/search?q=${encodeURIComponent(sosl)}`);
+      return response.data.searchRecords || [];
+    };
+
+    if (search.phone) {
+      for (const variation of PhoneNormalizer.generateVariations(search.phone)) {
+        try {
+          collect(await find(variation.format, 'PHONE'));
+        } catch (error: any) {
+          logger.warn(`Salesforce phone search failed for ${variation.format}:`, error.response?.data || error.message);
+        }
+      }
+    }
+
+    if (search.email) {
+      try {
+        const query = `SELECT ${CONTACT_SEARCH_FIELDS} FROM Contact WHERE Email = '${this.escapeSoql(search.email)}' LIMIT ${SEARCH_LIMIT}`;
+        const response = await api.get(`/query?q=${encodeURIComponent(query)}`);
+        collect(response.data.records || []);
+      } catch (error: any) {
+        logger.warn('Salesforce email search failed:', error.response?.data || error.message);
+      }
+    }
+
+    if (search.name) {
+      try {
+        collect(await find(search.name, 'NAME'));
+      } catch (error: any) {
+        logger.warn('Salesforce name search failed:', error.response?.data || error.message);
+      }
+    }
+
+    logger.info(`Salesforce contact search found ${candidates.size} candidate(s)`);
+    return [...candidates.values()];
+  }
+
+  async getContactContext(accessToken: string, contactId: string): Promise<CrmContactContext> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const id = this.escapeSoql(contactId);
+      const contactQuery = `SELECT ${CONTACT_SEARCH_FIELDS}, Owner.Name, LastActivityDate, `
+        + '(SELECT Subject, ActivityDate FROM Tasks ORDER BY CreatedDate DESC LIMIT 1) '
+        + `FROM Contact WHERE Id = '${id}'`;
+      const dealQuery = 'SELECT Id, Name, Amount, StageName FROM Opportunity WHERE IsClosed = false '
+        + `AND Id IN (SELECT OpportunityId FROM OpportunityContactRole WHERE ContactId = '${id}') `
+        + `ORDER BY LastModifiedDate DESC LIMIT ${SEARCH_LIMIT}`;
+
+      const [contactResponse, dealResponse] = await Promise.all([
+        api.get(`/query?q=${encodeURIComponent(contactQuery)}`),
+        api.get(`/query?q=${encodeURIComponent(dealQuery)}`),
+      ]);
+
+      const record = contactResponse.data.records?.[0];
+      if (!record) {
+        throw new Error(`Contact ${contactId} not found`);
+      }
+
+      const task = record.Tasks?.records?.[0];
+
+      return {
+        contact: { ...this.toCrmContact(record), ownerName: record.Owner?.Name },
+        openDeals: (dealResponse.data.records || []).map((opportunity: any) => ({
+          id: opportunity.Id,
+          title: opportunity.Name,
+          value: opportunity.Amount ?? undefined,
+          stage: opportunity.StageName,
+        })),
+        lastActivity: task || record.LastActivityDate
+          ? { subject: task?.Subject, date: task?.ActivityDate || record.LastActivityDate }
+          : undefined,
+      };
+    } catch (error: any) {
+      logger.error('Salesforce getContactContext error:', error.response?.data || error.message);
+      throw new Error(`Failed to get Salesforce contact context: ${error.response?.data?.[0]?.message || error.message}`);
+    }
+  }
+
+  async upsertContact(accessToken: string, contact: CrmContactInput, contactId?: string): Promise<CrmContact> {
+    const { firstName, lastName } = NameParser.split(contact.name);
+    const personData = {
+      first_name: firstName,
+      last_name: lastName,
+      email: contact.email,
+      phone: contact.phone,
+    };
+
+    const result = contactId
+      ? await this.updatePerson(accessToken, contactId, personData)
+      : await this.createPerson(accessToken, personData);
+
+    return { id: String(result.id), name: contact.name, phone: contact.phone, email: contact.email };
+  }
+
+  async logCallActivity(accessToken: string, activity: CrmCallActivityInput, activityId?: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+
+      const taskData = {
+        Subject: activity.subject,
+        Description: activity.note,
+        ActivityDate: activity.startedAt.toISOString().split('T')[0],
+        Status: 'Completed',
+        Priority: 'Normal',
+        TaskSubtype: 'Call',
+        Type: 'Call',
+        CallType: activity.direction === 'inbound' ? 'Inbound' : 'Outbound',
+        CallDurationInSeconds: activity.durationSeconds,
+        WhoId: activity.contactId,
+        WhatId: activity.dealId,
+      };
+
+      if (activityId) {
+        await api.patch(`/sobjects/Task/${activityId}`, taskData);
+        logger.info('Salesforce call task updated:', { taskId: activityId });
+        return { id: activityId };
+      }
+
+      const response = await api.post('/sobjects/Task', taskData);
+
+      logger.info('Salesforce call task created:', { taskId: response.data.id });
+      return { id: response.data.id };
+    } catch (error: any) {
+      logger.error('Salesforce logCallActivity error:', error.response?.data || error.message);
+      throw new Error(`Failed to log Salesforce call: ${error.response?.data?.[0]?.message || error.message}`);
+    }
+  }
+
+  async upsertDeal(accessToken: string, deal: CrmDealInput, dealId?: string): Promise<CrmRecordRef> {
+    const dealData = {
+      title: deal.title,
+      value: deal.value,
+      stage_name: deal.stageId,
+      owner_id: deal.ownerId,
+      person_id: deal.contactId,
+    };
+
+    const result = dealId
+      ? await this.updateDeal(accessToken, dealId, dealData)
+      : await this.createDeal(accessToken, dealData);
+
+    return { id: String(result.id) };
+  }
+
+  async updateDealStage(accessToken: string, dealId: string, stageId: string): Promise<CrmRecordRef> {
+    // Opportunities are staged by name; there are no pipelines to move between
+    const result = await this.updateDeal(accessToken, dealId, { stage_name: stageId });
+    return { id: String(result.id) };
+  }
+
+  async findActivitiesBetween(accessToken: string, start: Date, end: Date, ownerId?: string): Promise<CrmScheduledActivity[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      // SOQL datetime literals are unquoted ISO timestamps
+      const window = `StartDateTime < ${end.toISOString()} AND EndDateTime > ${start.toISOString()}`;
+      const owner = ownerId ? ` AND OwnerId = '${this.escapeSoql(ownerId)}'` : '';
+      const query = `SELECT Id, Subject, StartDateTime, EndDateTime FROM Event WHERE IsAllDayEvent = false AND ${window}${owner} LIMIT 200`;
+      const response = await api.get(`/query?q=${encodeURIComponent(query)}`);
+
+      return (response.data.records || []).map((event: any) => ({
+        id: event.Id,
+        subject: event.Subject,
+        start: new Date(event.StartDateTime).toISOString(),
+        end: new Date(event.EndDateTime).toISOString(),
+      }));
+    } catch (error: any) {
+      logger.error('Salesforce findActivitiesBetween error:', error.response?.data || error.message);
+      throw new Error(`Failed to get Salesforce events: ${error.response?.data?.[0]?.message || error.message}`);
+    }
+  }
+
+  async upsertMeeting(accessToken: string, meeting: CrmMeetingInput, meetingId?: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+
+      const eventData: any = {
+        Subject: meeting.subject,
+        Description: meeting.description,
+        StartDateTime: meeting.start.toISOString(),
+        EndDateTime: meeting.end.toISOString(),
+        WhoId: meeting.contactId,
+        WhatId: meeting.dealId,
+      };
+      if (meeting.ownerId) eventData.OwnerId = meeting.ownerId;
+
+      if (meetingId) {
+        await api.patch(`/sobjects/Event/${meetingId}`, eventData);
+        logger.info('Salesforce event updated:', { eventId: meetingId });
+        return { id: meetingId };
+      }
+
+      const response = await api.post('/sobjects/Event', eventData);
+
+      logger.info('Salesforce event created:', { eventId: response.data.id });
+      return { id: response.data.id };
+    } catch (error: any) {
+      logger.error('Salesforce upsertMeeting error:', error.response?.data || error.message);
+      throw new Error(`Failed to book Salesforce event: ${error.response?.data?.[0]?.message || error.message}`);
+    }
+  }
+
+  async addNote(accessToken: string, note: CrmNoteInput): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+
+      const response = await api.post('/sobjects/Note', {
+        ParentId: note.dealId || note.contactId,
+        Title: 'Call Summary',
+        Body: note.content,
+      });
+
+      logger.info('Salesforce note created:', { noteId: response.data.id });
+      return { id: response.data.id };
+    } catch (error: any) {
+      logger.error('Salesforce addNote error:', error.response?.data || error.message);
+      throw new Error(`Failed to create Salesforce note: ${error.response?.data?.[0]?.message || error.message}`);
+    }
+  }
+
+  private toCrmContact(record: any): CrmContact {
+    return {
+      id: record.Id,
+      name: record.Name,
+      email: record.Email,
+      phone: record.Phone || record.MobilePhone,
+      phones: [record.Phone, record.MobilePhone].filter(Boolean),
+      company: record.Account?.Name,
+      ownerId: record.OwnerId,
+      updatedAt: record.LastModifiedDate,
+    };
+  }
+
+  private escapeSoql(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
+
+  private escapeSosl(value: string): string {
+    return value.replace(/[?&|!{}[\]()^~*:\\"'+-]/g, '\\$&');
+  }
 }
 
 export const salesforceService = new SalesforceService();
\ No newline at end of file
@@ -0,0 +1,159 @@
+jest.mock('../config/database', () => ({
+  prisma: {
+    session: { create: jest.fn(), update: jest.fn(), updateMany: jest.fn(), findUnique: jest.fn() },
+    refreshToken: { findUnique: jest.fn(), updateMany: jest.fn() },
+    auditLog: { create: jest.fn() },
+  },
+}));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { prisma } from '../config/database';
+import { SessionService } from './sessionService';
+
+const USER_ID = 'usr_7d2a90';
+
+interface Session {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason?: string;
+}
+
+interface RefreshToken {
+  id: string;
+  sessionId: string;
+  tokenHash: string;
+  usedAt: Date | null;
+}
+
+describe('SessionService', () => {
+  const service = new SessionService();
+  const db = prisma as any;
+  let sessions: Session[];
+  let tokens: RefreshToken[];
+
+  // In-memory sessions and refresh tokens, enough for what the service asks of them
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessions = [];
+    tokens = [];
+
+    const addToken = (sessionId: string, tokenHash: string) =>
+      tokens.push({ id: `rt_${tokens.length + 1}`, sessionId, tokenHash, usedAt: null });
+    const matches = (session: Session, where: any) => Object.entries(where).every(([key, value]: [string, any]) =>
+      value && typeof value === 'object' && 'not' in value ? session[key] !== value.not : session[key] === value);
+
+    db.session.create.mockImplementation(async ({ data: { refreshTokens, ...data } }: any) => {
+      const session = { id: `ses_${sessions.length + 1}`, revokedAt: null, ...data };
+      sessions.push(session);
+      addToken(session.id, refreshTokens.create.tokenHash);
+      return session;
+    });
+    db.session.update.mockImplementation(async ({ where, data: { refreshTokens, ...data } }) => {
+      const session = sessions.find(candidate => candidate.id === where.id);
+      Object.assign(session, data);
+      addToken(session.id, refreshTokens.create.tokenHash);
+      return session;
+    });
+    db.session.findUnique.mockImplementation(async ({ where }) => sessions.find(session => session.id === where.id) || null);
+    db.session.updateMany.mockImplementation(async ({ where, data }) => {
+      const matched = sessions.filter(session => matches(session, where));
+      matched.forEach(session => Object.assign(session, data));
+      return { count: matched.length };
+    });
+    db.refreshToken.findUnique.mockImplementation(async ({ where }) => {
+      const token = tokens.find(candidate => candidate.tokenHash === where.tokenHash);
+      return token ? { ...token, session: { ...sessions.find(session => session.id === token.sessionId) } } : null;
+    });
+    db.refreshToken.updateMany.mockImplementation(async ({ where, data }) => {
+      const token = tokens.find(candidate => candidate.id === where.id && candidate.usedAt === where.usedAt);
+      if (token) Object.assign(token, data);
+      return { count: token ? 1 : 0 };
+    });
+  });
+
+  const signIn = () => service.createSession(USER_ID, { userAgent: 'Firefox', ipAddress: '203.0.113.7' });
+
+  describe('rotate', () => {
+    it('swaps a refresh token for a new one on the same session', async () => {
+      const { sessionId, refreshToken } = await signIn();
+
+      const rotated = await service.rotate(refreshToken, { ipAddress: '203.0.113.8' });
+      await expect(service.isActive(sessionId)).resolves.toBe(true);
+
+      expect(rotated).toEqual({ userId: USER_ID, sessionId, refreshToken: expect.any(String) });
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      expect(sessions[0]).toMatchObject({ ipAddress: '203.0.113.8', userAgent: 'Firefox', revokedAt: null });
+      await expect(service.rotate(rotated.refreshToken)).resolves.toMatchObject({ sessionId });
+    });
+
+    it('stores only hashes of the tokens', async () => {
+      const { refreshToken } = await signIn();
+
+      expect(tokens[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(tokens[0].tokenHash).not.toContain(refreshToken);
+    });
+
+    it('revokes the session when a used token comes back', async () => {
+      const { sessionId, refreshToken } = await signIn();
+      const rotated = await service.rotate(refreshToken);
+
+      await expect(service.rotate(refreshToken, { ipAddress: '198.51.100.23' }))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid refresh token' });
+
+      expect(sessions[0]).toMatchObject({ revokedAt: expect.any(Date), revokedReason: 'reuse_detected' });
+      expect(db.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: USER_ID, action: 'refresh_token_reused', resource: sessionId }),
+      });
+
+      // The legitimate holder's newer token dies with the session
+      await expect(service.rotate(rotated.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+      await expect(service.isActive(sessionId)).resolves.toBe(false);
+    });
+
+    it('lets only one of two concurrent refreshes with the same token win', async () => {
+      const { refreshToken } = await signIn();
+
+      const results = await Promise.allSettled([service.rotate(refreshToken), service.rotate(refreshToken)]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(sessions[0].revokedReason).toBe('reuse_detected');
+    });
+
+    it('rejects an unknown token', async () => {
+      await expect(service.rotate('not-a-token')).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('rejects a token from a signed-out session', async () => {
+      const { refreshToken } = await signIn();
+      await service.endSession(refreshToken);
+
+      await expect(service.rotate(refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+      expect(sessions[0].revokedReason).toBe('logout');
+    });
+
+    it('rejects a token from an expired session', async () => {
+      const { refreshToken } = await signIn();
+      sessions[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.rotate(refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+      expect(db.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('signs out every other session of the user', async () => {
+      const current = await signIn();
+      await signIn();
+      await signIn();
+      sessions.push({ id: 'ses_other_user', userId: 'usr_other', expiresAt: new Date(Date.now() + 60000), revokedAt: null });
+
+      await expect(service.revokeAll(USER_ID, 'password_changed', current.sessionId)).resolves.toBe(2);
+
+      expect(sessions.map(session => session.revokedReason)).toEqual([undefined, 'password_changed', 'password_changed', undefined]);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { generateSecureToken } from '../utils/encryption';
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'reuse_detected' | 'password_changed' | 'password_reset';
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+export class SessionService {
+  /**
+   * Start a session for a sign-in and return its first refresh token.
+   */
+  async createSession(userId: string, client: SessionClient = {}) {
+    const refreshToken = this.newToken();
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        userAgent: client.userAgent?.substring(0, 500),
+        ipAddress: client.ipAddress,
+        expiresAt: this.expiry(),
+        refreshTokens: { create: { tokenHash: this.hashToken(refreshToken) } },
+      },
+    });
+
+    return { sessionId: session.id, refreshToken };
+  }
+
+  /**
+   * Swap a refresh token for a new one. A token is good for one use; seeing
+   * it again means it was copied, so the session is revoked for both holders.
+   */
+  async rotate(refreshToken: string, client: SessionClient = {}) {
+    const token = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!token || token.session.revokedAt || token.session.expiresAt < new Date()) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const nextToken = this.newToken();
+
+    // Claim the token atomically so two concurrent refreshes can't both win
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      await this.revokeSessions({ id: token.sessionId }, 'reuse_detected');
+      await prisma.auditLog.create({
+        data: {
+          userId: token.session.userId,
+          action: 'refresh_token_reused',
+          resource: token.sessionId,
+          details: { ipAddress: client.ipAddress, userAgent: client.userAgent },
+        },
+      });
+      logger.warn(`Refresh token reuse on session ${token.sessionId}; session revoked`);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    await prisma.session.update({
+      where: { id: token.sessionId },
+      data: {
+        lastUsedAt: new Date(),
+        expiresAt: this.expiry(),
+        ipAddress: client.ipAddress || token.session.ipAddress,
+        userAgent: client.userAgent?.substring(0, 500) || token.session.userAgent,
+        refreshTokens: { create: { tokenHash: this.hashToken(nextToken) } },
+      },
+    });
+
+    return { userId: token.session.userId, sessionId: token.sessionId, refreshToken: nextToken };
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+
+    return Boolean(session && !session.revokedAt && session.expiresAt > new Date());
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, userAgent: true, ipAddress: true, lastUsedAt: true, createdAt: true },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  // Sign out the device holding this refresh token; unknown tokens are ignored
+  async endSession(refreshToken: string) {
+    const token = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      select: { sessionId: true, session: { select: { userId: true } } },
+    });
+
+    if (!token) return null;
+
+    await this.revokeSessions({ id: token.sessionId }, 'logout');
+    return token.session.userId;
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const count = await this.revokeSessions({ id: sessionId, userId }, 'revoked');
+
+    if (count === 0) {
+      throw new AppError('Session not found', 404);
+    }
+  }
+
+  /**
+   * Sign the user out everywhere, optionally keeping the session the
+   * request came from.
+   */
+  async revokeAll(userId: string, reason: SessionRevokedReason, exceptSessionId?: string) {
+    return this.revokeSessions({
+      userId,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    }, reason);
+  }
+
+  private async revokeSessions(where: { id?: string | { not: string }; userId?: string }, reason: SessionRevokedReason) {
+    const { count } = await prisma.session.updateMany({
+      where: { ...where, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return count;
+  }
+
+  private expiry(): Date {
+    return new Date(Date.now() + this.durationMs(config.jwt.refreshExpiresIn));
+  }
+
+  // Same notation as JWT lifetimes: "7d", "12h", "30m", or plain seconds
+  private durationMs(value: string): number {
+    const match = /^(\d+)\s*([smhd])?$/.exec(String(value).trim());
+    if (!match) {
+      throw new Error(`Invalid duration: ${value}`);
+    }
+    return Number(match[1]) * DURATION_UNITS[match[2] || 's'];
+  }
+
+  private newToken(): string {
+    return generateSecureToken(48);
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const sessionService = new SessionService();
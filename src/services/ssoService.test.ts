@@ -0,0 +1,340 @@
+jest.mock('../config/database', () => ({
+  prisma: {
+    ssoDomain: { findFirst: jest.fn() },
+    ssoConnection: { findUnique: jest.fn(), upsert: jest.fn() },
+    ssoIdentity: { findUnique: jest.fn(), update: jest.fn(), create: jest.fn(), deleteMany: jest.fn() },
+    user: { findFirst: jest.fn(), create: jest.fn() },
+    organizationMember: { upsert: jest.fn() },
+    auditLog: { create: jest.fn() },
+  },
+}));
+jest.mock('../config/redis', () => {
+  const store = new Map<string, string>();
+  return {
+    redis: {
+      isReady: true,
+      set: jest.fn(async (key: string, value: string) => void store.set(key, value)),
+      getDel: jest.fn(async (key: string) => {
+        const value = store.get(key) ?? null;
+        store.delete(key);
+        return value;
+      }),
+    },
+  };
+});
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/encryption', () => ({
+  ...jest.requireActual('../utils/encryption'),
+  encrypt: (text: string) => `enc:${text}`,
+  decrypt: (text: string) => text.replace(/^enc:/, ''),
+  hashPassword: async () => 'hashed',
+}));
+
+import axios from 'axios';
+import { prisma } from '../config/database';
+import { MOCK_IDP_SAML_CERTIFICATE, MockIdentityProvider } from '../test/mockIdentityProvider';
+import { SsoService } from './ssoService';
+
+const ORGANIZATION_ID = 'org_5d1e';
+
+describe('SsoService sign-in', () => {
+  const idp = new MockIdentityProvider({ clientId: 'retell-sync', clientSecret: 'idp-secret' });
+  const service = new SsoService();
+  const db = prisma as any;
+  let connection: any;
+
+  beforeAll(() => idp.start());
+  afterAll(() => idp.stop());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    idp.idTokenOverrides = {};
+    idp.samlResponseOverrides = {};
+
+    const verifiedDomain = { id: 'dom_1', organizationId: ORGANIZATION_ID, domain: 'acme.test', verifiedAt: new Date() };
+    db.ssoDomain.findFirst.mockImplementation(async ({ where }) =>
+      where.domain === 'acme.test' ? { ...verifiedDomain, organization: { ssoConnection: connection } } : null
+    );
+    db.ssoConnection.findUnique.mockImplementation(async () => connection);
+    db.ssoIdentity.findUnique.mockResolvedValue(null);
+    db.user.findFirst.mockResolvedValue(null);
+    db.user.create.mockImplementation(async ({ data }) => ({ id: 'usr_new', email: data.email }));
+  });
+
+  describe('OpenID Connect', () => {
+    beforeEach(() => {
+      connection = {
+        id: 'sso_1',
+        organizationId: ORGANIZATION_ID,
+        protocol: 'oidc',
+        issuer: idp.issuer,
+        clientId: idp.clientId,
+        clientSecret: `enc:${idp.clientSecret}`,
+        defaultRole: 'editor',
+        enforced: true,
+      };
+    });
+
+    // What the browser does: follow the IdP redirect back to our callback
+    const signIn = async (email: string) => {
+      const { authUrl, state } = await service.startLogin(email);
+      const response = await axios.get(authUrl, { maxRedirects: 0, validateStatus: status => status === 302 });
+      const callback = new URL(response.headers.location);
+
+      return { state, code: callback.searchParams.get('code'), returnedState: callback.searchParams.get('state') };
+    };
+
+    it('sends the browser to the identity provider with PKCE and a nonce', async () => {
+      const { authUrl, state } = await service.startLogin('ada@acme.test');
+      const url = new URL(authUrl);
+
+      expect(url.origin + url.pathname).toBe(`${idp.issuer}/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toMatchObject({
+        response_type: 'code',
+        client_id: 'retell-sync',
+        state,
+        code_challenge_method: 'S256',
+        login_hint: 'ada@acme.test',
+      });
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+    });
+
+    it('provisions a new user into the organization', async () => {
+      idp.addUser({ sub: 'idp-ada', email: 'Ada@acme.test', given_name: 'Ada', family_name: 'Lovelace', email_verified: true });
+      const { state, code, returnedState } = await signIn('ada@acme.test');
+
+      expect(returnedState).toBe(state);
+      await expect(service.completeLogin({ code, state: returnedState }, state))
+        .resolves.toEqual({ userId: 'usr_new', email: 'ada@acme.test', organizationId: ORGANIZATION_ID });
+
+      expect(db.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ email: 'ada@acme.test', firstName: 'Ada', lastName: 'Lovelace' }),
+      }));
+      expect(db.ssoIdentity.create).toHaveBeenCalledWith({ data: { connectionId: 'sso_1', userId: 'usr_new', subject: 'idp-ada' } });
+      expect(db.organizationMember.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { organizationId: ORGANIZATION_ID, userId: 'usr_new', role: 'editor' },
+      }));
+    });
+
+    it('signs a returning user in by their subject', async () => {
+      db.ssoIdentity.findUnique.mockResolvedValue({ id: 'ident_1', user: { id: 'usr_ada', email: 'ada@acme.test' } });
+      const { state, code } = await signIn('ada@acme.test');
+
+      await expect(service.completeLogin({ code, state }, state)).resolves.toMatchObject({ userId: 'usr_ada' });
+      expect(db.user.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a callback in a browser that did not start the sign-in', async () => {
+      // The attacker's own callback URL, opened in the victim's browser
+      const attacker = await signIn('mallory@acme.test');
+      const victim = await service.startLogin('ada@acme.test');
+
+      await expect(service.completeLogin({ code: attacker.code, state: attacker.state }, victim.state))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Sign-in was started in another browser, please try again' });
+      await expect(service.completeLogin({ code: attacker.code, state: attacker.state }, undefined)).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.user.create).not.toHaveBeenCalled();
+    });
+
+    it('only accepts a state once', async () => {
+      const { state, code } = await signIn('ada@acme.test');
+      await service.completeLogin({ code, state }, state);
+
+      await expect(service.completeLogin({ code, state }, state))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Sign-in attempt expired, please try again' });
+    });
+
+    it.each([
+      ['a different nonce', { nonce: 'replayed' }],
+      ['another audience', { aud: 'someone-else' }],
+      ['another issuer', { iss: 'https://evil.test' }],
+      ['an expired token', { exp: Math.floor(Date.now() / 1000) - 3600 }],
+    ])('rejects an ID token with %s', async (_name, overrides) => {
+      idp.idTokenOverrides = overrides;
+      const { state, code } = await signIn('ada@acme.test');
+
+      await expect(service.completeLogin({ code, state }, state))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid ID token from the identity provider' });
+    });
+
+    it('rejects an unverified email address', async () => {
+      idp.addUser({ sub: 'idp-eve', email: 'eve@acme.test', email_verified: false });
+      const { state, code } = await signIn('eve@acme.test');
+
+      await expect(service.completeLogin({ code, state }, state)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('will not provision addresses outside the verified domains', async () => {
+      idp.addUser({ sub: 'idp-ada-personal', email: 'ada@personal.test', email_verified: true });
+      const { authUrl, state } = await service.startLogin('ada@acme.test');
+      // The IdP is free to return any address, whatever the login hint was
+      const response = await axios.get(authUrl.replace('login_hint=ada%40acme.test', 'login_hint=ada%40personal.test'), {
+        maxRedirects: 0,
+        validateStatus: status => status === 302,
+      });
+      const code = new URL(response.headers.location).searchParams.get('code');
+
+      await expect(service.completeLogin({ code, state }, state))
+        .rejects.toMatchObject({ statusCode: 403, message: 'ada@personal.test is not on a domain verified for this organization' });
+    });
+
+    it('reports a code the identity provider rejects', async () => {
+      const { state } = await signIn('ada@acme.test');
+
+      await expect(service.completeLogin({ code: 'not-a-code', state }, state))
+        .rejects.toMatchObject({ statusCode: 401, message: 'The identity provider rejected the sign-in' });
+    });
+  });
+
+  describe('SAML 2.0', () => {
+    beforeEach(() => {
+      connection = {
+        id: 'sso_2',
+        organizationId: ORGANIZATION_ID,
+        protocol: 'saml',
+        issuer: idp.samlEntityId,
+        ssoUrl: idp.samlSsoUrl,
+        certificate: MOCK_IDP_SAML_CERTIFICATE,
+        defaultRole: 'viewer',
+        enforced: false,
+      };
+    });
+
+    const formField = (html: string, name: string) =>
+      (new RegExp(`name="${name}" value="([^"]*)"`).exec(html)?.[1] || '').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+    // What the browser does: pick an address at the IdP, which posts the response back
+    const signIn = async (email: string) => {
+      const { authUrl, state } = await service.startLogin(email);
+      const page = (await axios.get(`${authUrl}&email=${encodeURIComponent(email)}`)).data as string;
+
+      return {
+        state,
+        action: /<form method="post" action="([^"]+)"/.exec(page)?.[1],
+        samlResponse: formField(page, 'SAMLResponse'),
+        relayState: formField(page, 'RelayState'),
+      };
+    };
+
+    it('sends an AuthnRequest with the state as RelayState', async () => {
+      const { authUrl, state } = await service.startLogin('ada@acme.test');
+      const url = new URL(authUrl);
+
+      expect(url.origin + url.pathname).toBe(idp.samlSsoUrl);
+      expect(url.searchParams.get('RelayState')).toBe(state);
+      expect(url.searchParams.get('SAMLRequest')).toBeTruthy();
+    });
+
+    it('provisions a new user from the signed assertion', async () => {
+      idp.addUser({ sub: 'saml-ada', email: 'ada@acme.test', given_name: 'Ada', family_name: 'Lovelace' });
+      const { state, action, samlResponse, relayState } = await signIn('ada@acme.test');
+
+      expect(action).toBe(SsoService.samlAcsUrl());
+      expect(relayState).toBe(state);
+      await expect(service.completeLogin({ samlResponse, state: relayState }, state))
+        .resolves.toEqual({ userId: 'usr_new', email: 'ada@acme.test', organizationId: ORGANIZATION_ID });
+
+      expect(db.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ email: 'ada@acme.test', firstName: 'Ada', lastName: 'Lovelace' }),
+      }));
+      expect(db.ssoIdentity.create).toHaveBeenCalledWith({ data: { connectionId: 'sso_2', userId: 'usr_new', subject: 'saml-ada' } });
+    });
+
+    it('refuses a response in a browser that did not start the sign-in', async () => {
+      const attacker = await signIn('mallory@acme.test');
+      const victim = await service.startLogin('ada@acme.test');
+
+      await expect(service.completeLogin({ samlResponse: attacker.samlResponse, state: attacker.relayState }, victim.state))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Sign-in was started in another browser, please try again' });
+    });
+
+    it('refuses a response issued for another sign-in', async () => {
+      const other = await signIn('mallory@acme.test');
+      const { state } = await service.startLogin('ada@acme.test');
+
+      await expect(service.completeLogin({ samlResponse: other.samlResponse, state }, state))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid SAML response from the identity provider' });
+    });
+
+    it('only accepts a response once', async () => {
+      const { state, samlResponse } = await signIn('ada@acme.test');
+      await service.completeLogin({ samlResponse, state }, state);
+
+      await expect(service.completeLogin({ samlResponse, state }, state))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Sign-in attempt expired, please try again' });
+    });
+
+    it.each([
+      ['an unsigned assertion', { unsigned: true }],
+      ['another audience', { audience: 'https://other-sp.test/metadata' }],
+      ['an email changed after signing', { alter: (xml: string) => xml.replace('mallory@acme.test', 'ada@acme.test') }],
+    ])('rejects %s', async (_name, overrides) => {
+      idp.samlResponseOverrides = overrides;
+      const { state, samlResponse } = await signIn('mallory@acme.test');
+
+      await expect(service.completeLogin({ samlResponse, state }, state))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid SAML response from the identity provider' });
+      expect(db.user.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses transient NameIDs, which cannot identify a returning user', async () => {
+      idp.samlResponseOverrides = { nameIdFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:transient' };
+      const { state, samlResponse } = await signIn('ada@acme.test');
+
+      await expect(service.completeLogin({ samlResponse, state }, state))
+        .rejects.toMatchObject({ statusCode: 401, message: 'The identity provider must send a persistent or email NameID' });
+    });
+
+    it('does not accept a SAML response for an OpenID Connect sign-in', async () => {
+      const { samlResponse } = await signIn('ada@acme.test');
+      connection = { ...connection, protocol: 'oidc', issuer: idp.issuer, clientId: idp.clientId, clientSecret: `enc:${idp.clientSecret}` };
+      const { state } = await service.startLogin('ada@acme.test');
+
+      await expect(service.completeLogin({ samlResponse, state }, state)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('publishes service provider metadata', () => {
+      const metadata = service.samlMetadata();
+
+      expect(metadata).toContain(`entityID="${SsoService.samlEntityId()}"`);
+      expect(metadata).toContain(`Location="${SsoService.samlAcsUrl()}"`);
+      expect(metadata).toContain('WantAssertionsSigned="true"');
+    });
+  });
+
+  describe('saving a SAML connection', () => {
+    const actor = { id: 'usr_owner', organizationId: ORGANIZATION_ID };
+    const input = {
+      protocol: 'saml' as const,
+      issuer: 'https://idp.acme.test/metadata',
+      ssoUrl: 'https://idp.acme.test/sso',
+      certificate: MOCK_IDP_SAML_CERTIFICATE,
+      defaultRole: 'viewer' as const,
+      enforced: false,
+    };
+
+    beforeEach(() => {
+      db.ssoConnection.findUnique.mockResolvedValue(null);
+    });
+
+    it('stores the certificate as PEM even when pasted without its armour', async () => {
+      const body = MOCK_IDP_SAML_CERTIFICATE.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, '');
+      await service.saveConnection(actor, { ...input, certificate: body });
+
+      expect(db.ssoConnection.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
+          protocol: 'saml',
+          issuer: 'https://idp.acme.test/metadata',
+          clientId: null,
+          clientSecret: null,
+          certificate: MOCK_IDP_SAML_CERTIFICATE,
+        }),
+      }));
+    });
+
+    it('rejects a certificate that does not parse', async () => {
+      await expect(service.saveConnection(actor, { ...input, certificate: 'not a certificate' }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'The signing certificate is not a valid X.509 certificate' });
+      expect(db.ssoConnection.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
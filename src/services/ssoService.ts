@@ -0,0 +1,749 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { CacheProvider, generateServiceProviderMetadata, Profile, SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import { SsoConnection } from '@prisma/client';
+import { prisma } from '../config/database';
+import { redis } from '../config/redis';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { encrypt, decrypt, hashPassword, generateSecureToken } from '../utils/encryption';
+import { OrganizationActor, OrganizationRole } from '../types';
+
+const STATE_PREFIX = 'sso-state';
+export const SSO_STATE_TTL_SECONDS = 600;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const VERIFICATION_PREFIX = 'retell-sync-verification';
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+// Where common IdPs put the address and name in a SAML assertion
+const SAML_EMAIL_ATTRIBUTES = ['email', 'mail', 'urn:oid:0.9.2342.19200300.100.1.3', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'];
+const SAML_GIVEN_NAME_ATTRIBUTES = ['givenName', 'firstName', 'urn:oid:2.5.4.42', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'];
+const SAML_FAMILY_NAME_ATTRIBUTES = ['sn', 'surname', 'lastName', 'urn:oid:2.5.4.4', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname'];
+const SAML_EMAIL_NAME_ID = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+const SAML_TRANSIENT_NAME_ID = 'urn:oasis:names:tc:SAML:2.0:nameid-format:transient';
+
+export type SsoProtocol = 'oidc' | 'saml';
+
+export interface SsoConnectionInput {
+  protocol: SsoProtocol;
+  issuer: string; // SAML: the IdP entity ID
+  clientId?: string; // OIDC
+  clientSecret?: string; // OIDC
+  ssoUrl?: string; // SAML
+  certificate?: string; // SAML
+  defaultRole: Exclude<OrganizationRole, 'owner'>;
+  enforced: boolean;
+}
+
+// What the identity provider sent back: a code for OIDC, a response for SAML
+export interface SsoCallback {
+  state: string;
+  code?: string;
+  samlResponse?: string;
+}
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// Who signed in, in OIDC claim names whichever protocol was used
+interface SsoClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  nonce?: string;
+}
+
+interface PendingLogin {
+  connectionId: string;
+  nonce?: string; // OIDC
+  codeVerifier?: string; // OIDC
+  requestId?: string; // SAML
+  requestedAt?: string; // SAML
+}
+
+/**
+ * Organization single sign-on over OpenID Connect (authorization code flow
+ * with PKCE) or SAML 2.0 (SP-initiated, signed assertions posted back).
+ * Email domains an organization proves it owns are routed to its identity
+ * provider, and only those addresses are provisioned or linked, so a
+ * connection can't claim accounts outside the organization.
+ */
+export class SsoService {
+  private metadataCache = new Map<string, { value: OidcMetadata; expiresAt: number }>();
+  private jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; expiresAt: number }>();
+
+  static redirectUri(): string {
+    return `${config.apiBaseUrl}/api/auth/sso/callback`;
+  }
+
+  // The metadata URL doubles as our entity ID, as most IdPs expect
+  static samlEntityId(): string {
+    return `${config.apiBaseUrl}/api/auth/sso/saml/metadata`;
+  }
+
+  static samlAcsUrl(): string {
+    return `${config.apiBaseUrl}/api/auth/sso/saml/acs`;
+  }
+
+  async getConnection(organizationId: string) {
+    const connection = await prisma.ssoConnection.findUnique({
+      where: { organizationId },
+      select: {
+        id: true,
+        protocol: true,
+        issuer: true,
+        clientId: true,
+        ssoUrl: true,
+        certificate: true,
+        defaultRole: true,
+        enforced: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return connection && {
+      ...connection,
+      redirectUri: SsoService.redirectUri(),
+      samlEntityId: SsoService.samlEntityId(),
+      samlAcsUrl: SsoService.samlAcsUrl(),
+    };
+  }
+
+  /**
+   * Create or update the organization's connection. The OIDC discovery
+   * document is fetched, or the SAML certificate parsed, first so a typo
+   * fails here rather than at sign-in.
+   */
+  async saveConnection(actor: OrganizationActor, data: SsoConnectionInput) {
+    const existing = await prisma.ssoConnection.findUnique({
+      where: { organizationId: actor.organizationId },
+    });
+
+    const protocolFields = data.protocol === 'saml'
+      ? this.samlFields(data)
+      : await this.oidcFields(data, existing);
+
+    if (data.enforced) {
+      const verifiedDomains = await prisma.ssoDomain.count({
+        where: { organizationId: actor.organizationId, verifiedAt: { not: null } },
+      });
+
+      if (verifiedDomains === 0) {
+        throw new AppError('Verify a domain before requiring single sign-on', 400);
+      }
+    }
+
+    const fields = {
+      ...protocolFields,
+      defaultRole: data.defaultRole,
+      enforced: data.enforced,
+    };
+
+    const connection = await prisma.ssoConnection.upsert({
+      where: { organizationId: actor.organizationId },
+      create: { ...fields, organizationId: actor.organizationId },
+      update: fields,
+    });
+
+    // Subjects are only unique per issuer, so links to the old one can't be trusted
+    if (existing && (existing.issuer !== fields.issuer || existing.protocol !== fields.protocol)) {
+      await prisma.ssoIdentity.deleteMany({ where: { connectionId: connection.id } });
+    }
+
+    await this.audit(actor.id, 'sso_connection_updated', actor.organizationId, {
+      protocol: fields.protocol,
+      issuer: fields.issuer,
+      defaultRole: data.defaultRole,
+      enforced: data.enforced,
+    });
+
+    return this.getConnection(actor.organizationId);
+  }
+
+  async deleteConnection(actor: OrganizationActor) {
+    const { count } = await prisma.ssoConnection.deleteMany({
+      where: { organizationId: actor.organizationId },
+    });
+
+    if (count === 0) {
+      throw new AppError('Single sign-on is not configured', 404);
+    }
+
+    await this.audit(actor.id, 'sso_connection_deleted', actor.organizationId, {});
+  }
+
+  async getDomains(organizationId: string) {
+    const domains = await prisma.ssoDomain.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return domains.map(domain => this.formatDomain(domain));
+  }
+
+  /**
+   * Claim an email domain. It routes sign-ins only once verified with a
+   * DNS TXT record, and only one organization can hold it verified.
+   */
+  async addDomain(actor: OrganizationActor, domain: string) {
+    const normalized = this.normalizeDomain(domain);
+
+    await this.assertDomainAvailable(actor.organizationId, normalized);
+
+    const existing = await prisma.ssoDomain.findUnique({
+      where: { organizationId_domain: { organizationId: actor.organizationId, domain: normalized } },
+    });
+
+    if (existing) {
+      throw new AppError('This domain has already been added', 409);
+    }
+
+    const created = await prisma.ssoDomain.create({
+      data: {
+        organizationId: actor.organizationId,
+        domain: normalized,
+        verificationToken: generateSecureToken(16),
+      },
+    });
+
+    await this.audit(actor.id, 'sso_domain_added', actor.organizationId, { domain: normalized });
+    return this.formatDomain(created);
+  }
+
+  async verifyDomain(actor: OrganizationActor, domainId: string) {
+    const domain = await this.findDomain(actor.organizationId, domainId);
+
+    if (domain.verifiedAt) {
+      return this.formatDomain(domain);
+    }
+
+    await this.assertDomainAvailable(actor.organizationId, domain.domain);
+
+    const expected = `${VERIFICATION_PREFIX}=${domain.verificationToken}`;
+    const records = await this.lookupTxt(domain.domain);
+
+    if (!records.includes(expected)) {
+      throw new AppError(`TXT record "${expected}" was not found on ${domain.domain}. DNS changes can take a while to appear.`, 400);
+    }
+
+    const verified = await prisma.ssoDomain.update({
+      where: { id: domain.id },
+      data: { verifiedAt: new Date() },
+    });
+
+    await this.audit(actor.id, 'sso_domain_verified', actor.organizationId, { domain: domain.domain });
+    return this.formatDomain(verified);
+  }
+
+  async removeDomain(actor: OrganizationActor, domainId: string) {
+    const domain = await this.findDomain(actor.organizationId, domainId);
+
+    await prisma.ssoDomain.delete({ where: { id: domain.id } });
+
+    await this.audit(actor.id, 'sso_domain_removed', actor.organizationId, { domain: domain.domain });
+  }
+
+  /**
+   * The connection sign-ins for this address go through, if its domain is
+   * verified by an organization that has single sign-on set up.
+   */
+  async findConnectionForEmail(email: string): Promise<SsoConnection | null> {
+    const domain = this.emailDomain(email);
+    if (!domain) return null;
+
+    const record = await prisma.ssoDomain.findFirst({
+      where: { domain, verifiedAt: { not: null }, organization: { ssoConnection: { isNot: null } } },
+      include: { organization: { select: { ssoConnection: true } } },
+    });
+
+    return record?.organization.ssoConnection || null;
+  }
+
+  /**
+   * Build the identity provider URL to send the browser to. The nonce and
+   * PKCE verifier (or SAML request ID) stay server-side until the callback;
+   * the state is also returned so the caller can pin it to the browser.
+   */
+  async startLogin(email: string): Promise<{ authUrl: string; state: string; protocol: SsoProtocol }> {
+    const connection = await this.findConnectionForEmail(email);
+
+    if (!connection) {
+      throw new AppError('Single sign-on is not set up for this email domain', 404);
+    }
+
+    if (!redis.isReady) {
+      throw new AppError('Single sign-on is temporarily unavailable', 503);
+    }
+
+    // SAML carries the state as the RelayState
+    const state = generateSecureToken(24);
+    const { authUrl, pending } = connection.protocol === 'saml'
+      ? await this.samlAuthorization(connection, state)
+      : await this.oidcAuthorization(connection, state, email);
+
+    await redis.set(`${STATE_PREFIX}:${state}`, JSON.stringify(pending), { EX: SSO_STATE_TTL_SECONDS });
+
+    return { authUrl, state, protocol: connection.protocol as SsoProtocol };
+  }
+
+  /**
+   * Handle the identity provider's callback: check the code or SAML
+   * response and return the user to sign in, provisioning them on first use.
+   * `browserState` is the state the browser was given at the start; without
+   * a match, someone else's callback could sign this browser in as them.
+   */
+  async completeLogin(callback: SsoCallback, browserState: string | undefined) {
+    if (!browserState || !this.safeEqual(browserState, callback.state)) {
+      throw new AppError('Sign-in was started in another browser, please try again', 400);
+    }
+
+    const stored = redis.isReady ? await redis.getDel(`${STATE_PREFIX}:${callback.state}`) : null;
+
+    if (!stored) {
+      throw new AppError('Sign-in attempt expired, please try again', 400);
+    }
+
+    const pending: PendingLogin = JSON.parse(stored);
+    const connection = await prisma.ssoConnection.findUnique({
+      where: { id: pending.connectionId },
+    });
+
+    if (!connection) {
+      throw new AppError('Single sign-on is no longer set up for this organization', 400);
+    }
+
+    let claims: SsoClaims;
+    if (connection.protocol === 'saml' && pending.requestId && callback.samlResponse) {
+      claims = await this.verifySamlResponse(connection, pending, callback.samlResponse);
+    } else if (connection.protocol === 'oidc' && pending.nonce && callback.code) {
+      const metadata = await this.discover(connection.issuer);
+      const idToken = await this.exchangeCode(connection, metadata, callback.code, pending.codeVerifier);
+      claims = await this.verifyIdToken(connection, metadata, idToken, pending.nonce);
+    } else {
+      // The connection changed protocol mid sign-in, or the IdP answered the wrong way
+      throw new AppError('Unexpected response from the identity provider, please try again', 400);
+    }
+
+    const user = await this.provisionUser(connection, claims);
+
+    return { userId: user.id, email: user.email, organizationId: connection.organizationId };
+  }
+
+  // Our SAML service provider metadata, for setting up the IdP
+  samlMetadata(): string {
+    return generateServiceProviderMetadata({
+      issuer: SsoService.samlEntityId(),
+      callbackUrl: SsoService.samlAcsUrl(),
+      identifierFormat: SAML_EMAIL_NAME_ID,
+      wantAssertionsSigned: true,
+    });
+  }
+
+  private async oidcAuthorization(connection: SsoConnection, state: string, email: string) {
+    const metadata = await this.discover(connection.issuer);
+    const pending: PendingLogin = {
+      connectionId: connection.id,
+      nonce: generateSecureToken(16),
+      codeVerifier: crypto.randomBytes(32).toString('base64url'),
+    };
+
+    const url = new URL(metadata.authorization_endpoint);
+    const params = {
+      response_type: 'code',
+      client_id: connection.clientId,
+      redirect_uri: SsoService.redirectUri(),
+      scope: 'openid email profile',
+      state,
+      nonce: pending.nonce,
+      code_challenge: crypto.createHash('sha256').update(pending.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+      login_hint: email,
+    };
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    return { authUrl: url.toString(), pending };
+  }
+
+  private async samlAuthorization(connection: SsoConnection, state: string) {
+    const pending: PendingLogin = {
+      connectionId: connection.id,
+      requestId: `_${crypto.randomBytes(20).toString('hex')}`,
+      requestedAt: new Date().toISOString(),
+    };
+
+    const authUrl = await this.samlClient(connection, pending).getAuthorizeUrlAsync(state, undefined, {});
+    return { authUrl, pending };
+  }
+
+  private async verifySamlResponse(connection: SsoConnection, pending: PendingLogin, samlResponse: string): Promise<SsoClaims> {
+    let profile: Profile;
+    try {
+      ({ profile } = await this.samlClient(connection, pending).validatePostResponseAsync({ SAMLResponse: samlResponse }));
+    } catch (error: any) {
+      logger.warn(`SAML response rejected for organization ${connection.organizationId}: ${error.message}`);
+      throw new AppError('Invalid SAML response from the identity provider', 401);
+    }
+
+    if (!profile?.nameID) {
+      throw new AppError('Invalid SAML response from the identity provider', 401);
+    }
+
+    // A transient ID changes every sign-in, so it can't identify a returning user
+    if (profile.nameIDFormat === SAML_TRANSIENT_NAME_ID) {
+      throw new AppError('The identity provider must send a persistent or email NameID', 401);
+    }
+
+    const email = this.samlAttribute(profile, SAML_EMAIL_ATTRIBUTES)
+      || (profile.nameIDFormat === SAML_EMAIL_NAME_ID ? profile.nameID : undefined);
+
+    if (!email) {
+      throw new AppError('The identity provider did not return a verified email address', 401);
+    }
+
+    return {
+      sub: profile.nameID,
+      email,
+      given_name: this.samlAttribute(profile, SAML_GIVEN_NAME_ATTRIBUTES),
+      family_name: this.samlAttribute(profile, SAML_FAMILY_NAME_ATTRIBUTES),
+    };
+  }
+
+  private samlAttribute(profile: Profile, names: string[]): string | undefined {
+    for (const name of names) {
+      const value = profile[name];
+      const first = Array.isArray(value) ? value[0] : value;
+      if (typeof first === 'string' && first.trim()) return first.trim();
+    }
+    return undefined;
+  }
+
+  private samlClient(connection: SsoConnection, pending: PendingLogin) {
+    // Only the request this pending login sent is accepted back, once
+    const requests: CacheProvider = {
+      saveAsync: async (key, value) => ({ value, createdAt: Date.now() }),
+      getAsync: async (key) => (key === pending.requestId ? pending.requestedAt : null),
+      removeAsync: async (key) => key,
+    };
+
+    return new SAML({
+      entryPoint: connection.ssoUrl,
+      issuer: SsoService.samlEntityId(),
+      callbackUrl: SsoService.samlAcsUrl(),
+      audience: SsoService.samlEntityId(),
+      idpIssuer: connection.issuer,
+      idpCert: connection.certificate,
+      identifierFormat: null, // Let the IdP pick; transient IDs are refused on the way back
+      disableRequestedAuthnContext: true,
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: false, // Many IdPs sign only the assertion
+      acceptedClockSkewMs: 60 * 1000,
+      validateInResponseTo: ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: SSO_STATE_TTL_SECONDS * 1000,
+      generateUniqueId: () => pending.requestId,
+      cacheProvider: requests,
+    });
+  }
+
+  private async oidcFields(data: SsoConnectionInput, existing: SsoConnection | null) {
+    if (!data.clientSecret && !existing?.clientSecret) {
+      throw new AppError('Client secret is required', 400);
+    }
+
+    const metadata = await this.discover(data.issuer, true);
+
+    return {
+      protocol: 'oidc',
+      issuer: metadata.issuer,
+      clientId: data.clientId,
+      ...(data.clientSecret ? { clientSecret: encrypt(data.clientSecret) } : {}),
+      ssoUrl: null,
+      certificate: null,
+    };
+  }
+
+  private samlFields(data: SsoConnectionInput) {
+    this.assertSecureUrl(data.ssoUrl, 'The sign-on URL');
+
+    return {
+      protocol: 'saml',
+      issuer: data.issuer.trim(),
+      clientId: null,
+      clientSecret: null,
+      ssoUrl: data.ssoUrl,
+      certificate: this.normalizeCertificate(data.certificate),
+    };
+  }
+
+  // IdPs often hand out the bare base64 body, without the PEM armour
+  private normalizeCertificate(certificate: string): string {
+    const body = certificate.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+    const pem = `-----BEGIN CERTIFICATE-----\n${(body.match(/.{1,64}/g) || []).join('\n')}\n-----END CERTIFICATE-----`;
+
+    try {
+      new crypto.X509Certificate(pem);
+    } catch (error) {
+      throw new AppError('The signing certificate is not a valid X.509 certificate', 400);
+    }
+    return pem;
+  }
+
+  private async exchangeCode(connection: SsoConnection, metadata: OidcMetadata, code: string, codeVerifier: string) {
+    const credentials = `${encodeURIComponent(connection.clientId)}:${encodeURIComponent(decrypt(connection.clientSecret))}`;
+
+    try {
+      const response = await axios.post(
+        metadata.token_endpoint,
+        new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: SsoService.redirectUri(),
+          code_verifier: codeVerifier,
+        }).toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Authorization: `Basic ${Buffer.from(credentials).toString('base64')}`,
+          },
+          timeout: 10000,
+        }
+      );
+
+      if (!response.data.id_token) {
+        throw new Error('No ID token in token response');
+      }
+      return response.data.id_token as string;
+    } catch (error: any) {
+      logger.warn(`SSO code exchange failed for organization ${connection.organizationId}:`, error.response?.data || error.message);
+      throw new AppError('The identity provider rejected the sign-in', 401);
+    }
+  }
+
+  private async verifyIdToken(connection: SsoConnection, metadata: OidcMetadata, idToken: string, nonce: string): Promise<SsoClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AppError('Invalid ID token from the identity provider', 401);
+    }
+
+    const key = await this.signingKey(metadata.jwks_uri, decoded.header.kid);
+
+    let claims: SsoClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        audience: connection.clientId,
+        issuer: connection.issuer,
+        clockTolerance: 60,
+      }) as SsoClaims;
+    } catch (error: any) {
+      logger.warn(`SSO ID token rejected for organization ${connection.organizationId}: ${error.message}`);
+      throw new AppError('Invalid ID token from the identity provider', 401);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new AppError('Invalid ID token from the identity provider', 401);
+    }
+
+    if (!claims.email || claims.email_verified === false) {
+      throw new AppError('The identity provider did not return a verified email address', 401);
+    }
+
+    return claims;
+  }
+
+  // Returning users are found by their IdP subject; new ones by email on a verified domain
+  private async provisionUser(connection: SsoConnection, claims: SsoClaims) {
+    const identity = await prisma.ssoIdentity.findUnique({
+      where: { connectionId_subject: { connectionId: connection.id, subject: claims.sub } },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    let user = identity?.user;
+
+    if (identity) {
+      await prisma.ssoIdentity.update({
+        where: { id: identity.id },
+        data: { lastLoginAt: new Date() },
+      });
+    } else {
+      const email = claims.email.toLowerCase();
+      const domain = await prisma.ssoDomain.findFirst({
+        where: { organizationId: connection.organizationId, domain: this.emailDomain(email), verifiedAt: { not: null } },
+      });
+
+      if (!domain) {
+        throw new AppError(`${email} is not on a domain verified for this organization`, 403);
+      }
+
+      user = await prisma.user.findFirst({
+        where: { email: { equals: email, mode: 'insensitive' } },
+        select: { id: true, email: true },
+      });
+
+      if (!user) {
+        // Sign-in goes through the identity provider, so the password is never handed out
+        user = await prisma.user.create({
+          data: {
+            email,
+            password: await hashPassword(generateSecureToken(32)),
+            firstName: claims.given_name,
+            lastName: claims.family_name,
+          },
+          select: { id: true, email: true },
+        });
+
+        await this.audit(user.id, 'sso_user_provisioned', connection.organizationId, { subject: claims.sub });
+      }
+
+      await prisma.ssoIdentity.create({
+        data: { connectionId: connection.id, userId: user.id, subject: claims.sub },
+      });
+
+      await this.audit(user.id, 'sso_identity_linked', connection.organizationId, { subject: claims.sub });
+    }
+
+    await prisma.organizationMember.upsert({
+      where: { organizationId_userId: { organizationId: connection.organizationId, userId: user.id } },
+      create: { organizationId: connection.organizationId, userId: user.id, role: connection.defaultRole },
+      update: {},
+    });
+
+    return user;
+  }
+
+  private async discover(issuer: string, refresh = false): Promise<OidcMetadata> {
+    const base = issuer.replace(/\/+$/, '');
+    this.assertSecureUrl(base, 'The issuer');
+
+    const cached = this.metadataCache.get(base);
+    if (cached && cached.expiresAt > Date.now() && !refresh) {
+      return cached.value;
+    }
+
+    let metadata: OidcMetadata;
+    try {
+      const response = await axios.get(`${base}/.well-known/openid-configuration`, { timeout: 10000 });
+      metadata = response.data;
+    } catch (error: any) {
+      throw new AppError(`Could not load the OpenID configuration for ${base}: ${error.message}`, 400);
+    }
+
+    if (!metadata?.issuer || metadata.issuer.replace(/\/+$/, '') !== base) {
+      throw new AppError('The OpenID configuration is for a different issuer', 400);
+    }
+
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      throw new AppError('The OpenID configuration is missing required endpoints', 400);
+    }
+
+    this.metadataCache.set(base, { value: metadata, expiresAt: Date.now() + METADATA_TTL_MS });
+    return metadata;
+  }
+
+  // Keys are cached; an unknown key id triggers one refetch in case the IdP rotated
+  private async signingKey(jwksUri: string, kid?: string) {
+    const find = (keys: crypto.JsonWebKey[]) =>
+      keys.find(key => key.use !== 'enc' && (kid ? key.kid === kid : true));
+
+    const cached = this.jwksCache.get(jwksUri);
+    let jwk = cached && cached.expiresAt > Date.now() ? find(cached.keys) : undefined;
+
+    if (!jwk) {
+      try {
+        const response = await axios.get(jwksUri, { timeout: 10000 });
+        const keys: crypto.JsonWebKey[] = response.data.keys || [];
+        this.jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + METADATA_TTL_MS });
+        jwk = find(keys);
+      } catch (error: any) {
+        logger.warn(`Failed to load SSO signing keys from ${jwksUri}: ${error.message}`);
+      }
+    }
+
+    if (!jwk) {
+      throw new AppError('Invalid ID token from the identity provider', 401);
+    }
+
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  // Plain http is allowed outside production so a local mock IdP can be used
+  private assertSecureUrl(url: string, name: string) {
+    if (!url.startsWith('https://') && (config.nodeEnv === 'production' || !url.startsWith('http://'))) {
+      throw new AppError(`${name} must use https`, 400);
+    }
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+
+  private async assertDomainAvailable(organizationId: string, domain: string) {
+    const claimed = await prisma.ssoDomain.findFirst({
+      where: { domain, verifiedAt: { not: null }, organizationId: { not: organizationId } },
+    });
+
+    if (claimed) {
+      throw new AppError('This domain is verified by another organization', 409);
+    }
+  }
+
+  private async findDomain(organizationId: string, domainId: string) {
+    const domain = await prisma.ssoDomain.findFirst({
+      where: { id: domainId, organizationId },
+    });
+
+    if (!domain) {
+      throw new AppError('Domain not found', 404);
+    }
+    return domain;
+  }
+
+  private async lookupTxt(domain: string): Promise<string[]> {
+    try {
+      const records = await dns.promises.resolveTxt(domain);
+      return records.map(chunks => chunks.join(''));
+    } catch (error: any) {
+      logger.debug(`TXT lookup for ${domain} failed: ${error.code || error.message}`);
+      return [];
+    }
+  }
+
+  private formatDomain(domain: { id: string; domain: string; verificationToken: string; verifiedAt: Date | null; createdAt: Date }) {
+    return {
+      id: domain.id,
+      domain: domain.domain,
+      verifiedAt: domain.verifiedAt,
+      createdAt: domain.createdAt,
+      verificationRecord: `${VERIFICATION_PREFIX}=${domain.verificationToken}`,
+    };
+  }
+
+  private normalizeDomain(domain: string): string {
+    return domain.trim().toLowerCase().replace(/\.$/, '');
+  }
+
+  private emailDomain(email: string): string | null {
+    const at = email.lastIndexOf('@');
+    return at > 0 ? this.normalizeDomain(email.substring(at + 1)) : null;
+  }
+
+  private async audit(userId: string, action: string, resource: string, details: any) {
+    await prisma.auditLog.create({
+      data: { userId, action, resource, details },
+    });
+  }
+}
+
+export const ssoService = new SsoService();
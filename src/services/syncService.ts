@@ -3,6 +3,7 @@ import { logger } from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
 import { webhookProcessor } from './webhookProcessor';
 import { addSyncJob, addEmailJob } from './jobQueue';
+import { campaignService } from './campaignService';
 
 export class SyncService {
   async processSyncEvent(syncEventId: string) {
@@ -41,8 +42,12 @@ export class SyncService {
       
       switch (syncEvent.eventType) {
         case 'webhook_received':
+        case 'redial':
           result = await webhookProcessor.triggerOutboundCall(syncEventId);
           break;
+        case 'campaign_call':
+          result = await campaignService.dialScheduledTarget(syncEventId);
+          break;
         case 'call_triggered':
           result = await this.handleCallTriggered(syncEvent);
           break;
@@ -54,7 +59,7 @@ export class SyncService {
       }
 
       // Send success notification if enabled
-      if (syncEvent.integration.user.successNotifications && result.success) {
+      if (syncEvent.integration.user.successNotifications && result.success && !result.deferred) {
         await this.sendSuccessNotification(syncEvent);
       }
 
@@ -164,7 +169,7 @@ export class SyncService {
     await addEmailJob(emailData);
   }
 
-  async getSyncEvents(userId: string, filters: {
+  async getSyncEvents(organizationId: string, filters: {
     integrationId?: string;
     status?: string;
     eventType?: string;
@@ -177,7 +182,7 @@ export class SyncService {
     const limit = Math.min(filters.limit || 20, 100);
     const skip = (page - 1) * limit;
 
-    const where: any = { userId };
+    const where: any = { organizationId };
 
     if (filters.integrationId) {
       where.integrationId = filters.integrationId;
@@ -223,9 +228,9 @@ export class SyncService {
     };
   }
 
-  async getSyncEventDetails(userId: string, syncEventId: string) {
+  async getSyncEventDetails(organizationId: string, syncEventId: string) {
     const syncEvent = await prisma.syncEvent.findFirst({
-      where: { id: syncEventId, userId },
+      where: { id: syncEventId, organizationId },
       include: {
         integration: {
           select: {
@@ -234,6 +239,10 @@ export class SyncService {
             crmAccount: { select: { provider: true, accountName: true } },
           },
         },
+        redials: {
+          select: { id: true, attemptNumber: true, status: true, toNumber: true, retellCallId: true, errorMessage: true, createdAt: true },
+          orderBy: { attemptNumber: 'asc' },
+        },
       },
     });
 
@@ -244,9 +253,9 @@ export class SyncService {
     return syncEvent;
   }
 
-  async retrySyncEvent(userId: string, syncEventId: string) {
+  async retrySyncEvent(organizationId: string, syncEventId: string) {
     const syncEvent = await prisma.syncEvent.findFirst({
-      where: { id: syncEventId, userId, status: 'failed' },
+      where: { id: syncEventId, organizationId, status: 'failed' },
     });
 
     if (!syncEvent) {
@@ -272,14 +281,14 @@ export class SyncService {
     return { success: true, message: 'Sync event queued for retry' };
   }
 
-  async exportSyncEvents(userId: string, filters: {
+  async exportSyncEvents(organizationId: string, filters: {
     integrationId?: string;
     status?: string;
     startDate?: Date;
     endDate?: Date;
     format: 'csv' | 'pdf';
   }) {
-    const where: any = { userId };
+    const where: any = { organizationId };
 
     if (filters.integrationId) where.integrationId = filters.integrationId;
     if (filters.status) where.status = filters.status;
@@ -353,7 +362,7 @@ export class SyncService {
     };
   }
 
-  async getIntegrationHealth(userId: string, integrationId: string) {
+  async getIntegrationHealth(organizationId: string, integrationId: string) {
     const [
       recentEvents,
       errorRate,
@@ -362,16 +371,16 @@ export class SyncService {
     ] = await Promise.all([
       prisma.syncEvent.findMany({
         where: {
-          userId,
+          organizationId,
           integrationId,
           createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }, // Last 24 hours
         },
         orderBy: { createdAt: 'desc' },
         take: 100,
       }),
-      this.calculateErrorRate(userId, integrationId),
-      this.calculateAverageProcessingTime(userId, integrationId),
-      prisma.syncEvent.count({ where: { userId, integrationId } }),
+      this.calculateErrorRate(organizationId, integrationId),
+      this.calculateAverageProcessingTime(organizationId, integrationId),
+      prisma.syncEvent.count({ where: { organizationId, integrationId } }),
     ]);
 
     const status = this.determineHealthStatus(recentEvents, errorRate);
@@ -387,18 +396,18 @@ export class SyncService {
     };
   }
 
-  private async calculateErrorRate(userId: string, integrationId: string): Promise<number> {
+  private async calculateErrorRate(organizationId: string, integrationId: string): Promise<number> {
     const [total, failed] = await Promise.all([
       prisma.syncEvent.count({
         where: {
-          userId,
+          organizationId,
           integrationId,
           createdAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }, // Last 7 days
         },
       }),
       prisma.syncEvent.count({
         where: {
-          userId,
+          organizationId,
           integrationId,
           status: 'failed',
           createdAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) },
@@ -409,10 +418,10 @@ export class SyncService {
     return total > 0 ? Math.round((failed / total) * 100) : 0;
   }
 
-  private async calculateAverageProcessingTime(userId: string, integrationId: string): Promise<number> {
+  private async calculateAverageProcessingTime(organizationId: string, integrationId: string): Promise<number> {
     const events = await prisma.syncEvent.findMany({
       where: {
-        userId,
+        organizationId,
         integrationId,
         status: 'completed',
         processedAt: { not: null },
@@ -0,0 +1,97 @@
+jest.mock('../config/database', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    auditLog: { create: jest.fn() },
+    recoveryCode: { count: jest.fn() },
+  },
+}));
+
+import { prisma } from '../config/database';
+import { TwoFactorService } from './twoFactorService';
+
+const USER_ID = 'usr_2f9b1c';
+
+describe('TwoFactorService.verifyLogin', () => {
+  const service = new TwoFactorService();
+  const db = prisma as any;
+  let user: { totpFailedAttempts: number; totpLockedUntil: Date | null };
+  let checkProof: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    user = { totpFailedAttempts: 0, totpLockedUntil: null };
+
+    db.user.findUnique.mockImplementation(async () => ({
+      password: 'hash',
+      totpSecret: 'encrypted-secret',
+      totpEnabledAt: new Date('2025-10-01T00:00:00Z'),
+      totpLockedUntil: user.totpLockedUntil,
+    }));
+    db.user.update.mockImplementation(async ({ data }) => {
+      if (data.totpFailedAttempts?.increment) {
+        user.totpFailedAttempts += data.totpFailedAttempts.increment;
+      } else {
+        Object.assign(user, data);
+      }
+      return { ...user };
+    });
+
+    checkProof = jest.spyOn(service as any, 'checkProof').mockResolvedValue(null);
+  });
+
+  const actions = () => db.auditLog.create.mock.calls.map(([{ data }]) => data.action);
+
+  it('clears the failure count after a good code', async () => {
+    await expect(service.verifyLogin(USER_ID, { code: '000000' })).rejects.toMatchObject({ statusCode: 401 });
+    checkProof.mockResolvedValue('totp');
+
+    await service.verifyLogin(USER_ID, { code: '123456' });
+
+    expect(user).toEqual({ totpFailedAttempts: 0, totpLockedUntil: null });
+    expect(actions()).toEqual(['two_factor_failed', 'two_factor_verified']);
+  });
+
+  it('locks the step after five failed codes', async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(service.verifyLogin(USER_ID, { code: '000000' })).rejects.toMatchObject({ statusCode: 401 });
+    }
+    await expect(service.verifyLogin(USER_ID, { code: '000000' }))
+      .rejects.toMatchObject({ statusCode: 429, message: 'Too many failed attempts. Try again in 15 minutes' });
+
+    expect(user.totpLockedUntil.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+    expect(actions().slice(-2)).toEqual(['two_factor_failed', 'two_factor_locked']);
+  });
+
+  it('rejects even a good code while locked', async () => {
+    user.totpLockedUntil = new Date(Date.now() + 60 * 1000);
+    checkProof.mockResolvedValue('totp');
+
+    await expect(service.verifyLogin(USER_ID, { code: '123456' }))
+      .rejects.toMatchObject({ statusCode: 429, message: 'Too many failed attempts. Try again in 1 minute' });
+    expect(checkProof).not.toHaveBeenCalled();
+  });
+
+  it('counts recovery codes against the same limit', async () => {
+    user.totpFailedAttempts = 4;
+
+    await expect(service.verifyLogin(USER_ID, { recoveryCode: 'abcde-fghij' })).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it('does not check codes from attempts already over the limit', async () => {
+    // Parallel requests that all passed the lock check before it was set
+    user.totpFailedAttempts = 5;
+    checkProof.mockResolvedValue('totp');
+
+    await expect(service.verifyLogin(USER_ID, { code: '123456' })).rejects.toMatchObject({ statusCode: 429 });
+    expect(checkProof).not.toHaveBeenCalled();
+  });
+
+  it('allows codes again once the lock has expired', async () => {
+    user.totpLockedUntil = new Date(Date.now() - 1000);
+    checkProof.mockResolvedValue('totp');
+
+    await service.verifyLogin(USER_ID, { code: '123456' });
+
+    expect(user.totpLockedUntil).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { comparePassword, decrypt, encrypt, generateSecureToken } from '../utils/encryption';
+import { Totp } from '../utils/totp';
+
+const ISSUER = 'Retell Sync';
+const RECOVERY_CODE_COUNT = 10;
+// Failed login codes allowed before the second step is locked
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export class TwoFactorService {
+  async getStatus(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    });
+
+    const recoveryCodesRemaining = user?.totpEnabledAt
+      ? await prisma.recoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return { enabled: Boolean(user?.totpEnabledAt), enabledAt: user?.totpEnabledAt, recoveryCodesRemaining };
+  }
+
+  /**
+   * Start enrolment with a fresh secret. Two-factor stays off until a code
+   * from the authenticator app is confirmed with `enable`.
+   */
+  async beginEnrolment(user: { id: string; email: string }) {
+    const current = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { totpEnabledAt: true },
+    });
+
+    if (current?.totpEnabledAt) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = Totp.generateSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: encrypt(secret), totpLastUsedStep: null },
+    });
+
+    return { secret, otpauthUrl: Totp.provisioningUri(secret, user.email, ISSUER) };
+  }
+
+  async enable(userId: string, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpSecret) {
+      throw new AppError('Start two-factor setup first', 400);
+    }
+
+    if (user.totpEnabledAt) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    if (!(await this.checkTotp(userId, user.totpSecret, code))) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date() },
+    });
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+    await this.audit(userId, 'two_factor_enabled');
+
+    return { recoveryCodes };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.enabledUser(userId);
+
+    if (!(await this.checkTotp(userId, user.totpSecret, code))) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+    await this.audit(userId, 'two_factor_recovery_codes_regenerated');
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn two-factor off. Takes the password and a current code or unused
+   * recovery code, so a stolen session alone can't remove it.
+   */
+  async reset(userId: string, password: string, proof: TwoFactorProof) {
+    const user = await this.enabledUser(userId);
+
+    if (!(await comparePassword(password, user.password))) {
+      throw new AppError('Password is incorrect', 400);
+    }
+
+    const method = await this.checkProof(userId, user.totpSecret, proof);
+    if (!method) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpFailedAttempts: 0, totpLockedUntil: null },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    await this.audit(userId, 'two_factor_reset', { method });
+  }
+
+  /**
+   * The second login step. Every attempt, good or bad, is audited. Failures
+   * are counted per user rather than per challenge, so logging in again for
+   * a fresh challenge doesn't reset them; too many lock the step for a while.
+   */
+  async verifyLogin(userId: string, proof: TwoFactorProof) {
+    const user = await this.enabledUser(userId);
+    this.assertNotLocked(user.totpLockedUntil);
+
+    // Count the attempt before checking it so parallel guesses can't all get in under the limit
+    const { totpFailedAttempts: attempt } = await prisma.user.update({
+      where: { id: userId },
+      data: { totpFailedAttempts: { increment: 1 } },
+      select: { totpFailedAttempts: true },
+    });
+
+    const method = attempt <= MAX_FAILED_ATTEMPTS ? await this.checkProof(userId, user.totpSecret, proof) : null;
+
+    if (!method) {
+      await this.audit(userId, 'two_factor_failed', { method: proof.recoveryCode ? 'recovery_code' : 'totp', attempt });
+
+      if (attempt >= MAX_FAILED_ATTEMPTS) {
+        const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+        await prisma.user.update({
+          where: { id: userId },
+          data: { totpFailedAttempts: 0, totpLockedUntil: lockedUntil },
+        });
+        await this.audit(userId, 'two_factor_locked', { lockedUntil: lockedUntil.toISOString() });
+        this.assertNotLocked(lockedUntil);
+      }
+
+      throw new AppError('Invalid authentication code', 401);
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpFailedAttempts: 0, totpLockedUntil: null },
+    });
+
+    if (method === 'recovery_code') {
+      const remaining = await prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+      await this.audit(userId, 'two_factor_recovery_code_used', { remaining });
+    } else {
+      await this.audit(userId, 'two_factor_verified', { method });
+    }
+  }
+
+  private async enabledUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true, totpSecret: true, totpEnabledAt: true, totpLockedUntil: true },
+    });
+
+    if (!user?.totpEnabledAt || !user.totpSecret) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+    return user;
+  }
+
+  private assertNotLocked(lockedUntil: Date | null) {
+    if (lockedUntil && lockedUntil.getTime() > Date.now()) {
+      const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000);
+      throw new AppError(`Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`, 429);
+    }
+  }
+
+  private async checkProof(userId: string, encryptedSecret: string, proof: TwoFactorProof): Promise<'totp' | 'recovery_code' | null> {
+    if (proof.recoveryCode) {
+      return (await this.consumeRecoveryCode(userId, proof.recoveryCode)) ? 'recovery_code' : null;
+    }
+    if (proof.code) {
+      return (await this.checkTotp(userId, encryptedSecret, proof.code)) ? 'totp' : null;
+    }
+    return null;
+  }
+
+  // Each code works once: the step it matched is recorded atomically
+  private async checkTotp(userId: string, encryptedSecret: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpLastUsedStep: true },
+    });
+
+    const match = Totp.verify(decrypt(encryptedSecret), code, user?.totpLastUsedStep ?? -1);
+    if (!match) return false;
+
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: match.step } }],
+      },
+      data: { totpLastUsedStep: match.step },
+    });
+    return count > 0;
+  }
+
+  private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = generateSecureToken(5);
+      return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+    });
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.recoveryCode.createMany({
+        data: codes.map(code => ({ userId, codeHash: this.hashRecoveryCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  // Codes are compared without case or the separator, however they're typed
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private async audit(userId: string, action: string, details?: any) {
+    await prisma.auditLog.create({
+      data: { userId, action, details },
+    });
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -80,6 +80,16 @@ export class WebhookManager {
     return `${base}/api/webhooks/retell/${integrationId}`;
   }
 
+  /**
+   * Generate the URL a CRM delivers change notifications to. Providers
+   * that can't sign or authenticate deliveries carry the token in the URL.
+   */
+  static generateCrmWebhookUrl(provider: string, integrationId: string, token?: string, baseUrl?: string): string {
+    const base = baseUrl || this.currentBaseUrl || process.env.API_BASE_URL;
+    const url = `${base}/api/webhooks/${provider}/${integrationId}`;
+    return token ? `${url}?token=${encodeURIComponent(token)}` : url;
+  }
+
   /**
    * Initialize webhook manager with current tunnel status
    */
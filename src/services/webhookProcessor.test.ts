@@ -0,0 +1,97 @@
+jest.mock('../config/database', () => ({
+  prisma: {
+    integration: { findUnique: jest.fn() },
+    webhookEvent: { create: jest.fn() },
+  },
+}));
+jest.mock('../config/redis', () => ({ redis: { isReady: false } }));
+jest.mock('../config/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./jobQueue', () => ({ addSyncJob: jest.fn() }));
+jest.mock('./oauthService', () => ({ oauthService: { getDecryptedAccessToken: jest.fn() } }));
+
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { oauthService } from './oauthService';
+import { WebhookProcessor } from './webhookProcessor';
+
+const INTEGRATION_ID = 'int_3e7a51';
+const RETELL_API_KEY = 'key_5d1f0c9b7a2e';
+const BODY = '{"event":"call_ended","call":{"call_id":"call_b81f","from_number":"+442079460958"}}';
+
+// Retell's x-retell-signature: v=<timestamp>,d=<hex HMAC-SHA256 of body + timestamp>
+const sign = (body: string, timestamp: number, key = RETELL_API_KEY) =>
+  `v=${timestamp},d=${crypto.createHmac('sha256', key).update(body + timestamp).digest('hex')}`;
+
+describe('WebhookProcessor.verifyRetellRequest', () => {
+  const processor = new WebhookProcessor();
+  const db = prisma as any;
+  const payload = JSON.parse(BODY);
+  let requireSignature: boolean;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    requireSignature = false;
+    db.integration.findUnique.mockImplementation(async ({ where }) => (where.id === INTEGRATION_ID
+      ? { id: INTEGRATION_ID, retellAccountId: 'acc_retell', requireSignature }
+      : null));
+    (oauthService.getDecryptedAccessToken as jest.Mock).mockResolvedValue(RETELL_API_KEY);
+  });
+
+  const verify = (signature: string | undefined, options: { body?: string; alwaysRequire?: boolean; integrationId?: string } = {}) =>
+    processor.verifyRetellRequest(
+      options.integrationId || INTEGRATION_ID,
+      Buffer.from(options.body ?? BODY),
+      signature,
+      payload,
+      options.alwaysRequire
+    );
+
+  const rejection = () => db.webhookEvent.create.mock.calls[0]?.[0].data;
+
+  it('accepts a signature over the raw body', async () => {
+    await expect(verify(sign(BODY, Date.now()))).resolves.toEqual({ valid: true });
+    expect(db.webhookEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body changed after signing', async () => {
+    const signature = sign(BODY, Date.now());
+
+    await expect(verify(signature, { body: BODY.replace('call_ended', 'call_analyzed') }))
+      .resolves.toEqual({ valid: false, reason: 'signature_mismatch' });
+    expect(rejection()).toMatchObject({ integrationId: INTEGRATION_ID, processed: false, rejectionReason: 'signature_mismatch' });
+  });
+
+  it('rejects a signature made with another key', async () => {
+    await expect(verify(sign(BODY, Date.now(), 'key_other'))).resolves.toMatchObject({ reason: 'signature_mismatch' });
+  });
+
+  it('rejects a replayed signature', async () => {
+    await expect(verify(sign(BODY, Date.now() - 6 * 60 * 1000))).resolves.toMatchObject({ reason: 'timestamp_out_of_range' });
+  });
+
+  it('rejects a malformed signature', async () => {
+    await expect(verify('sha256=abc')).resolves.toMatchObject({ reason: 'malformed_signature' });
+  });
+
+  it('accepts an unsigned request unless the integration requires signatures', async () => {
+    await expect(verify(undefined)).resolves.toEqual({ valid: true });
+
+    requireSignature = true;
+    await expect(verify(undefined)).resolves.toEqual({ valid: false, reason: 'missing_signature' });
+  });
+
+  it('never accepts an unsigned request where a signature is always required', async () => {
+    await expect(verify(undefined, { alwaysRequire: true })).resolves.toMatchObject({ reason: 'missing_signature' });
+  });
+
+  it('rejects requests for an unknown integration', async () => {
+    await expect(verify(sign(BODY, Date.now()), { integrationId: 'int_missing' }))
+      .resolves.toMatchObject({ reason: 'unknown_integration' });
+  });
+
+  it('rejects a signed request when the Retell key cannot be read', async () => {
+    (oauthService.getDecryptedAccessToken as jest.Mock).mockRejectedValue(new Error('Account not found'));
+
+    await expect(verify(sign(BODY, Date.now()))).resolves.toMatchObject({ reason: 'verification_key_unavailable' });
+  });
+});
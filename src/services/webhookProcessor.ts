@@ -3,15 +3,24 @@ import axios from 'axios';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
-import { retellService } from './retellService';
+import { retellService, RetellSignatureCheck } from './retellService';
 import { addSyncJob, WebhookJobData } from './jobQueue';
 import { businessLogicEngine } from './businessLogicEngine';
 import { fieldMappingService } from './fieldMappingService';
 import { pipedriveService } from './pipedriveService';
-import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { crmService } from './crmService';
+import { callLedgerService } from './callLedgerService';
+import { dealRoutingService } from './dealRoutingService';
+import { campaignService } from './campaignService';
+import { doNotCallService } from './doNotCallService';
+import { redialService } from './redialService';
+import { contactMatchingService } from './contactMatchingService';
+import { appointmentBookingService } from './appointmentBookingService';
 import { oauthService } from './oauthService';
-import { decrypt } from '../utils/encryption';
 import { DealTitleGenerator } from '../utils/dealTitleGenerator';
+import { CallingWindow } from '../utils/callingWindow';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { CallCrmObjects, CrmRecordRef, CallingWindowPolicy, RedialPolicy, ContactMatchingPolicy, AppointmentBookingPolicy } from '../types';
 
 export class WebhookProcessor {
   async processWebhook(data: WebhookJobData) {
@@ -27,16 +36,15 @@ export class WebhookProcessor {
         },
       });
 
-      // Find integration by webhook URL
-      const integration = await this.findIntegrationByWebhookUrl(data.integrationId);
+      const integration = await this.findActiveIntegration(data.integrationId);
       
       if (!integration || !integration.isActive) {
         logger.warn(`Webhook received for inactive/missing integration: ${data.integrationId}`);
         return { success: false, reason: 'Integration not found or inactive' };
       }
 
-      // Verify webhook signature
-      if (data.signature && !this.verifyWebhookSignature(data.payload, data.signature, integration.webhookSecret)) {
+      // Provider routes verify on receipt; anything else must carry a valid signature
+      if (!data.verified && (!data.signature || !this.verifyWebhookSignature(data.payload, data.signature, integration.webhookSecret))) {
         throw new AppError('Invalid webhook signature', 401);
       }
 
@@ -50,6 +58,7 @@ export class WebhookProcessor {
       const syncEvent = await prisma.syncEvent.create({
         data: {
           userId: integration.userId,
+          organizationId: integration.organizationId,
           integrationId: integration.id,
           eventType: 'webhook_received',
           status: 'pending',
@@ -79,12 +88,11 @@ export class WebhookProcessor {
     }
   }
 
-  private async findIntegrationByWebhookUrl(webhookUrl: string) {
-    // Extract webhook ID from URL or use direct lookup
+  private async findActiveIntegration(integrationId: string) {
     const integration = await prisma.integration.findFirst({
-      where: { 
-        webhookUrl: { contains: webhookUrl },
-        isActive: true 
+      where: {
+        id: integrationId,
+        isActive: true,
       },
       include: {
         retellAccount: true,
@@ -178,15 +186,40 @@ export class WebhookProcessor {
       // Map CRM data to Retell format
       const mappedData = this.mapCrmDataToRetell(
         syncEvent.sourceData,
-        Array.isArray(syncEvent.integration.fieldMappings) ? syncEvent.integration.fieldMappings : []
+        Array.isArray(syncEvent.integration.fieldMappings) ? syncEvent.integration.fieldMappings : [],
+        syncEvent.integration.defaultPhoneRegion
       );
 
-      // Extract phone number
-      const phoneNumber = this.extractPhoneNumber(mappedData);
+      // Extract phone number (redials may target an alternate number)
+      const phoneNumber = syncEvent.toNumber || this.extractPhoneNumber(mappedData, syncEvent.integration.defaultPhoneRegion);
       if (!phoneNumber) {
         throw new AppError('No valid phone number found in mapped data', 400);
       }
 
+      // Suppression check comes first: a blocked number is never rescheduled
+      const doNotCallField = (syncEvent.integration.callConfiguration as any)?.doNotCallField;
+      const dncEntry = await doNotCallService.checkOutboundCall(
+        { id: syncEvent.userId, organizationId: syncEvent.integration.organizationId },
+        phoneNumber,
+        syncEvent.integration.defaultPhoneRegion,
+        syncEvent.sourceData,
+        doNotCallField
+      );
+      if (dncEntry) {
+        return await this.blockOutboundCall(syncEvent, mappedData, dncEntry);
+      }
+
+      // Outside the callee's calling window the call is rescheduled, not dropped
+      const callingWindow = syncEvent.integration.callingWindow as unknown as CallingWindowPolicy;
+      if (callingWindow) {
+        const { timezone } = CallingWindow.resolveTimezone(callingWindow, phoneNumber, syncEvent.sourceData);
+        const window = CallingWindow.check(callingWindow, timezone);
+
+        if (!window.open) {
+          return await this.deferOutboundCall(syncEvent, mappedData, window.nextOpenAt, timezone);
+        }
+      }
+
       // Prepare call configuration
       const callConfigData = syncEvent.integration.callConfiguration as any;
       const callConfig = {
@@ -210,6 +243,8 @@ export class WebhookProcessor {
           status: 'completed',
           mappedData,
           retellCallId: callResult.call_id,
+          toNumber: phoneNumber,
+          errorMessage: null,
           processedAt: new Date(),
           eventType: 'call_triggered',
         },
@@ -234,7 +269,48 @@ export class WebhookProcessor {
     }
   }
 
-  private mapCrmDataToRetell(sourceData: any, fieldMappings: any[]): Record<string, any> {
+  private async blockOutboundCall(syncEvent: any, mappedData: Record<string, any>, entry: { phoneNumber: string; reason: string | null; source: string }) {
+    const reason = `Number ${entry.phoneNumber} is on the do-not-call list${entry.reason ? ` (${entry.reason})` : ''}`;
+
+    await prisma.syncEvent.update({
+      where: { id: syncEvent.id },
+      data: {
+        status: 'blocked',
+        mappedData,
+        errorMessage: reason,
+        processedAt: new Date(),
+      },
+    });
+
+    logger.info(`Outbound call for sync event ${syncEvent.id} blocked: ${reason}`);
+    return { success: false, blocked: true, reason };
+  }
+
+  private async deferOutboundCall(syncEvent: any, mappedData: Record<string, any>, nextOpenAt: Date | undefined, timezone: string) {
+    if (!nextOpenAt) {
+      throw new AppError(`No upcoming calling window for ${timezone}`, 400);
+    }
+
+    await prisma.syncEvent.update({
+      where: { id: syncEvent.id },
+      data: {
+        status: 'scheduled',
+        mappedData,
+        errorMessage: `Outside calling window (${timezone}); deferred until ${nextOpenAt.toISOString()}`,
+      },
+    });
+
+    await addSyncJob({
+      syncEventId: syncEvent.id,
+      integrationId: syncEvent.integrationId,
+      sourceData: syncEvent.sourceData,
+    }, nextOpenAt.getTime() - Date.now());
+
+    logger.info(`Outbound call for sync event ${syncEvent.id} deferred until ${nextOpenAt.toISOString()} (${timezone})`);
+    return { success: true, deferred: true, scheduledFor: nextOpenAt };
+  }
+
+  private mapCrmDataToRetell(sourceData: any, fieldMappings: any[], defaultRegion?: string): Record<string, any> {
     const mappedData: Record<string, any> = {};
 
     if (!fieldMappings || fieldMappings.length === 0) {
@@ -256,7 +332,7 @@ export class WebhookProcessor {
             transformedValue = String(sourceValue).toLowerCase();
             break;
           case 'phone_format':
-            transformedValue = retellService.formatPhoneNumber(String(sourceValue));
+            transformedValue = PhoneNormalizer.normalize(String(sourceValue), defaultRegion);
             break;
         }
 
@@ -269,14 +345,18 @@ export class WebhookProcessor {
     return mappedData;
   }
 
-  private extractPhoneNumber(mappedData: Record<string, any>): string | null {
+  /**
+   * First phone field that parses to a dialable number, in E.164. National
+   * numbers are read in the integration's default region.
+   */
+  private extractPhoneNumber(mappedData: Record<string, any>, defaultRegion?: string): string | null {
     // Try common phone field names
     const phoneFields = ['customer_phone', 'phone', 'phoneNumber', 'mobile', 'telephone'];
     
     for (const field of phoneFields) {
       if (mappedData[field]) {
-        const formatted = retellService.formatPhoneNumber(String(mappedData[field]));
-        if (this.isValidPhoneNumber(formatted)) {
+        const formatted = PhoneNormalizer.toE164(String(mappedData[field]), defaultRegion);
+        if (formatted) {
           return formatted;
         }
       }
@@ -285,12 +365,6 @@ export class WebhookProcessor {
     return null;
   }
 
-  private isValidPhoneNumber(phone: string): boolean {
-    // Basic phone number validation
-    const phoneRegex = /^\+[1-9]\d{1,14}$/;
-    return phoneRegex.test(phone);
-  }
-
   /**
    * Execute field mappings for Retell webhook data
    */
@@ -426,6 +500,80 @@ export class WebhookProcessor {
     }
   }
 
+  /**
+   * Check the Retell signature on an incoming webhook before any processing.
+   * Unsigned requests are accepted unless the integration requires signatures
+   * or the endpoint does (`alwaysRequire`, for endpoints that return CRM data);
+   * a signature that is present but fails verification is always rejected.
+   * Rejections are stored as unprocessed webhook events with the reason.
+   */
+  async verifyRetellRequest(
+    integrationId: string,
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    payload: any,
+    alwaysRequire: boolean = false
+  ): Promise<RetellSignatureCheck> {
+    const integration = await prisma.integration.findUnique({
+      where: { id: integrationId },
+      select: { id: true, retellAccountId: true, requireSignature: true },
+    });
+
+    if (!integration) {
+      return this.rejectRetellRequest(integrationId, payload, signature, 'unknown_integration');
+    }
+
+    if (!signature) {
+      if (integration.requireSignature || alwaysRequire) {
+        return this.rejectRetellRequest(integrationId, payload, signature, 'missing_signature');
+      }
+      logger.warn(`Unsigned Retell webhook accepted for integration ${integrationId}`);
+      return { valid: true };
+    }
+
+    if (!rawBody) {
+      return this.rejectRetellRequest(integrationId, payload, signature, 'raw_body_unavailable');
+    }
+
+    let apiKey: string;
+    try {
+      apiKey = await oauthService.getDecryptedAccessToken(integration.retellAccountId);
+    } catch (error) {
+      logger.error(`Retell API key unavailable for integration ${integrationId}:`, (error as Error).message);
+      return this.rejectRetellRequest(integrationId, payload, signature, 'verification_key_unavailable');
+    }
+
+    const result = retellService.verifyWebhookSignature(rawBody.toString('utf8'), signature, apiKey);
+    if (!result.valid) {
+      return this.rejectRetellRequest(integrationId, payload, signature, result.reason);
+    }
+
+    return result;
+  }
+
+  private async rejectRetellRequest(
+    integrationId: string,
+    payload: any,
+    signature: string | undefined,
+    reason: string
+  ): Promise<RetellSignatureCheck> {
+    logger.warn(`Rejected Retell webhook for integration ${integrationId}: ${reason}`);
+
+    await prisma.webhookEvent.create({
+      data: {
+        integrationId,
+        provider: 'retell',
+        eventType: payload?.event || payload?.event_type || 'unknown',
+        payload: payload ?? {},
+        signature,
+        processed: false,
+        rejectionReason: reason,
+      },
+    });
+
+    return { valid: false, reason };
+  }
+
   async handleRetellWebhook(integrationId: string, payload: any) {
     try {
       // Multi-tenant processing - always use user-specific integrations
@@ -438,7 +586,8 @@ export class WebhookProcessor {
               id: true,
               provider: true, 
               accessToken: true, 
-              accountName: true 
+              accountName: true,
+              instanceUrl: true,
             }
           }
         }
@@ -448,72 +597,77 @@ export class WebhookProcessor {
         throw new AppError('Integration not found', 404);
       }
 
+      const eventType = payload.event || payload.event_type || 'unknown';
+      const callId = payload.call?.call_id || payload.call_id;
+
       // Log Retell webhook event
-      await prisma.webhookEvent.create({
+      const webhookEvent = await prisma.webhookEvent.create({
         data: {
           integrationId,
           provider: 'retell',
-          eventType: payload.event || payload.event_type || 'unknown',
+          eventType,
           payload,
           processed: true,
         },
       });
 
-      // Process call_ended events with transcript (real call completion)
-      if (payload.call_status === 'ended' && payload.transcript) {
-        try {
-          await this.processRetellCallData(integration, payload);
-        } catch (error) {
-          logger.error(`Retell call processing failed for integration ${integrationId}:`, error);
-        }
+      // Free the campaign's concurrency slot if this call was dialled by one
+      await campaignService.recordCallEvent(callId, eventType, payload.call);
+
+      // Retell retries webhooks, so claim the call/event before touching the CRM
+      const claim = callId
+        ? await callLedgerService.claim(integrationId, callId, eventType, webhookEvent.id)
+        : null;
+
+      if (claim?.status === 'in_progress') {
+        return { success: true, duplicate: true };
       }
 
+      if (claim?.status === 'in_review') {
+        return { success: true, needsReview: true };
+      }
+
+      // Outbound calls we placed carry their attempt number for redials
+      const outboundEvent = callId
+        ? await prisma.syncEvent.findFirst({ where: { integrationId, retellCallId: callId, eventType: { not: 'contact_match' } } })
+        : null;
+
       // Execute business logic workflows for call_analyzed events
-      if (payload.event === 'call_analyzed' || payload.event_type === 'call_analyzed') {
+      if (eventType === 'call_analyzed') {
+        const crmObjects: CallCrmObjects = { ...claim?.crmObjects };
+
         try {
-          // Process Retell call data first (creates Pipedrive activities)
-          // Debug OAuth token decryption
-          console.log(`🔍 DEBUG: CRM Account ID: ${integration.crmAccount.id}`);
-          console.log(`🔍 DEBUG: CRM Account Provider: ${integration.crmAccount.provider}`);
-          
-          try {
-            const accessToken = await oauthService.getDecryptedAccessToken(integration.crmAccount.id);
-            console.log(`🔍 DEBUG: Decrypted token length: ${accessToken?.length || 'null'}`);
-            console.log(`🔍 DEBUG: Decrypted token preview: ${accessToken?.substring(0, 10) || 'null'}...`);
-            
-            const integrationWithAccounts = {
-              ...integration,
-              accounts: [{
-                provider: integration.crmAccount.provider,
-                accessToken: accessToken
-              }]
-            };
-            await this.processRetellCallData(integrationWithAccounts, payload);
-          } catch (error) {
-            console.error(`❌ DEBUG: OAuth decryption failed:`, error);
-            // Fallback to env token for debugging
-            console.log(`🔄 DEBUG: Using fallback env token`);
-            const integrationWithAccounts = {
-              ...integration,
-              accounts: [{
-                provider: integration.crmAccount.provider,
-                accessToken: process.env.PIPEDRIVE_ACCESS_TOKEN
-              }]
-            };
-            await this.processRetellCallData(integrationWithAccounts, payload);
+          // Sync the call into the connected CRM (contact → activity → deal → note → meeting)
+          const accessToken = await this.getCrmAccessToken(integration.crmAccount);
+          const outcome = await this.processRetellCallData(integration, payload, accessToken, crmObjects, outboundEvent);
+
+          if (outcome === 'needs_review') {
+            // Workflows and field mappings run once the contact has been picked
+            if (claim) await callLedgerService.holdForReview(claim.entryId, crmObjects);
+          } else if (claim?.status === 'replay') {
+            // Workflows and field mappings create records without a ledger, so only run them once
+            logger.info(`Skipping workflows for replayed call ${callId} on integration ${integrationId}`);
+          } else {
+            await this.runCallWorkflows(integrationId, payload);
           }
-          
-          // Execute business logic workflows (templates-based)
-          const businessLogicResult = await businessLogicEngine.executeWorkflows(integrationId, payload);
-          logger.info(`Business logic executed for integration ${integrationId}:`, businessLogicResult);
-          
-          // Execute field mapping transformations
-          await this.executeFieldMappings(integrationId, payload);
+
+          if (claim && outcome !== 'needs_review') await callLedgerService.complete(claim.entryId, crmObjects);
           
         } catch (error) {
           logger.error(`Business logic execution failed for integration ${integrationId}:`, error);
+          if (claim) await callLedgerService.fail(claim.entryId, crmObjects, error);
           // Don't throw here - we still want to log the webhook event
         }
+      } else if (claim) {
+        await callLedgerService.complete(claim.entryId, claim.crmObjects);
+      }
+
+      if (outboundEvent && claim?.status !== 'replay' && ['call_ended', 'call_analyzed'].includes(eventType)) {
+        try {
+          await redialService.scheduleRedial(integration, outboundEvent, payload.call, eventType);
+        } catch (error) {
+          logger.error(`Failed to schedule redial for call ${callId}:`, error);
+        }
       }
 
       // Update sync event if call ID is present
@@ -545,15 +699,85 @@ export class WebhookProcessor {
     }
   }
 
-  private async processRetellCallData(integration: any, payload: any) {
+  /**
+   * Finish a call held for contact review: sync it against the contact the
+   * user picked (or a new one when contactId is null), then run the
+   * workflows and field mappings that were paused with it.
+   */
+  async resumeReviewedCall(syncEvent: { id: string; integrationId: string; retellCallId: string; eventType: string; attemptNumber: number }, contactId: string | null) {
+    const entry = await callLedgerService.findHeldForReview(syncEvent.integrationId, syncEvent.retellCallId);
+    if (!entry?.webhookEvent) {
+      throw new AppError('This call is no longer waiting for review', 409);
+    }
+
+    if (!await callLedgerService.claimHeldForReview(entry.id)) {
+      throw new AppError('This call is already being resumed', 409);
+    }
+
+    const integration = await prisma.integration.findUnique({
+      where: { id: syncEvent.integrationId },
+      include: { crmAccount: { select: { id: true, provider: true, accessToken: true, accountName: true, instanceUrl: true } } },
+    });
+
+    const payload = entry.webhookEvent.payload as any;
+    const crmObjects: CallCrmObjects = { ...await callLedgerService.getCrmObjects(integration.id, syncEvent.retellCallId) };
+    const outboundEvent = syncEvent.eventType === 'contact_match' ? null : syncEvent;
+
+    try {
+      const accessToken = await this.getCrmAccessToken(integration.crmAccount);
+      await this.processRetellCallData(integration, payload, accessToken, crmObjects, outboundEvent, { contactId });
+      await this.runCallWorkflows(integration.id, payload);
+      await callLedgerService.complete(entry.id, crmObjects);
+    } catch (error) {
+      // Back into the queue; a contact created before the failure is reused next time
+      await callLedgerService.holdForReview(entry.id, crmObjects);
+      throw error;
+    }
+
+    logger.info(`Resumed call ${syncEvent.retellCallId} after contact review (contact ${crmObjects.contactId})`);
+    return crmObjects;
+  }
+
+  private async runCallWorkflows(integrationId: string, payload: any) {
+    // Execute business logic workflows (templates-based)
+    const businessLogicResult = await businessLogicEngine.executeWorkflows(integrationId, payload);
+    logger.info(`Business logic executed for integration ${integrationId}:`, businessLogicResult);
+
+    // Execute field mapping transformations
+    await this.executeFieldMappings(integrationId, payload);
+  }
+
+  private async getCrmAccessToken(crmAccount: { id: string; provider: string }): Promise<string> {
+    try {
+      return await oauthService.getDecryptedAccessToken(crmAccount.id);
+    } catch (error) {
+      // Legacy fallback for Pipedrive setups configured through the environment
+      if (crmAccount.provider === 'pipedrive' && process.env.PIPEDRIVE_ACCESS_TOKEN) {
+        logger.warn(`Using PIPEDRIVE_ACCESS_TOKEN fallback for CRM account ${crmAccount.id}`);
+        return process.env.PIPEDRIVE_ACCESS_TOKEN;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a Retell call into the connected CRM. IDs of the records created are
+   * written to `crmObjects`; IDs already present there (from an earlier delivery
+   * of the same call) are updated instead of created again. Returns
+   * 'needs_review' without touching the CRM when the contact is ambiguous,
+   * unless `review` already says which contact to use.
+   */
+  private async processRetellCallData(
+    integration: any,
+    payload: any,
+    accessToken: string,
+    crmObjects: CallCrmObjects,
+    outboundEvent?: { id: string; attemptNumber: number } | null,
+    review?: { contactId: string | null }
+  ): Promise<'synced' | 'needs_review'> {
     logger.info(`🔄 Processing Retell call data for integration ${integration.id}`);
     
-    // Find Pipedrive account
-    const pipedriveAccount = integration.accounts?.find((acc: any) => acc.provider === 'pipedrive');
-    if (!pipedriveAccount) {
-      logger.warn('No Pipedrive account found for integration');
-      return;
-    }
+    const crm = crmService.getAdapter(integration.crmAccount);
 
     // Handle nested payload structure - data is under payload.call
     const callData = payload.call || payload;
@@ -569,131 +793,145 @@ export class WebhookProcessor {
     const titleComponents = DealTitleGenerator.extractComponents(callData);
     const extractedName = titleComponents.name;
     
+    const knownName = extractedName || callData.retell_llm_dynamic_variables?.name;
     const contactData = {
-      name: extractedName || callData.retell_llm_dynamic_variables?.name || (isInbound ? 'Inbound Caller' : 'Outbound Contact'),
-      phone: callData.retell_llm_dynamic_variables?.phone || contactPhone,
+      name: knownName || (isInbound ? 'Inbound Caller' : 'Outbound Contact'),
+      phone: PhoneNormalizer.normalize(callData.retell_llm_dynamic_variables?.phone || contactPhone, integration.defaultPhoneRegion),
       email: callData.retell_llm_dynamic_variables?.email,
-      direction: callData.direction
     };
 
-    logger.info(`📞 Processing call for contact:`, contactData);
+    logger.info(`📞 Processing call for ${integration.crmAccount.provider} contact:`, contactData);
 
     try {
-      // Step 1: Try to find existing contact by phone
-      let personId = await this.findContactByPhone(contactData.phone, pipedriveAccount.accessToken);
-      
-      // Step 2: If no phone match, try email
-      if (!personId && contactData.email) {
-        personId = await this.findContactByEmail(contactData.email, pipedriveAccount.accessToken);
-      }
-      
-      // Step 3: Create new contact if no match found
-      if (!personId) {
-        personId = await this.createNewContact(contactData, pipedriveAccount.accessToken);
-      } else {
-        logger.info(`✅ Found existing contact, person_id: ${personId}`);
-      }
+      let contact: CrmRecordRef | null = crmObjects.contactId ? { id: crmObjects.contactId } : null;
 
-      // Step 4: Create call activity
-      const callDateTime = new Date(callData.start_timestamp);
-      const callDate = callDateTime.toLocaleString('en-GB', {
-        timeZone: 'Europe/London',
-        year: 'numeric',
-        month: '2-digit', 
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false
-      });
-      const durationSeconds = Math.round(callData.duration_ms / 1000);
-      
-      // Handle voicemail vs regular calls
-      let note;
-      if (callData.call_analysis?.in_voicemail === true) {
-        // Voicemail call - different formatting
-        // Get agent name for notes
-        const agentName = callData.agent_name || callData.agent_id || 'Unknown Agent';
-        
-        note = `📞 <strong>CALL DETAILS:</strong><br>
-Agent: <strong>${agentName}</strong><br>
-Duration: ${Math.floor(durationSeconds / 60)} minute${Math.floor(durationSeconds / 60) !== 1 ? 's' : ''} ${durationSeconds % 60 ? `${durationSeconds % 60} seconds` : ''}<br>
-Status: <strong>📞 Call not answered</strong><br>
-Recording: <a href="${callData.recording_url}" target="_blank">Download Recording</a><br><br>
-📝 <strong>CALL DETAILS:</strong><br><br>
-${callData.transcript || 'Call went unanswered - see recording for details'}`;
+      if (contact) {
+        logger.info(`♻️ Reusing contact from earlier delivery: ${contact.id}`);
+      } else if (review) {
+        contact = review.contactId ? { id: review.contactId } : await crm.upsertContact(accessToken, contactData);
+        logger.info(`👤 Using reviewed contact: ${contact.id}`);
       } else {
-        // Regular answered call - existing transcript formatting
-        const transcript = callData.transcript || 'No transcript available';
-        const formattedTranscript = transcript
-          .split('\n')
-          .map((line: string) => {
-            if (line.startsWith('Agent:')) {
-              return `🎧 <strong>Agent:</strong> ${line.replace('Agent:', '').trim()}`;
-            } else if (line.startsWith('User:')) {
-              return `👤 <strong>User:</strong> ${line.replace('User:', '').trim()}`;
-            }
-            return line.trim() ? line : ''; // Keep non-empty lines as is
-          })
-          .filter(line => line !== '') // Remove empty lines
-          .join('<br><br>'); // Double line breaks for spacing
+        // Step 1: Score every CRM contact that could be the person on the call
+        const decision = await contactMatchingService.findBestMatch(crm, accessToken, {
+          phone: contactData.phone,
+          email: contactData.email,
+          name: knownName,
+          company: callData.retell_llm_dynamic_variables?.company || callData.call_analysis?.custom_analysis_data?.company,
+        }, integration.contactMatching as ContactMatchingPolicy | null, {
+          defaultRegion: integration.defaultPhoneRegion,
+          ownerId: dealRoutingService.resolveDealRoute(integration, payload).ownerId,
+        });
 
-        // Get agent name for notes
-        const agentName = callData.agent_name || callData.agent_id || 'Unknown Agent';
-        
-        note = `📞 <strong>CALL DETAILS:</strong><br>
-Agent: <strong>${agentName}</strong><br>
-Duration: ${Math.floor(durationSeconds / 60)} minute${Math.floor(durationSeconds / 60) !== 1 ? 's' : ''} ${durationSeconds % 60 ? `${durationSeconds % 60} seconds` : ''}<br>
-Recording: <a href="${callData.recording_url}" target="_blank">Download Recording</a><br><br>
-📝 <strong>TRANSCRIPT:</strong><br><br>
-${formattedTranscript}`;
+        // Several contacts fit equally well, so leave the choice to a user
+        if (decision.outcome === 'ambiguous' && callData.call_id) {
+          await contactMatchingService.recordDecision(integration, callData.call_id, outboundEvent?.id || null, decision);
+          logger.info(`⏸️ Call ${callData.call_id} needs contact review (${decision.tiedCandidateIds.length} candidates)`);
+          return 'needs_review';
+        }
+
+        // Step 2: Create new contact if no candidate scored high enough
+        if (decision.contactId) {
+          contact = { id: decision.contactId };
+          logger.info(`✅ Found existing contact: ${contact.id} (score ${decision.score})`);
+        } else {
+          contact = await crm.upsertContact(accessToken, contactData);
+          decision.contactId = contact.id;
+          logger.info(`🆕 Created new contact: ${contact.id}`);
+        }
+
+        // The audit trail must not fail the sync after a contact was created
+        if (callData.call_id) {
+          await contactMatchingService.recordDecision(integration, callData.call_id, outboundEvent?.id || null, decision)
+            .catch(error => logger.error(`Failed to record contact match for call ${callData.call_id}:`, error));
+        }
       }
+      crmObjects.contactId = contact.id;
 
-      const dueDate = callDateTime.toISOString().split('T')[0];
-      const dueTime = callDateTime.toISOString().split('T')[1].substring(0, 5);
+      // Step 3: Create call activity
+      const callDateTime = new Date(callData.start_timestamp);
+      const durationSeconds = Math.round(callData.duration_ms / 1000);
+      const note = this.formatCallActivityNote(callData, durationSeconds);
 
       // Set activity subject based on call outcome (no agent name in title)
       const callDirection = isInbound ? 'Inbound' : 'Outbound';
       const subject = callData.call_analysis?.in_voicemail === true 
         ? `${callDirection} Call: Unanswered`
         : `${callDirection} Call: Answered`;
-
-      const activityId = await this.createCallActivity({
-        person_id: personId,
-        note: note,
-        subject: subject,
-        type: 'call',
-        due_date: dueDate,
-        due_time: dueTime
-      }, pipedriveAccount.accessToken);
-
-      // Step 5: Create deal only if call was successful
-      let dealId = null;
+      // Redials get their own activity, numbered so the attempts read in order
+      const maxAttempts = (integration.redialPolicy as RedialPolicy | null)?.maxAttempts;
+      const attemptLabel = outboundEvent && maxAttempts
+        ? ` (attempt ${outboundEvent.attemptNumber} of ${maxAttempts})`
+        : '';
+
+      const activity = await crm.logCallActivity(accessToken, {
+        contactId: contact.id,
+        subject: subject + attemptLabel,
+        note,
+        startedAt: callDateTime,
+        durationSeconds,
+        direction: isInbound ? 'inbound' : 'outbound',
+      }, crmObjects.activityId);
+      crmObjects.activityId = activity.id;
+      logger.info(`📝 Logged call activity: ${activity.id}`);
+
+      // Step 4: Create deal only if call was successful
+      let dealId: string | null = null;
       if (callData.call_analysis?.call_successful === true) {
         // Generate smart deal title from call data
-        const dealTitle = DealTitleGenerator.generateDealTitle(callData);
+        const dealTitle = DealTitleGenerator.generateDealTitle(callData, integration.dealTitlePolicy);
+        const route = dealRoutingService.resolveDealRoute(integration, payload);
         
-        dealId = await this.createDeal({
-          person_id: personId,
+        const deal = await crm.upsertDeal(accessToken, {
+          contactId: contact.id,
           title: dealTitle,
-          value: 5000 // Default value
-        }, pipedriveAccount.accessToken, integration);
-        logger.info(`💰 Created deal: ${dealId}`);
+          value: route.value,
+          currency: route.currency,
+          pipelineId: route.pipelineId,
+          stageId: route.stageId,
+          ownerId: route.ownerId,
+        }, crmObjects.dealId);
+        dealId = deal.id;
+        crmObjects.dealId = dealId;
+        logger.info(`💰 Upserted deal: ${dealId}`);
         
-        // Step 6: Add call summary note to the deal
-        if (dealId && callData.call_analysis?.call_summary) {
-          await this.addDealNote(dealId, {
-            call_summary: callData.call_analysis.call_summary,
-            next_steps: callData.call_analysis.next_steps,
-            caller_name: extractedName,
-            caller_phone: contactPhone,
-            call_date: callDateTime.toLocaleString('en-GB', { timeZone: 'Europe/London' })
-          }, pipedriveAccount.accessToken);
+        // Step 5: Add call summary note to the deal
+        if (callData.call_analysis?.call_summary && !crmObjects.noteId) {
+          try {
+            const note = await crm.addNote(accessToken, {
+              dealId,
+              content: this.formatDealNote({
+                call_summary: callData.call_analysis.call_summary,
+                next_steps: callData.call_analysis.next_steps,
+                caller_name: extractedName,
+                caller_phone: contactPhone,
+                call_date: callDateTime.toLocaleString('en-GB', { timeZone: 'Europe/London' })
+              }),
+            });
+            crmObjects.noteId = note.id;
+          } catch (error) {
+            logger.error(`❌ Failed to add note to deal ${dealId}:`, error);
+            // Don't throw - note creation failure shouldn't break the entire process
+          }
         }
       } else {
         logger.info('🚫 Skipping deal creation (call was not successful)');
       }
 
-      logger.info(`🎉 Successfully processed Retell call - Contact: ${personId}, Activity: ${activityId}, Deal: ${dealId}`);
+      // Step 6: Book the appointment agreed on the call into the CRM calendar
+      const bookingPolicy = integration.appointmentBooking as AppointmentBookingPolicy | null;
+      if (bookingPolicy) {
+        const booking = await appointmentBookingService.bookFromCall(crm, accessToken, bookingPolicy, callData, {
+          contactId: contact.id,
+          contactName: knownName,
+          contactPhone: contactData.phone,
+          dealId: dealId || undefined,
+          ownerId: dealRoutingService.resolveDealRoute(integration, payload).ownerId,
+        }, crmObjects.meetingId);
+        if (booking.meetingId) crmObjects.meetingId = booking.meetingId;
+      }
+
+      logger.info(`🎉 Successfully processed Retell call - Contact: ${contact.id}, Activity: ${activity.id}, Deal: ${dealId}`);
+      return 'synced';
       
     } catch (error) {
       logger.error('Failed to process Retell call data:', error);
@@ -701,200 +939,64 @@ ${formattedTranscript}`;
     }
   }
 
-  private async findContactByPhone(phone: string, accessToken: string): Promise<number | null> {
-    if (!phone) {
-      logger.info('📞 No phone number provided for search');
-      return null;
-    }
-    
-    // Generate all possible phone number variations
-    const variations = PhoneNormalizer.generateVariations(phone);
-    logger.info(`📞 Searching with ${variations.length} phone variations: ${variations.map(v => v.format).join(', ')}`);
-    
-    // Try each variation until we find a match
-    for (const variation of variations) {
-      try {
-        logger.info(`📞 Trying phone format: ${variation.format} (${variation.description})`);
-        
-        const response = await axios.get('https://api.pipedrive.com/v1/persons/search', {
-          params: {
-            term: variation.format,
-            fields: 'phone'
-          },
-          headers: {
-            'Authorization': `Bearer ${accessToken}`
-          }
-        });
-
-        if (response.data?.success && response.data?.data?.items?.length > 0) {
-          const personId = response.data.data.items[0].item.id;
-          const name = response.data.data.items[0].item.name;
-          logger.info(`📞 ✅ Found existing contact by phone: ${personId} (${name}) using format: ${variation.format}`);
-          return personId;
-        }
-      } catch (error) {
-        logger.warn(`📞 Phone search failed for variation ${variation.format}:`, error instanceof Error ? error.message : 'Unknown error');
-        continue; // Try next variation
-      }
-    }
-    
-    logger.info('📞 No contact found with any phone variation');
-    return null;
-  }
+  private formatCallActivityNote(callData: any, durationSeconds: number): string {
+    // Get agent name for notes
+    const agentName = callData.agent_name || callData.agent_id || 'Unknown Agent';
+    const minutes = Math.floor(durationSeconds / 60);
+    const duration = `${minutes} minute${minutes !== 1 ? 's' : ''} ${durationSeconds % 60 ? `${durationSeconds % 60} seconds` : ''}`;
 
-  private async findContactByEmail(email: string, accessToken: string): Promise<number | null> {
-    try {
-      const response = await axios.get('https://api.pipedrive.com/v1/persons/search', {
-        params: {
-          term: email,
-          fields: 'email'
-        },
-        headers: {
-          'Authorization': `Bearer ${accessToken}`
-        }
-      });
-
-      if (response.data?.success && response.data?.data?.items?.length > 0) {
-        const personId = response.data.data.items[0].item.id;
-        const name = response.data.data.items[0].item.name;
-        logger.info(`📧 Found existing contact by email: ${personId} (${name})`);
-        return personId;
-      }
-      return null;
-    } catch (error) {
-      logger.error('Email search failed:', error);
-      return null;
+    // Handle voicemail vs regular calls
+    if (callData.call_analysis?.in_voicemail === true) {
+      return `📞 <strong>CALL DETAILS:</strong><br>
+Agent: <strong>${agentName}</strong><br>
+Duration: ${duration}<br>
+Status: <strong>📞 Call not answered</strong><br>
+Recording: <a href="${callData.recording_url}" target="_blank">Download Recording</a><br><br>
+📝 <strong>CALL DETAILS:</strong><br><br>
+${callData.transcript || 'Call went unanswered - see recording for details'}`;
     }
-  }
-
-  private async createNewContact(contactData: any, accessToken: string): Promise<number> {
-    const response = await axios.post('https://api.pipedrive.com/v1/persons', {
-      name: contactData.name,
-      phone: contactData.phone,
-      email: contactData.email
-    }, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
-      }
-    });
-
-    const personId = response.data.data.id;
-    logger.info(`🆕 Created new contact: ${personId}`);
-    return personId;
-  }
 
-  private async createCallActivity(activityData: any, accessToken: string): Promise<number> {
-    const response = await axios.post('https://api.pipedrive.com/v1/activities', {
-      person_id: activityData.person_id,
-      subject: activityData.subject,
-      note: activityData.note,
-      type: activityData.type,
-      due_date: activityData.due_date,
-      due_time: activityData.due_time,
-      done: true
-    }, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
-      }
-    });
-
-    const activityId = response.data.data.id;
-    logger.info(`📝 Created activity: ${activityId}`, {
-      person_id: activityData.person_id,
-      subject: activityData.subject,
-      type: activityData.type,
-      due_date: activityData.due_date,
-      due_time: activityData.due_time,
-      pipedrive_response: response.data
-    });
-    return activityId;
-  }
-
-  private async createDeal(dealData: any, accessToken: string, integration?: any): Promise<number> {
-    const dealPayload: any = {
-      person_id: dealData.person_id,
-      title: dealData.title,
-      value: dealData.value,
-      currency: 'GBP',
-      status: 'open'
-    };
-
-    // Add pipeline and stage from integration configuration if available
-    if (integration?.callConfiguration) {
-      try {
-        const config = integration.callConfiguration;
-        
-        if (config.selectedPipelineId) {
-          dealPayload.pipeline_id = parseInt(config.selectedPipelineId);
-          logger.info(`💼 Using configured pipeline: ${config.selectedPipelineId}`);
+    // Regular answered call - existing transcript formatting
+    const transcript = callData.transcript || 'No transcript available';
+    const formattedTranscript = transcript
+      .split('\n')
+      .map((line: string) => {
+        if (line.startsWith('Agent:')) {
+          return `🎧 <strong>Agent:</strong> ${line.replace('Agent:', '').trim()}`;
+        } else if (line.startsWith('User:')) {
+          return `👤 <strong>User:</strong> ${line.replace('User:', '').trim()}`;
         }
-        
-        if (config.selectedStageId) {
-          dealPayload.stage_id = parseInt(config.selectedStageId);
-          logger.info(`📍 Using configured stage: ${config.selectedStageId}`);
-        }
-      } catch (error) {
-        logger.warn('Failed to parse integration config for pipeline/stage selection:', error);
-      }
-    }
-
-    logger.info(`💰 Creating deal with payload:`, dealPayload);
-
-    const response = await axios.post('https://api.pipedrive.com/v1/deals', dealPayload, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
-      }
-    });
+        return line.trim() ? line : ''; // Keep non-empty lines as is
+      })
+      .filter((line: string) => line !== '') // Remove empty lines
+      .join('<br><br>'); // Double line breaks for spacing
 
-    const dealId = response.data.data.id;
-    logger.info(`✅ Deal created successfully: ${dealId}`);
-    return dealId;
+    return `📞 <strong>CALL DETAILS:</strong><br>
+Agent: <strong>${agentName}</strong><br>
+Duration: ${duration}<br>
+Recording: <a href="${callData.recording_url}" target="_blank">Download Recording</a><br><br>
+📝 <strong>TRANSCRIPT:</strong><br><br>
+${formattedTranscript}`;
   }
 
-  private async addDealNote(dealId: number, callInfo: any, accessToken: string): Promise<void> {
-    try {
-      // Format next steps as HTML list
-      const nextStepsHtml = callInfo.next_steps && callInfo.next_steps.length > 0
-        ? `<ul>${callInfo.next_steps.map((step: string) => `<li>${step}</li>`).join('')}</ul>`
-        : '<p><em>No specific next steps recorded</em></p>';
-
-      const noteContent = `
-        <h4>📞 Call Summary</h4>
-        <p><strong>Date:</strong> ${callInfo.call_date}</p>
-        <p><strong>Caller:</strong> ${callInfo.caller_name || 'Unknown'}</p>
-        <p><strong>Phone:</strong> ${callInfo.caller_phone || 'Unknown'}</p>
-        <hr>
-        <h4>📝 Summary</h4>
-        <p>${callInfo.call_summary}</p>
-        
-        <h4>📋 Next Steps</h4>
-        ${nextStepsHtml}
-      `.trim();
-
-      const notePayload = {
-        content: noteContent,
-        deal_id: dealId
-      };
-
-      logger.info(`📝 Adding note to deal ${dealId}`);
-
-      const response = await axios.post('https://api.pipedrive.com/v1/notes', notePayload, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
-        }
-      });
-
-      const noteId = response.data.data.id;
-      logger.info(`✅ Note added to deal successfully: ${noteId}`);
-
-    } catch (error) {
-      logger.error(`❌ Failed to add note to deal ${dealId}:`, error);
-      // Don't throw - note creation failure shouldn't break the entire process
-    }
+  private formatDealNote(callInfo: any): string {
+    // Format next steps as HTML list
+    const nextStepsHtml = callInfo.next_steps && callInfo.next_steps.length > 0
+      ? `<ul>${callInfo.next_steps.map((step: string) => `<li>${step}</li>`).join('')}</ul>`
+      : '<p><em>No specific next steps recorded</em></p>';
+
+    return `
+      <h4>📞 Call Summary</h4>
+      <p><strong>Date:</strong> ${callInfo.call_date}</p>
+      <p><strong>Caller:</strong> ${callInfo.caller_name || 'Unknown'}</p>
+      <p><strong>Phone:</strong> ${callInfo.caller_phone || 'Unknown'}</p>
+      <hr>
+      <h4>📝 Summary</h4>
+      <p>${callInfo.call_summary}</p>
+      
+      <h4>📋 Next Steps</h4>
+      ${nextStepsHtml}
+    `.trim();
   }
 
   private async getAgentName(agentId: string, accessToken: string): Promise<string> {
@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+// Deliveries with a provider timestamp older (or newer) than this are treated as replays
+const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+
+// HubSpot signs the URL with these characters decoded
+const HUBSPOT_DECODED_URI_CHARS: Record<string, string> = {
+  '%3A': ':', '%2F': '/', '%3F': '?', '%40': '@', '%21': '!', '%24': '$',
+  '%27': "'", '%28': '(', '%29': ')', '%2A': '*', '%2C': ',', '%3B': ';',
+};
+
+export type InboundCrmProvider = 'pipedrive' | 'hubspot' | 'salesforce' | 'zoho';
+
+export interface InboundWebhookRequest {
+  method: string;
+  url: string; // Public URL the provider called, including the query string
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+  rawBody: string;
+  body: any;
+}
+
+export interface WebhookVerificationContext {
+  integrationId: string;
+  webhookSecret: string;
+  organizationId?: string | null; // The CRM's company/portal/org, not ours
+  hubspotClientSecret?: string;
+  requireSignature: boolean;
+  now?: number;
+}
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  reason?: string;
+  unsigned?: boolean;
+  integrationId?: string; // Set once the request is verified
+}
+
+export class WebhookVerificationService {
+  /**
+   * Verify an inbound CRM webhook with the scheme that provider actually uses.
+   * Requests carrying no credentials at all pass unless the integration
+   * requires signatures; credentials that fail verification always fail.
+   */
+  verify(
+    provider: InboundCrmProvider,
+    request: InboundWebhookRequest,
+    context: WebhookVerificationContext
+  ): WebhookVerificationResult {
+    let result: WebhookVerificationResult;
+
+    switch (provider) {
+      case 'hubspot':
+        result = this.verifyHubspot(request, context);
+        break;
+      case 'pipedrive':
+        result = this.verifyPipedrive(request, context);
+        break;
+      case 'zoho':
+        result = this.verifyZoho(request, context);
+        break;
+      case 'salesforce':
+        result = this.verifySalesforce(request, context);
+        break;
+      default:
+        return { valid: false, reason: 'unsupported_provider' };
+    }
+
+    if (result.unsigned && !context.requireSignature) {
+      return { valid: true, unsigned: true };
+    }
+
+    return result;
+  }
+
+  /**
+   * HubSpot v3: base64 HMAC-SHA256 of method + URI + body + timestamp,
+   * keyed with the app client secret, timestamp in milliseconds.
+   */
+  verifyHubspot(request: InboundWebhookRequest, context: WebhookVerificationContext): WebhookVerificationResult {
+    const signature = this.header(request, 'x-hubspot-signature-v3');
+    const timestamp = this.header(request, 'x-hubspot-request-timestamp');
+
+    if (!signature || !timestamp) {
+      return { valid: false, reason: 'missing_signature', unsigned: true };
+    }
+
+    if (!context.hubspotClientSecret) {
+      return { valid: false, reason: 'verification_key_unavailable' };
+    }
+
+    if (!this.withinReplayWindow(Number(timestamp), context.now)) {
+      return { valid: false, reason: 'timestamp_out_of_range' };
+    }
+
+    const uri = request.url.replace(/%[0-9A-F]{2}/gi, (encoded) => HUBSPOT_DECODED_URI_CHARS[encoded.toUpperCase()] || encoded);
+    const expected = crypto
+      .createHmac('sha256', context.hubspotClientSecret)
+      .update(`${request.method.toUpperCase()}${uri}${request.rawBody}${timestamp}`)
+      .digest('base64');
+
+    if (!this.safeEqual(expected, signature)) {
+      return { valid: false, reason: 'signature_mismatch' };
+    }
+
+    const events = Array.isArray(request.body) ? request.body : [request.body];
+    if (context.organizationId && events.some((event: any) => event?.portalId && String(event.portalId) !== context.organizationId)) {
+      return { valid: false, reason: 'organization_mismatch' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Pipedrive: HTTP basic credentials set on the webhook subscription.
+   * The username is the integration ID and the password its webhook secret.
+   */
+  verifyPipedrive(request: InboundWebhookRequest, context: WebhookVerificationContext): WebhookVerificationResult {
+    const authorization = this.header(request, 'authorization');
+
+    if (!authorization) {
+      return { valid: false, reason: 'missing_credentials', unsigned: true };
+    }
+
+    const match = /^Basic\s+(.+)$/i.exec(authorization);
+    if (!match) {
+      return { valid: false, reason: 'malformed_credentials' };
+    }
+
+    const expected = Buffer.from(`${context.integrationId}:${context.webhookSecret}`).toString('base64');
+    if (!this.safeEqual(expected, match[1].trim())) {
+      return { valid: false, reason: 'invalid_credentials' };
+    }
+
+    const meta = request.body?.meta || {};
+
+    if (meta.timestamp !== undefined) {
+      // v1 sends epoch seconds, v2 an ISO string
+      const timestamp = typeof meta.timestamp === 'number'
+        ? (meta.timestamp < 1e12 ? meta.timestamp * 1000 : meta.timestamp)
+        : Date.parse(meta.timestamp);
+
+      if (!this.withinReplayWindow(timestamp, context.now)) {
+        return { valid: false, reason: 'timestamp_out_of_range' };
+      }
+    }
+
+    if (context.organizationId && meta.company_id !== undefined && String(meta.company_id) !== context.organizationId) {
+      return { valid: false, reason: 'organization_mismatch' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Zoho: the token configured on the notification channel or workflow
+   * webhook, sent back either as a query parameter or in the body.
+   */
+  verifyZoho(request: InboundWebhookRequest, context: WebhookVerificationContext): WebhookVerificationResult {
+    const token = request.query?.token || request.body?.token;
+
+    if (!token) {
+      return { valid: false, reason: 'missing_token', unsigned: true };
+    }
+
+    if (!this.safeEqual(context.webhookSecret, String(token))) {
+      return { valid: false, reason: 'invalid_token' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Salesforce: outbound messages are unsigned SOAP envelopes and can't
+   * carry custom headers, so the endpoint URL carries the webhook secret as
+   * a token. The sending org ID must also match the connected account.
+   */
+  verifySalesforce(request: InboundWebhookRequest, context: WebhookVerificationContext): WebhookVerificationResult {
+    const token = request.query?.token;
+
+    if (!token) {
+      return { valid: false, reason: 'missing_token', unsigned: true };
+    }
+
+    if (!this.safeEqual(context.webhookSecret, String(token))) {
+      return { valid: false, reason: 'invalid_token' };
+    }
+
+    const organizationId = this.extractSalesforceOrganizationId(request);
+
+    // Compare on the 15-character ID, since messages may carry either form
+    if (context.organizationId && organizationId
+      && organizationId.substring(0, 15) !== context.organizationId.substring(0, 15)) {
+      return { valid: false, reason: 'organization_mismatch' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Look up the integration behind a CRM webhook and verify the request,
+   * recording rejected deliveries as unprocessed webhook events.
+   */
+  async verifyInboundRequest(
+    provider: InboundCrmProvider,
+    webhookId: string,
+    request: InboundWebhookRequest
+  ): Promise<WebhookVerificationResult> {
+    // CRM webhook URLs end in the integration id, so only an exact match counts
+    const integration = await prisma.integration.findUnique({
+      where: { id: webhookId },
+      select: {
+        id: true,
+        webhookSecret: true,
+        requireSignature: true,
+        crmAccount: { select: { provider: true, providerOrganizationId: true } },
+      },
+    });
+
+    if (!integration) {
+      return this.reject(provider, webhookId, request, 'unknown_integration');
+    }
+
+    if (integration.crmAccount.provider !== provider) {
+      return this.reject(provider, webhookId, request, 'provider_mismatch');
+    }
+
+    const result = this.verify(provider, request, {
+      integrationId: integration.id,
+      webhookSecret: integration.webhookSecret,
+      organizationId: integration.crmAccount.providerOrganizationId,
+      hubspotClientSecret: config.oauth.hubspot.clientSecret,
+      requireSignature: integration.requireSignature,
+    });
+
+    if (!result.valid) {
+      return this.reject(provider, webhookId, request, result.reason);
+    }
+
+    if (result.unsigned) {
+      logger.warn(`Unsigned ${provider} webhook accepted for integration ${integration.id}`);
+    }
+
+    return { ...result, integrationId: integration.id };
+  }
+
+  private async reject(
+    provider: InboundCrmProvider,
+    webhookId: string,
+    request: InboundWebhookRequest,
+    reason: string
+  ): Promise<WebhookVerificationResult> {
+    logger.warn(`Rejected ${provider} webhook for ${webhookId}: ${reason}`);
+
+    await prisma.webhookEvent.create({
+      data: {
+        integrationId: webhookId,
+        provider,
+        eventType: 'rejected',
+        payload: request.body ?? {},
+        processed: false,
+        rejectionReason: reason,
+      },
+    });
+
+    return { valid: false, reason };
+  }
+
+  private extractSalesforceOrganizationId(request: InboundWebhookRequest): string | null {
+    if (request.body && typeof request.body === 'object') {
+      return request.body.organizationId || request.body.OrganizationId || null;
+    }
+
+    const match = /<(?:\w+:)?OrganizationId>([^<]+)<\/(?:\w+:)?OrganizationId>/.exec(request.rawBody || '');
+    return match ? match[1].trim() : null;
+  }
+
+  private withinReplayWindow(timestamp: number, now: number = Date.now()): boolean {
+    return Number.isFinite(timestamp) && Math.abs(now - timestamp) <= REPLAY_WINDOW_MS;
+  }
+
+  private header(request: InboundWebhookRequest, name: string): string | undefined {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private safeEqual(expected: string, received: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const receivedBuffer = Buffer.from(received);
+    return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+  }
+}
+
+export const webhookVerificationService = new WebhookVerificationService();
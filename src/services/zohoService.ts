@@ -1,5 +1,23 @@
 import axios from 'axios';
 import { logger } from '../config/logger';
+import { PhoneNormalizer } from '../utils/phoneNormalizer';
+import { NameParser } from '../utils/nameParser';
+import {
+  CrmAdapter,
+  CrmContact,
+  CrmContactInput,
+  CrmContactContext,
+  CrmContactSearch,
+  CrmCallActivityInput,
+  CrmDealInput,
+  CrmNoteInput,
+  CrmRecordRef,
+  CrmScheduledActivity,
+  CrmMeetingInput,
+} from '../types';
+
+// Results kept per contact search when matching call participants
+const SEARCH_LIMIT = 5;
 
 interface ZohoCall {
   createDeal(accessToken: string, dealData: any): Promise<any>;
@@ -13,7 +31,7 @@ interface ZohoCall {
   getActivities(accessToken: string, filters?: any): Promise<any>;
 }
 
-class ZohoService implements ZohoCall {
+class ZohoService implements ZohoCall, CrmAdapter {
   private baseURL = 'https://www.zohoapis.com/crm/v3';
 
   private getAxiosInstance(accessToken: string) {
@@ -38,6 +56,7 @@ class ZohoService implements ZohoCall {
           Closing_Date: dealData.close_date || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           Contact_Name: dealData.person_id ? { id: dealData.person_id } : null,
           Account_Name: dealData.account_id ? { id: dealData.account_id } : null,
+          Owner: dealData.owner_id ? { id: dealData.owner_id } : undefined,
         }]
       };
 
@@ -67,6 +86,7 @@ class ZohoService implements ZohoCall {
       if (dealData.value) zohoDealData.data[0].Amount = dealData.value;
       if (dealData.stage_name) zohoDealData.data[0].Stage = dealData.stage_name;
       if (dealData.close_date) zohoDealData.data[0].Closing_Date = dealData.close_date;
+      if (dealData.owner_id) zohoDealData.data[0].Owner = { id: dealData.owner_id };
 
       const response = await api.put('/Deals', zohoDealData);
       
@@ -246,6 +266,269 @@ class ZohoService implements ZohoCall {
       throw new Error(`Failed to get Zoho stages: ${error.response?.data?.message || error.message}`);
     }
   }
+
+  // CrmAdapter implementation
+
+  async findContactCandidates(accessToken: string, search: CrmContactSearch): Promise<CrmContact[]> {
+    const candidates = new Map<string, CrmContact>();
+    const collect = (contacts: CrmContact[]) => contacts.forEach(contact => candidates.set(contact.id, contact));
+
+    if (search.phone) {
+      for (const variation of PhoneNormalizer.generateVariations(search.phone)) {
+        collect(await this.searchContacts(accessToken, { phone: variation.format }));
+      }
+    }
+    if (search.email) collect(await this.searchContacts(accessToken, { email: search.email }));
+    if (search.name) collect(await this.searchContacts(accessToken, { word: search.name }));
+
+    logger.info(`Zoho contact search found ${candidates.size} candidate(s)`);
+    return [...candidates.values()];
+  }
+
+  async getContactContext(accessToken: string, contactId: string): Promise<CrmContactContext> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const [contactResponse, dealsResponse] = await Promise.all([
+        api.get(`/Contacts/${contactId}`),
+        api.get(`/Contacts/${contactId}/Deals`, { params: { fields: 'Deal_Name,Amount,Currency,Stage', per_page: 20 } }),
+      ]);
+
+      const record = contactResponse.data?.data?.[0];
+      if (!record) {
+        throw new Error(`Contact ${contactId} not found`);
+      }
+
+      return {
+        contact: {
+          id: String(record.id),
+          name: record.Full_Name || [record.First_Name, record.Last_Name].filter(Boolean).join(' '),
+          email: record.Email,
+          phone: record.Phone || record.Mobile,
+          company: record.Account_Name?.name,
+          ownerId: record.Owner?.id ? String(record.Owner.id) : undefined,
+          ownerName: record.Owner?.name,
+          updatedAt: record.Modified_Time,
+        },
+        // Zoho's default closed stages are "Closed Won" and "Closed Lost"
+        openDeals: (dealsResponse.data?.data || [])
+          .filter((deal: any) => !/^closed/i.test(deal.Stage || ''))
+          .slice(0, SEARCH_LIMIT)
+          .map((deal: any) => ({
+            id: String(deal.id),
+            title: deal.Deal_Name,
+            value: deal.Amount ?? undefined,
+            currency: deal.Currency,
+            stage: deal.Stage,
+          })),
+        lastActivity: record.Last_Activity_Time ? { date: record.Last_Activity_Time } : undefined,
+      };
+    } catch (error: any) {
+      logger.error('Zoho getContactContext error:', error.response?.data || error.message);
+      throw new Error(`Failed to get Zoho contact context: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async upsertContact(accessToken: string, contact: CrmContactInput, contactId?: string): Promise<CrmContact> {
+    const { firstName, lastName } = NameParser.split(contact.name);
+    const personData = {
+      first_name: firstName,
+      last_name: lastName,
+      email: contact.email,
+      phone: contact.phone,
+    };
+
+    const result = contactId
+      ? await this.updatePerson(accessToken, contactId, personData)
+      : await this.createPerson(accessToken, personData);
+
+    return { id: String(result.id), name: contact.name, phone: contact.phone, email: contact.email };
+  }
+
+  async logCallActivity(accessToken: string, activity: CrmCallActivityInput, activityId?: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const durationSeconds = activity.durationSeconds || 0;
+
+      const zohoCallData: any = {
+        data: [{
+          Subject: activity.subject,
+          Description: activity.note,
+          Call_Type: activity.direction === 'inbound' ? 'Inbound' : 'Outbound',
+          // Zoho rejects the "Z" suffix, it expects an explicit offset
+          Call_Start_Time: activity.startedAt.toISOString().replace(/\.\d{3}Z$/, '+00:00'),
+          Call_Duration: `${String(Math.floor(durationSeconds / 60)).padStart(2, '0')}:${String(durationSeconds % 60).padStart(2, '0')}`,
+          Who_Id: { id: activity.contactId },
+        }]
+      };
+
+      if (activity.dealId) {
+        zohoCallData.data[0].What_Id = { id: activity.dealId };
+        zohoCallData.data[0].$se_module = 'Deals';
+      }
+
+      if (activityId) {
+        zohoCallData.data[0].id = activityId;
+        await api.put('/Calls', zohoCallData);
+        logger.info('Zoho call updated:', { callId: activityId });
+        return { id: activityId };
+      }
+
+      const response = await api.post('/Calls', zohoCallData);
+
+      if (response.data.data && response.data.data.length > 0) {
+        logger.info('Zoho call logged:', { callId: response.data.data[0].details.id });
+        return { id: String(response.data.data[0].details.id) };
+      }
+
+      throw new Error('No call data returned from Zoho');
+    } catch (error: any) {
+      logger.error('Zoho logCallActivity error:', error.response?.data || error.message);
+      throw new Error(`Failed to log Zoho call: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async upsertDeal(accessToken: string, deal: CrmDealInput, dealId?: string): Promise<CrmRecordRef> {
+    const dealData = {
+      title: deal.title,
+      value: deal.value,
+      stage_name: deal.stageId,
+      owner_id: deal.ownerId,
+      person_id: deal.contactId,
+    };
+
+    const result = dealId
+      ? await this.updateDeal(accessToken, dealId, dealData)
+      : await this.createDeal(accessToken, dealData);
+
+    return { id: String(result.id) };
+  }
+
+  async updateDealStage(accessToken: string, dealId: string, stageId: string): Promise<CrmRecordRef> {
+    // Deals are staged by name within the default layout
+    const result = await this.updateDeal(accessToken, dealId, { stage_name: stageId });
+    return { id: String(result.id) };
+  }
+
+  async findActivitiesBetween(accessToken: string, start: Date, end: Date, ownerId?: string): Promise<CrmScheduledActivity[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      // Zoho wants ISO timestamps without milliseconds
+      const format = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+      let criteria = `((Start_DateTime:less_than:${format(end)})and(End_DateTime:greater_than:${format(start)}))`;
+      if (ownerId) criteria = `(${criteria}and(Owner:equals:${ownerId}))`;
+
+      const response = await api.get('/Events/search', { params: { criteria, per_page: 200 } });
+
+      // Zoho answers 204 with an empty body when nothing matches
+      return (response.data?.data || [])
+        .filter((event: any) => !event.All_day)
+        .map((event: any) => ({
+          id: String(event.id),
+          subject: event.Event_Title,
+          start: new Date(event.Start_DateTime).toISOString(),
+          end: new Date(event.End_DateTime).toISOString(),
+        }));
+    } catch (error: any) {
+      logger.error('Zoho findActivitiesBetween error:', error.response?.data || error.message);
+      throw new Error(`Failed to get Zoho events: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async upsertMeeting(accessToken: string, meeting: CrmMeetingInput, meetingId?: string): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      // Zoho rejects the "Z" suffix, it expects an explicit offset
+      const format = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+
+      const zohoEventData: any = {
+        data: [{
+          Event_Title: meeting.subject,
+          Description: meeting.description,
+          Start_DateTime: format(meeting.start),
+          End_DateTime: format(meeting.end),
+          Who_Id: { id: meeting.contactId },
+          Participants: [{ type: 'contact', participant: meeting.contactId }],
+        }]
+      };
+
+      if (meeting.dealId) {
+        zohoEventData.data[0].What_Id = { id: meeting.dealId };
+        zohoEventData.data[0].$se_module = 'Deals';
+      }
+      if (meeting.ownerId) zohoEventData.data[0].Owner = { id: meeting.ownerId };
+
+      if (meetingId) {
+        zohoEventData.data[0].id = meetingId;
+        await api.put('/Events', zohoEventData);
+        logger.info('Zoho meeting updated:', { eventId: meetingId });
+        return { id: meetingId };
+      }
+
+      const response = await api.post('/Events', zohoEventData);
+
+      if (response.data.data && response.data.data.length > 0) {
+        logger.info('Zoho meeting booked:', { eventId: response.data.data[0].details.id });
+        return { id: String(response.data.data[0].details.id) };
+      }
+
+      throw new Error('No event data returned from Zoho');
+    } catch (error: any) {
+      logger.error('Zoho upsertMeeting error:', error.response?.data || error.message);
+      throw new Error(`Failed to book Zoho meeting: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async addNote(accessToken: string, note: CrmNoteInput): Promise<CrmRecordRef> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const parentModule = note.dealId ? 'Deals' : 'Contacts';
+
+      const response = await api.post('/Notes', {
+        data: [{
+          Note_Title: 'Call Summary',
+          Note_Content: note.content,
+          Parent_Id: {
+            module: { api_name: parentModule },
+            id: note.dealId || note.contactId,
+          },
+        }]
+      });
+
+      if (response.data.data && response.data.data.length > 0) {
+        logger.info('Zoho note created:', { noteId: response.data.data[0].details.id });
+        return { id: String(response.data.data[0].details.id) };
+      }
+
+      throw new Error('No note data returned from Zoho');
+    } catch (error: any) {
+      logger.error('Zoho addNote error:', error.response?.data || error.message);
+      throw new Error(`Failed to create Zoho note: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  private async searchContacts(accessToken: string, criteria: { phone?: string; email?: string; word?: string }): Promise<CrmContact[]> {
+    try {
+      const api = this.getAxiosInstance(accessToken);
+      const response = await api.get('/Contacts/search', { params: { ...criteria, per_page: SEARCH_LIMIT } });
+
+      // Zoho answers 204 with an empty body when nothing matches
+      const records: any[] = response.data?.data || [];
+
+      return records.map(record => ({
+        id: String(record.id),
+        name: record.Full_Name || [record.First_Name, record.Last_Name].filter(Boolean).join(' '),
+        email: record.Email,
+        phone: record.Phone || record.Mobile,
+        phones: [record.Phone, record.Mobile].filter(Boolean),
+        company: record.Account_Name?.name,
+        ownerId: record.Owner?.id ? String(record.Owner.id) : undefined,
+        updatedAt: record.Modified_Time,
+      }));
+    } catch (error: any) {
+      logger.warn('Zoho contact search failed:', error.response?.data || error.message);
+      return [];
+    }
+  }
 }
 
 export const zohoService = new ZohoService();
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { JsonSchema } from '../utils/jsonSchemaValidator';
+
 export interface User {
   id: string;
   email: string;
@@ -15,9 +17,28 @@ export interface User {
   updatedAt: Date;
 }
 
+// Organizations
+export type OrganizationRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+/**
+ * The signed-in user and the organization they are acting in. Accounts,
+ * integrations and sync events belong to the organization; the user is
+ * recorded as the author.
+ */
+export interface OrganizationActor {
+  id: string;
+  organizationId: string;
+}
+
+export type ApiKeyResource = 'integrations' | 'accounts' | 'sync' | 'campaigns' | 'do_not_call' | 'crm' | 'organizations' | 'user';
+
+// "<resource>:read" or "<resource>:write"; write includes read
+export type ApiKeyScope = `${ApiKeyResource}:${'read' | 'write'}`;
+
 export interface Account {
   id: string;
   userId: string;
+  organizationId: string;
   provider: 'retell' | 'pipedrive' | 'hubspot' | 'salesforce' | 'zoho';
   providerType: 'crm' | 'voice_ai';
   accessToken?: string;
@@ -37,6 +58,7 @@ export interface Account {
 export interface Integration {
   id: string;
   userId: string;
+  organizationId: string;
   name: string;
   description?: string;
   retellAccountId: string;
@@ -124,4 +146,333 @@ export interface OAuthTokens {
   tokenType: string;
   expiresIn: number;
   scope?: string;
-}
\ No newline at end of file
+  instanceUrl?: string; // Salesforce: the org's API host, which differs per customer
+}
+
+export type CrmProvider = 'pipedrive' | 'hubspot' | 'salesforce' | 'zoho';
+
+export interface CrmRecordRef {
+  id: string;
+}
+
+export interface CrmContact extends CrmRecordRef {
+  name?: string;
+  email?: string;
+  phone?: string;
+  phones?: string[]; // Every number on the record, for contact matching
+  company?: string;
+  ownerId?: string;
+  updatedAt?: string; // ISO timestamp of the last change in the CRM
+}
+
+export interface CrmDealSummary {
+  id: string;
+  title: string;
+  value?: number;
+  currency?: string;
+  stage?: string;
+}
+
+/**
+ * A contact with their open deals and latest activity, used to brief the
+ * agent before an inbound call is answered.
+ */
+export interface CrmContactContext {
+  contact: CrmContact & { ownerName?: string };
+  openDeals: CrmDealSummary[];
+  lastActivity?: { subject?: string; date?: string };
+}
+
+// A meeting or other timed activity already on the CRM calendar
+export interface CrmScheduledActivity {
+  id: string;
+  subject?: string;
+  start: string; // ISO timestamps
+  end: string;
+}
+
+/**
+ * What we know about the person on a call, used to look up candidate
+ * contacts in the CRM. Any field may be missing.
+ */
+export interface CrmContactSearch {
+  phone?: string;
+  email?: string;
+  name?: string;
+}
+
+export interface CrmContactInput {
+  name: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface CrmCallActivityInput {
+  contactId: string;
+  dealId?: string;
+  subject: string;
+  note: string;
+  startedAt: Date;
+  durationSeconds?: number;
+  direction: 'inbound' | 'outbound';
+}
+
+export interface CrmDealInput {
+  contactId: string;
+  title: string;
+  value?: number;
+  currency?: string;
+  pipelineId?: string;
+  stageId?: string;
+  ownerId?: string;
+}
+
+export interface CrmMeetingInput {
+  contactId: string; // Attendee
+  dealId?: string;
+  subject: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  timezone: string; // IANA timezone the time was agreed in
+  ownerId?: string;
+}
+
+export interface CrmNoteInput {
+  content: string;
+  dealId?: string;
+  contactId?: string;
+}
+
+/**
+ * Provider-agnostic contract used by the Retell call pipeline.
+ * Every CRM service implements it so contact matching, call logging
+ * and deal handling behave the same regardless of the connected CRM.
+ */
+export interface CrmAdapter {
+  findContactCandidates(accessToken: string, search: CrmContactSearch): Promise<CrmContact[]>;
+  getContactContext(accessToken: string, contactId: string): Promise<CrmContactContext>;
+  // Merge a duplicate into the primary and return the surviving record (not every CRM API supports it)
+  mergeContacts?(accessToken: string, primaryId: string, duplicateId: string): Promise<CrmRecordRef>;
+  upsertContact(accessToken: string, contact: CrmContactInput, contactId?: string): Promise<CrmContact>;
+  logCallActivity(accessToken: string, activity: CrmCallActivityInput, activityId?: string): Promise<CrmRecordRef>;
+  upsertDeal(accessToken: string, deal: CrmDealInput, dealId?: string): Promise<CrmRecordRef>;
+  updateDealStage(accessToken: string, dealId: string, stageId: string, pipelineId?: string): Promise<CrmRecordRef>;
+  findActivitiesBetween(accessToken: string, start: Date, end: Date, ownerId?: string): Promise<CrmScheduledActivity[]>;
+  upsertMeeting(accessToken: string, meeting: CrmMeetingInput, meetingId?: string): Promise<CrmRecordRef>;
+  addNote(accessToken: string, note: CrmNoteInput): Promise<CrmRecordRef>;
+}
+
+/**
+ * CRM records created while syncing a single Retell call, kept on the
+ * call ledger so replayed webhooks update them instead of duplicating.
+ */
+export interface CallCrmObjects {
+  contactId?: string;
+  activityId?: string;
+  dealId?: string;
+  noteId?: string;
+  meetingId?: string;
+}
+
+// Business workflows
+export interface BusinessWorkflow {
+  id: string;
+  name: string;
+  description?: string;
+  trigger: WorkflowTrigger;
+  conditions: WorkflowConditionNode[];
+  actions: WorkflowAction[];
+  enabled: boolean;
+}
+
+export interface WorkflowTrigger {
+  event: string; // 'call_analyzed'
+}
+
+export interface WorkflowCondition {
+  field: string;
+  operator: string;
+  value: any;
+  logicalOperator?: 'AND' | 'OR'; // How this condition joins the one before it in a flat list
+}
+
+/**
+ * A nested set of conditions. AND/OR combine the children;
+ * NOT matches only when none of the children match.
+ */
+export interface WorkflowConditionGroup {
+  operator: 'AND' | 'OR' | 'NOT';
+  conditions: WorkflowConditionNode[];
+}
+
+export type WorkflowConditionNode = WorkflowCondition | WorkflowConditionGroup;
+
+export interface WorkflowAction {
+  type: string; // 'create_deal', 'update_person', 'create_activity'
+  crmObject: string; // 'person', 'deal', 'activity'
+  fields: { [key: string]: string | number | boolean };
+  conditions?: WorkflowConditionNode[]; // Skip just this action when they don't match
+  outputName?: string; // Later actions read the result as {{actions.<outputName>.id}}
+}
+
+// Deal titles
+export type DealTitleSourceType = 'custom_analysis' | 'dynamic_variable' | 'summary';
+
+export interface DealTitleSource {
+  type: DealTitleSourceType;
+  key: string; // Analysis or dynamic variable key; 'name' or 'topic' for summary extraction
+}
+
+/**
+ * Per-integration deal title rules. Each variable takes the first source
+ * with a value; the first template whose variables all resolve is used,
+ * otherwise the fallback (where missing variables render empty).
+ */
+export interface DealTitlePolicy {
+  variables: { [name: string]: DealTitleSource[] };
+  templates: string[];
+  fallback: string;
+}
+
+// Deal routing
+export interface DealRouteTarget {
+  pipelineId?: string | number;
+  stageId?: string | number;
+  ownerId?: string | number;
+  value?: number | string; // Fixed amount, or a template such as {{call.call_analysis.custom_analysis_data.budget}}
+  currency?: string;
+}
+
+export interface DealRoute extends DealRouteTarget {
+  name: string;
+  conditions: WorkflowConditionNode[];
+}
+
+/**
+ * Picks where a call's deal goes. Routes are tried in order and the first
+ * whose conditions match wins; anything a route leaves unset comes from
+ * the default route.
+ */
+export interface DealRoutingPolicy {
+  routes: DealRoute[];
+  defaultRoute: DealRouteTarget;
+}
+
+// Outbound campaigns
+export type CampaignSourceType = 'pipedrive_filter' | 'hubspot_list' | 'salesforce_list_view' | 'zoho_custom_view';
+
+export interface CampaignSource {
+  type: CampaignSourceType;
+  id: string; // Filter, list, list view or custom view ID in the CRM
+  objectType?: 'leads' | 'contacts'; // Salesforce and Zoho views belong to a module
+}
+
+export interface CampaignRecord {
+  id: string;
+  name?: string;
+  phone?: string;
+  data: Record<string, any>;
+}
+
+// Outbound calling windows
+export type CallingDay = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface CallingWindowPolicy {
+  days: CallingDay[];
+  startTime: string; // HH:mm in the callee's local time
+  endTime: string; // HH:mm, exclusive
+  holidays: string[]; // YYYY-MM-DD dates in the callee's local calendar
+  timezoneField?: string; // CRM field holding the contact's IANA timezone
+  defaultTimezone: string; // Used when neither the CRM field nor the number gives a timezone
+}
+
+// Automatic redials
+export type RedialOutcome = 'voicemail' | 'no_answer' | 'short_call';
+
+export interface RedialPolicy {
+  maxAttempts: number; // Including the first call
+  retryOn: RedialOutcome[];
+  spacingMinutes: number[]; // Wait before each redial; the last value repeats
+  shortCallSeconds: number;
+  alternateNumberFields: string[]; // CRM fields tried in turn after the primary number
+  stopPhrases: string[]; // Matched against the call summary and custom analysis
+}
+
+// Inbound caller context
+export type CallerContextField =
+  | 'known_customer'
+  | 'customer_name'
+  | 'customer_first_name'
+  | 'customer_email'
+  | 'customer_company'
+  | 'account_owner'
+  | 'open_deal_count'
+  | 'open_deal_name'
+  | 'open_deal_value'
+  | 'open_deal_stage'
+  | 'last_activity'
+  | 'last_activity_date';
+
+/**
+ * Per-integration rules for the inbound caller lookup. Only whitelisted
+ * fields are sent to Retell; lookups slower than timeoutMs answer empty.
+ */
+export interface CallerContextPolicy {
+  fields: CallerContextField[];
+  timeoutMs: number;
+  cacheTtlSeconds: number;
+}
+
+// Appointment booking
+export type AppointmentConflictAction = 'book' | 'skip';
+
+/**
+ * Per-integration rules for booking the appointment agreed on a call.
+ * Fields name keys in the call's custom_analysis_data; the time is read
+ * in the agreed timezone, the caller's number's timezone, or the default.
+ */
+export interface AppointmentBookingPolicy {
+  dateField: string; // May hold a full date-time, in which case timeField is optional
+  timeField?: string;
+  timezoneField?: string;
+  defaultTimezone: string;
+  dateOrder: 'DMY' | 'MDY'; // How to read numeric dates such as 03/04/2025
+  durationMinutes: number;
+  subject: string;
+  onConflict: AppointmentConflictAction; // Whether to book over existing calendar entries
+}
+
+// Mid-call CRM functions
+export type CallFunctionOperation = 'find_contact' | 'check_availability' | 'create_lead' | 'update_deal_stage' | 'add_note';
+
+/**
+ * A Retell custom function served by the integration. Arguments are checked
+ * against `parameters` (JSON Schema) before the CRM operation runs.
+ */
+export interface CallFunctionDefinition {
+  name: string;
+  operation: CallFunctionOperation;
+  parameters: JsonSchema;
+  options?: {
+    pipelineId?: string;
+    stageId?: string; // Stage for new leads
+    stages?: { [label: string]: string }; // Stage labels the agent may use, mapped to CRM stage IDs
+    ownerId?: string; // Whose calendar availability is checked against
+    durationMinutes?: number; // Default appointment length
+  };
+}
+
+// Contact matching
+export type ContactMatchTieBreaker = 'most_recent' | 'owner_match';
+
+/**
+ * Per-integration contact matching rules. Candidates scoring at least the
+ * threshold (0-1) are matches; near-equal top scores are held for review,
+ * or go to the tie-breaker when ambiguous matches aren't reviewed.
+ */
+export interface ContactMatchingPolicy {
+  threshold: number;
+  tieBreaker: ContactMatchTieBreaker;
+  ambiguousMatches: 'review' | 'tie_breaker';
+}
@@ -0,0 +1,108 @@
+import { AppointmentParser } from './appointmentParser';
+import { AppointmentBookingPolicy } from '../types';
+
+const CALL_START = new Date('2025-10-09T08:53:20Z'); // A Thursday, BST in London
+
+const POLICY: AppointmentBookingPolicy = {
+  dateField: 'appointment_date',
+  timeField: 'appointment_time',
+  timezoneField: 'appointment_timezone',
+  defaultTimezone: 'Europe/London',
+  dateOrder: 'DMY',
+  durationMinutes: 30,
+  subject: 'Consultation',
+  onConflict: 'book',
+};
+
+const parse = (data: Record<string, any>, policy: Partial<AppointmentBookingPolicy> = {}) =>
+  AppointmentParser.parse(data, { ...POLICY, ...policy }, undefined, CALL_START);
+
+describe('AppointmentParser', () => {
+  describe('dates and times', () => {
+    it.each([
+      ['an ISO date', { appointment_date: '2025-10-14', appointment_time: '14:30' }, '2025-10-14 14:30'],
+      ['a day-first numeric date', { appointment_date: '14/10/2025', appointment_time: '2:30 pm' }, '2025-10-14 14:30'],
+      ['a two-digit year', { appointment_date: '14.10.25', appointment_time: '14.30' }, '2025-10-14 14:30'],
+      ['a numeric date without a year', { appointment_date: '14/10', appointment_time: '2:30pm' }, '2025-10-14 14:30'],
+      ['a written date', { appointment_date: '14th October', appointment_time: '2.30 p.m.' }, '2025-10-14 14:30'],
+      ['an abbreviated month before the day', { appointment_date: 'Oct 14th, 2025', appointment_time: '2pm' }, '2025-10-14 14:00'],
+      ['the date and time in one field', { appointment_date: 'Tuesday 14 October at 2:30pm' }, '2025-10-14 14:30'],
+      ['an ISO date-time without an offset', { appointment_date: '2025-10-14T14:30' }, '2025-10-14 14:30'],
+      ['today', { appointment_date: 'today', appointment_time: 'noon' }, '2025-10-09 12:00'],
+      ['tomorrow', { appointment_date: 'tomorrow', appointment_time: '9am' }, '2025-10-10 09:00'],
+      ['a weekday', { appointment_date: 'Tuesday', appointment_time: '10:00' }, '2025-10-14 10:00'],
+      ['the same weekday as the call', { appointment_date: 'next Thursday', appointment_time: '10:00' }, '2025-10-16 10:00'],
+      ['a date already past this year', { appointment_date: '5 January', appointment_time: '11am' }, '2026-01-05 11:00'],
+      ['12am as midnight', { appointment_date: '2025-10-14', appointment_time: '12am' }, '2025-10-14 00:00'],
+    ])('reads %s', (_name, data, localTime) => {
+      expect(parse(data)?.localTime).toBe(localTime);
+    });
+
+    it('reads numeric dates month-first when the policy says so', () => {
+      expect(parse({ appointment_date: '10/14/2025', appointment_time: '14:30' }, { dateOrder: 'MDY' })?.localTime)
+        .toBe('2025-10-14 14:30');
+    });
+
+    it('prefers the time field over a time in the date field', () => {
+      expect(parse({ appointment_date: 'tomorrow at 9am', appointment_time: '4pm' })?.localTime).toBe('2025-10-10 16:00');
+    });
+
+    it.each([
+      ['nothing booked', { appointment_date: 'not booked', appointment_time: '14:30' }],
+      ['no date field', { appointment_time: '14:30' }],
+      ['a date without a time', { appointment_date: '2025-10-14' }],
+      ['a date that does not exist', { appointment_date: '31/02/2025', appointment_time: '14:30' }],
+      ['an hour past 12 with pm', { appointment_date: '2025-10-14', appointment_time: '14pm' }],
+      ['an unreadable date', { appointment_date: 'sometime soon', appointment_time: '14:30' }],
+    ])('returns null for %s', (_name, data) => {
+      expect(parse(data)).toBeNull();
+    });
+  });
+
+  describe('timezones', () => {
+    it('converts the local time to UTC and adds the duration', () => {
+      expect(parse({ appointment_date: '2025-10-14', appointment_time: '14:30' })).toEqual({
+        start: new Date('2025-10-14T13:30:00Z'),
+        end: new Date('2025-10-14T14:00:00Z'),
+        timezone: 'Europe/London',
+        localTime: '2025-10-14 14:30',
+      });
+    });
+
+    it('follows the clocks changing between the call and the appointment', () => {
+      expect(parse({ appointment_date: '2025-10-27', appointment_time: '09:00' })?.start).toEqual(new Date('2025-10-27T09:00:00Z'));
+    });
+
+    it('reads an abbreviated timezone from the analysis', () => {
+      expect(parse({ appointment_date: '2025-10-14', appointment_time: '14:30', appointment_timezone: 'Eastern Time' })).toMatchObject({
+        start: new Date('2025-10-14T18:30:00Z'),
+        timezone: 'America/New_York',
+      });
+    });
+
+    it('keeps the instant of an ISO timestamp with an offset', () => {
+      expect(parse({ appointment_date: '2025-10-14T14:30:00-04:00', appointment_timezone: 'EST' })).toMatchObject({
+        start: new Date('2025-10-14T18:30:00Z'),
+        localTime: '2025-10-14 14:30',
+      });
+    });
+
+    it('anchors relative dates to the day in the appointment timezone', () => {
+      const lateCall = new Date('2025-10-09T23:30:00Z'); // Friday 00:30 in London, Thursday 16:30 in LA
+      const data = { appointment_date: 'tomorrow', appointment_time: '10:00' };
+
+      expect(AppointmentParser.parse(data, POLICY, undefined, lateCall)?.localTime).toBe('2025-10-11 10:00');
+      expect(AppointmentParser.parse({ ...data, appointment_timezone: 'PT' }, POLICY, undefined, lateCall)?.localTime).toBe('2025-10-10 10:00');
+    });
+
+    it.each([
+      ['an alias', 'Pacific Time', undefined, 'America/Los_Angeles'],
+      ['an IANA name', 'Asia/Tokyo', undefined, 'Asia/Tokyo'],
+      ['the caller\'s number when none was said', null, '+12125550134', 'America/New_York'],
+      ['the caller\'s number over an unknown name', 'Mars', '+61298765432', 'Australia/Sydney'],
+      ['the default when nothing else is known', null, undefined, 'Europe/London'],
+    ])('resolves %s', (_name, value, phone, timezone) => {
+      expect(AppointmentParser.resolveTimezone(value, phone, 'Europe/London')).toBe(timezone);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Appointment Parsing Utility
+ * Reads the appointment date, time and timezone a Retell post-call analysis
+ * extracted, in whatever shape the agent wrote them, and turns them into the
+ * UTC start and end of the meeting.
+ */
+
+import { AppointmentBookingPolicy } from '../types';
+import { CallingWindow } from './callingWindow';
+
+export interface ParsedAppointment {
+  start: Date;
+  end: Date;
+  timezone: string;
+  localTime: string; // YYYY-MM-DD HH:mm in the appointment's timezone
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface LocalTime {
+  hour: number;
+  minute: number;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Abbreviations agents tend to write instead of IANA names
+const TIMEZONE_ALIASES: Record<string, string> = {
+  utc: 'UTC', gmt: 'Europe/London', bst: 'Europe/London', uk: 'Europe/London',
+  cet: 'Europe/Paris', cest: 'Europe/Paris',
+  et: 'America/New_York', est: 'America/New_York', edt: 'America/New_York', eastern: 'America/New_York',
+  ct: 'America/Chicago', cst: 'America/Chicago', cdt: 'America/Chicago', central: 'America/Chicago',
+  mt: 'America/Denver', mst: 'America/Denver', mdt: 'America/Denver', mountain: 'America/Denver',
+  pt: 'America/Los_Angeles', pst: 'America/Los_Angeles', pdt: 'America/Los_Angeles', pacific: 'America/Los_Angeles',
+  aest: 'Australia/Sydney', ist: 'Asia/Kolkata',
+};
+
+// Values analysis prompts use for "nothing was booked"
+const EMPTY_VALUES = ['', 'none', 'n/a', 'na', 'null', 'unknown', 'false', 'no', 'not booked', 'not specified'];
+
+export class AppointmentParser {
+  /**
+   * Parse the appointment from custom analysis data. Returns null when no
+   * date was agreed or it can't be read; `reference` (the call start) anchors
+   * relative dates such as "tomorrow" and dates written without a year.
+   */
+  static parse(
+    customData: Record<string, any>,
+    policy: AppointmentBookingPolicy,
+    phone: string | undefined,
+    reference: Date = new Date()
+  ): ParsedAppointment | null {
+    const dateValue = this.clean(customData?.[policy.dateField]);
+    if (!dateValue) return null;
+
+    const timezone = this.resolveTimezone(this.clean(customData?.[policy.timezoneField]), phone, policy.defaultTimezone);
+
+    // A full ISO timestamp with an offset is already an instant
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(dateValue)) {
+      return this.build(new Date(dateValue), timezone, policy.durationMinutes);
+    }
+
+    const today = this.localDate(reference, timezone);
+    const date = this.parseDate(dateValue, policy.dateOrder, today);
+    const time = this.parseTime(policy.timeField ? this.clean(customData?.[policy.timeField]) || dateValue : dateValue);
+
+    if (!date || !time) return null;
+
+    const day = new Date(Date.UTC(date.year, date.month - 1, date.day));
+    return this.build(CallingWindow.toUtc(day, time.hour, time.minute, timezone), timezone, policy.durationMinutes);
+  }
+
+  /**
+   * Map a spoken or abbreviated timezone to an IANA name, falling back to
+   * the caller's number and then the policy default.
+   */
+  static resolveTimezone(value: string | null, phone: string | undefined, defaultTimezone: string): string {
+    if (value) {
+      const alias = TIMEZONE_ALIASES[value.toLowerCase().replace(/\s+time$/, '')];
+      if (alias) return alias;
+      if (CallingWindow.isValidTimezone(value)) return value;
+    }
+
+    return (phone && CallingWindow.timezoneForPhone(phone)) || defaultTimezone;
+  }
+
+  private static parseDate(value: string, dateOrder: 'DMY' | 'MDY', today: LocalDate): LocalDate | null {
+    const text = value.toLowerCase();
+    let match: RegExpExecArray | null;
+
+    if ((match = /(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text))) {
+      return this.validDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    }
+
+    // Numeric dates; "2.30" in "Tuesday at 2.30" isn't one, so fall through
+    if ((match = /\b(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?\b/.exec(text))) {
+      const [first, second] = [Number(match[1]), Number(match[2])];
+      const [day, month] = dateOrder === 'DMY' ? [first, second] : [second, first];
+      const date = match[3]
+        ? this.validDate(this.fullYear(Number(match[3])), month, day)
+        : this.nextDate(month, day, today);
+      if (date) return date;
+    }
+
+    // "22nd September 2025", "September 22", "Sept 22nd, 2025"
+    const monthIndex = MONTHS.findIndex(month => this.mentions(text, month));
+    if (monthIndex >= 0) {
+      const withoutTimes = text.replace(/\b\d{1,2}[:.]\d{2}\b|\b\d{1,2}\s*(am|pm)\b/g, ' ');
+      const day = /\b(\d{1,2})(st|nd|rd|th)?\b/.exec(withoutTimes);
+      const year = /\b(\d{4})\b/.exec(withoutTimes);
+      if (!day) return null;
+      return year
+        ? this.validDate(Number(year[1]), monthIndex + 1, Number(day[1]))
+        : this.nextDate(monthIndex + 1, Number(day[1]), today);
+    }
+
+    if (/\btoday\b/.test(text)) return this.addDays(today, 0);
+    if (/\btomorrow\b/.test(text)) return this.addDays(today, 1);
+
+    // "Tuesday", "next Tuesday": the next such day after the call
+    const weekday = WEEKDAYS.findIndex(name => this.mentions(text, name));
+    if (weekday >= 0) {
+      const current = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+      return this.addDays(today, ((weekday - current + 7) % 7) || 7);
+    }
+
+    return null;
+  }
+
+  private static parseTime(value: string): LocalTime | null {
+    const text = value.toLowerCase();
+    let match: RegExpExecArray | null;
+
+    if (/\bnoon\b|\bmidday\b/.test(text)) return { hour: 12, minute: 0 };
+
+    // Times inside ISO values ("2025-09-22T14:30") or on their own ("2:30 pm", "14.30")
+    if ((match = /(?:^|[t\s])(\d{1,2})[:.](\d{2})(?![\d.:-]*\d{4})\s*(am|pm|a\.m\.|p\.m\.)?/.exec(text))) {
+      return this.validTime(Number(match[1]), Number(match[2]), match[3]);
+    }
+
+    if ((match = /\b(\d{1,2})\s*(am|pm|a\.m\.|p\.m\.)/.exec(text))) {
+      return this.validTime(Number(match[1]), 0, match[2]);
+    }
+
+    return null;
+  }
+
+  // Full names and the usual abbreviations ("sep", "sept", "tues")
+  private static mentions(text: string, name: string): boolean {
+    return new RegExp(`\\b(${name}|${name.substring(0, 3)}|${name.substring(0, 4)})\\.?(?![a-z])`).test(text);
+  }
+
+  private static validTime(hour: number, minute: number, meridiem?: string): LocalTime | null {
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (meridiem.startsWith('p') ? 12 : 0);
+    }
+
+    return hour <= 23 && minute <= 59 ? { hour, minute } : null;
+  }
+
+  private static validDate(year: number, month: number, day: number): LocalDate | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+      ? { year, month, day }
+      : null;
+  }
+
+  // Dates without a year are the next occurrence on or after the call
+  private static nextDate(month: number, day: number, today: LocalDate): LocalDate | null {
+    const thisYear = this.validDate(today.year, month, day);
+    const isPast = thisYear && (month < today.month || (month === today.month && day < today.day));
+    return isPast ? this.validDate(today.year + 1, month, day) : thisYear;
+  }
+
+  private static addDays(date: LocalDate, days: number): LocalDate {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+  }
+
+  private static fullYear(year: number): number {
+    return year < 100 ? 2000 + year : year;
+  }
+
+  private static localDate(date: Date, timezone: string): LocalDate {
+    const [year, month, day] = this.formatLocal(date, timezone).substring(0, 10).split('-').map(Number);
+    return { year, month, day };
+  }
+
+  private static build(start: Date, timezone: string, durationMinutes: number): ParsedAppointment | null {
+    if (isNaN(start.getTime())) return null;
+
+    return {
+      start,
+      end: new Date(start.getTime() + durationMinutes * 60000),
+      timezone,
+      localTime: this.formatLocal(start, timezone),
+    };
+  }
+
+  private static formatLocal(date: Date, timezone: string): string {
+    const parts: Record<string, string> = {};
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).forEach(part => {
+      parts[part.type] = part.value;
+    });
+
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+  }
+
+  private static clean(value: any): string | null {
+    if (value === undefined || value === null) return null;
+    const text = String(value).trim();
+    return EMPTY_VALUES.includes(text.toLowerCase()) ? null : text;
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Calling Window Utility
+ * Works out the callee's timezone and whether an outbound call may be placed
+ * now under an integration's calling window, or when the window next opens.
+ */
+
+import { CallingDay, CallingWindowPolicy } from '../types';
+
+export type TimezoneSource = 'crm_field' | 'phone_number' | 'default';
+
+export interface ResolvedTimezone {
+  timezone: string;
+  source: TimezoneSource;
+}
+
+export interface CallingWindowCheck {
+  open: boolean;
+  timezone: string;
+  localTime: string; // YYYY-MM-DD HH:mm in the callee's timezone
+  nextOpenAt?: Date; // Set when closed and a later window exists
+}
+
+const DAYS: CallingDay[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look for an open window (covers long holiday lists)
+const MAX_LOOKAHEAD_DAYS = 366;
+
+// Countries that fit in a single timezone, keyed by calling code
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  '44': 'Europe/London', '353': 'Europe/Dublin', '49': 'Europe/Berlin', '33': 'Europe/Paris',
+  '34': 'Europe/Madrid', '39': 'Europe/Rome', '31': 'Europe/Amsterdam', '32': 'Europe/Brussels',
+  '41': 'Europe/Zurich', '43': 'Europe/Vienna', '45': 'Europe/Copenhagen', '46': 'Europe/Stockholm',
+  '47': 'Europe/Oslo', '48': 'Europe/Warsaw', '351': 'Europe/Lisbon', '358': 'Europe/Helsinki',
+  '30': 'Europe/Athens', '64': 'Pacific/Auckland', '65': 'Asia/Singapore', '852': 'Asia/Hong_Kong',
+  '81': 'Asia/Tokyo', '82': 'Asia/Seoul', '91': 'Asia/Kolkata', '971': 'Asia/Dubai',
+  '972': 'Asia/Jerusalem', '27': 'Africa/Johannesburg', '234': 'Africa/Lagos', '254': 'Africa/Nairobi',
+};
+
+// Australian geographic numbers by the digit after 61 (8 spans several zones)
+const AUSTRALIA_TIMEZONES: Record<string, string> = {
+  '2': 'Australia/Sydney',
+  '3': 'Australia/Melbourne',
+  '7': 'Australia/Brisbane',
+};
+
+// Common North American area codes by timezone
+const NANP_TIMEZONES: Record<string, string> = {};
+const NANP_AREA_CODES: Record<string, string> = {
+  'America/New_York': '201 202 203 207 212 215 216 234 240 248 252 267 301 302 304 305 313 315 317 321 330 336 347 '
+    + '401 404 407 410 412 419 434 440 443 470 475 484 502 513 516 517 518 540 561 570 571 585 586 603 607 610 614 '
+    + '616 617 631 646 678 703 704 706 716 717 718 724 727 732 734 740 754 757 762 765 770 772 781 786 802 803 804 '
+    + '810 813 814 843 845 848 857 859 860 862 864 904 908 912 914 917 919 929 937 954 973 978 980 984 989',
+  'America/Toronto': '226 289 343 416 418 437 438 450 514 519 579 581 613 647 705 819 905',
+  'America/Chicago': '205 210 214 217 218 219 224 225 228 251 254 256 262 281 309 312 314 316 318 319 320 331 334 337 '
+    + '346 361 402 405 409 414 417 430 469 479 501 504 507 512 515 531 563 573 580 601 608 612 615 618 620 629 630 636 '
+    + '641 651 662 682 708 712 713 715 731 737 763 769 773 779 785 815 816 817 832 847 870 872 901 903 913 918 920 '
+    + '931 938 940 952 956 972 985',
+  'America/Winnipeg': '204 431',
+  'America/Regina': '306 639',
+  'America/Denver': '208 303 307 385 406 435 505 575 719 720 801 970',
+  'America/Edmonton': '403 587 780 825',
+  'America/Phoenix': '480 520 602 623 928',
+  'America/Los_Angeles': '206 209 213 253 310 323 360 408 415 424 425 442 503 509 510 530 541 559 562 619 626 650 '
+    + '657 661 669 702 707 714 725 747 760 775 805 818 831 858 909 916 925 949 951 971',
+  'America/Vancouver': '236 250 604 672 778',
+  'America/Anchorage': '907',
+  'Pacific/Honolulu': '808',
+  'America/Halifax': '782 902',
+  'America/Moncton': '506',
+  'America/St_Johns': '709',
+  'America/Puerto_Rico': '787 939',
+};
+
+for (const [timezone, codes] of Object.entries(NANP_AREA_CODES)) {
+  for (const code of codes.split(' ')) {
+    NANP_TIMEZONES[code] = timezone;
+  }
+}
+
+export class CallingWindow {
+  /**
+   * Pick the callee's timezone: a valid timezone in the CRM field wins, then
+   * one derived from the number, then the policy default.
+   */
+  static resolveTimezone(policy: CallingWindowPolicy, phone: string, record: any): ResolvedTimezone {
+    if (policy.timezoneField) {
+      const value = this.getField(record, policy.timezoneField);
+      if (typeof value === 'string' && this.isValidTimezone(value.trim())) {
+        return { timezone: value.trim(), source: 'crm_field' };
+      }
+    }
+
+    const fromPhone = this.timezoneForPhone(phone);
+    if (fromPhone) {
+      return { timezone: fromPhone, source: 'phone_number' };
+    }
+
+    return { timezone: policy.defaultTimezone, source: 'default' };
+  }
+
+  /**
+   * Derive a timezone from an E.164 number. Returns null for countries that
+   * span several timezones unless the area code pins it down.
+   */
+  static timezoneForPhone(phone: string): string | null {
+    const digits = (phone || '').replace(/\D/g, '');
+    if (!digits) return null;
+
+    if (digits.startsWith('1') && digits.length === 11) {
+      return NANP_TIMEZONES[digits.substring(1, 4)] || null;
+    }
+
+    if (digits.startsWith('61')) {
+      return AUSTRALIA_TIMEZONES[digits.charAt(2)] || null;
+    }
+
+    for (const length of [3, 2]) {
+      const timezone = COUNTRY_TIMEZONES[digits.substring(0, length)];
+      if (timezone) return timezone;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether calls are allowed at a moment, and if not, when the
+   * window next opens in the callee's timezone.
+   */
+  static check(policy: CallingWindowPolicy, timezone: string, now: Date = new Date()): CallingWindowCheck {
+    const local = this.getLocalParts(now, timezone);
+    const holidays = new Set(policy.holidays || []);
+    const [startHour, startMinute] = policy.startTime.split(':').map(Number);
+    const [endHour, endMinute] = policy.endTime.split(':').map(Number);
+    const result: CallingWindowCheck = {
+      open: false,
+      timezone,
+      localTime: `${local.date} ${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`,
+    };
+
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+      // Calendar arithmetic on the local date; UTC avoids DST shifts here
+      const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+      const date = day.toISOString().substring(0, 10);
+
+      if (!policy.days.includes(DAYS[day.getUTCDay()]) || holidays.has(date)) {
+        continue;
+      }
+
+      const opensAt = this.toUtc(day, startHour, startMinute, timezone);
+      const closesAt = this.toUtc(day, endHour, endMinute, timezone);
+
+      if (now < opensAt) {
+        result.nextOpenAt = opensAt;
+        return result;
+      }
+      if (now < closesAt) {
+        result.open = true;
+        return result;
+      }
+    }
+
+    return result;
+  }
+
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static getField(record: any, path: string): any {
+    return path.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), record);
+  }
+
+  private static getLocalParts(date: Date, timezone: string) {
+    const parts: Record<string, string> = {};
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).forEach(part => {
+      parts[part.type] = part.value;
+    });
+
+    return {
+      year: Number(parts.year),
+      month: Number(parts.month),
+      day: Number(parts.day),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      second: Number(parts.second),
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+    };
+  }
+
+  /**
+   * Convert a local wall-clock time on a given day to a UTC instant.
+   */
+  static toUtc(day: Date, hour: number, minute: number, timezone: string): Date {
+    const guess = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute);
+    const offsetAt = (instant: number) => {
+      const local = this.getLocalParts(new Date(instant), timezone);
+      return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - instant;
+    };
+
+    const offset = offsetAt(guess);
+    const corrected = offsetAt(guess - offset);
+    // The second pass settles times near a DST change
+    return new Date(guess - (corrected === offset ? offset : corrected));
+  }
+}
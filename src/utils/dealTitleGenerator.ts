@@ -1,4 +1,6 @@
 import { logger } from '../config/logger';
+import { TemplateEngine, TemplateResolution, TemplateResolver } from './templateEngine';
+import { DealTitlePolicy, DealTitleSource } from '../types';
 
 export interface DealTitleComponents {
   name?: string;
@@ -6,32 +8,139 @@ export interface DealTitleComponents {
   phoneNumber?: string;
 }
 
+export interface DealTitleExplanation {
+  title: string;
+  template: string;
+  templateIndex: number | null; // null when the fallback was used
+  variables: { [name: string]: { value?: string; source?: DealTitleSource } };
+}
+
+/**
+ * Reproduces the original heuristics: summary extraction first, then the
+ * usual dynamic variable names, with English fallbacks.
+ */
+export const DEFAULT_DEAL_TITLE_POLICY: DealTitlePolicy = {
+  variables: {
+    name: [
+      { type: 'summary', key: 'name' },
+      ...['name', 'customer_name', 'full_name', 'client_name', 'user_name', 'first_name', 'caller_name', 'contact_name', 'lead_name']
+        .map((key): DealTitleSource => ({ type: 'dynamic_variable', key })),
+    ],
+    topic: [{ type: 'summary', key: 'topic' }],
+  },
+  templates: [
+    '{{name}} - {{topic}}',
+    '{{name}} - Consultation',
+    '{{phone}} - {{topic}}',
+  ],
+  fallback: '{{phone | default:"Unknown Caller"}} - Service Inquiry',
+};
+
 export class DealTitleGenerator {
   /**
-   * Generate a consistent deal title from webhook data
-   * Format: "[Name] - [Topic]" or "[Phone] - [Topic]" as fallback
+   * Generate a deal title from webhook data using the integration's
+   * deal title policy (or the default "[Name] - [Topic]" rules)
    */
-  static generateDealTitle(callData: any): string {
-    const components = this.extractComponents(callData);
-    
-    // Primary format: "Name - Topic"
-    if (components.name && components.topic) {
-      return `${components.name} - ${components.topic}`;
+  static generateDealTitle(callData: any, policy?: DealTitlePolicy | null): string {
+    return this.explainDealTitle(callData, policy).title;
+  }
+
+  /**
+   * Generate a deal title and report which template produced it and
+   * where each variable's value came from
+   */
+  static explainDealTitle(callData: any, policy?: DealTitlePolicy | null): DealTitleExplanation {
+    const rules = policy || DEFAULT_DEAL_TITLE_POLICY;
+    const variables = this.resolvePolicyVariables(callData, rules);
+
+    const resolve = (path: string): TemplateResolution => {
+      if (Object.prototype.hasOwnProperty.call(variables, path)) {
+        const value = variables[path].value;
+        return { found: value !== undefined, value };
+      }
+
+      // Anything else is read from the call, e.g. {{call.duration_ms | minutes}}
+      const callPath = path.startsWith('call.') ? path.substring(5) : path;
+      const value = callPath.split('.').reduce((current, key) => (current == null ? undefined : current[key]), callData);
+      return { found: value !== undefined && value !== '', value };
+    };
+
+    for (let i = 0; i < rules.templates.length; i++) {
+      const title = this.renderTemplate(rules.templates[i], resolve);
+      if (title) {
+        return { title, template: rules.templates[i], templateIndex: i, variables };
+      }
     }
-    
-    // Fallback with name only
-    if (components.name) {
-      return `${components.name} - Consultation`;
+
+    // The fallback always renders; missing variables become empty
+    const title = this.renderTemplate(rules.fallback, (path) => {
+      const resolved = resolve(path);
+      return resolved.found ? resolved : { found: true, skipped: true };
+    });
+
+    return { title: title || 'Service Inquiry', template: rules.fallback, templateIndex: null, variables };
+  }
+
+  /**
+   * Resolve each policy variable from its first source that has a value.
+   * The caller's phone number is always available as {{phone}}.
+   */
+  private static resolvePolicyVariables(callData: any, policy: DealTitlePolicy) {
+    const variables: DealTitleExplanation['variables'] = {
+      phone: { value: this.extractPhoneNumber(callData) },
+    };
+    const summary = callData.call_analysis?.call_summary || '';
+
+    for (const [name, sources] of Object.entries(policy.variables || {})) {
+      variables[name] = {};
+
+      for (const source of sources) {
+        const value = this.readSource(source, callData, summary);
+        if (value) {
+          variables[name] = { value, source };
+          break;
+        }
+      }
     }
-    
-    // Fallback with topic only
-    if (components.topic && components.phoneNumber) {
-      return `${components.phoneNumber} - ${components.topic}`;
+
+    return variables;
+  }
+
+  private static readSource(source: DealTitleSource, callData: any, summary: string): string | undefined {
+    let value: any;
+
+    switch (source.type) {
+      case 'custom_analysis':
+        value = callData.call_analysis?.custom_analysis_data?.[source.key];
+        break;
+      case 'dynamic_variable':
+        value = callData.retell_llm_dynamic_variables?.[source.key];
+        break;
+      case 'summary':
+        if (!summary) return undefined;
+        value = source.key === 'name' ? this.extractNameFromSummary(summary) : this.extractTopicFromSummary(summary);
+        break;
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * Render one title template; null when a variable is missing or the
+   * template is invalid, so the next template is tried
+   */
+  private static renderTemplate(template: string, resolve: TemplateResolver): string | null {
+    try {
+      const { text, unresolved } = TemplateEngine.render(template, resolve);
+      if (unresolved.length > 0) return null;
+      return text.replace(/\s+/g, ' ').trim() || null;
+    } catch (error) {
+      logger.warn(`Invalid deal title template: ${(error as Error).message}`);
+      return null;
     }
-    
-    // Final fallback
-    const phone = components.phoneNumber || 'Unknown Caller';
-    return `${phone} - Service Inquiry`;
   }
 
   /**
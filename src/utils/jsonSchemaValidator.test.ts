@@ -0,0 +1,101 @@
+import { JsonSchema, JsonSchemaValidator } from './jsonSchemaValidator';
+
+// Shaped like the functions integrations declare for their Retell agents
+const BOOK_CALLBACK: JsonSchema = {
+  type: 'object',
+  properties: {
+    start: { type: 'string', format: 'date-time' },
+    durationMinutes: { type: 'integer', minimum: 15, maximum: 120, default: 30 },
+    channel: { type: 'string', enum: ['phone', 'video'], default: 'phone' },
+    email: { type: 'string', format: 'email' },
+    reference: { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' },
+    note: { type: ['string', 'null'], maxLength: 20 },
+    attendees: { type: 'array', minItems: 1, maxItems: 3, items: { type: 'object', properties: { name: { type: 'string', minLength: 2 } }, required: ['name'] } },
+  },
+  required: ['start'],
+  additionalProperties: false,
+};
+
+const validate = (input: any) => JsonSchemaValidator.validate(BOOK_CALLBACK, input);
+
+describe('JsonSchemaValidator', () => {
+  describe('validate', () => {
+    it('accepts valid arguments and fills in defaults', () => {
+      expect(validate({ start: '2025-10-14T15:00:00+01:00', attendees: [{ name: 'Ada' }] })).toEqual({
+        valid: true,
+        errors: [],
+        value: { start: '2025-10-14T15:00:00+01:00', durationMinutes: 30, channel: 'phone', attendees: [{ name: 'Ada' }] },
+      });
+    });
+
+    it('keeps values the caller gave over defaults', () => {
+      expect(validate({ start: '2025-10-14 15:00', durationMinutes: 60, channel: 'video' }).value)
+        .toMatchObject({ durationMinutes: 60, channel: 'video' });
+    });
+
+    it.each([
+      ['a missing required property', {}, 'args.start is required'],
+      ['the wrong type', { start: 1760450400000 }, 'args.start must be string'],
+      ['a fraction for an integer', { start: '2025-10-14', durationMinutes: 30.5 }, 'args.durationMinutes must be integer'],
+      ['a number below the minimum', { start: '2025-10-14T15:00Z', durationMinutes: 5 }, 'args.durationMinutes must be at least 15'],
+      ['a number above the maximum', { start: '2025-10-14T15:00Z', durationMinutes: 240 }, 'args.durationMinutes must be at most 120'],
+      ['a value outside the enum', { start: '2025-10-14T15:00Z', channel: 'fax' }, 'args.channel must be one of: phone, video'],
+      ['a malformed date-time', { start: 'next Tuesday' }, 'args.start must be a valid date-time'],
+      ['a malformed email', { start: '2025-10-14T15:00Z', email: 'ada@example' }, 'args.email must be a valid email'],
+      ['a string not matching the pattern', { start: '2025-10-14T15:00Z', reference: 'abc-1234' }, 'args.reference does not match the expected pattern'],
+      ['a string over the maximum length', { start: '2025-10-14T15:00Z', note: 'Please call back after lunch' }, 'args.note must be at most 20 characters'],
+      ['an unknown property', { start: '2025-10-14T15:00Z', dealId: 'deal_1' }, 'args.dealId is not allowed'],
+      ['too few items', { start: '2025-10-14T15:00Z', attendees: [] }, 'args.attendees must have at least 1 items'],
+      ['too many items', { start: '2025-10-14T15:00Z', attendees: [{ name: 'Ada' }, { name: 'Bo' }, { name: 'Cy' }, { name: 'Di' }] }, 'args.attendees must have at most 3 items'],
+      ['an invalid item', { start: '2025-10-14T15:00Z', attendees: [{ name: 'Ada' }, {}] }, 'args.attendees[1].name is required'],
+      ['a short string in an item', { start: '2025-10-14T15:00Z', attendees: [{ name: 'A' }] }, 'args.attendees[0].name must be at least 2 characters'],
+      ['a non-object', 'start=2025-10-14', 'args must be object'],
+    ])('rejects %s', (_name, input, error) => {
+      const result = validate(input);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(error);
+    });
+
+    it('accepts any of several types', () => {
+      expect(validate({ start: '2025-10-14T15:00Z', note: null }).valid).toBe(true);
+    });
+
+    it('reports every problem at once', () => {
+      expect(validate({ durationMinutes: 5, channel: 'fax' }).errors).toEqual([
+        'args.start is required',
+        'args.durationMinutes must be at least 15',
+        'args.channel must be one of: phone, video',
+      ]);
+    });
+
+    it('does not treat NaN or Infinity as numbers', () => {
+      expect(JsonSchemaValidator.validate({ type: 'number' }, NaN).valid).toBe(false);
+      expect(JsonSchemaValidator.validate({ type: 'number' }, Infinity).valid).toBe(false);
+    });
+  });
+
+  describe('checkSchema', () => {
+    it('accepts a supported schema', () => {
+      expect(JsonSchemaValidator.checkSchema(BOOK_CALLBACK)).toEqual([]);
+    });
+
+    it('reports unsupported types, formats and patterns with their path', () => {
+      expect(JsonSchemaValidator.checkSchema({
+        type: 'object',
+        properties: {
+          when: { type: 'string', format: 'uri' as any },
+          code: { type: 'string', pattern: '([a-z' },
+          tags: { type: 'array', items: { type: 'text' as any } },
+        },
+      })).toEqual([
+        'parameters.properties.when.format "uri" is not supported',
+        'parameters.properties.code.pattern is not a valid regular expression',
+        'parameters.properties.tags.items.type "text" is not supported',
+      ]);
+    });
+
+    it('rejects a schema that is not an object', () => {
+      expect(JsonSchemaValidator.checkSchema([] as any)).toEqual(['parameters must be an object']);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * JSON Schema Validation Utility
+ * Checks tool-call arguments against the subset of JSON Schema that Retell
+ * custom functions are declared with, and fills in declared defaults.
+ */
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: any[];
+  default?: any;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date-time' | 'date' | 'time' | 'email';
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchemaResult {
+  valid: boolean;
+  errors: string[];
+  value: any; // Input with defaults applied
+}
+
+const TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}(:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+};
+
+export class JsonSchemaValidator {
+  static validate(schema: JsonSchema, input: any, path: string = 'args'): JsonSchemaResult {
+    const errors: string[] = [];
+    const value = this.check(schema, input, path, errors);
+    return { valid: errors.length === 0, errors, value };
+  }
+
+  /**
+   * Problems with a schema itself, so broken function definitions are
+   * rejected when saved rather than when the agent calls them.
+   */
+  static checkSchema(schema: JsonSchema, path: string = 'parameters'): string[] {
+    const errors: string[] = [];
+
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return [`${path} must be an object`];
+    }
+
+    const types = schema.type === undefined ? [] : ([] as JsonSchemaType[]).concat(schema.type);
+    types.filter(type => !TYPES.includes(type)).forEach(type => errors.push(`${path}.type "${type}" is not supported`));
+
+    if (schema.format && !FORMATS[schema.format]) {
+      errors.push(`${path}.format "${schema.format}" is not supported`);
+    }
+
+    if (schema.pattern) {
+      try {
+        new RegExp(schema.pattern);
+      } catch {
+        errors.push(`${path}.pattern is not a valid regular expression`);
+      }
+    }
+
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      errors.push(...this.checkSchema(property, `${path}.properties.${key}`));
+    }
+
+    if (schema.items) {
+      errors.push(...this.checkSchema(schema.items, `${path}.items`));
+    }
+
+    return errors;
+  }
+
+  private static check(schema: JsonSchema, input: any, path: string, errors: string[]): any {
+    if (input === undefined && schema.default !== undefined) {
+      input = schema.default;
+    }
+
+    if (schema.type) {
+      const types = ([] as JsonSchemaType[]).concat(schema.type);
+      if (!types.some(type => this.isType(input, type))) {
+        errors.push(`${path} must be ${types.join(' or ')}`);
+        return input;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(option => option === input)) {
+      errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof input === 'string') {
+      if (schema.minLength !== undefined && input.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && input.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(input)) {
+        errors.push(`${path} does not match the expected pattern`);
+      }
+      if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(input)) {
+        errors.push(`${path} must be a valid ${schema.format}`);
+      }
+    }
+
+    if (typeof input === 'number') {
+      if (schema.minimum !== undefined && input < schema.minimum) {
+        errors.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && input > schema.maximum) {
+        errors.push(`${path} must be at most ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(input)) {
+      if (schema.minItems !== undefined && input.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && input.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        return input.map((item, index) => this.check(schema.items, item, `${path}[${index}]`, errors));
+      }
+    }
+
+    if (this.isType(input, 'object') && (schema.properties || schema.required || schema.additionalProperties === false)) {
+      const result = { ...input };
+      const properties = schema.properties || {};
+
+      for (const key of schema.required || []) {
+        if (input[key] === undefined && properties[key]?.default === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+
+      for (const [key, property] of Object.entries(properties)) {
+        if (input[key] !== undefined || property.default !== undefined) {
+          result[key] = this.check(property, input[key], `${path}.${key}`, errors);
+        }
+      }
+
+      if (schema.additionalProperties === false) {
+        Object.keys(input)
+          .filter(key => !properties[key])
+          .forEach(key => errors.push(`${path}.${key} is not allowed`));
+      }
+
+      return result;
+    }
+
+    return input;
+  }
+
+  private static isType(value: any, type: JsonSchemaType): boolean {
+    switch (type) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'integer': return Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'array': return Array.isArray(value);
+      case 'null': return value === null;
+      case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+      default: return false;
+    }
+  }
+}
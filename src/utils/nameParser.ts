@@ -0,0 +1,33 @@
+/**
+ * Person Name Utility
+ * Splits free-text names into the first/last name fields most CRMs require
+ */
+
+export interface ParsedName {
+  firstName?: string;
+  lastName: string;
+}
+
+export class NameParser {
+  /**
+   * Split a full name into first and last name.
+   * Single-word names are treated as the last name, since that is the
+   * mandatory field on Salesforce and Zoho contacts.
+   */
+  static split(fullName: string, fallbackLastName: string = 'Unknown'): ParsedName {
+    const words = (fullName || '').trim().split(/\s+/).filter(Boolean);
+
+    if (words.length === 0) {
+      return { lastName: fallbackLastName };
+    }
+
+    if (words.length === 1) {
+      return { lastName: words[0] };
+    }
+
+    return {
+      firstName: words.slice(0, -1).join(' '),
+      lastName: words[words.length - 1],
+    };
+  }
+}
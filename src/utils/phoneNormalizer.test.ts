@@ -0,0 +1,128 @@
+import { PhoneNormalizer, SUPPORTED_PHONE_REGIONS } from './phoneNormalizer';
+
+interface RegionCase {
+  region: string;
+  callingCode: string;
+  national: string; // As dialled inside the region, trunk prefix included
+  e164: string;
+  trunkPrefix?: string;
+}
+
+// One real-shaped number per supported region
+const CASES: RegionCase[] = [
+  { region: 'US', callingCode: '1', national: '(212) 555-0123', e164: '+12125550123', trunkPrefix: '1' },
+  { region: 'CA', callingCode: '1', national: '416-555-0123', e164: '+14165550123', trunkPrefix: '1' },
+  { region: 'GB', callingCode: '44', national: '020 7946 0958', e164: '+442079460958', trunkPrefix: '0' },
+  { region: 'IE', callingCode: '353', national: '01 400 6000', e164: '+35314006000', trunkPrefix: '0' },
+  { region: 'DE', callingCode: '49', national: '030 123456', e164: '+4930123456', trunkPrefix: '0' },
+  { region: 'FR', callingCode: '33', national: '01 23 45 67 89', e164: '+33123456789', trunkPrefix: '0' },
+  { region: 'ES', callingCode: '34', national: '912 345 678', e164: '+34912345678' },
+  { region: 'IT', callingCode: '39', national: '06 1234 5678', e164: '+390612345678' },
+  { region: 'NL', callingCode: '31', national: '020 123 4567', e164: '+31201234567', trunkPrefix: '0' },
+  { region: 'BE', callingCode: '32', national: '02 123 45 67', e164: '+3221234567', trunkPrefix: '0' },
+  { region: 'CH', callingCode: '41', national: '044 668 18 00', e164: '+41446681800', trunkPrefix: '0' },
+  { region: 'AT', callingCode: '43', national: '01 234567', e164: '+431234567', trunkPrefix: '0' },
+  { region: 'DK', callingCode: '45', national: '32 12 34 56', e164: '+4532123456' },
+  { region: 'SE', callingCode: '46', national: '08 123 456 78', e164: '+46812345678', trunkPrefix: '0' },
+  { region: 'NO', callingCode: '47', national: '22 12 34 56', e164: '+4722123456' },
+  { region: 'FI', callingCode: '358', national: '09 1234567', e164: '+35891234567', trunkPrefix: '0' },
+  { region: 'PL', callingCode: '48', national: '123 456 789', e164: '+48123456789' },
+  { region: 'PT', callingCode: '351', national: '212 345 678', e164: '+351212345678' },
+  { region: 'GR', callingCode: '30', national: '210 123 4567', e164: '+302101234567' },
+  { region: 'AU', callingCode: '61', national: '(02) 1234 5678', e164: '+61212345678', trunkPrefix: '0' },
+  { region: 'NZ', callingCode: '64', national: '09 123 4567', e164: '+6491234567', trunkPrefix: '0' },
+  { region: 'SG', callingCode: '65', national: '6123 4567', e164: '+6561234567' },
+  { region: 'HK', callingCode: '852', national: '2123 4567', e164: '+85221234567' },
+  { region: 'JP', callingCode: '81', national: '03-1234-5678', e164: '+81312345678', trunkPrefix: '0' },
+  { region: 'KR', callingCode: '82', national: '02-123-4567', e164: '+8221234567', trunkPrefix: '0' },
+  { region: 'CN', callingCode: '86', national: '010 1234 5678', e164: '+861012345678', trunkPrefix: '0' },
+  { region: 'IN', callingCode: '91', national: '011 2345 6789', e164: '+911123456789', trunkPrefix: '0' },
+  { region: 'AE', callingCode: '971', national: '04 123 4567', e164: '+97141234567', trunkPrefix: '0' },
+  { region: 'IL', callingCode: '972', national: '02-123-4567', e164: '+97221234567', trunkPrefix: '0' },
+  { region: 'ZA', callingCode: '27', national: '021 123 4567', e164: '+27211234567', trunkPrefix: '0' },
+  { region: 'NG', callingCode: '234', national: '01 234 5678', e164: '+23412345678', trunkPrefix: '0' },
+  { region: 'KE', callingCode: '254', national: '0712 345678', e164: '+254712345678', trunkPrefix: '0' },
+  { region: 'BR', callingCode: '55', national: '(11) 2345-6789', e164: '+551123456789', trunkPrefix: '0' },
+  { region: 'MX', callingCode: '52', national: '55 1234 5678', e164: '+525512345678' },
+];
+
+const nationalNumber = ({ e164, callingCode }: RegionCase) => e164.substring(callingCode.length + 1);
+
+describe('PhoneNormalizer', () => {
+  it('has a case for every supported region', () => {
+    expect(CASES.map(c => c.region).sort()).toEqual([...SUPPORTED_PHONE_REGIONS].sort());
+  });
+
+  describe.each(CASES)('$region', (regionCase) => {
+    const { region, callingCode, national, e164, trunkPrefix } = regionCase;
+    const nsn = nationalNumber(regionCase);
+
+    it('reads a national number in the region', () => {
+      expect(PhoneNormalizer.toE164(national, region)).toBe(e164);
+    });
+
+    it('parses the E.164 form whatever the default region', () => {
+      const parsed = PhoneNormalizer.parse(e164, region === 'GB' ? 'US' : 'GB');
+      expect(parsed).toEqual({
+        e164,
+        callingCode,
+        nationalNumber: nsn,
+        // The first region listed for a calling code owns it
+        region: region === 'CA' ? 'US' : region,
+      });
+    });
+
+    it('reads the 00 international prefix', () => {
+      expect(PhoneNormalizer.toE164(`00 ${callingCode} ${nsn}`, region)).toBe(e164);
+    });
+
+    if (callingCode === '1') {
+      it('reads the 011 international prefix', () => {
+        expect(PhoneNormalizer.toE164(`011 ${callingCode} ${nsn}`, region)).toBe(e164);
+        expect(PhoneNormalizer.toE164('011 44 20 7946 0958', region)).toBe('+442079460958');
+      });
+    } else {
+      it('reads 011 as a national number, not an international prefix', () => {
+        expect(PhoneNormalizer.toE164(`011 ${callingCode} ${nsn}`, region)).not.toBe(e164);
+      });
+    }
+
+    if (trunkPrefix === '0') {
+      it('drops a trunk prefix repeated as (0) after the calling code', () => {
+        expect(PhoneNormalizer.toE164(`+${callingCode} (0)${nsn}`, region)).toBe(e164);
+      });
+    }
+
+    if (trunkPrefix) {
+      it('dials the trunk prefix in the national variant', () => {
+        const variations = PhoneNormalizer.generateVariations(e164, region).map(variation => variation.format);
+        expect(variations).toEqual(expect.arrayContaining([e164, `${trunkPrefix}${nsn}`, nsn]));
+      });
+    }
+
+    it.each([' ext. 204', ' ext 204', ' x204', ' #204'])('ignores the extension "%s"', (extension) => {
+      expect(PhoneNormalizer.toE164(`${national}${extension}`, region)).toBe(e164);
+      expect(PhoneNormalizer.toE164(`${e164}${extension}`, region)).toBe(e164);
+    });
+
+    it('rejects numbers too short or too long for the region', () => {
+      expect(PhoneNormalizer.toE164(`+${callingCode}123`, region)).toBeNull();
+      expect(PhoneNormalizer.toE164(`+${callingCode}12345678901234`, region)).toBeNull();
+      expect(PhoneNormalizer.isValid(`${trunkPrefix || ''}123`, region)).toBe(false);
+    });
+  });
+
+  it('falls back to the default region for unknown regions', () => {
+    expect(PhoneNormalizer.toE164('020 7946 0958', 'XX')).toBe('+442079460958');
+  });
+
+  it('accepts numbers from calling codes outside the table by length alone', () => {
+    expect(PhoneNormalizer.toE164('+7 495 123 4567')).toBe('+74951234567');
+    expect(PhoneNormalizer.toE164('+7 12')).toBeNull();
+  });
+
+  it('returns null for empty and digitless input', () => {
+    expect(PhoneNormalizer.parse('')).toBeNull();
+    expect(PhoneNormalizer.parse('anonymous')).toBeNull();
+  });
+});
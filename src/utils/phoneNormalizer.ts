@@ -1,6 +1,7 @@
 /**
  * Phone Number Normalization Utility
- * Handles different phone number formats for better contact matching
+ * Parses numbers from any supported country into E.164 and produces the
+ * national/international variants CRMs store them in, for contact matching.
  */
 
 export interface PhoneVariation {
@@ -8,120 +9,206 @@ export interface PhoneVariation {
   description: string;
 }
 
+export interface ParsedPhoneNumber {
+  e164: string; // +447700900123
+  callingCode: string; // 44
+  nationalNumber: string; // 7700900123, without the trunk prefix
+  region?: string; // ISO 3166 code, when the calling code is in the table
+}
+
+interface RegionMetadata {
+  callingCode: string;
+  trunkPrefix?: string; // Dialled before national numbers, e.g. 0 in the UK
+  pattern: RegExp; // Valid national significant numbers
+}
+
+export const DEFAULT_PHONE_REGION = 'GB';
+
+// National numbering rules per region. Patterns check length and leading
+// digits only, which is enough to reject numbers that can't be dialled.
+const REGIONS: Record<string, RegionMetadata> = {
+  US: { callingCode: '1', trunkPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  CA: { callingCode: '1', trunkPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  GB: { callingCode: '44', trunkPrefix: '0', pattern: /^[1-9]\d{8,9}$/ },
+  IE: { callingCode: '353', trunkPrefix: '0', pattern: /^[1-9]\d{6,8}$/ },
+  DE: { callingCode: '49', trunkPrefix: '0', pattern: /^[1-9]\d{5,12}$/ },
+  FR: { callingCode: '33', trunkPrefix: '0', pattern: /^[1-9]\d{8}$/ },
+  ES: { callingCode: '34', pattern: /^[5-9]\d{8}$/ },
+  IT: { callingCode: '39', pattern: /^(?:0\d{5,10}|3\d{8,9})$/ }, // Landlines keep their leading 0
+  NL: { callingCode: '31', trunkPrefix: '0', pattern: /^[1-9]\d{8}$/ },
+  BE: { callingCode: '32', trunkPrefix: '0', pattern: /^[1-9]\d{7,8}$/ },
+  CH: { callingCode: '41', trunkPrefix: '0', pattern: /^[1-9]\d{8}$/ },
+  AT: { callingCode: '43', trunkPrefix: '0', pattern: /^[1-9]\d{3,12}$/ },
+  DK: { callingCode: '45', pattern: /^[2-9]\d{7}$/ },
+  SE: { callingCode: '46', trunkPrefix: '0', pattern: /^[1-9]\d{6,8}$/ },
+  NO: { callingCode: '47', pattern: /^[2-9]\d{7}$/ },
+  FI: { callingCode: '358', trunkPrefix: '0', pattern: /^[1-9]\d{4,11}$/ },
+  PL: { callingCode: '48', pattern: /^[1-9]\d{8}$/ },
+  PT: { callingCode: '351', pattern: /^[29]\d{8}$/ },
+  GR: { callingCode: '30', pattern: /^[26]\d{9}$/ },
+  AU: { callingCode: '61', trunkPrefix: '0', pattern: /^[2-478]\d{8}$/ },
+  NZ: { callingCode: '64', trunkPrefix: '0', pattern: /^[2-9]\d{7,9}$/ },
+  SG: { callingCode: '65', pattern: /^[689]\d{7}$/ },
+  HK: { callingCode: '852', pattern: /^[2-9]\d{7}$/ },
+  JP: { callingCode: '81', trunkPrefix: '0', pattern: /^[1-9]\d{8,9}$/ },
+  KR: { callingCode: '82', trunkPrefix: '0', pattern: /^[1-9]\d{7,9}$/ },
+  CN: { callingCode: '86', trunkPrefix: '0', pattern: /^[1-9]\d{9,10}$/ },
+  IN: { callingCode: '91', trunkPrefix: '0', pattern: /^[1-9]\d{9}$/ },
+  AE: { callingCode: '971', trunkPrefix: '0', pattern: /^[2-9]\d{7,8}$/ },
+  IL: { callingCode: '972', trunkPrefix: '0', pattern: /^[2-9]\d{7,8}$/ },
+  ZA: { callingCode: '27', trunkPrefix: '0', pattern: /^[1-8]\d{8}$/ },
+  NG: { callingCode: '234', trunkPrefix: '0', pattern: /^[1-9]\d{7,9}$/ },
+  KE: { callingCode: '254', trunkPrefix: '0', pattern: /^[17]\d{8}$/ },
+  BR: { callingCode: '55', trunkPrefix: '0', pattern: /^[1-9]{2}\d{8,9}$/ },
+  MX: { callingCode: '52', pattern: /^[1-9]\d{9}$/ },
+};
+
+export const SUPPORTED_PHONE_REGIONS = Object.keys(REGIONS);
+
+// First region listed for a calling code owns it (US for +1)
+const REGION_BY_CALLING_CODE: Record<string, string> = {};
+for (const [region, metadata] of Object.entries(REGIONS)) {
+  REGION_BY_CALLING_CODE[metadata.callingCode] = REGION_BY_CALLING_CODE[metadata.callingCode] || region;
+}
+
 export class PhoneNormalizer {
+  static isSupportedRegion(region: string): boolean {
+    return Object.prototype.hasOwnProperty.call(REGIONS, (region || '').toUpperCase());
+  }
+
+  /**
+   * Parse a number written in any common format. National numbers are read
+   * in the default region; numbers that can't exist return null.
+   */
+  static parse(phone: string, defaultRegion: string = DEFAULT_PHONE_REGION): ParsedPhoneNumber | null {
+    if (!phone) return null;
+
+    // Drop extensions ("ext. 12", "x12", "#12") before reading digits
+    const trimmed = String(phone).trim().replace(/\s*(?:ext\.?|x|#)\s*\d+$/i, '');
+    const digits = trimmed.replace(/\D/g, '');
+    if (!digits) return null;
+
+    const region = REGIONS[(defaultRegion || DEFAULT_PHONE_REGION).toUpperCase()] || REGIONS[DEFAULT_PHONE_REGION];
+
+    if (trimmed.startsWith('+')) return this.parseInternational(digits);
+    if (digits.startsWith('00')) return this.parseInternational(digits.substring(2));
+    if (region.callingCode === '1' && digits.startsWith('011')) return this.parseInternational(digits.substring(3));
+
+    const national = this.parseNational(digits, region);
+    if (national) return national;
+
+    // Written internationally without the +, e.g. 447700900123
+    if (digits.startsWith(region.callingCode)) {
+      return this.parseInternational(digits);
+    }
+
+    return null;
+  }
+
+  /**
+   * E.164 form of a number, or null if it can't be parsed or is impossible.
+   */
+  static toE164(phone: string, defaultRegion: string = DEFAULT_PHONE_REGION): string | null {
+    return this.parse(phone, defaultRegion)?.e164 || null;
+  }
+
+  static isValid(phone: string, defaultRegion: string = DEFAULT_PHONE_REGION): boolean {
+    return this.parse(phone, defaultRegion) !== null;
+  }
+
   /**
    * Generate multiple phone number variations for searching
    */
-  static generateVariations(phone: string): PhoneVariation[] {
+  static generateVariations(phone: string, defaultRegion: string = DEFAULT_PHONE_REGION): PhoneVariation[] {
     if (!phone) return [];
-    
-    // Clean the input - remove all non-digit characters except +
-    const cleanPhone = phone.replace(/[^\d+]/g, '');
-    
-    const variations: PhoneVariation[] = [];
-    
-    // Add original format
-    variations.push({
-      format: phone,
-      description: 'original'
-    });
-    
-    // If it starts with +44, create UK variations
-    if (cleanPhone.startsWith('+44')) {
-      const ukNumber = cleanPhone.substring(3); // Remove +44
-      
-      // +447366842442 -> 07366842442
-      if (ukNumber.startsWith('7')) {
-        variations.push({
-          format: `0${ukNumber}`,
-          description: 'uk_local'
-        });
-      }
-      
-      // +447366842442 -> 447366842442 (without +)
-      variations.push({
-        format: `44${ukNumber}`,
-        description: 'international_no_plus'
-      });
-    }
-    
-    // If it starts with 0, create international variations
-    else if (cleanPhone.startsWith('0')) {
-      const localNumber = cleanPhone.substring(1); // Remove leading 0
-      
-      // 07366842442 -> +447366842442
-      if (localNumber.startsWith('7')) {
-        variations.push({
-          format: `+44${localNumber}`,
-          description: 'international_plus'
-        });
-        
-        // 07366842442 -> 447366842442
-        variations.push({
-          format: `44${localNumber}`,
-          description: 'international_no_plus'
-        });
-      }
-    }
-    
-    // If it starts with 44 (but not +44), add + version
-    else if (cleanPhone.startsWith('44') && !cleanPhone.startsWith('+')) {
-      variations.push({
-        format: `+${cleanPhone}`,
-        description: 'add_plus'
-      });
-      
-      // 447366842442 -> 07366842442
-      const ukNumber = cleanPhone.substring(2);
-      if (ukNumber.startsWith('7')) {
-        variations.push({
-          format: `0${ukNumber}`,
-          description: 'uk_local'
-        });
+
+    const variations: PhoneVariation[] = [{ format: phone, description: 'original' }];
+    const parsed = this.parse(phone, defaultRegion);
+
+    if (parsed && !parsed.callingCode) {
+      variations.push(
+        { format: parsed.e164, description: 'e164' },
+        { format: parsed.nationalNumber, description: 'international_no_plus' },
+      );
+    } else if (parsed) {
+      const trunkPrefix = parsed.region ? REGIONS[parsed.region].trunkPrefix || '' : '';
+
+      variations.push(
+        { format: parsed.e164, description: 'e164' },
+        { format: `+${parsed.callingCode} ${parsed.nationalNumber}`, description: 'international_display' },
+        { format: `${parsed.callingCode}${parsed.nationalNumber}`, description: 'international_no_plus' },
+        { format: `${trunkPrefix}${parsed.nationalNumber}`, description: 'national' },
+      );
+
+      if (trunkPrefix) {
+        variations.push({ format: parsed.nationalNumber, description: 'national_no_prefix' });
       }
     }
-    
+
     // Remove duplicates and return
-    const uniqueVariations = variations.filter((v, i, arr) => 
-      arr.findIndex(x => x.format === v.format) === i
-    );
-    
-    return uniqueVariations;
+    return variations.filter((v, i, arr) => arr.findIndex(x => x.format === v.format) === i);
   }
-  
+
   /**
-   * Normalize phone number to a standard format for storage/comparison
+   * Normalize phone number to a standard format for storage/comparison.
+   * Numbers that can't be parsed keep their digits (and any leading +).
    */
-  static normalize(phone: string): string {
+  static normalize(phone: string, defaultRegion: string = DEFAULT_PHONE_REGION): string {
     if (!phone) return '';
-    
-    const cleanPhone = phone.replace(/[^\d+]/g, '');
-    
-    // Convert UK local format to international
-    if (cleanPhone.startsWith('0')) {
-      const localNumber = cleanPhone.substring(1);
-      if (localNumber.startsWith('7')) {
-        return `+44${localNumber}`;
-      }
-    }
-    
-    // Add + to international format if missing
-    if (cleanPhone.startsWith('44') && !cleanPhone.startsWith('+')) {
-      return `+${cleanPhone}`;
-    }
-    
-    return cleanPhone;
+    return this.toE164(phone, defaultRegion) || phone.replace(/[^\d+]/g, '');
   }
-  
+
   /**
    * Check if two phone numbers are equivalent
    */
-  static areEquivalent(phone1: string, phone2: string): boolean {
+  static areEquivalent(phone1: string, phone2: string, defaultRegion: string = DEFAULT_PHONE_REGION): boolean {
     if (!phone1 || !phone2) return false;
-    
-    const normalized1 = this.normalize(phone1);
-    const normalized2 = this.normalize(phone2);
-    
+
+    const normalized1 = this.normalize(phone1, defaultRegion);
+    const normalized2 = this.normalize(phone2, defaultRegion);
+
     return normalized1 === normalized2;
   }
-}
\ No newline at end of file
+
+  private static parseNational(digits: string, region: RegionMetadata): ParsedPhoneNumber | null {
+    const candidates = region.trunkPrefix && digits.startsWith(region.trunkPrefix)
+      ? [digits.substring(region.trunkPrefix.length), digits]
+      : [digits];
+
+    const nationalNumber = candidates.find(candidate => region.pattern.test(candidate));
+    if (!nationalNumber) return null;
+
+    return this.build(region.callingCode, nationalNumber);
+  }
+
+  private static parseInternational(digits: string): ParsedPhoneNumber | null {
+    for (const length of [1, 2, 3]) {
+      const callingCode = digits.substring(0, length);
+      const regionCode = REGION_BY_CALLING_CODE[callingCode];
+      if (!regionCode) continue;
+
+      const region = REGIONS[regionCode];
+      let nationalNumber = digits.substring(length);
+
+      // "+44 (0)20 ..." style numbers repeat the trunk prefix
+      if (region.trunkPrefix && nationalNumber.startsWith(region.trunkPrefix) && region.pattern.test(nationalNumber.substring(1))) {
+        nationalNumber = nationalNumber.substring(1);
+      }
+
+      return region.pattern.test(nationalNumber) ? this.build(callingCode, nationalNumber) : null;
+    }
+
+    // Countries outside the table only get the E.164 length check
+    if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) return null;
+    return { e164: `+${digits}`, callingCode: '', nationalNumber: digits };
+  }
+
+  private static build(callingCode: string, nationalNumber: string): ParsedPhoneNumber {
+    return {
+      e164: `+${callingCode}${nationalNumber}`,
+      callingCode,
+      nationalNumber,
+      region: REGION_BY_CALLING_CODE[callingCode],
+    };
+  }
+}
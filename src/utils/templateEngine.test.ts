@@ -0,0 +1,155 @@
+import { TemplateEngine, TemplateError, TemplateResolver } from './templateEngine';
+
+const CALL_START = 1760000000000; // 2025-10-09T08:53:20Z
+
+const DATA: Record<string, any> = {
+  call: {
+    start: CALL_START,
+    startIso: '2025-10-09T08:53:20.000Z',
+    duration: 754000,
+    summary: 'Caller asked about the premium plan and wants a demo next week',
+  },
+  contact: {
+    name: '  ada LOVELACE-king  ',
+    phone: '020 7946 0958',
+    vip: 'yes',
+    optedOut: 'false',
+    region: 'US',
+  },
+  deal: { value: 1234.5, currency: 'EUR', locale: 'de-DE', badCurrency: 'EURO' },
+  empty: '',
+  nothing: null,
+  skippedAction: { output: 'ignored' },
+};
+
+const resolve: TemplateResolver = (path) => {
+  if (path.startsWith('skippedAction.')) return { found: true, skipped: true };
+
+  let current: any = DATA;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined || !(segment in Object(current))) return { found: false };
+    current = current[segment];
+  }
+  return { found: true, value: current };
+};
+
+const render = (template: string) => TemplateEngine.render(template, resolve);
+const text = (template: string) => render(template).text;
+
+describe('TemplateEngine', () => {
+  describe('filters', () => {
+    it.each([
+      ['default on a missing path', '{{ contact.title | default:"Unknown" }}', 'Unknown'],
+      ['default on an empty string', '{{ empty | default:"n/a" }}', 'n/a'],
+      ['default on null', '{{ nothing | default:"n/a" }}', 'n/a'],
+      ['default keeps a value', '{{ contact.vip | default:"no" }}', 'yes'],
+      ['default without a fallback', '{{ contact.title | default }}', ''],
+      ['upper', '{{ contact.vip | upper }}', 'YES'],
+      ['lower', '{{ contact.name | lower }}', '  ada lovelace-king  '],
+      ['trim', '{{ contact.name | trim }}', 'ada LOVELACE-king'],
+      ['titlecase', '{{ contact.name | trim | titlecase }}', 'Ada Lovelace-King'],
+      ['titlecase after an apostrophe', '{{ "o\'brien" | titlecase }}', "O'Brien"],
+      ['truncate with the default length', '{{ call.summary | truncate }}', 'Caller asked about the premium plan and wants a...'],
+      ['truncate with a length', '{{ call.summary | truncate:20 }}', 'Caller asked abou...'],
+      ['truncate with a suffix', '{{ call.summary | truncate:13," [more]" }}', 'Caller [more]'],
+      ['truncate leaves short text alone', '{{ contact.vip | truncate:10 }}', 'yes'],
+      ['if on a truthy string', '{{ contact.vip | if:"VIP","Standard" }}', 'VIP'],
+      ['if on "false"', '{{ contact.optedOut | if:"Opted out","Subscribed" }}', 'Subscribed'],
+      ['if on a missing value', '{{ empty | if:"set" }}', ''],
+      ['equals a match', '{{ contact.region | equals:"US" | if:"domestic","international" }}', 'domestic'],
+      ['equals a number to its string', '{{ deal.value | equals:"1234.5" }}', 'true'],
+      ['equals a mismatch', '{{ contact.region | equals:"GB" }}', 'false'],
+      ['date with the default format', '{{ call.start | date }}', '2025-10-09'],
+      ['date with a format', '{{ call.start | date:"DD/MM/YYYY HH:mm:ss" }}', '09/10/2025 08:53:20'],
+      ['date in a time zone', '{{ call.start | date:"DD/MM/YYYY","Europe/London" }}', '09/10/2025'],
+      ['date across a day boundary', '{{ call.start | date:"YYYY-MM-DD HH:mm","Pacific/Kiritimati" }}', '2025-10-09 22:53'],
+      ['date from an ISO string', '{{ call.startIso | date:"HH:mm","America/New_York" }}', '04:53'],
+      ['date from a numeric string', '{{ "1760000000000" | date }}', '2025-10-09'],
+      ['date of an unparseable value', '{{ contact.vip | date }}', ''],
+      ['currency with the defaults', '{{ deal.value | currency }}', '£1,234.50'],
+      ['currency with a code', '{{ deal.value | currency:"USD","en-US" }}', '$1,234.50'],
+      ['currency from paths', '{{ deal.value | currency:deal.currency,deal.locale }}', '1.234,50 €'],
+      ['currency of a non-number', '{{ contact.vip | currency }}', ''],
+      ['phone in the default region', '{{ contact.phone | phone }}', '+442079460958'],
+      ['phone in a region', '{{ "(415) 555-0134" | phone:"US" }}', '+14155550134'],
+      ['minutes', '{{ call.duration | minutes }}', '13'],
+      ['seconds', '{{ call.duration | seconds }}', '754'],
+      ['duration', '{{ call.duration | duration }}', '12m 34s'],
+      ['duration under a minute', '{{ 42400 | duration }}', '42s'],
+      ['duration of a non-number', '{{ contact.vip | duration }}', ''],
+    ])('%s', (_name, template, expected) => {
+      expect(text(template)).toBe(expected);
+    });
+  });
+
+  describe('argument parsing', () => {
+    it.each([
+      ['double-quoted strings separated by commas', '{{ call.start | date:"DD/MM/YYYY","Europe/London" }}', '09/10/2025'],
+      ['single-quoted strings', "{{ call.start | date:'YYYY','Europe/London' }}", '2025'],
+      ['whitespace around punctuation', '{{ call.start|date : "DD/MM" , "UTC" }}', '09/10'],
+      ['commas and pipes inside strings', '{{ contact.title | default:"a, b | c" }}', 'a, b | c'],
+      ['escaped quotes', '{{ contact.title | default:"say \\"hi\\"" }}', 'say "hi"'],
+      ['integers', '{{ call.summary | truncate:10,"" }}', 'Caller ask'],
+      ['negative numbers', '{{ -5 | equals:-5 }}', 'true'],
+      ['decimals', '{{ 2.5 | equals:"2.5" }}', 'true'],
+      ['booleans', '{{ true | if:"on","off" }}-{{ false | if:"on","off" }}', 'on-off'],
+      ['null', '{{ null | default:"none" }}', 'none'],
+      ['paths as arguments', '{{ contact.title | default:contact.vip }}', 'yes'],
+      ['missing paths as arguments fall back to the filter default', '{{ call.start | date:"YYYY",contact.timeZone }}', '2025'],
+    ])('%s', (_name, template, expected) => {
+      expect(text(template)).toBe(expected);
+    });
+  });
+
+  describe('render', () => {
+    it('leaves unresolved paths in place and reports them', () => {
+      expect(render('Call with {{ contact.title }} on {{ call.start | date }}')).toEqual({
+        text: 'Call with {{ contact.title }} on 2025-10-09',
+        unresolved: ['contact.title'],
+      });
+    });
+
+    it('renders the output of a skipped action as empty', () => {
+      expect(render('[{{ skippedAction.output }}]')).toEqual({ text: '[]', unresolved: [] });
+    });
+
+    it.each(['__proto__', 'constructor.name', 'contact.constructor', 'call.summary.toString'])(
+      'does not resolve %s',
+      (path) => {
+        expect(render(`{{ ${path} }}`).unresolved).toEqual([path]);
+      },
+    );
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['an unknown filter', '{{ contact.vip | shout }}', 'Unknown filter "shout" in {{contact.vip | shout}}'],
+      ['an inherited property as a filter', '{{ contact.vip | toString }}', 'Unknown filter "toString"'],
+      ['an unterminated string', '{{ contact.title | default:"oops }}', 'Unterminated string in {{contact.title | default:"oops}}'],
+      ['an unexpected character', '{{ contact.vip | upper; }}', 'Unexpected ";"'],
+      ['a missing filter name', '{{ contact.vip | }}', 'Invalid template expression'],
+      ['a missing argument', '{{ call.start | date:"YYYY", }}', 'Invalid template expression'],
+      ['an empty expression', '{{ | upper }}', 'Invalid template expression'],
+      ['an invalid time zone', '{{ call.start | date:"YYYY","Mars/Olympus" }}', 'Invalid argument to filter "date" in {{call.start | date:"YYYY","Mars/Olympus"}}'],
+      ['an invalid currency code', '{{ deal.value | currency:"EURO" }}', 'Invalid argument to filter "currency" in {{deal.value | currency:"EURO"}}'],
+      ['an invalid locale', '{{ deal.value | currency:"USD","en_US" }}', 'Invalid argument to filter "currency"'],
+    ])('validate and render reject %s', (_name, template, message) => {
+      expect(() => TemplateEngine.validate(template)).toThrow(TemplateError);
+      expect(() => TemplateEngine.validate(template)).toThrow(message);
+      expect(() => render(template)).toThrow(TemplateError);
+      expect(() => render(template)).toThrow(message);
+    });
+
+    it('reports an invalid currency code that only arrives at render time', () => {
+      const template = '{{ deal.value | currency:deal.badCurrency }}';
+      expect(() => TemplateEngine.validate(template)).not.toThrow();
+      expect(() => render(template)).toThrow('Invalid argument to filter "currency"');
+    });
+
+    it('accepts valid templates', () => {
+      expect(() => TemplateEngine.validate(
+        'Call {{ call.start | date:"DD/MM/YYYY","Europe/London" }} {{ deal.value | currency:"JPY","ja-JP" }} {{ contact.name | trim | titlecase | default:"Unknown" }}',
+      )).not.toThrow();
+    });
+  });
+});
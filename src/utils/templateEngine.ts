@@ -0,0 +1,309 @@
+/**
+ * Template Expression Utility
+ * Renders {{ path | filter:arg }} expressions in workflow fields and deal titles.
+ * Expressions are parsed, never evaluated as code: only dotted paths,
+ * literals and the filters below are understood.
+ */
+
+import { PhoneNormalizer, DEFAULT_PHONE_REGION } from './phoneNormalizer';
+
+export interface TemplateResolution {
+  found: boolean;
+  value?: any;
+  skipped?: boolean; // Known variable with no value (e.g. output of a skipped action)
+}
+
+export type TemplateResolver = (path: string) => TemplateResolution;
+
+export interface TemplateRenderResult {
+  text: string;
+  unresolved: string[];
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Token =
+  | { type: 'path'; value: string }
+  | { type: 'literal'; value: any }
+  | { type: 'punct'; value: '|' | ':' | ',' };
+
+interface FilterCall {
+  name: string;
+  args: Token[];
+}
+
+type Filter = (value: any, ...args: any[]) => any;
+
+// Segments that would reach into object internals
+const BLOCKED_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const FILTERS: Record<string, Filter> = {
+  default: (value, fallback = '') => (TemplateEngine.isEmpty(value) ? fallback : value),
+  upper: (value) => String(value ?? '').toUpperCase(),
+  lower: (value) => String(value ?? '').toLowerCase(),
+  trim: (value) => String(value ?? '').trim(),
+  titlecase: (value) => String(value ?? '')
+    .toLowerCase()
+    .replace(/(^|[\s\-'])([a-z])/g, (_match, separator, letter) => separator + letter.toUpperCase()),
+  truncate: (value, length = 50, suffix = '...') => {
+    const text = String(value ?? '');
+    const max = Number(length);
+    return text.length > max ? text.substring(0, Math.max(0, max - String(suffix).length)).trimEnd() + suffix : text;
+  },
+  if: (value, whenTrue = '', whenFalse = '') => (TemplateEngine.isTruthy(value) ? whenTrue : whenFalse),
+  equals: (value, expected) => String(value) === String(expected),
+  date: (value, format = 'YYYY-MM-DD', timeZone = 'UTC') => TemplateEngine.formatDate(value, String(format), String(timeZone)),
+  currency: (value, currency = 'GBP', locale = 'en-GB') => {
+    const amount = Number(value);
+    if (!Number.isFinite(amount)) return '';
+    return new Intl.NumberFormat(String(locale), { style: 'currency', currency: String(currency) }).format(amount);
+  },
+  phone: (value, region = DEFAULT_PHONE_REGION) => PhoneNormalizer.normalize(String(value ?? ''), String(region)),
+  minutes: (value) => {
+    const ms = Number(value);
+    return Number.isFinite(ms) ? Math.round(ms / 60000) : '';
+  },
+  seconds: (value) => {
+    const ms = Number(value);
+    return Number.isFinite(ms) ? Math.round(ms / 1000) : '';
+  },
+  duration: (value) => {
+    const ms = Number(value);
+    if (!Number.isFinite(ms)) return '';
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+  },
+};
+
+// Filters whose arguments go to Intl, which throws RangeError for unknown
+// time zones, currency codes and locales. validate() runs them on a sample
+// value so a bad literal argument is caught when the template is saved.
+const INTL_FILTER_SAMPLES: Record<string, any> = {
+  date: 0,
+  currency: 0,
+};
+
+export class TemplateEngine {
+  static readonly EXPRESSION_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+
+  /**
+   * Render every {{...}} expression in a template. Paths that cannot be
+   * resolved (and have no default) are left in place and reported.
+   * Throws TemplateError for syntax errors and unknown filters.
+   */
+  static render(template: string, resolve: TemplateResolver): TemplateRenderResult {
+    const unresolved: string[] = [];
+
+    const text = template.replace(this.EXPRESSION_PATTERN, (match, expression) => {
+      const result = this.evaluate(expression, resolve);
+      if (!result.found) {
+        unresolved.push(expression.trim());
+        return match;
+      }
+      return this.isEmpty(result.value) ? '' : String(result.value);
+    });
+
+    return { text, unresolved };
+  }
+
+  /**
+   * Check a template's syntax, filter names and literal filter arguments
+   * without rendering it. Throws TemplateError describing the first problem.
+   */
+  static validate(template: string): void {
+    for (const [, expression] of template.matchAll(this.EXPRESSION_PATTERN)) {
+      const { filters } = this.parse(this.tokenize(expression), expression);
+
+      for (const filter of filters) {
+        if (!Object.prototype.hasOwnProperty.call(FILTERS, filter.name)) {
+          throw new TemplateError(`Unknown filter "${filter.name}" in {{${expression.trim()}}}`);
+        }
+
+        if (Object.prototype.hasOwnProperty.call(INTL_FILTER_SAMPLES, filter.name)) {
+          // Path arguments are only known at render time; their filter defaults stand in
+          const args = filter.args.map(arg => (arg.type === 'literal' ? arg.value : undefined));
+          this.applyFilter(filter.name, expression, INTL_FILTER_SAMPLES[filter.name], args);
+        }
+      }
+    }
+  }
+
+  /**
+   * Evaluate a single expression (the part between the braces).
+   */
+  static evaluate(expression: string, resolve: TemplateResolver): TemplateResolution {
+    const tokens = this.tokenize(expression);
+    const { subject, filters } = this.parse(tokens, expression);
+
+    const current = this.resolveOperand(subject, resolve);
+    // A missing value is fine as long as a default filter supplies one
+    const found = current.found || filters.some(filter => filter.name === 'default');
+    let value = current.value;
+
+    for (const filter of filters) {
+      if (!Object.prototype.hasOwnProperty.call(FILTERS, filter.name)) {
+        throw new TemplateError(`Unknown filter "${filter.name}" in {{${expression.trim()}}}`);
+      }
+
+      const args = filter.args.map(arg => {
+        const resolved = this.resolveOperand(arg, resolve);
+        return resolved.found ? resolved.value : undefined;
+      });
+      value = this.applyFilter(filter.name, expression, value, args);
+    }
+
+    return { found, value };
+  }
+
+  static isEmpty(value: any): boolean {
+    return value === undefined || value === null || value === '';
+  }
+
+  static isTruthy(value: any): boolean {
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      return normalized !== '' && normalized !== 'false' && normalized !== 'no' && normalized !== '0';
+    }
+    return Boolean(value);
+  }
+
+  /**
+   * Format a date with YYYY, MM, DD, HH, mm and ss tokens in a given time zone.
+   */
+  static formatDate(value: any, format: string, timeZone: string): string {
+    if (this.isEmpty(value)) return '';
+
+    const date = typeof value === 'number' || /^\d+$/.test(String(value)) ? new Date(Number(value)) : new Date(value);
+    if (isNaN(date.getTime())) return '';
+
+    const parts: Record<string, string> = {};
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).forEach(part => {
+      parts[part.type] = part.value;
+    });
+
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => ({
+      YYYY: parts.year, MM: parts.month, DD: parts.day,
+      HH: parts.hour, mm: parts.minute, ss: parts.second,
+    }[token]));
+  }
+
+  /**
+   * Run one filter, reporting bad arguments (an unknown time zone or
+   * currency code) as a TemplateError that names the filter.
+   */
+  private static applyFilter(name: string, expression: string, value: any, args: any[]): any {
+    try {
+      return FILTERS[name](value, ...args);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new TemplateError(`Invalid argument to filter "${name}" in {{${expression.trim()}}}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private static resolveOperand(token: Token, resolve: TemplateResolver): TemplateResolution {
+    if (token.type === 'literal') {
+      return { found: true, value: token.value };
+    }
+
+    if (token.type !== 'path' || token.value.split('.').some(segment => BLOCKED_SEGMENTS.has(segment))) {
+      return { found: false };
+    }
+
+    const resolution = resolve(token.value);
+    if (resolution.skipped) return { found: true, value: undefined };
+    // Inherited methods such as toString are not template data
+    return typeof resolution.value === 'function' ? { found: false } : resolution;
+  }
+
+  private static parse(tokens: Token[], expression: string): { subject: Token; filters: FilterCall[] } {
+    const fail = () => new TemplateError(`Invalid template expression {{${expression.trim()}}}`);
+
+    const subject = tokens.shift();
+    if (!subject || subject.type === 'punct') throw fail();
+
+    const filters: FilterCall[] = [];
+    while (tokens.length > 0) {
+      const pipe = tokens.shift();
+      const name = tokens.shift();
+      if (pipe?.type !== 'punct' || pipe.value !== '|' || name?.type !== 'path') throw fail();
+
+      const filter: FilterCall = { name: name.value, args: [] };
+      if (this.isPunct(tokens[0], ':')) {
+        do {
+          tokens.shift();
+          const arg = tokens.shift();
+          if (!arg || arg.type === 'punct') throw fail();
+          filter.args.push(arg);
+        } while (this.isPunct(tokens[0], ','));
+      }
+      filters.push(filter);
+    }
+
+    return { subject, filters };
+  }
+
+  private static isPunct(token: Token | undefined, value: string): boolean {
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private static tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '|' || char === ':' || char === ',') {
+        tokens.push({ type: 'punct', value: char });
+        i++;
+      } else if (char === '"' || char === "'") {
+        let value = '';
+        i++;
+        while (i < expression.length && expression[i] !== char) {
+          if (expression[i] === '\\' && i + 1 < expression.length) i++;
+          value += expression[i++];
+        }
+        if (i >= expression.length) {
+          throw new TemplateError(`Unterminated string in {{${expression.trim()}}}`);
+        }
+        i++;
+        tokens.push({ type: 'literal', value });
+      } else {
+        const match = /^(-?\d+(?:\.\d+)?(?![\w.])|[A-Za-z_][\w]*(?:\.[\w]+)*)/.exec(expression.substring(i));
+        if (!match) {
+          throw new TemplateError(`Unexpected "${char}" in {{${expression.trim()}}}`);
+        }
+
+        const word = match[1];
+        if (/^-?\d/.test(word)) {
+          tokens.push({ type: 'literal', value: Number(word) });
+        } else if (word === 'true' || word === 'false') {
+          tokens.push({ type: 'literal', value: word === 'true' });
+        } else if (word === 'null') {
+          tokens.push({ type: 'literal', value: null });
+        } else {
+          tokens.push({ type: 'path', value: word });
+        }
+        i += word.length;
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -1,4 +1,8 @@
 import Joi from 'joi';
+import { TemplateEngine } from './templateEngine';
+import { CallingWindow } from './callingWindow';
+import { PhoneNormalizer } from './phoneNormalizer';
+import { JsonSchemaValidator } from './jsonSchemaValidator';
 
 export const userRegistrationSchema = Joi.object({
   email: Joi.string().email().required(),
@@ -15,6 +19,184 @@ export const userLoginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+const workflowConditionSchema = Joi.object({
+  field: Joi.string().required(),
+  operator: Joi.string().valid(
+    'equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists',
+    'greater_than', 'less_than', 'indicates_success', 'indicates_booking', 'indicates_failure'
+  ).required(),
+  value: Joi.any().when('operator', {
+    is: Joi.valid('equals', 'not_equals', 'contains', 'not_contains', 'greater_than', 'less_than'),
+    then: Joi.required(),
+  }),
+  logicalOperator: Joi.string().valid('AND', 'OR').optional(),
+});
+
+// Groups nest through the shared 'conditionNode' id, so AND/OR/NOT can go any depth
+const workflowConditionNodeSchema = Joi.alternatives()
+  .conditional(Joi.object({ conditions: Joi.exist() }).unknown(), {
+    then: Joi.object({
+      operator: Joi.string().valid('AND', 'OR', 'NOT').required(),
+      conditions: Joi.array().items(Joi.link('#conditionNode')).min(1).required(),
+    }),
+    otherwise: workflowConditionSchema,
+  })
+  .id('conditionNode');
+
+const workflowActionSchema = Joi.object({
+  type: Joi.string().valid('create_person', 'update_person', 'create_deal', 'update_deal', 'create_activity').required(),
+  crmObject: Joi.string().valid('person', 'deal', 'activity').required(),
+  fields: Joi.object().pattern(
+    Joi.string(),
+    Joi.alternatives().try(Joi.string().allow(''), Joi.number(), Joi.boolean())
+  ).required(),
+  conditions: Joi.array().items(workflowConditionNodeSchema).optional(),
+  outputName: Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).max(50).optional()
+    .messages({ 'string.pattern.base': '"outputName" must start with a letter or underscore and contain only letters, digits and underscores' }),
+});
+
+export const businessWorkflowSchema = Joi.object({
+  id: Joi.string().required(),
+  name: Joi.string().min(1).max(100).required(),
+  description: Joi.string().allow('').max(500).optional(),
+  trigger: Joi.object({
+    event: Joi.string().valid('call_analyzed').required(),
+  }).required(),
+  conditions: Joi.array().items(workflowConditionNodeSchema).default([]),
+  actions: Joi.array().items(workflowActionSchema).min(1).unique('outputName', { ignoreUndefined: true }).required(),
+  enabled: Joi.boolean().default(true),
+});
+
+// TemplateEngine.validate throws, which Joi reports as a custom validation failure
+const templateStringSchema = Joi.string().max(200).custom((value) => {
+  TemplateEngine.validate(value);
+  return value;
+});
+
+export const dealTitlePolicySchema = Joi.object({
+  variables: Joi.object().pattern(
+    Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/),
+    Joi.array().items(Joi.object({
+      type: Joi.string().valid('custom_analysis', 'dynamic_variable', 'summary').required(),
+      key: Joi.when('type', {
+        is: 'summary',
+        then: Joi.string().valid('name', 'topic').required(),
+        otherwise: Joi.string().max(100).required(),
+      }),
+    })).min(1)
+  ).default({}),
+  templates: Joi.array().items(templateStringSchema.required()).max(20).default([]),
+  fallback: templateStringSchema.required(),
+});
+
+const crmIdSchema = Joi.alternatives().try(Joi.string().max(100), Joi.number().integer());
+
+const dealRouteTargetKeys = {
+  pipelineId: crmIdSchema.optional(),
+  stageId: crmIdSchema.optional(),
+  ownerId: crmIdSchema.optional(),
+  value: Joi.alternatives().try(Joi.number().min(0), templateStringSchema).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+};
+
+export const dealRoutingSchema = Joi.object({
+  routes: Joi.array().items(Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    conditions: Joi.array().items(workflowConditionNodeSchema).min(1).required(),
+    ...dealRouteTargetKeys,
+  })).max(50).unique('name').default([]),
+  defaultRoute: Joi.object(dealRouteTargetKeys).required(),
+});
+
+const timeOfDaySchema = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/)
+  .messages({ 'string.pattern.base': '{{#label}} must be a 24-hour time such as 09:00' });
+
+const timezoneSchema = Joi.string().custom((value) => {
+  if (!CallingWindow.isValidTimezone(value)) {
+    throw new Error('it is not an IANA timezone such as Europe/London');
+  }
+  return value;
+});
+
+// Overnight windows aren't supported, so the window must close after it opens
+export const callingWindowSchema = Joi.object({
+  days: Joi.array().items(Joi.string().valid('mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun')).min(1).unique().required(),
+  startTime: timeOfDaySchema.required(),
+  endTime: timeOfDaySchema.required(),
+  holidays: Joi.array().items(Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/)).max(366).default([]),
+  timezoneField: Joi.string().max(100).optional(),
+  defaultTimezone: timezoneSchema.required(),
+}).custom((value) => {
+  if (value.endTime <= value.startTime) {
+    throw new Error('endTime must be later than startTime');
+  }
+  return value;
+});
+
+export const redialPolicySchema = Joi.object({
+  maxAttempts: Joi.number().integer().min(2).max(10).required(),
+  retryOn: Joi.array().items(Joi.string().valid('voicemail', 'no_answer', 'short_call')).min(1).unique().required(),
+  spacingMinutes: Joi.array().items(Joi.number().integer().min(1).max(10080)).min(1).max(9).required(),
+  shortCallSeconds: Joi.number().integer().min(1).max(600).default(30),
+  alternateNumberFields: Joi.array().items(Joi.string().max(100)).max(5).default([]),
+  stopPhrases: Joi.array().items(Joi.string().min(1).max(100)).max(50)
+    .default(['not interested', 'do not call', "don't call", 'remove me']),
+});
+
+export const contactMatchingSchema = Joi.object({
+  threshold: Joi.number().min(0.05).max(1).required(),
+  tieBreaker: Joi.string().valid('most_recent', 'owner_match').default('most_recent'),
+  ambiguousMatches: Joi.string().valid('review', 'tie_breaker').default('review'),
+});
+
+// Keep in step with CallerContextField
+export const callerContextSchema = Joi.object({
+  fields: Joi.array().items(Joi.string().valid(
+    'known_customer', 'customer_name', 'customer_first_name', 'customer_email', 'customer_company', 'account_owner',
+    'open_deal_count', 'open_deal_name', 'open_deal_value', 'open_deal_stage', 'last_activity', 'last_activity_date'
+  )).min(1).unique().required(),
+  timeoutMs: Joi.number().integer().min(100).max(5000).default(1000),
+  cacheTtlSeconds: Joi.number().integer().min(0).max(86400).default(300),
+});
+
+export const appointmentBookingSchema = Joi.object({
+  dateField: Joi.string().max(100).required(),
+  timeField: Joi.string().max(100).optional(),
+  timezoneField: Joi.string().max(100).optional(),
+  defaultTimezone: timezoneSchema.required(),
+  dateOrder: Joi.string().valid('DMY', 'MDY').default('DMY'),
+  durationMinutes: Joi.number().integer().min(5).max(480).default(30),
+  subject: Joi.string().min(1).max(200).default('Appointment'),
+  onConflict: Joi.string().valid('book', 'skip').default('skip'),
+});
+
+// Keep in step with CallFunctionOperation
+export const callFunctionsSchema = Joi.array().items(Joi.object({
+  name: Joi.string().pattern(/^[a-zA-Z0-9_-]{1,64}$/).required(),
+  operation: Joi.string().valid('find_contact', 'check_availability', 'create_lead', 'update_deal_stage', 'add_note').required(),
+  parameters: Joi.object().custom((value) => {
+    const problems = JsonSchemaValidator.checkSchema(value);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+    return value;
+  }).default({ type: 'object', properties: {} }),
+  options: Joi.object({
+    pipelineId: Joi.string().optional(),
+    stageId: Joi.string().optional(),
+    stages: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+    ownerId: Joi.string().optional(),
+    durationMinutes: Joi.number().integer().min(5).max(480).optional(),
+  }).optional(),
+})).max(20).unique('name');
+
+const phoneRegionSchema = Joi.string().uppercase().custom((value) => {
+  if (!PhoneNormalizer.isSupportedRegion(value)) {
+    throw new Error('it is not a supported phone region');
+  }
+  return value;
+});
+
 export const integrationSchema = Joi.object({
   name: Joi.string().min(1).max(100).required(),
   description: Joi.string().max(500).optional(),
@@ -44,16 +226,61 @@ export const integrationSchema = Joi.object({
     customData: Joi.object().optional(),
     selectedPipelineId: Joi.string().optional(),
     selectedStageId: Joi.string().optional(),
+    // CRM field that, when truthy, adds the contact to the do-not-call list
+    doNotCallField: Joi.string().max(100).optional(),
+    // Values exposed to workflow templates as {{crm_config.<key>}}
+    crmConfig: Joi.object().pattern(
+      Joi.string(),
+      Joi.alternatives().try(Joi.string().allow(''), Joi.number(), Joi.boolean())
+    ).optional(),
     webhook: Joi.object({
       url: Joi.string().uri().required(),
       events: Joi.array().items(Joi.string()).required(),
     }).optional(),
   }).optional(),
-  businessWorkflows: Joi.array().items(Joi.object()).optional(),
+  businessWorkflows: Joi.array().items(businessWorkflowSchema).optional(),
+  dealTitlePolicy: dealTitlePolicySchema.allow(null).optional(),
+  dealRouting: dealRoutingSchema.allow(null).optional(),
+  callingWindow: callingWindowSchema.allow(null).optional(),
+  redialPolicy: redialPolicySchema.allow(null).optional(),
+  defaultPhoneRegion: phoneRegionSchema.optional(),
+  contactMatching: contactMatchingSchema.allow(null).optional(),
+  callerContext: callerContextSchema.allow(null).optional(),
+  callFunctions: callFunctionsSchema.allow(null).optional(),
+  appointmentBooking: appointmentBookingSchema.allow(null).optional(),
+  requireSignature: Joi.boolean().optional(),
   isDraft: Joi.boolean().optional(),
   currentStep: Joi.number().integer().min(0).max(10).optional(),
 });
 
+// Partial updates (including draft saves) only check the structure of workflows and call policies
+export const integrationUpdateSchema = Joi.object({
+  businessWorkflows: Joi.array().items(businessWorkflowSchema).optional(),
+  dealTitlePolicy: dealTitlePolicySchema.allow(null).optional(),
+  dealRouting: dealRoutingSchema.allow(null).optional(),
+  callingWindow: callingWindowSchema.allow(null).optional(),
+  redialPolicy: redialPolicySchema.allow(null).optional(),
+  defaultPhoneRegion: phoneRegionSchema.optional(),
+  contactMatching: contactMatchingSchema.allow(null).optional(),
+  callerContext: callerContextSchema.allow(null).optional(),
+  callFunctions: callFunctionsSchema.allow(null).optional(),
+  appointmentBooking: appointmentBookingSchema.allow(null).optional(),
+  // Ownership never changes through an update
+  userId: Joi.forbidden(),
+  organizationId: Joi.forbidden(),
+}).unknown(true);
+
+export const workflowSimulationSchema = Joi.object({
+  payload: Joi.object(),
+  webhookEventId: Joi.string(),
+  workflows: Joi.array().items(businessWorkflowSchema).optional(),
+}).xor('payload', 'webhookEventId');
+
+export const dealTitlePreviewSchema = Joi.object({
+  policy: dealTitlePolicySchema.optional(),
+  limit: Joi.number().integer().min(1).max(50).default(10),
+});
+
 export const updateUserProfileSchema = Joi.object({
   firstName: Joi.string().max(50).optional(),
   lastName: Joi.string().max(50).optional(),
@@ -70,12 +297,150 @@ export const paginationSchema = Joi.object({
 
 export const syncEventFilterSchema = Joi.object({
   integrationId: Joi.string().optional(),
-  status: Joi.string().valid('pending', 'processing', 'completed', 'failed', 'retrying').optional(),
-  eventType: Joi.string().valid('webhook_received', 'call_triggered', 'sync_completed', 'sync_failed').optional(),
+  status: Joi.string().valid('pending', 'processing', 'scheduled', 'completed', 'failed', 'retrying', 'blocked', 'cancelled', 'needs_review').optional(),
+  eventType: Joi.string().valid('webhook_received', 'call_triggered', 'campaign_call', 'redial', 'contact_match', 'sync_completed', 'sync_failed').optional(),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional(),
 }).concat(paginationSchema);
 
+export const campaignSchema = Joi.object({
+  integrationId: Joi.string().required(),
+  name: Joi.string().min(1).max(100).required(),
+  source: Joi.object({
+    type: Joi.string().valid('pipedrive_filter', 'hubspot_list', 'salesforce_list_view', 'zoho_custom_view').required(),
+    id: Joi.alternatives().try(Joi.string().max(100), Joi.number().integer()).required(),
+    objectType: Joi.string().valid('leads', 'contacts').optional(),
+  }).required(),
+  callsPerMinute: Joi.number().integer().min(1).max(60).default(5),
+  maxConcurrent: Joi.number().integer().min(1).max(20).default(2),
+});
+
+export const campaignTargetFilterSchema = Joi.object({
+  status: Joi.string().valid('pending', 'scheduled', 'dialing', 'in_progress', 'completed', 'failed', 'skipped', 'blocked', 'cancelled').optional(),
+}).concat(paginationSchema);
+
+export const doNotCallEntrySchema = Joi.object({
+  phoneNumber: Joi.string().max(50).required(),
+  reason: Joi.string().max(200).optional(),
+});
+
+export const doNotCallFilterSchema = Joi.object({
+  search: Joi.string().max(100).optional(),
+}).concat(paginationSchema);
+
+export const contactReviewFilterSchema = Joi.object({
+  integrationId: Joi.string().optional(),
+}).concat(paginationSchema);
+
+// select: use contactId; create: new contact; merge: mergeContactIds into contactId
+export const contactReviewSchema = Joi.object({
+  action: Joi.string().valid('select', 'create', 'merge').required(),
+  contactId: Joi.when('action', {
+    is: 'create',
+    then: Joi.forbidden(),
+    otherwise: Joi.string().required(),
+  }),
+  mergeContactIds: Joi.when('action', {
+    is: 'merge',
+    then: Joi.array().items(Joi.string()).min(1).max(10).unique().required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+const organizationRoleSchema = Joi.string().valid('owner', 'admin', 'editor', 'viewer');
+
+export const organizationSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+});
+
+export const organizationUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  defaultPhoneRegion: phoneRegionSchema.optional(),
+}).min(1);
+
+export const organizationMemberSchema = Joi.object({
+  role: organizationRoleSchema.required(),
+});
+
+export const organizationInvitationSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: organizationRoleSchema.default('viewer'),
+});
+
+export const invitationAcceptSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+const apiKeyResources = ['integrations', 'accounts', 'sync', 'campaigns', 'do_not_call', 'crm', 'organizations', 'user'];
+
+export const apiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...apiKeyResources.flatMap(resource => [`${resource}:read`, `${resource}:write`])))
+    .min(1)
+    .unique()
+    .required(),
+  expiresInDays: Joi.number().integer().min(1).max(365).optional(),
+});
+
+const totpCodeSchema = Joi.string().trim().pattern(/^\d{6}$/).message('Code must be 6 digits');
+const recoveryCodeSchema = Joi.string().trim().min(10).max(20);
+
+export const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: totpCodeSchema,
+  recoveryCode: recoveryCodeSchema,
+}).xor('code', 'recoveryCode');
+
+export const twoFactorCodeSchema = Joi.object({
+  code: totpCodeSchema.required(),
+});
+
+export const twoFactorResetSchema = Joi.object({
+  password: Joi.string().required(),
+  code: totpCodeSchema,
+  recoveryCode: recoveryCodeSchema,
+}).xor('code', 'recoveryCode');
+
+export const ssoEmailSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+export const ssoConnectionSchema = Joi.object({
+  protocol: Joi.string().valid('oidc', 'saml').default('oidc'),
+  issuer: Joi.when('protocol', {
+    is: 'saml',
+    then: Joi.string().trim().max(1000).required(), // Entity IDs needn't be URLs
+    otherwise: Joi.string().uri({ scheme: ['https', 'http'] }).required(),
+  }),
+  clientId: Joi.when('protocol', {
+    is: 'oidc',
+    then: Joi.string().trim().max(255).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  clientSecret: Joi.when('protocol', {
+    is: 'oidc',
+    then: Joi.string().max(1000).optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  ssoUrl: Joi.when('protocol', {
+    is: 'saml',
+    then: Joi.string().uri({ scheme: ['https', 'http'] }).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  certificate: Joi.when('protocol', {
+    is: 'saml',
+    then: Joi.string().max(20000).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  defaultRole: Joi.string().valid('admin', 'editor', 'viewer').default('viewer'),
+  enforced: Joi.boolean().default(false),
+});
+
+export const ssoDomainSchema = Joi.object({
+  domain: Joi.string().trim().lowercase().domain().required(),
+});
+
 export function validateRequest(schema: Joi.ObjectSchema) {
   return (req: any, res: any, next: any) => {
     const { error, value } = schema.validate(req.body);
@@ -106,4 +471,4 @@ export function validateQuery(schema: Joi.ObjectSchema) {
     req.query = value;
     next();
   };
-}
\ No newline at end of file
+}